@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "Board" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Board_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed a default board that existing tasks move into
+INSERT INTO "Board" ("id", "name", "updatedAt")
+VALUES ('cdefaultboard000000000000', 'General', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN "boardId" TEXT;
+UPDATE "Task" SET "boardId" = 'cdefaultboard000000000000';
+ALTER TABLE "Task" ALTER COLUMN "boardId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Task_boardId_idx" ON "Task"("boardId");
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
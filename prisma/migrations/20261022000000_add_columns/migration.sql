@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "Column" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "color" TEXT NOT NULL DEFAULT '#6b7280',
+    "status" "TaskStatus" NOT NULL DEFAULT 'PENDING',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "boardId" TEXT NOT NULL,
+
+    CONSTRAINT "Column_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed the former fixed columns on every existing board
+INSERT INTO "Column" ("id", "name", "position", "color", "status", "updatedAt", "boardId")
+SELECT 'c' || md5(b."id" || defaults."status"), defaults."name", defaults."position", defaults."color", defaults."status"::"TaskStatus", CURRENT_TIMESTAMP, b."id"
+FROM "Board" b
+CROSS JOIN (VALUES
+    ('Pendiente', 0, '#d97706', 'PENDING'),
+    ('En Progreso', 1, '#2563eb', 'IN_PROGRESS'),
+    ('Completado', 2, '#16a34a', 'COMPLETED')
+) AS defaults("name", "position", "color", "status");
+
+-- AlterTable: map each task status to the matching column of its board
+ALTER TABLE "Task" ADD COLUMN "columnId" TEXT;
+UPDATE "Task" t SET "columnId" = c."id"
+FROM "Column" c
+WHERE c."boardId" = t."boardId" AND c."status" = t."status";
+ALTER TABLE "Task" ALTER COLUMN "columnId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "Column_boardId_position_idx" ON "Column"("boardId", "position");
+
+-- CreateIndex
+CREATE INDEX "Task_columnId_idx" ON "Task"("columnId");
+
+-- AddForeignKey
+ALTER TABLE "Column" ADD CONSTRAINT "Column_boardId_fkey" FOREIGN KEY ("boardId") REFERENCES "Board"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Task" ADD CONSTRAINT "Task_columnId_fkey" FOREIGN KEY ("columnId") REFERENCES "Column"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Board" ADD COLUMN "workflow" JSONB;
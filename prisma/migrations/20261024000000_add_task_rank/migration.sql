@@ -0,0 +1,17 @@
+-- AlterTable: ranks compare byte-wise, whatever the database locale
+ALTER TABLE "Task" ADD COLUMN "rank" TEXT COLLATE "C";
+
+-- Rank existing tasks in their previous order (newest first) per column
+UPDATE "Task" t SET "rank" = ranked."rank"
+FROM (
+    SELECT "id", lpad(row_number() OVER (PARTITION BY "columnId" ORDER BY "createdAt" DESC)::text, 8, '0') || 'i' AS "rank"
+    FROM "Task"
+) ranked
+WHERE ranked."id" = t."id";
+ALTER TABLE "Task" ALTER COLUMN "rank" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "Task_columnId_idx";
+
+-- CreateIndex
+CREATE INDEX "Task_columnId_rank_idx" ON "Task"("columnId", "rank");
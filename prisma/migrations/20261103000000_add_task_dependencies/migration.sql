@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "_TaskBlocks" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_TaskBlocks_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "_TaskBlocks_B_index" ON "_TaskBlocks"("B");
+
+-- AddForeignKey
+ALTER TABLE "_TaskBlocks" ADD CONSTRAINT "_TaskBlocks_A_fkey" FOREIGN KEY ("A") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_TaskBlocks" ADD CONSTRAINT "_TaskBlocks_B_fkey" FOREIGN KEY ("B") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "RecurrenceRule" (
+    "id" TEXT NOT NULL,
+    "rule" TEXT NOT NULL,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "nextRunAt" TIMESTAMP(3) NOT NULL,
+    "lastRunAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "taskId" TEXT NOT NULL,
+
+    CONSTRAINT "RecurrenceRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurrenceRule_taskId_key" ON "RecurrenceRule"("taskId");
+
+-- CreateIndex
+CREATE INDEX "RecurrenceRule_nextRunAt_idx" ON "RecurrenceRule"("nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "RecurrenceRule" ADD CONSTRAINT "RecurrenceRule_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "Task"("id") ON DELETE CASCADE ON UPDATE CASCADE;
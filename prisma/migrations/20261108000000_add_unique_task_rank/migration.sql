@@ -0,0 +1,17 @@
+-- Renumber the columns where concurrent writes left two tasks on one rank,
+-- keeping their current order (rank, then newest first)
+UPDATE "Task" t SET "rank" = ranked."rank"
+FROM (
+    SELECT "id", lpad(row_number() OVER (PARTITION BY "columnId" ORDER BY "rank", "createdAt" DESC)::text, 8, '0') || 'i' AS "rank"
+    FROM "Task"
+    WHERE "columnId" IN (
+        SELECT "columnId" FROM "Task" GROUP BY "columnId", "rank" HAVING count(*) > 1
+    )
+) ranked
+WHERE ranked."id" = t."id";
+
+-- DropIndex
+DROP INDEX "Task_columnId_rank_idx";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Task_columnId_rank_key" ON "Task"("columnId", "rank");
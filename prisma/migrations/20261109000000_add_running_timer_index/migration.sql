@@ -0,0 +1,12 @@
+-- Stop every running timer of a user but the latest, as starting it would have
+UPDATE "TimeEntry" t SET "endedAt" = latest."startedAt"
+FROM (
+    SELECT DISTINCT ON ("userId") "id", "userId", "startedAt"
+    FROM "TimeEntry"
+    WHERE "endedAt" IS NULL
+    ORDER BY "userId", "startedAt" DESC, "id" DESC
+) latest
+WHERE t."userId" = latest."userId" AND t."endedAt" IS NULL AND t."id" <> latest."id";
+
+-- CreateIndex: one running timer per user (partial, so not in schema.prisma)
+CREATE UNIQUE INDEX "TimeEntry_userId_running_key" ON "TimeEntry"("userId") WHERE "endedAt" IS NULL;
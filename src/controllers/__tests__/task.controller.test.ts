@@ -1,7 +1,13 @@
 import { describe, it, expect, vi, beforeEach } from "vitest";
 import type { Request, Response } from "express";
 import { TaskController } from "../task.controller.js";
-import { TaskService } from "../../services/task.service.js";
+import {
+  TaskService,
+  TaskBlockedError,
+  TaskVersionConflictError,
+  BulkTaskError,
+} from "../../services/task.service.js";
+import { WorkflowTransitionError } from "../../services/workflow.service.js";
 import { TaskStatus } from "../../models/index.js";
 import type { Task } from "../../models/index.js";
 
@@ -10,7 +16,33 @@ vi.mock("../../services/task.service.js", () => ({
   TaskService: class MockTaskService {
     createTask = vi.fn();
     getAllTasks = vi.fn();
+    getTaskPage = vi.fn();
+    searchTasks = vi.fn();
+    getOverdueTasks = vi.fn();
     updateTaskStatus = vi.fn();
+    updateTask = vi.fn();
+    moveTaskToColumn = vi.fn();
+    restoreTask = vi.fn();
+    deleteTask = vi.fn();
+    addBlocker = vi.fn();
+    removeBlocker = vi.fn();
+    findTaskById = vi.fn();
+    runBulkOperations = vi.fn();
+  },
+  TaskBlockedError: class TaskBlockedError extends Error {
+    constructor(readonly blockers: unknown[]) {
+      super("Task is blocked by: Design");
+    }
+  },
+  TaskVersionConflictError: class TaskVersionConflictError extends Error {
+    constructor(readonly current: unknown) {
+      super("Task test-id was modified by someone else (current version 4)");
+    }
+  },
+  BulkTaskError: class BulkTaskError extends Error {
+    constructor(readonly results: unknown[]) {
+      super("1 of 2 bulk operations cannot be applied; no task was changed");
+    }
   },
 }));
 
@@ -29,12 +61,15 @@ describe("TaskController", () => {
     mockResponse = {
       status: vi.fn().mockReturnThis(),
       json: vi.fn().mockReturnThis(),
+      setHeader: vi.fn().mockReturnThis(),
     };
 
     // Setup mock request object
     mockRequest = {
       body: {},
       params: {},
+      query: {},
+      get: vi.fn() as any,
     };
   });
 
@@ -64,10 +99,13 @@ describe("TaskController", () => {
       );
 
       // Assert
-      expect(mockTaskService.createTask).toHaveBeenCalledWith({
-        title: "Test Task",
-        description: "Test Description",
-      });
+      expect(mockTaskService.createTask).toHaveBeenCalledWith(
+        {
+          title: "Test Task",
+          description: "Test Description",
+        },
+        undefined
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(201);
       expect(mockResponse.json).toHaveBeenCalledWith({
         id: "test-id",
@@ -79,6 +117,39 @@ describe("TaskController", () => {
       });
     });
 
+    it("should record the authenticated user as creator", async () => {
+      // Arrange
+      mockRequest.body = { title: "Test Task", assigneeId: "user-2" };
+      (mockRequest as any).user = { userId: "user-1", username: "alice" };
+      mockTaskService.createTask.mockResolvedValue({
+        id: "test-id",
+        title: "Test Task",
+        status: TaskStatus.PENDING,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2023-01-01T00:00:00.000Z"),
+        createdById: "user-1",
+        assigneeId: "user-2",
+      });
+
+      // Act
+      await taskController.createTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.createTask).toHaveBeenCalledWith(
+        { title: "Test Task", assigneeId: "user-2" },
+        "user-1"
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          createdById: "user-1",
+          assigneeId: "user-2",
+        })
+      );
+    });
+
     it("should create a task without description and return 201", async () => {
       // Arrange
       const mockTask: Task = {
@@ -102,9 +173,12 @@ describe("TaskController", () => {
       );
 
       // Assert
-      expect(mockTaskService.createTask).toHaveBeenCalledWith({
-        title: "Test Task",
-      });
+      expect(mockTaskService.createTask).toHaveBeenCalledWith(
+        {
+          title: "Test Task",
+        },
+        undefined
+      );
       expect(mockResponse.status).toHaveBeenCalledWith(201);
       expect(mockResponse.json).toHaveBeenCalledWith({
         id: "test-id",
@@ -186,6 +260,30 @@ describe("TaskController", () => {
       });
     });
 
+    it("should return 400 when priority is unknown", async () => {
+      // Arrange
+      mockRequest.body = {
+        title: "Test Task",
+        priority: "CRITICAL",
+      };
+
+      // Act
+      await taskController.createTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.createTask).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Validation Error",
+        message: "Priority must be one of: LOW, MEDIUM, HIGH, URGENT",
+        statusCode: 400,
+        timestamp: expect.any(String),
+      });
+    });
+
     it("should return 500 when service throws an error", async () => {
       // Arrange
       mockRequest.body = {
@@ -235,7 +333,10 @@ describe("TaskController", () => {
         },
       ];
 
-      mockTaskService.getAllTasks.mockResolvedValue(mockTasks);
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: mockTasks,
+        nextCursor: null,
+      });
 
       // Act
       await taskController.getAllTasks(
@@ -244,7 +345,7 @@ describe("TaskController", () => {
       );
 
       // Assert
-      expect(mockTaskService.getAllTasks).toHaveBeenCalled();
+      expect(mockTaskService.getTaskPage).toHaveBeenCalled();
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith([
         {
@@ -265,9 +366,162 @@ describe("TaskController", () => {
       ]);
     });
 
+    it("should filter by the authenticated user when assignee=me", async () => {
+      // Arrange
+      mockRequest.query = { assignee: "me" };
+      (mockRequest as any).user = { userId: "user-1", username: "alice" };
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: [
+          {
+            id: "task-1",
+            title: "Task 1",
+            status: TaskStatus.PENDING,
+            createdAt: new Date("2023-01-01T00:00:00.000Z"),
+            updatedAt: new Date("2023-01-01T00:00:00.000Z"),
+            assigneeId: "user-1",
+            assignee: { id: "user-1", username: "alice" },
+          },
+        ],
+        nextCursor: null,
+      });
+
+      // Act
+      await taskController.getAllTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.getTaskPage).toHaveBeenCalledWith(
+        {
+          assigneeId: "user-1",
+        },
+        { limit: 50, sort: "rank" }
+      );
+      expect(mockResponse.json).toHaveBeenCalledWith([
+        {
+          id: "task-1",
+          title: "Task 1",
+          status: TaskStatus.PENDING,
+          createdAt: "2023-01-01T00:00:00.000Z",
+          updatedAt: "2023-01-01T00:00:00.000Z",
+          assigneeId: "user-1",
+          assignee: { id: "user-1", username: "alice" },
+        },
+      ]);
+    });
+
+    it("should filter unassigned tasks when assignee=none", async () => {
+      // Arrange
+      mockRequest.query = { assignee: "none" };
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: [],
+        nextCursor: null,
+      });
+
+      // Act
+      await taskController.getAllTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.getTaskPage).toHaveBeenCalledWith(
+        {
+          assigneeId: null,
+        },
+        { limit: 50, sort: "rank" }
+      );
+    });
+
+    it("should scope tasks to the board in the route", async () => {
+      // Arrange
+      mockRequest.params = { boardId: "board-1" };
+      mockRequest.query = { assignee: "me" };
+      (mockRequest as any).user = { userId: "user-1", username: "alice" };
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: [],
+        nextCursor: null,
+      });
+
+      // Act
+      await taskController.getAllTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.getTaskPage).toHaveBeenCalledWith(
+        {
+          boardId: "board-1",
+          assigneeId: "user-1",
+        },
+        { limit: 50, sort: "rank" }
+      );
+    });
+
+    it("should pass filters, sort and cursor to the paged query", async () => {
+      // Arrange
+      mockRequest.query = {
+        status: TaskStatus.COMPLETED,
+        columnId: "column-1",
+        createdFrom: "2023-01-01",
+        updatedTo: "2023-02-01T12:00:00.000Z",
+        sort: "-updatedAt",
+        limit: "10",
+        cursor: "task-9",
+      };
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: [],
+        nextCursor: null,
+      });
+
+      // Act
+      await taskController.getAllTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.getTaskPage).toHaveBeenCalledWith(
+        {
+          columnId: "column-1",
+          status: TaskStatus.COMPLETED,
+          createdFrom: new Date("2023-01-01"),
+          updatedTo: new Date("2023-02-01T12:00:00.000Z"),
+        },
+        { limit: 10, sort: "-updatedAt", cursor: "task-9" }
+      );
+    });
+
+    it("should expose the next page cursor in X-Next-Cursor", async () => {
+      // Arrange
+      mockResponse.setHeader = vi.fn();
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: [],
+        nextCursor: "task-50",
+      });
+
+      // Act
+      await taskController.getAllTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.setHeader).toHaveBeenCalledWith(
+        "X-Next-Cursor",
+        "task-50"
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
     it("should return empty array when no tasks exist", async () => {
       // Arrange
-      mockTaskService.getAllTasks.mockResolvedValue([]);
+      mockTaskService.getTaskPage.mockResolvedValue({
+        tasks: [],
+        nextCursor: null,
+      });
 
       // Act
       await taskController.getAllTasks(
@@ -276,14 +530,14 @@ describe("TaskController", () => {
       );
 
       // Assert
-      expect(mockTaskService.getAllTasks).toHaveBeenCalled();
+      expect(mockTaskService.getTaskPage).toHaveBeenCalled();
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith([]);
     });
 
     it("should return 500 when service throws an error", async () => {
       // Arrange
-      mockTaskService.getAllTasks.mockRejectedValue(
+      mockTaskService.getTaskPage.mockRejectedValue(
         new Error("Database connection failed")
       );
 
@@ -304,6 +558,102 @@ describe("TaskController", () => {
     });
   });
 
+  describe("getOverdueTasks", () => {
+    it("should return the overdue tasks of a board with their due dates", async () => {
+      // Arrange
+      mockRequest.query = { boardId: "board-1" };
+      mockTaskService.getOverdueTasks.mockResolvedValue([
+        {
+          id: "task-1",
+          title: "Send invoice",
+          status: TaskStatus.PENDING,
+          dueAt: new Date("2023-01-05T00:00:00.000Z"),
+          createdAt: new Date("2023-01-01T00:00:00.000Z"),
+          updatedAt: new Date("2023-01-01T00:00:00.000Z"),
+        },
+      ]);
+
+      // Act
+      await taskController.getOverdueTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.getOverdueTasks).toHaveBeenCalledWith({
+        boardId: "board-1",
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith([
+        expect.objectContaining({
+          id: "task-1",
+          dueAt: "2023-01-05T00:00:00.000Z",
+        }),
+      ]);
+    });
+  });
+
+  describe("searchTasks", () => {
+    it("should return matches with their score and highlights", async () => {
+      // Arrange
+      mockRequest.query = { q: "login", boardId: "board-1" };
+      mockTaskService.searchTasks.mockResolvedValue([
+        {
+          task: {
+            id: "task-1",
+            title: "Fix login",
+            status: TaskStatus.PENDING,
+            createdAt: new Date("2023-01-01T00:00:00.000Z"),
+            updatedAt: new Date("2023-01-01T00:00:00.000Z"),
+          },
+          score: 0.6,
+          highlights: { title: "Fix <mark>login</mark>" },
+        },
+      ]);
+
+      // Act
+      await taskController.searchTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.searchTasks).toHaveBeenCalledWith("login", {
+        boardId: "board-1",
+        limit: 20,
+      });
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith([
+        {
+          task: {
+            id: "task-1",
+            title: "Fix login",
+            status: TaskStatus.PENDING,
+            createdAt: "2023-01-01T00:00:00.000Z",
+            updatedAt: "2023-01-01T00:00:00.000Z",
+          },
+          score: 0.6,
+          highlights: { title: "Fix <mark>login</mark>" },
+        },
+      ]);
+    });
+
+    it("should return 400 for a blank query", async () => {
+      // Arrange
+      mockRequest.query = { q: "   " };
+
+      // Act
+      await taskController.searchTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.searchTasks).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
   describe("updateTaskStatus", () => {
     it("should update task status and return 200", async () => {
       // Arrange
@@ -318,6 +668,7 @@ describe("TaskController", () => {
 
       mockRequest.params = { id: "test-id" };
       mockRequest.body = { status: TaskStatus.IN_PROGRESS };
+      (mockRequest as any).user = { userId: "user-1", username: "alice" };
 
       mockTaskService.updateTaskStatus.mockResolvedValue(mockUpdatedTask);
 
@@ -330,7 +681,10 @@ describe("TaskController", () => {
       // Assert
       expect(mockTaskService.updateTaskStatus).toHaveBeenCalledWith(
         "test-id",
-        TaskStatus.IN_PROGRESS
+        TaskStatus.IN_PROGRESS,
+        "user-1",
+        undefined,
+        undefined
       );
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith({
@@ -439,13 +793,50 @@ describe("TaskController", () => {
       });
     });
 
-    it("should return 500 when service throws unexpected error", async () => {
+    it("should return 422 when the board workflow rejects the transition", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { status: TaskStatus.COMPLETED };
+
+      mockTaskService.updateTaskStatus.mockRejectedValue(
+        new WorkflowTransitionError(
+          TaskStatus.PENDING,
+          TaskStatus.COMPLETED,
+          [TaskStatus.IN_PROGRESS],
+          []
+        )
+      );
+
+      // Act
+      await taskController.updateTaskStatus(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(422);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Unprocessable Entity",
+        message: "Transition from PENDING to COMPLETED is not allowed",
+        statusCode: 422,
+        timestamp: expect.any(String),
+        from: TaskStatus.PENDING,
+        to: TaskStatus.COMPLETED,
+        allowed: [TaskStatus.IN_PROGRESS],
+        missing: [],
+      });
+    });
+
+    it("should return 409 with the open blockers of a blocked task", async () => {
       // Arrange
+      const blockers = [
+        { id: "task-2", title: "Design", status: TaskStatus.PENDING },
+      ];
       mockRequest.params = { id: "test-id" };
       mockRequest.body = { status: TaskStatus.IN_PROGRESS };
 
       mockTaskService.updateTaskStatus.mockRejectedValue(
-        new Error("Database connection failed")
+        new TaskBlockedError(blockers)
       );
 
       // Act
@@ -455,12 +846,640 @@ describe("TaskController", () => {
       );
 
       // Assert
-      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
       expect(mockResponse.json).toHaveBeenCalledWith({
-        error: "Internal Server Error",
-        message: "Database connection failed",
-        statusCode: 500,
+        error: "Conflict",
+        message: "Task is blocked by: Design",
+        statusCode: 409,
+        timestamp: expect.any(String),
+        blockers,
+      });
+    });
+
+    it("should pass the If-Match version and return the new ETag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { status: TaskStatus.IN_PROGRESS };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.updateTaskStatus.mockResolvedValue({
+        id: "test-id",
+        title: "Test Task",
+        status: TaskStatus.IN_PROGRESS,
+        version: 4,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2023-01-01T01:00:00.000Z"),
+      });
+
+      // Act
+      await taskController.updateTaskStatus(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockRequest.get).toHaveBeenCalledWith("If-Match");
+      expect(mockTaskService.updateTaskStatus).toHaveBeenCalledWith(
+        "test-id",
+        TaskStatus.IN_PROGRESS,
+        undefined,
+        undefined,
+        3
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("ETag", '"4"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should return 400 when If-Match is not a task ETag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { status: TaskStatus.IN_PROGRESS };
+      (mockRequest.get as any).mockReturnValue('"a", "b"');
+
+      // Act
+      await taskController.updateTaskStatus(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.updateTaskStatus).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it("should return 400 when If-Match is a weak tag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { status: TaskStatus.IN_PROGRESS };
+      (mockRequest.get as any).mockReturnValue('W/"3"');
+
+      // Act
+      await taskController.updateTaskStatus(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.updateTaskStatus).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+
+    it("should return 409 with the current task when If-Match is stale", async () => {
+      // Arrange
+      const current: Task = {
+        id: "test-id",
+        title: "Renamed elsewhere",
+        status: TaskStatus.PENDING,
+        version: 4,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2023-01-01T02:00:00.000Z"),
+      } as Task;
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { status: TaskStatus.IN_PROGRESS };
+      (mockRequest.get as any).mockReturnValue('"3"');
+
+      mockTaskService.updateTaskStatus.mockRejectedValue(
+        new TaskVersionConflictError(current)
+      );
+
+      // Act
+      await taskController.updateTaskStatus(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("ETag", '"4"');
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Conflict",
+        message:
+          "Task test-id was modified by someone else (current version 4)",
+        statusCode: 409,
+        timestamp: expect.any(String),
+        current: expect.objectContaining({
+          id: "test-id",
+          title: "Renamed elsewhere",
+          version: 4,
+          updatedAt: "2023-01-01T02:00:00.000Z",
+        }),
+      });
+    });
+
+    it("should return 500 when service throws unexpected error", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { status: TaskStatus.IN_PROGRESS };
+
+      mockTaskService.updateTaskStatus.mockRejectedValue(
+        new Error("Database connection failed")
+      );
+
+      // Act
+      await taskController.updateTaskStatus(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(500);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Internal Server Error",
+        message: "Database connection failed",
+        statusCode: 500,
+        timestamp: expect.any(String),
+      });
+    });
+  });
+
+  describe("moveTaskToColumn", () => {
+    it("should pass the If-Match version to the service", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { columnId: "column-2" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.moveTaskToColumn.mockResolvedValue({
+        id: "test-id",
+        title: "Test Task",
+        status: TaskStatus.IN_PROGRESS,
+        version: 4,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2023-01-01T01:00:00.000Z"),
+      });
+
+      // Act
+      await taskController.moveTaskToColumn(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.moveTaskToColumn).toHaveBeenCalledWith(
+        "test-id",
+        "column-2",
+        undefined,
+        undefined,
+        3
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("ETag", '"4"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should return 409 when If-Match is stale", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { columnId: "column-2" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.moveTaskToColumn.mockRejectedValue(
+        new TaskVersionConflictError({
+          id: "test-id",
+          title: "Renamed elsewhere",
+          status: TaskStatus.PENDING,
+          version: 4,
+          createdAt: new Date("2023-01-01T00:00:00.000Z"),
+          updatedAt: new Date("2023-01-01T02:00:00.000Z"),
+        } as Task)
+      );
+
+      // Act
+      await taskController.moveTaskToColumn(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe("restoreTask", () => {
+    it("should return 409 when the task changed since If-Match", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.restoreTask.mockRejectedValue(
+        new TaskVersionConflictError({
+          id: "test-id",
+          title: "Renamed elsewhere",
+          status: TaskStatus.PENDING,
+          version: 4,
+          createdAt: new Date("2023-01-01T00:00:00.000Z"),
+          updatedAt: new Date("2023-01-01T02:00:00.000Z"),
+        } as Task)
+      );
+
+      // Act
+      await taskController.restoreTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.restoreTask).toHaveBeenCalledWith("test-id", 3);
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
+  });
+
+  describe("deleteTask", () => {
+    it("should pass the If-Match version to the service", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockResponse.send = vi.fn().mockReturnThis();
+      mockTaskService.deleteTask.mockResolvedValue(undefined);
+
+      // Act
+      await taskController.deleteTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.deleteTask).toHaveBeenCalledWith(
+        "test-id",
+        undefined,
+        3
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(204);
+    });
+
+    it("should return 409 when the task changed since If-Match", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.deleteTask.mockRejectedValue(
+        new TaskVersionConflictError({
+          id: "test-id",
+          title: "Renamed elsewhere",
+          status: TaskStatus.PENDING,
+          version: 4,
+          createdAt: new Date("2023-01-01T00:00:00.000Z"),
+          updatedAt: new Date("2023-01-01T02:00:00.000Z"),
+        } as Task)
+      );
+
+      // Act
+      await taskController.deleteTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("ETag", '"4"');
+    });
+
+    it("should return 400 when If-Match is a weak tag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      (mockRequest.get as any).mockReturnValue('W/"3"');
+
+      // Act
+      await taskController.deleteTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.deleteTask).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("addTaskBlocker", () => {
+    it("should return 409 when the task changed since If-Match", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { blockerId: "blocker-id" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.addBlocker.mockRejectedValue(
+        new TaskVersionConflictError({
+          id: "test-id",
+          title: "Renamed elsewhere",
+          status: TaskStatus.PENDING,
+          version: 4,
+          createdAt: new Date("2023-01-01T00:00:00.000Z"),
+          updatedAt: new Date("2023-01-01T02:00:00.000Z"),
+        } as Task)
+      );
+
+      // Act
+      await taskController.addTaskBlocker(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.addBlocker).toHaveBeenCalledWith(
+        "test-id",
+        "blocker-id",
+        3
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
+
+    it("should return 400 when If-Match is a weak tag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { blockerId: "blocker-id" };
+      (mockRequest.get as any).mockReturnValue('W/"3"');
+
+      // Act
+      await taskController.addTaskBlocker(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.addBlocker).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("removeTaskBlocker", () => {
+    it("should return 409 when the task changed since If-Match", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id", blockerId: "blocker-id" };
+      (mockRequest.get as any).mockReturnValue('"3"');
+      mockTaskService.removeBlocker.mockRejectedValue(
+        new TaskVersionConflictError({
+          id: "test-id",
+          title: "Renamed elsewhere",
+          status: TaskStatus.PENDING,
+          version: 4,
+          createdAt: new Date("2023-01-01T00:00:00.000Z"),
+          updatedAt: new Date("2023-01-01T02:00:00.000Z"),
+        } as Task)
+      );
+
+      // Act
+      await taskController.removeTaskBlocker(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.removeBlocker).toHaveBeenCalledWith(
+        "test-id",
+        "blocker-id",
+        3
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(409);
+    });
+
+    it("should return 400 when If-Match is a weak tag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id", blockerId: "blocker-id" };
+      (mockRequest.get as any).mockReturnValue('W/"3"');
+
+      // Act
+      await taskController.removeTaskBlocker(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.removeBlocker).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("getTaskById", () => {
+    it("should return the task with its version as ETag", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockTaskService.findTaskById.mockResolvedValue({
+        id: "test-id",
+        title: "Test Task",
+        status: TaskStatus.PENDING,
+        version: 2,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2023-01-01T00:00:00.000Z"),
+      });
+
+      // Act
+      await taskController.getTaskById(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("ETag", '"2"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "test-id", version: 2 })
+      );
+    });
+
+    it("should return 404 for a task in the trash", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockTaskService.findTaskById.mockResolvedValue({
+        id: "test-id",
+        deletedAt: new Date("2023-01-02T00:00:00.000Z"),
+      });
+
+      // Act
+      await taskController.getTaskById(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(404);
+    });
+  });
+
+  describe("updateTask", () => {
+    it("should pass only the fields present in the merge patch", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = {
+        title: " <b>Plan</b> ",
+        description: null,
+        labelIds: ["label-1"],
+      };
+      mockTaskService.updateTask.mockResolvedValue({
+        id: "test-id",
+        title: "&lt;b&gt;Plan&lt;/b&gt;",
+        status: TaskStatus.PENDING,
+        version: 5,
+        createdAt: new Date("2023-01-01T00:00:00.000Z"),
+        updatedAt: new Date("2023-01-01T01:00:00.000Z"),
+      });
+
+      // Act
+      await taskController.updateTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.updateTask).toHaveBeenCalledWith(
+        "test-id",
+        {
+          title: "&lt;b&gt;Plan&lt;/b&gt;",
+          description: null,
+          labelIds: ["label-1"],
+        },
+        undefined,
+        undefined
+      );
+      expect(mockResponse.setHeader).toHaveBeenCalledWith("ETag", '"5"');
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+    });
+
+    it("should return 400 when the patch clears the title", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = { title: null };
+
+      // Act
+      await taskController.updateTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.updateTask).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: "Title must be a non-empty string" })
+      );
+    });
+
+    it("should return 400 when the body is not a JSON object", async () => {
+      // Arrange
+      mockRequest.params = { id: "test-id" };
+      mockRequest.body = [{ title: "Plan" }];
+
+      // Act
+      await taskController.updateTask(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.updateTask).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+    });
+  });
+
+  describe("bulkUpdateTasks", () => {
+    it("should return the saved task of every operation", async () => {
+      // Arrange
+      const operations = [
+        { type: "status", taskId: "task-1", status: TaskStatus.COMPLETED },
+        { type: "delete", taskId: "task-2" },
+      ];
+      mockRequest.body = { operations };
+      mockTaskService.runBulkOperations.mockResolvedValue([
+        {
+          taskId: "task-1",
+          ok: true,
+          task: {
+            id: "task-1",
+            title: "Done",
+            status: TaskStatus.COMPLETED,
+            version: 2,
+            createdAt: new Date("2023-01-01T00:00:00.000Z"),
+            updatedAt: new Date("2023-01-02T00:00:00.000Z"),
+          },
+        },
+      ]);
+
+      // Act
+      await taskController.bulkUpdateTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.runBulkOperations).toHaveBeenCalledWith(
+        operations,
+        undefined
+      );
+      expect(mockResponse.status).toHaveBeenCalledWith(200);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        results: [
+          {
+            taskId: "task-1",
+            ok: true,
+            task: expect.objectContaining({
+              id: "task-1",
+              status: "COMPLETED",
+            }),
+          },
+        ],
+      });
+    });
+
+    it("should return 400 for an unknown operation type", async () => {
+      // Arrange
+      mockRequest.body = {
+        operations: [
+          { type: "archive", taskId: "task-1", archived: true },
+          { type: "rename", taskId: "task-2" },
+        ],
+      };
+
+      // Act
+      await taskController.bulkUpdateTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockTaskService.runBulkOperations).not.toHaveBeenCalled();
+      expect(mockResponse.status).toHaveBeenCalledWith(400);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          message:
+            "operations[1]: type must be one of: status, label, assignee, archive, delete",
+        })
+      );
+    });
+
+    it("should return 422 with the results when an operation fails", async () => {
+      // Arrange
+      mockRequest.body = {
+        operations: [
+          { type: "archive", taskId: "task-1", archived: true },
+          { type: "delete", taskId: "missing" },
+        ],
+      };
+      mockTaskService.runBulkOperations.mockRejectedValue(
+        new BulkTaskError([
+          { taskId: "task-1", ok: true },
+          {
+            taskId: "missing",
+            ok: false,
+            error: "Task with ID missing not found",
+          },
+        ])
+      );
+
+      // Act
+      await taskController.bulkUpdateTasks(
+        mockRequest as Request,
+        mockResponse as Response
+      );
+
+      // Assert
+      expect(mockResponse.status).toHaveBeenCalledWith(422);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: "Unprocessable Entity",
+        message:
+          "1 of 2 bulk operations cannot be applied; no task was changed",
+        statusCode: 422,
         timestamp: expect.any(String),
+        results: [
+          { taskId: "task-1", ok: true },
+          {
+            taskId: "missing",
+            ok: false,
+            error: "Task with ID missing not found",
+          },
+        ],
       });
     });
   });
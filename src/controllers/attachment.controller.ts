@@ -0,0 +1,220 @@
+import type { Request, Response } from "express";
+import { AttachmentService } from "../services/attachment.service.js";
+import type { Attachment, AttachmentResponse } from "../models/index.js";
+import type { AuthRequest } from "../types/auth.types.js";
+import { Sanitizer } from "../utils/sanitize.js";
+
+/**
+ * AttachmentController - HTTP request handlers for task attachments
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class AttachmentController {
+  private attachmentService: AttachmentService;
+
+  constructor() {
+    this.attachmentService = new AttachmentService();
+  }
+
+  /**
+   * Retrieves the attachments of a task
+   * GET /tasks/:taskId/attachments
+   */
+  async getAttachments(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      const attachments = await this.attachmentService.getAttachments(taskId);
+
+      res
+        .status(200)
+        .json(
+          attachments.map((attachment) =>
+            this.formatAttachmentResponse(attachment)
+          )
+        );
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Uploads a file (multipart field "file") as the authenticated user
+   * POST /tasks/:taskId/attachments
+   */
+  async createAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      // Set by the upload middleware
+      const file = req.file;
+      if (!file) {
+        this.sendValidationError(
+          res,
+          'File is required (multipart field "file")'
+        );
+        return;
+      }
+
+      const attachment = await this.attachmentService.createAttachment(
+        taskId,
+        {
+          filename: Sanitizer.sanitizeFileName(file.originalname),
+          mimeType: file.mimetype,
+          data: file.buffer,
+        },
+        (req as AuthRequest).user?.userId
+      );
+
+      res.status(201).json(this.formatAttachmentResponse(attachment));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Downloads the content of an attachment
+   * Images are shown inline (thumbnails); other files are always downloaded
+   * GET /tasks/:taskId/attachments/:attachmentId
+   */
+  async downloadAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, attachmentId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!attachmentId || typeof attachmentId !== "string") {
+        this.sendValidationError(
+          res,
+          "Attachment ID is required and must be a string"
+        );
+        return;
+      }
+
+      const { attachment, data } =
+        await this.attachmentService.getAttachmentContent(taskId, attachmentId);
+
+      res.setHeader("X-Content-Type-Options", "nosniff");
+      res.type(attachment.mimeType);
+      if (attachment.mimeType.startsWith("image/")) {
+        res.setHeader("Content-Disposition", "inline");
+      } else {
+        res.attachment(attachment.filename);
+      }
+      res.status(200).send(data);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Removes an attachment and its stored file
+   * DELETE /tasks/:taskId/attachments/:attachmentId
+   */
+  async deleteAttachment(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, attachmentId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!attachmentId || typeof attachmentId !== "string") {
+        this.sendValidationError(
+          res,
+          "Attachment ID is required and must be a string"
+        );
+        return;
+      }
+
+      await this.attachmentService.deleteAttachment(taskId, attachmentId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Sends a 400 response for an invalid request
+   */
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message,
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("required")) {
+      this.sendValidationError(res, error.message);
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats an attachment as an API response
+   */
+  private formatAttachmentResponse(attachment: Attachment): AttachmentResponse {
+    return {
+      id: attachment.id,
+      taskId: attachment.taskId,
+      filename: attachment.filename,
+      mimeType: attachment.mimeType,
+      size: attachment.size,
+      ...(attachment.uploadedById && {
+        uploadedById: attachment.uploadedById,
+      }),
+      ...(attachment.uploadedBy && { uploadedBy: attachment.uploadedBy }),
+      createdAt: attachment.createdAt.toISOString(),
+    };
+  }
+}
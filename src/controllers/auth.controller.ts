@@ -4,7 +4,7 @@ import type { AuthCredentials } from "../types/auth.types.js";
 
 /**
  * AuthController - HTTP request handlers for authentication operations
- * Handles login requests, validates credentials, and returns JWT tokens
+ * Handles login and registration requests, validates credentials, and returns JWT tokens
  */
 export class AuthController {
   private authService: AuthService;
@@ -73,6 +73,49 @@ export class AuthController {
     }
   }
 
+  /**
+   * Handles user registration
+   * POST /auth/register
+   */
+  async register(req: Request, res: Response): Promise<void> {
+    try {
+      // Request body is validated by the register rule set
+      const { username, password } = req.body as AuthCredentials;
+
+      // Create account via service
+      const authResponse = await this.authService.register({
+        username,
+        password,
+      });
+
+      // Return JWT token with 201 status
+      res.status(201).json(authResponse);
+    } catch (error) {
+      // Handle duplicate usernames
+      if (
+        error instanceof Error &&
+        error.message === "Username already exists"
+      ) {
+        res.status(409).json({
+          error: "Conflict",
+          message: "El nombre de usuario ya está en uso",
+          statusCode: 409,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Handle unexpected errors
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
   /**
    * Handles user logout
    * POST /auth/logout
@@ -0,0 +1,367 @@
+import type { Request, Response } from "express";
+import { BoardService } from "../services/board.service.js";
+import { WorkflowService } from "../services/workflow.service.js";
+import type {
+  Board,
+  BoardResponse,
+  CreateBoardRequest,
+  UpdateBoardRequest,
+  WorkflowConfig,
+} from "../models/index.js";
+import { Sanitizer } from "../utils/sanitize.js";
+
+/**
+ * BoardController - HTTP request handlers for board operations
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class BoardController {
+  private boardService: BoardService;
+  private workflowService: WorkflowService;
+
+  constructor() {
+    this.boardService = new BoardService();
+    this.workflowService = new WorkflowService();
+  }
+
+  /**
+   * Creates a new board
+   * POST /boards
+   */
+  async createBoard(req: Request, res: Response): Promise<void> {
+    try {
+      const { name, description } = req.body as CreateBoardRequest;
+
+      if (!name || typeof name !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Name is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Sanitize input before creating board
+      const sanitizedData = Sanitizer.sanitizeBoardInput({
+        name,
+        ...(description && { description }),
+      });
+
+      const board = await this.boardService.createBoard({
+        name: sanitizedData.name ?? "",
+        ...(sanitizedData.description && {
+          description: sanitizedData.description,
+        }),
+      });
+
+      res.status(201).json(this.formatBoardResponse(board));
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Retrieves all boards
+   * GET /boards
+   */
+  async getAllBoards(req: Request, res: Response): Promise<void> {
+    try {
+      const boards = await this.boardService.getAllBoards();
+
+      res
+        .status(200)
+        .json(boards.map((board) => this.formatBoardResponse(board)));
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Retrieves a single board
+   * GET /boards/:id
+   */
+  async getBoard(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate board ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const board = await this.boardService.findBoardById(id);
+      if (!board) {
+        res.status(404).json({
+          error: "Not Found",
+          message: `Board with ID ${id} not found`,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(200).json(this.formatBoardResponse(board));
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Updates board name and description
+   * PUT /boards/:id
+   */
+  async updateBoard(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, description } = req.body as UpdateBoardRequest;
+
+      // Validate board ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (name === undefined && description === undefined) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "At least one of name or description must be provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Sanitize input before updating board
+      const sanitizedData = Sanitizer.sanitizeBoardInput({
+        ...(name !== undefined && { name }),
+        ...(description !== undefined && { description }),
+      });
+
+      const board = await this.boardService.updateBoard(id, sanitizedData);
+
+      res.status(200).json(this.formatBoardResponse(board));
+    } catch (error) {
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Permanently deletes a board and its tasks, trashed ones included
+   * DELETE /boards/:id
+   */
+  async deleteBoard(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate board ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await this.boardService.deleteBoard(id);
+
+      res.status(204).send();
+    } catch (error) {
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("last board")) {
+        res.status(409).json({
+          error: "Conflict",
+          message: "No se puede eliminar el último tablero",
+          statusCode: 409,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Retrieves the workflow (allowed status transitions) of a board
+   * GET /boards/:id/workflow
+   */
+  async getWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate board ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const board = await this.boardService.findBoardById(id);
+      if (!board) {
+        res.status(404).json({
+          error: "Not Found",
+          message: `Board with ID ${id} not found`,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const workflow = await this.workflowService.getWorkflow(id);
+      res.status(200).json(workflow);
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Replaces the workflow of a board (null restores the default)
+   * PUT /boards/:id/workflow
+   */
+  async updateWorkflow(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { workflow } = req.body as { workflow: WorkflowConfig | null };
+
+      // Validate board ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (workflow === undefined) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Workflow is required (use null to restore the default)",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const updated = await this.workflowService.updateWorkflow(id, workflow);
+      res.status(200).json(updated);
+    } catch (error) {
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Formats a board entity as an API response
+   */
+  private formatBoardResponse(board: Board): BoardResponse {
+    return {
+      id: board.id,
+      name: board.name,
+      ...(board.description && { description: board.description }),
+      createdAt: board.createdAt.toISOString(),
+      updatedAt: board.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,252 @@
+import type { Request, Response } from "express";
+import { ChecklistService } from "../services/checklist.service.js";
+import type {
+  ChecklistItem,
+  ChecklistItemResponse,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+  ReorderChecklistRequest,
+} from "../models/index.js";
+import { Sanitizer } from "../utils/sanitize.js";
+
+/**
+ * ChecklistController - HTTP request handlers for task checklist operations
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class ChecklistController {
+  private checklistService: ChecklistService;
+
+  constructor() {
+    this.checklistService = new ChecklistService();
+  }
+
+  /**
+   * Retrieves the checklist of a task
+   * GET /tasks/:taskId/checklist
+   */
+  async getItems(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      const items = await this.checklistService.getItems(taskId);
+
+      res.status(200).json(items.map((item) => this.formatItemResponse(item)));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Appends an item to the checklist of a task
+   * POST /tasks/:taskId/checklist
+   */
+  async createItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const { text } = req.body as CreateChecklistItemRequest;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!text || typeof text !== "string") {
+        this.sendValidationError(res, "Text is required and must be a string");
+        return;
+      }
+
+      const item = await this.checklistService.createItem(taskId, {
+        text: Sanitizer.escapeHtml(Sanitizer.trim(text)),
+      });
+
+      res.status(201).json(this.formatItemResponse(item));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Edits the text of an item or ticks it
+   * PUT /tasks/:taskId/checklist/:itemId
+   */
+  async updateItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, itemId } = req.params;
+      const { text, done } = req.body as UpdateChecklistItemRequest;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!itemId || typeof itemId !== "string") {
+        this.sendValidationError(
+          res,
+          "Checklist item ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (text === undefined && done === undefined) {
+        this.sendValidationError(
+          res,
+          "At least one of text or done must be provided"
+        );
+        return;
+      }
+
+      if (done !== undefined && typeof done !== "boolean") {
+        this.sendValidationError(res, "Done must be a boolean if provided");
+        return;
+      }
+
+      const item = await this.checklistService.updateItem(taskId, itemId, {
+        ...(text !== undefined && {
+          text: Sanitizer.escapeHtml(Sanitizer.trim(text)),
+        }),
+        ...(done !== undefined && { done }),
+      });
+
+      res.status(200).json(this.formatItemResponse(item));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Reorders the checklist of a task
+   * PUT /tasks/:taskId/checklist/order
+   */
+  async reorderItems(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const { itemIds } = req.body as ReorderChecklistRequest;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (
+        !Array.isArray(itemIds) ||
+        !itemIds.every((itemId) => typeof itemId === "string")
+      ) {
+        this.sendValidationError(res, "itemIds must be an array of strings");
+        return;
+      }
+
+      const items = await this.checklistService.reorderItems(taskId, itemIds);
+
+      res.status(200).json(items.map((item) => this.formatItemResponse(item)));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Removes an item from the checklist of a task
+   * DELETE /tasks/:taskId/checklist/:itemId
+   */
+  async deleteItem(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, itemId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!itemId || typeof itemId !== "string") {
+        this.sendValidationError(
+          res,
+          "Checklist item ID is required and must be a string"
+        );
+        return;
+      }
+
+      await this.checklistService.deleteItem(taskId, itemId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Sends a 400 response for an invalid request
+   */
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message,
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Invalid") || error.message.includes("required"))
+    ) {
+      this.sendValidationError(res, error.message);
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a checklist item as an API response
+   */
+  private formatItemResponse(item: ChecklistItem): ChecklistItemResponse {
+    return {
+      id: item.id,
+      taskId: item.taskId,
+      text: item.text,
+      done: item.done,
+      position: item.position,
+      createdAt: item.createdAt.toISOString(),
+      updatedAt: item.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,292 @@
+import type { Request, Response } from "express";
+import { ColumnService } from "../services/column.service.js";
+import type {
+  Column,
+  ColumnResponse,
+  CreateColumnRequest,
+  UpdateColumnRequest,
+  ReorderColumnsRequest,
+} from "../models/index.js";
+import { Sanitizer } from "../utils/sanitize.js";
+
+/**
+ * ColumnController - HTTP request handlers for board column operations
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class ColumnController {
+  private columnService: ColumnService;
+
+  constructor() {
+    this.columnService = new ColumnService();
+  }
+
+  /**
+   * Retrieves the columns of a board in order
+   * GET /boards/:boardId/columns
+   */
+  async getColumns(req: Request, res: Response): Promise<void> {
+    try {
+      const { boardId } = req.params;
+
+      if (!boardId || typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const columns = await this.columnService.getColumns(boardId);
+
+      res
+        .status(200)
+        .json(columns.map((column) => this.formatColumnResponse(column)));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Retrieves the task count and estimate total of each column
+   * GET /boards/:boardId/columns/totals
+   */
+  async getColumnTotals(req: Request, res: Response): Promise<void> {
+    try {
+      const { boardId } = req.params;
+
+      if (!boardId || typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const totals = await this.columnService.getColumnTotals(boardId);
+
+      res.status(200).json(totals);
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Appends a column to a board
+   * POST /boards/:boardId/columns
+   */
+  async createColumn(req: Request, res: Response): Promise<void> {
+    try {
+      const { boardId } = req.params;
+      const { name, color, status } = req.body as CreateColumnRequest;
+
+      if (!boardId || typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (!name || typeof name !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Name is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const column = await this.columnService.createColumn(boardId, {
+        name: Sanitizer.escapeHtml(Sanitizer.trim(name)),
+        ...(color && { color }),
+        ...(status && { status }),
+      });
+
+      res.status(201).json(this.formatColumnResponse(column));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Reorders the columns of a board
+   * PUT /boards/:boardId/columns/order
+   */
+  async reorderColumns(req: Request, res: Response): Promise<void> {
+    try {
+      const { boardId } = req.params;
+      const { columnIds } = req.body as ReorderColumnsRequest;
+
+      if (!boardId || typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (
+        !Array.isArray(columnIds) ||
+        !columnIds.every((columnId) => typeof columnId === "string")
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "columnIds is required and must be an array of strings",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const columns = await this.columnService.reorderColumns(
+        boardId,
+        columnIds
+      );
+
+      res
+        .status(200)
+        .json(columns.map((column) => this.formatColumnResponse(column)));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Renames, recolors or recategorizes a column
+   * PUT /columns/:id
+   */
+  async updateColumn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, color, status } = req.body as UpdateColumnRequest;
+
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Column ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (name === undefined && color === undefined && status === undefined) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "At least one of name, color or status must be provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const column = await this.columnService.updateColumn(id, {
+        ...(name !== undefined && {
+          name: Sanitizer.escapeHtml(Sanitizer.trim(name)),
+        }),
+        ...(color !== undefined && { color }),
+        ...(status !== undefined && { status }),
+      });
+
+      res.status(200).json(this.formatColumnResponse(column));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Deletes an empty column
+   * DELETE /columns/:id
+   */
+  async deleteColumn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Column ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await this.columnService.deleteColumn(id);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      res.status(400).json({
+        error: "Validation Error",
+        message: error.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("Cannot delete")) {
+      res.status(409).json({
+        error: "Conflict",
+        message: error.message.includes("tasks")
+          ? "La columna todavía tiene tareas"
+          : "No se puede eliminar la última columna del tablero",
+        statusCode: 409,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a column entity as an API response
+   */
+  private formatColumnResponse(column: Column): ColumnResponse {
+    return {
+      id: column.id,
+      boardId: column.boardId,
+      name: column.name,
+      position: column.position,
+      color: column.color,
+      status: column.status,
+      createdAt: column.createdAt.toISOString(),
+      updatedAt: column.updatedAt.toISOString(),
+    };
+  }
+}
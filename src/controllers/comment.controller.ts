@@ -0,0 +1,292 @@
+import type { Request, Response } from "express";
+import { CommentService } from "../services/comment.service.js";
+import type {
+  Comment,
+  CommentRevision,
+  CommentResponse,
+  CommentRevisionResponse,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+} from "../models/index.js";
+import type { AuthRequest } from "../types/auth.types.js";
+import { Sanitizer } from "../utils/sanitize.js";
+
+/**
+ * CommentController - HTTP request handlers for task comment threads
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class CommentController {
+  private commentService: CommentService;
+
+  constructor() {
+    this.commentService = new CommentService();
+  }
+
+  /**
+   * Retrieves the comment thread of a task
+   * GET /tasks/:taskId/comments
+   */
+  async getComments(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      const comments = await this.commentService.getComments(taskId);
+      const userId = (req as AuthRequest).user?.userId;
+
+      res
+        .status(200)
+        .json(
+          comments.map((comment) => this.formatCommentResponse(comment, userId))
+        );
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Posts a comment as the authenticated user
+   * POST /tasks/:taskId/comments
+   */
+  async createComment(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const { body } = req.body as CreateCommentRequest;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!body || typeof body !== "string") {
+        this.sendValidationError(res, "Body is required and must be a string");
+        return;
+      }
+
+      const userId = (req as AuthRequest).user?.userId;
+      const comment = await this.commentService.createComment(
+        taskId,
+        Sanitizer.sanitizeCommentInput({ body }),
+        userId
+      );
+
+      res.status(201).json(this.formatCommentResponse(comment, userId));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Edits a comment of the authenticated user
+   * PUT /tasks/:taskId/comments/:commentId
+   */
+  async updateComment(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, commentId } = req.params;
+      const { body } = req.body as UpdateCommentRequest;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!commentId || typeof commentId !== "string") {
+        this.sendValidationError(
+          res,
+          "Comment ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!body || typeof body !== "string") {
+        this.sendValidationError(res, "Body is required and must be a string");
+        return;
+      }
+
+      const userId = (req as AuthRequest).user?.userId;
+      const comment = await this.commentService.updateComment(
+        taskId,
+        commentId,
+        Sanitizer.sanitizeCommentInput({ body }),
+        userId
+      );
+
+      res.status(200).json(this.formatCommentResponse(comment, userId));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Deletes a comment of the authenticated user
+   * DELETE /tasks/:taskId/comments/:commentId
+   */
+  async deleteComment(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, commentId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!commentId || typeof commentId !== "string") {
+        this.sendValidationError(
+          res,
+          "Comment ID is required and must be a string"
+        );
+        return;
+      }
+
+      await this.commentService.deleteComment(
+        taskId,
+        commentId,
+        (req as AuthRequest).user?.userId
+      );
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Retrieves the edit history of a comment
+   * GET /tasks/:taskId/comments/:commentId/revisions
+   */
+  async getRevisions(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId, commentId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!commentId || typeof commentId !== "string") {
+        this.sendValidationError(
+          res,
+          "Comment ID is required and must be a string"
+        );
+        return;
+      }
+
+      const revisions = await this.commentService.getRevisions(
+        taskId,
+        commentId
+      );
+
+      res
+        .status(200)
+        .json(
+          revisions.map((revision) => this.formatRevisionResponse(revision))
+        );
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Sends a 400 response for an invalid request
+   */
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message,
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("Only the author")) {
+      res.status(403).json({
+        error: "Forbidden",
+        message: "Solo el autor puede modificar este comentario",
+        statusCode: 403,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("required")) {
+      this.sendValidationError(res, error.message);
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a comment as an API response for the requesting user
+   */
+  private formatCommentResponse(
+    comment: Comment,
+    userId: string | undefined
+  ): CommentResponse {
+    return {
+      id: comment.id,
+      taskId: comment.taskId,
+      body: comment.body,
+      ...(comment.authorId && { authorId: comment.authorId }),
+      ...(comment.author && { author: comment.author }),
+      createdAt: comment.createdAt.toISOString(),
+      updatedAt: comment.updatedAt.toISOString(),
+      ...(comment.editedAt && { editedAt: comment.editedAt.toISOString() }),
+      revisionCount: comment.revisionCount,
+      editable: !!userId && comment.authorId === userId,
+    };
+  }
+
+  /**
+   * Formats a comment revision as an API response
+   */
+  private formatRevisionResponse(
+    revision: CommentRevision
+  ): CommentRevisionResponse {
+    return {
+      id: revision.id,
+      commentId: revision.commentId,
+      body: revision.body,
+      createdAt: revision.createdAt.toISOString(),
+    };
+  }
+}
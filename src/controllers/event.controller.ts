@@ -0,0 +1,71 @@
+import type { Request, Response } from "express";
+import { taskChangeBus } from "../events/task-change-bus.js";
+import type { TaskChange, TaskChangeResponse } from "../models/index.js";
+import { formatTaskResponse } from "../utils/task-response.js";
+
+/**
+ * Comment lines sent this often keep proxies from closing idle streams
+ */
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+/**
+ * Delay browsers wait before reconnecting a dropped stream
+ */
+const RECONNECT_DELAY_MS = 5 * 1000;
+
+/**
+ * EventController - Server-Sent Events stream of task changes
+ * Events are not replayed: clients reload the board after reconnecting
+ */
+export class EventController {
+  private nextEventId = 1;
+
+  /**
+   * Streams task changes until the client disconnects
+   * GET /events?boardId=
+   * Without boardId the changes of every board are sent
+   */
+  async streamTaskChanges(req: Request, res: Response): Promise<void> {
+    const { boardId } = req.query as Record<string, string | undefined>;
+
+    res.status(200).set({
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      // Disable response buffering in nginx
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write(`retry: ${RECONNECT_DELAY_MS}\n\n`);
+
+    const unsubscribe = taskChangeBus.subscribe((change) => {
+      if (!boardId || change.boardId === boardId) {
+        res.write(this.formatEvent(change));
+      }
+    });
+    const heartbeat = setInterval(() => {
+      res.write(": ping\n\n");
+    }, HEARTBEAT_INTERVAL_MS);
+
+    req.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  }
+
+  /**
+   * Formats a change as an SSE message named after its type
+   */
+  private formatEvent(change: TaskChange): string {
+    const data: TaskChangeResponse = {
+      type: change.type,
+      boardId: change.boardId,
+      taskId: change.taskId,
+      ...(change.task && { task: formatTaskResponse(change.task) }),
+    };
+
+    return `id: ${this.nextEventId++}\nevent: ${change.type}\ndata: ${JSON.stringify(
+      data
+    )}\n\n`;
+  }
+}
@@ -1,2 +1,12 @@
 export { TaskController } from "./task.controller.js";
 export { AuthController } from "./auth.controller.js";
+export { UserController } from "./user.controller.js";
+export { BoardController } from "./board.controller.js";
+export { ColumnController } from "./column.controller.js";
+export { LabelController } from "./label.controller.js";
+export { ChecklistController } from "./checklist.controller.js";
+export { CommentController } from "./comment.controller.js";
+export { AttachmentController } from "./attachment.controller.js";
+export { RecurrenceController } from "./recurrence.controller.js";
+export { TimeEntryController } from "./time-entry.controller.js";
+export { EventController } from "./event.controller.js";
@@ -0,0 +1,214 @@
+import type { Request, Response } from "express";
+import { LabelService } from "../services/label.service.js";
+import type {
+  Label,
+  LabelResponse,
+  CreateLabelRequest,
+  UpdateLabelRequest,
+} from "../models/index.js";
+import { Sanitizer } from "../utils/sanitize.js";
+
+/**
+ * LabelController - HTTP request handlers for board label operations
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class LabelController {
+  private labelService: LabelService;
+
+  constructor() {
+    this.labelService = new LabelService();
+  }
+
+  /**
+   * Retrieves the labels of a board
+   * GET /boards/:boardId/labels
+   */
+  async getLabels(req: Request, res: Response): Promise<void> {
+    try {
+      const { boardId } = req.params;
+
+      if (!boardId || typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const labels = await this.labelService.getLabels(boardId);
+
+      res
+        .status(200)
+        .json(labels.map((label) => this.formatLabelResponse(label)));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Creates a label on a board
+   * POST /boards/:boardId/labels
+   */
+  async createLabel(req: Request, res: Response): Promise<void> {
+    try {
+      const { boardId } = req.params;
+      const { name, color } = req.body as CreateLabelRequest;
+
+      if (!boardId || typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (!name || typeof name !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Name is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const label = await this.labelService.createLabel(boardId, {
+        name: Sanitizer.escapeHtml(Sanitizer.trim(name)),
+        ...(color && { color }),
+      });
+
+      res.status(201).json(this.formatLabelResponse(label));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Renames or recolors a label
+   * PUT /labels/:id
+   */
+  async updateLabel(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name, color } = req.body as UpdateLabelRequest;
+
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Label ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (name === undefined && color === undefined) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "At least one of name or color must be provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const label = await this.labelService.updateLabel(id, {
+        ...(name !== undefined && {
+          name: Sanitizer.escapeHtml(Sanitizer.trim(name)),
+        }),
+        ...(color !== undefined && { color }),
+      });
+
+      res.status(200).json(this.formatLabelResponse(label));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Deletes a label; tasks keep their other labels
+   * DELETE /labels/:id
+   */
+  async deleteLabel(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Label ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await this.labelService.deleteLabel(id);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      res.status(400).json({
+        error: "Validation Error",
+        message: error.message,
+        statusCode: 400,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("already exists")) {
+      res.status(409).json({
+        error: "Conflict",
+        message: "Ya existe una etiqueta con ese nombre en el tablero",
+        statusCode: 409,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a label entity as an API response
+   */
+  private formatLabelResponse(label: Label): LabelResponse {
+    return {
+      id: label.id,
+      boardId: label.boardId,
+      name: label.name,
+      color: label.color,
+      createdAt: label.createdAt.toISOString(),
+      updatedAt: label.updatedAt.toISOString(),
+    };
+  }
+}
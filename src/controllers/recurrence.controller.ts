@@ -0,0 +1,158 @@
+import type { Request, Response } from "express";
+import { RecurrenceService } from "../services/recurrence.service.js";
+import type {
+  RecurrenceRule,
+  RecurrenceRuleResponse,
+  SetRecurrenceRequest,
+} from "../models/index.js";
+
+/**
+ * RecurrenceController - HTTP request handlers for recurring task schedules
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class RecurrenceController {
+  private recurrenceService: RecurrenceService;
+
+  constructor() {
+    this.recurrenceService = new RecurrenceService();
+  }
+
+  /**
+   * Retrieves the recurrence rule of a task
+   * GET /tasks/:taskId/recurrence
+   */
+  async getRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      const rule = await this.recurrenceService.getRecurrence(taskId);
+
+      res.status(200).json(this.formatRecurrenceResponse(rule));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Makes a task recur or replaces its rule
+   * PUT /tasks/:taskId/recurrence
+   */
+  async setRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const { rule, startsAt } = req.body as SetRecurrenceRequest;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!rule || typeof rule !== "string") {
+        this.sendValidationError(res, "Rule is required and must be a string");
+        return;
+      }
+
+      const saved = await this.recurrenceService.setRecurrence(taskId, {
+        rule,
+        ...(startsAt && { startsAt }),
+      });
+
+      res.status(200).json(this.formatRecurrenceResponse(saved));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Stops a task from recurring
+   * DELETE /tasks/:taskId/recurrence
+   */
+  async deleteRecurrence(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      await this.recurrenceService.deleteRecurrence(taskId);
+
+      res.status(204).send();
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Responds 400 with a validation message
+   */
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message,
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (error instanceof Error && error.message.includes("Invalid")) {
+      this.sendValidationError(res, error.message);
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a recurrence rule as an API response
+   */
+  private formatRecurrenceResponse(
+    rule: RecurrenceRule
+  ): RecurrenceRuleResponse {
+    return {
+      id: rule.id,
+      taskId: rule.taskId,
+      rule: rule.rule,
+      startsAt: rule.startsAt.toISOString(),
+      nextRunAt: rule.nextRunAt.toISOString(),
+      ...(rule.lastRunAt && { lastRunAt: rule.lastRunAt.toISOString() }),
+      createdAt: rule.createdAt.toISOString(),
+      updatedAt: rule.updatedAt.toISOString(),
+    };
+  }
+}
@@ -1,12 +1,60 @@
 import type { Request, Response } from "express";
-import { TaskService } from "../services/task.service.js";
+import {
+  TaskService,
+  TaskBlockedError,
+  TaskVersionConflictError,
+  BulkTaskError,
+} from "../services/task.service.js";
+import { WorkflowTransitionError } from "../services/workflow.service.js";
 import {
   TaskStatus,
+  TaskPriority,
+  BULK_OPERATION_TYPES,
+  type Task,
+  type TaskEvent,
+  type TaskEventResponse,
   type CreateTaskRequest,
+  type UpdateTaskRequest,
   type UpdateTaskStatusRequest,
+  type UpdateTaskAssigneeRequest,
+  type UpdateTaskColumnRequest,
+  type UpdateTaskPositionRequest,
+  type UpdateTaskArchiveRequest,
+  type UpdateTaskLabelsRequest,
+  type AddTaskBlockerRequest,
+  type BulkTaskOperation,
+  type BulkTaskRequest,
+  type BulkTaskResult,
+  type BulkTaskResultResponse,
+  type TaskFilters,
+  type TaskView,
+  type TaskSort,
   type TaskResponse,
+  type TaskSearchResultResponse,
+  type WorkflowErrorResponse,
+  type BlockedTaskErrorResponse,
+  type VersionConflictErrorResponse,
+  type BulkTaskErrorResponse,
 } from "../models/index.js";
+import type { AuthRequest } from "../types/auth.types.js";
 import { Sanitizer } from "../utils/sanitize.js";
+import { formatTaskResponse } from "../utils/task-response.js";
+import { formatETag, parseIfMatch } from "../utils/etag.js";
+
+/**
+ * Tasks per page when ?limit= is not given
+ */
+const DEFAULT_PAGE_SIZE = 50;
+
+/**
+ * Search results returned when ?limit= is not given
+ */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Most operations accepted by one bulk request
+ */
+const MAX_BULK_OPERATIONS = 100;
 
 /**
  * TaskController - HTTP request handlers for task operations
@@ -21,12 +69,22 @@ export class TaskController {
 
   /**
    * Creates a new task
-   * POST /tasks
+   * POST /tasks or POST /boards/:boardId/tasks
    */
   async createTask(req: Request, res: Response): Promise<void> {
     try {
       // Validate request body
-      const { title, description } = req.body as CreateTaskRequest;
+      const {
+        title,
+        description,
+        priority,
+        dueAt,
+        estimate,
+        assigneeId,
+        columnId,
+        labelIds,
+      } = req.body as CreateTaskRequest;
+      const boardId = req.params.boardId ?? req.body.boardId;
 
       if (!title || typeof title !== "string") {
         res.status(400).json({
@@ -48,6 +106,76 @@ export class TaskController {
         return;
       }
 
+      if (priority !== undefined && !this.isTaskPriority(priority)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: `Priority must be one of: ${Object.values(TaskPriority).join(", ")}`,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (dueAt !== undefined && !this.isDateString(dueAt)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Due date must be a valid ISO 8601 date if provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (estimate !== undefined && !this.isEstimate(estimate)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Estimate must be a number between 0 and 100 if provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (assigneeId !== undefined && typeof assigneeId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Assignee ID must be a string if provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (boardId !== undefined && typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board ID must be a string if provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (columnId !== undefined && typeof columnId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Column ID must be a string if provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (labelIds !== undefined && !this.isStringArray(labelIds)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Label IDs must be an array of strings if provided",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       // Sanitize input before creating task
       const sanitizedData = Sanitizer.sanitizeTaskInput({
         title,
@@ -60,21 +188,31 @@ export class TaskController {
         ...(sanitizedData.description && {
           description: sanitizedData.description,
         }),
+        ...(priority && { priority }),
+        ...(dueAt && { dueAt }),
+        ...(estimate !== undefined && { estimate }),
+        ...(assigneeId && { assigneeId }),
+        ...(boardId && { boardId }),
+        ...(columnId && { columnId }),
+        ...(labelIds && { labelIds }),
       };
-      const task = await this.taskService.createTask(createTaskData);
-
-      // Format response
-      const taskResponse: TaskResponse = {
-        id: task.id,
-        title: task.title,
-        ...(task.description && { description: task.description }),
-        status: task.status,
-        createdAt: task.createdAt.toISOString(),
-        updatedAt: task.updatedAt.toISOString(),
-      };
+      const task = await this.taskService.createTask(
+        createTaskData,
+        (req as AuthRequest).user?.userId
+      );
 
-      res.status(201).json(taskResponse);
+      this.sendTask(res, 201, task);
     } catch (error) {
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
       res.status(500).json({
         error: "Internal Server Error",
         message:
@@ -87,21 +225,92 @@ export class TaskController {
 
   /**
    * Retrieves all tasks
-   * GET /tasks
+   * GET /tasks or GET /boards/:boardId/tasks
+   * Supports ?boardId=<boardId> and ?assignee=me, ?assignee=none or ?assignee=<userId>
+   * ?view=archived or ?view=trash lists archived or trashed tasks instead
+   * Also filters by ?columnId, ?status, ?label=<id>,<id> (any of them)
+   * and created/updated date ranges,
+   * sorts with ?sort and pages with ?limit and ?cursor (see X-Next-Cursor)
    */
   async getAllTasks(req: Request, res: Response): Promise<void> {
     try {
-      const tasks = await this.taskService.getAllTasks();
+      const { assignee } = req.query;
+      const boardId = req.params.boardId ?? req.query.boardId;
+
+      if (boardId !== undefined && typeof boardId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Board filter must be a single value",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (assignee !== undefined && typeof assignee !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Assignee filter must be a single value",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // The other parameters are checked by the listTasks rule set
+      const {
+        view,
+        status,
+        columnId,
+        createdFrom,
+        createdTo,
+        updatedFrom,
+        updatedTo,
+        dueBefore,
+        sort,
+        limit,
+        cursor,
+        label,
+      } = req.query as Record<string, string | undefined>;
+
+      const filters: TaskFilters = {
+        ...(boardId && { boardId }),
+        ...(columnId && { columnId }),
+        ...(status && { status: status as TaskStatus }),
+        ...(label && { labelIds: label.split(",").filter(Boolean) }),
+        ...(view && { view: view as TaskView }),
+        ...(createdFrom && { createdFrom: new Date(createdFrom) }),
+        ...(createdTo && { createdTo: new Date(createdTo) }),
+        ...(updatedFrom && { updatedFrom: new Date(updatedFrom) }),
+        ...(updatedTo && { updatedTo: new Date(updatedTo) }),
+        ...(dueBefore && { dueBefore: new Date(dueBefore) }),
+      };
+      if (assignee === "me") {
+        filters.assigneeId = (req as AuthRequest).user?.userId ?? null;
+      } else if (assignee === "none") {
+        filters.assigneeId = null;
+      } else if (assignee) {
+        filters.assigneeId = assignee;
+      }
+
+      const { tasks, nextCursor } = await this.taskService.getTaskPage(
+        filters,
+        {
+          limit: limit ? Number(limit) : DEFAULT_PAGE_SIZE,
+          sort: (sort as TaskSort | undefined) ?? "rank",
+          ...(cursor && { cursor }),
+        }
+      );
 
       // Format response
-      const tasksResponse: TaskResponse[] = tasks.map((task) => ({
-        id: task.id,
-        title: task.title,
-        ...(task.description && { description: task.description }),
-        status: task.status,
-        createdAt: task.createdAt.toISOString(),
-        updatedAt: task.updatedAt.toISOString(),
-      }));
+      const tasksResponse: TaskResponse[] = tasks.map((task) =>
+        formatTaskResponse(task)
+      );
+
+      // Clients request the next page with ?cursor=<X-Next-Cursor>
+      if (nextCursor) {
+        res.setHeader("X-Next-Cursor", nextCursor);
+      }
 
       res.status(200).json(tasksResponse);
     } catch (error) {
@@ -122,7 +331,7 @@ export class TaskController {
   async updateTaskStatus(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { status } = req.body as UpdateTaskStatusRequest;
+      const { status, force } = req.body as UpdateTaskStatusRequest;
 
       // Validate task ID
       if (!id || typeof id !== "string") {
@@ -148,23 +357,43 @@ export class TaskController {
         return;
       }
 
-      // Update task status via service
-      const updatedTask = await this.taskService.updateTaskStatus(id, status);
+      if (force !== undefined && typeof force !== "boolean") {
+        this.sendForceValidationError(res);
+        return;
+      }
 
-      // Format response
-      const taskResponse: TaskResponse = {
-        id: updatedTask.id,
-        title: updatedTask.title,
-        ...(updatedTask.description && {
-          description: updatedTask.description,
-        }),
-        status: updatedTask.status,
-        createdAt: updatedTask.createdAt.toISOString(),
-        updatedAt: updatedTask.updatedAt.toISOString(),
-      };
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      // Update task status via service
+      const updatedTask = await this.taskService.updateTaskStatus(
+        id,
+        status,
+        (req as AuthRequest).user?.userId,
+        force,
+        expectedVersion
+      );
 
-      res.status(200).json(taskResponse);
+      this.sendTask(res, 200, updatedTask);
     } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        this.sendWorkflowError(error, res);
+        return;
+      }
+
+      if (error instanceof TaskBlockedError) {
+        this.sendBlockedError(error, res);
+        return;
+      }
+
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
       // Handle specific error cases
       if (error instanceof Error && error.message.includes("not found")) {
         res.status(404).json({
@@ -197,13 +426,115 @@ export class TaskController {
   }
 
   /**
-   * Updates task title and description
-   * PUT /tasks/:id
+   * Applies status, label, assignee, archive and delete operations to many
+   * tasks at once; nothing is saved unless every operation can be applied
+   * POST /tasks/bulk
+   */
+  async bulkUpdateTasks(req: Request, res: Response): Promise<void> {
+    try {
+      const { operations } = (req.body ?? {}) as BulkTaskRequest;
+
+      if (
+        !Array.isArray(operations) ||
+        operations.length === 0 ||
+        operations.length > MAX_BULK_OPERATIONS
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: `operations must be an array of 1 to ${MAX_BULK_OPERATIONS} operations`,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      for (const [index, operation] of operations.entries()) {
+        const problem = this.checkBulkOperation(operation);
+        if (problem) {
+          res.status(400).json({
+            error: "Validation Error",
+            message: `operations[${index}]: ${problem}`,
+            statusCode: 400,
+            timestamp: new Date().toISOString(),
+          });
+          return;
+        }
+      }
+
+      const results = await this.taskService.runBulkOperations(
+        operations,
+        (req as AuthRequest).user?.userId
+      );
+
+      res.status(200).json({
+        results: results.map((result) => this.formatBulkResult(result)),
+      });
+    } catch (error) {
+      if (error instanceof BulkTaskError) {
+        this.sendBulkError(error, res);
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Retrieves a single task
+   * GET /tasks/:id
+   */
+  async getTaskById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const task = await this.taskService.findTaskById(id);
+      if (!task || task.deletedAt) {
+        res.status(404).json({
+          error: "Not Found",
+          message: `Task with ID ${id} not found`,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      this.sendTask(res, 200, task);
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Edits a task with a JSON merge patch: omitted fields are kept and null
+   * clears description, due date, estimate, assignee and labels
+   * PATCH /tasks/:id
    */
   async updateTask(req: Request, res: Response): Promise<void> {
     try {
       const { id } = req.params;
-      const { title, description } = req.body;
 
       // Validate task ID
       if (!id || typeof id !== "string") {
@@ -216,58 +547,996 @@ export class TaskController {
         return;
       }
 
-      // Validate title
-      if (!title || typeof title !== "string" || title.trim().length === 0) {
+      // A merge patch is an object holding the fields to change
+      if (
+        !req.body ||
+        typeof req.body !== "object" ||
+        Array.isArray(req.body)
+      ) {
         res.status(400).json({
           error: "Validation Error",
-          message: "Title is required and must be a non-empty string",
+          message:
+            "Request body must be a JSON object with the fields to change",
           statusCode: 400,
           timestamp: new Date().toISOString(),
         });
         return;
       }
 
-      // Validate description (optional)
-      if (description !== undefined && typeof description !== "string") {
+      const {
+        title,
+        description,
+        priority,
+        dueAt,
+        estimate,
+        assigneeId,
+        labelIds,
+      } = req.body as UpdateTaskRequest;
+
+      // Validate title (optional, cannot be cleared)
+      if (
+        title !== undefined &&
+        (typeof title !== "string" || title.trim().length === 0)
+      ) {
         res.status(400).json({
           error: "Validation Error",
-          message: "Description must be a string if provided",
+          message: "Title must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate description (optional, null clears it)
+      if (
+        description !== undefined &&
+        description !== null &&
+        typeof description !== "string"
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Description must be a string or null",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate priority (optional, cannot be cleared)
+      if (priority !== undefined && !this.isTaskPriority(priority)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: `Priority must be one of: ${Object.values(TaskPriority).join(", ")}`,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate due date (optional, null clears it)
+      if (dueAt !== undefined && dueAt !== null && !this.isDateString(dueAt)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Due date must be a valid ISO 8601 date or null",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate estimate (optional, null clears it)
+      if (
+        estimate !== undefined &&
+        estimate !== null &&
+        !this.isEstimate(estimate)
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Estimate must be a number between 0 and 100 or null",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate assignee (optional, null unassigns)
+      if (
+        assigneeId !== undefined &&
+        assigneeId !== null &&
+        (typeof assigneeId !== "string" || assigneeId.trim().length === 0)
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Assignee ID must be a non-empty string or null",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate labels (optional, null removes them all)
+      if (
+        labelIds !== undefined &&
+        labelIds !== null &&
+        !this.isStringArray(labelIds)
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "labelIds must be an array of strings or null",
           statusCode: 400,
           timestamp: new Date().toISOString(),
         });
         return;
       }
 
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
       // Sanitize input before updating task
-      const sanitizedData = Sanitizer.sanitizeTaskInput({
-        title,
+      const sanitizedData = Sanitizer.sanitizeTaskPatch({
+        ...(title !== undefined && { title }),
         ...(description !== undefined && { description }),
       });
 
-      // Update task via service
+      // Update task via service, passing on only the fields present
       const updateData = {
-        title: sanitizedData.title,
-        ...(sanitizedData.description !== undefined && {
-          description: sanitizedData.description,
+        ...sanitizedData,
+        ...(priority && { priority }),
+        ...(dueAt !== undefined && {
+          dueAt: dueAt === null ? null : new Date(dueAt),
         }),
+        ...(estimate !== undefined && { estimate }),
+        ...(assigneeId !== undefined && { assigneeId }),
+        ...(labelIds !== undefined && { labelIds }),
       };
 
-      const updatedTask = await this.taskService.updateTask(id, updateData);
-
-      // Format response
-      const taskResponse: TaskResponse = {
-        id: updatedTask.id,
-        title: updatedTask.title,
-        ...(updatedTask.description && {
-          description: updatedTask.description,
-        }),
-        status: updatedTask.status,
-        createdAt: updatedTask.createdAt.toISOString(),
-        updatedAt: updatedTask.updatedAt.toISOString(),
-      };
+      const updatedTask = await this.taskService.updateTask(
+        id,
+        updateData,
+        (req as AuthRequest).user?.userId,
+        expectedVersion
+      );
 
-      res.status(200).json(taskResponse);
+      this.sendTask(res, 200, updatedTask);
     } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Clearing a field the task's status requires
+      if (error instanceof WorkflowTransitionError) {
+        this.sendWorkflowError(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Unknown assignee or labels of another board
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Moves a task to another column of its board
+   * PUT /tasks/:id/column
+   */
+  async moveTaskToColumn(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { columnId, force } = req.body as UpdateTaskColumnRequest;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate column ID
+      if (!columnId || typeof columnId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Column ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (force !== undefined && typeof force !== "boolean") {
+        this.sendForceValidationError(res);
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.moveTaskToColumn(
+        id,
+        columnId,
+        (req as AuthRequest).user?.userId,
+        force,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      if (error instanceof WorkflowTransitionError) {
+        this.sendWorkflowError(error, res);
+        return;
+      }
+
+      if (error instanceof TaskBlockedError) {
+        this.sendBlockedError(error, res);
+        return;
+      }
+
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Reorders a task inside its column
+   * PUT /tasks/:id/position
+   */
+  async updateTaskPosition(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { beforeId, afterId } = req.body as UpdateTaskPositionRequest;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate neighbors (null or omitted means the end of the column)
+      const isNeighbor = (value: unknown) =>
+        value === undefined || value === null || typeof value === "string";
+      if (!isNeighbor(beforeId) || !isNeighbor(afterId)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "beforeId and afterId must be task IDs or null",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.updateTaskPosition(
+        id,
+        { beforeId: beforeId ?? null, afterId: afterId ?? null },
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Assigns a task to a user or clears its assignee
+   * PUT /tasks/:id/assignee
+   */
+  async updateTaskAssignee(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { assigneeId } = req.body as UpdateTaskAssigneeRequest;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate assignee (null unassigns the task)
+      if (
+        assigneeId !== null &&
+        (typeof assigneeId !== "string" || assigneeId.trim().length === 0)
+      ) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Assignee ID is required and must be a string or null",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.updateTaskAssignee(
+        id,
+        assigneeId,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      // Unassigning a task whose status requires an assignee
+      if (error instanceof WorkflowTransitionError) {
+        this.sendWorkflowError(error, res);
+        return;
+      }
+
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Replaces the labels of a task
+   * PUT /tasks/:id/labels
+   */
+  async updateTaskLabels(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { labelIds } = req.body as UpdateTaskLabelsRequest;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (!this.isStringArray(labelIds)) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "labelIds is required and must be an array of strings",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.setTaskLabels(
+        id,
+        labelIds,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Marks a task as blocked by another task of its board
+   * POST /tasks/:id/blockers
+   */
+  async addTaskBlocker(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { blockerId } = req.body as AddTaskBlockerRequest;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (!blockerId || typeof blockerId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Blocker ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.addBlocker(
+        id,
+        blockerId,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Removes a blocker from a task
+   * DELETE /tasks/:id/blockers/:blockerId
+   */
+  async removeTaskBlocker(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, blockerId } = req.params;
+
+      // Validate task and blocker IDs
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (!blockerId || typeof blockerId !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Blocker ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.removeBlocker(
+        id,
+        blockerId,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Moves a task to the trash
+   * DELETE /tasks/:id
+   */
+  async deleteTask(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      await this.taskService.deleteTask(
+        id,
+        (req as AuthRequest).user?.userId,
+        expectedVersion
+      );
+
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Retrieves the history of a task (creation, moves, edits, deletion)
+   * GET /tasks/:id/history
+   */
+  async getTaskHistory(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const events = await this.taskService.getTaskHistory(id);
+
+      res
+        .status(200)
+        .json(events.map((event) => this.formatTaskEventResponse(event)));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Searches tasks by title and description, best matches first
+   * GET /tasks/search?q=<text>, optionally scoped with ?boardId and capped with ?limit
+   */
+  async searchTasks(req: Request, res: Response): Promise<void> {
+    try {
+      // Parameters are checked by the searchTasks rule set
+      const { q, boardId, limit } = req.query as Record<
+        string,
+        string | undefined
+      >;
+
+      if (!q || !q.trim()) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Search query (q) is required",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const results = await this.taskService.searchTasks(q, {
+        ...(boardId && { boardId }),
+        limit: limit ? Number(limit) : DEFAULT_SEARCH_LIMIT,
+      });
+
+      const response: TaskSearchResultResponse[] = results.map((result) => ({
+        task: formatTaskResponse(result.task),
+        score: result.score,
+        highlights: result.highlights,
+      }));
+
+      res.status(200).json(response);
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Lists the open tasks past their due date, most overdue first
+   * GET /tasks/overdue
+   */
+  async getOverdueTasks(req: Request, res: Response): Promise<void> {
+    try {
+      // Parameters are checked by the overdueTasks rule set
+      const { boardId } = req.query as Record<string, string | undefined>;
+
+      const tasks = await this.taskService.getOverdueTasks({
+        ...(boardId && { boardId }),
+      });
+
+      res.status(200).json(tasks.map((task) => formatTaskResponse(task)));
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Restores a task from the trash
+   * POST /tasks/:id/restore
+   */
+  async restoreTask(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const restoredTask = await this.taskService.restoreTask(
+        id,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, restoredTask);
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
+      // Handle specific error cases
+      if (error instanceof Error && error.message.includes("not found")) {
+        res.status(404).json({
+          error: "Not Found",
+          message: error.message,
+          statusCode: 404,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (error instanceof Error && error.message.includes("Invalid")) {
+        res.status(400).json({
+          error: "Validation Error",
+          message: error.message,
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Archives or unarchives a task
+   * PUT /tasks/:id/archive
+   */
+  async updateTaskArchive(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { archived } = req.body as UpdateTaskArchiveRequest;
+
+      // Validate task ID
+      if (!id || typeof id !== "string") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "Task ID is required and must be a string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      // Validate archive flag
+      if (typeof archived !== "boolean") {
+        res.status(400).json({
+          error: "Validation Error",
+          message: "archived is required and must be a boolean",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      const expectedVersion = parseIfMatch(req.get("If-Match"));
+      if (expectedVersion === null) {
+        this.sendIfMatchValidationError(res);
+        return;
+      }
+
+      const updatedTask = await this.taskService.setTaskArchived(
+        id,
+        archived,
+        expectedVersion
+      );
+
+      this.sendTask(res, 200, updatedTask);
+    } catch (error) {
+      if (error instanceof TaskVersionConflictError) {
+        this.sendVersionConflict(error, res);
+        return;
+      }
+
       // Handle specific error cases
       if (error instanceof Error && error.message.includes("not found")) {
         res.status(404).json({
@@ -288,4 +1557,213 @@ export class TaskController {
       });
     }
   }
+
+  /**
+   * Responds 422 with the details of a move rejected by the board workflow
+   */
+  private sendWorkflowError(
+    error: WorkflowTransitionError,
+    res: Response
+  ): void {
+    const body: WorkflowErrorResponse = {
+      error: "Unprocessable Entity",
+      message: error.message,
+      statusCode: 422,
+      timestamp: new Date().toISOString(),
+      from: error.from,
+      to: error.to,
+      allowed: error.allowed,
+      missing: error.missing,
+    };
+
+    res.status(422).json(body);
+  }
+
+  /**
+   * Responds 409 with the open blockers of a task that was not force-moved
+   */
+  private sendBlockedError(error: TaskBlockedError, res: Response): void {
+    const body: BlockedTaskErrorResponse = {
+      error: "Conflict",
+      message: error.message,
+      statusCode: 409,
+      timestamp: new Date().toISOString(),
+      blockers: error.blockers,
+    };
+
+    res.status(409).json(body);
+  }
+
+  /**
+   * Responds 422 with the per-operation results of a bulk request that was
+   * not applied
+   */
+  private sendBulkError(error: BulkTaskError, res: Response): void {
+    const body: BulkTaskErrorResponse = {
+      error: "Unprocessable Entity",
+      message: error.message,
+      statusCode: 422,
+      timestamp: new Date().toISOString(),
+      results: error.results.map((result) => this.formatBulkResult(result)),
+    };
+
+    res.status(422).json(body);
+  }
+
+  /**
+   * Formats the outcome of one bulk operation as an API response
+   */
+  private formatBulkResult(result: BulkTaskResult): BulkTaskResultResponse {
+    return {
+      taskId: result.taskId,
+      ok: result.ok,
+      ...(result.task && { task: formatTaskResponse(result.task) }),
+      ...(result.error && { error: result.error }),
+    };
+  }
+
+  /**
+   * Checks the shape of one bulk operation
+   * @returns What is wrong with it, or null when it is well formed
+   */
+  private checkBulkOperation(operation: BulkTaskOperation): string | null {
+    if (!operation || typeof operation !== "object") {
+      return "must be an object";
+    }
+    if (typeof operation.taskId !== "string" || !operation.taskId.trim()) {
+      return "taskId is required and must be a string";
+    }
+
+    switch (operation.type) {
+      case "status":
+        return Object.values(TaskStatus).includes(operation.status)
+          ? null
+          : `status must be one of: ${Object.values(TaskStatus).join(", ")}`;
+      case "label":
+        if (typeof operation.labelId !== "string" || !operation.labelId) {
+          return "labelId is required and must be a string";
+        }
+        return operation.remove === undefined ||
+          typeof operation.remove === "boolean"
+          ? null
+          : "remove must be a boolean";
+      case "assignee":
+        return operation.assigneeId === null ||
+          (typeof operation.assigneeId === "string" &&
+            operation.assigneeId.trim().length > 0)
+          ? null
+          : "assigneeId must be a non-empty string or null";
+      case "archive":
+        return typeof operation.archived === "boolean"
+          ? null
+          : "archived must be a boolean";
+      case "delete":
+        return null;
+      default:
+        return `type must be one of: ${BULK_OPERATION_TYPES.join(", ")}`;
+    }
+  }
+
+  /**
+   * Responds with a task, its version as the ETag for later If-Match writes
+   */
+  private sendTask(res: Response, statusCode: number, task: Task): void {
+    res.setHeader("ETag", formatETag(task.version));
+    res.status(statusCode).json(formatTaskResponse(task));
+  }
+
+  /**
+   * Responds 409 with the server copy of a task changed since the client
+   * read it
+   */
+  private sendVersionConflict(
+    error: TaskVersionConflictError,
+    res: Response
+  ): void {
+    const body: VersionConflictErrorResponse = {
+      error: "Conflict",
+      message: error.message,
+      statusCode: 409,
+      timestamp: new Date().toISOString(),
+      current: formatTaskResponse(error.current),
+    };
+
+    res.setHeader("ETag", formatETag(error.current.version));
+    res.status(409).json(body);
+  }
+
+  /**
+   * Responds 400 to an If-Match header that is not a task ETag
+   */
+  private sendIfMatchValidationError(res: Response): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message: 'Invalid If-Match header: expected a task ETag such as "3"',
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Responds 400 to a force flag that is not a boolean
+   */
+  private sendForceValidationError(res: Response): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message: "force must be a boolean",
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a task history event as an API response
+   */
+  private formatTaskEventResponse(event: TaskEvent): TaskEventResponse {
+    return {
+      id: event.id,
+      taskId: event.taskId,
+      type: event.type,
+      ...(event.actorId && { actorId: event.actorId }),
+      ...(event.actor && { actor: event.actor }),
+      ...(event.before && { before: event.before }),
+      ...(event.after && { after: event.after }),
+      createdAt: event.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Checks that a request value is a known task priority
+   */
+  private isTaskPriority(value: unknown): value is TaskPriority {
+    return Object.values(TaskPriority).includes(value as TaskPriority);
+  }
+
+  /**
+   * Checks that a request value is a parseable date string
+   */
+  private isDateString(value: unknown): value is string {
+    return typeof value === "string" && !Number.isNaN(Date.parse(value));
+  }
+
+  /**
+   * Checks that a request value is a story-point estimate (0 to 100)
+   */
+  private isEstimate(value: unknown): value is number {
+    return (
+      typeof value === "number" &&
+      Number.isFinite(value) &&
+      value >= 0 &&
+      value <= 100
+    );
+  }
+
+  /**
+   * Checks that a request value is an array of strings
+   */
+  private isStringArray(value: unknown): value is string[] {
+    return (
+      Array.isArray(value) && value.every((item) => typeof item === "string")
+    );
+  }
 }
@@ -0,0 +1,316 @@
+import type { Request, Response } from "express";
+import { TimeEntryService } from "../services/time-entry.service.js";
+import type {
+  TimeEntry,
+  TimeEntryResponse,
+  StartTimerRequest,
+  CreateTimeEntryRequest,
+} from "../models/index.js";
+import type { AuthRequest } from "../types/auth.types.js";
+import { Sanitizer } from "../utils/sanitize.js";
+import { durationSeconds, formatHours } from "../utils/duration.js";
+import { toCsv } from "../utils/csv.js";
+
+/**
+ * Columns of the timesheet export
+ */
+const TIMESHEET_HEADER = [
+  "Fecha",
+  "Tablero",
+  "Tarea",
+  "Inicio",
+  "Fin",
+  "Horas",
+  "Nota",
+];
+
+/**
+ * Date without time (YYYY-MM-DD); as the end of a period it covers that day
+ */
+const DATE_ONLY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * TimeEntryController - HTTP request handlers for time tracking
+ * Handles request validation, delegates to service layer, and formats responses
+ */
+export class TimeEntryController {
+  private timeEntryService: TimeEntryService;
+
+  constructor() {
+    this.timeEntryService = new TimeEntryService();
+  }
+
+  /**
+   * Retrieves the time logged on a task
+   * GET /tasks/:taskId/time-entries
+   */
+  async getTimeEntries(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      const entries = await this.timeEntryService.getTimeEntries(taskId);
+
+      res
+        .status(200)
+        .json(entries.map((entry) => this.formatTimeEntryResponse(entry)));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Logs work done without a timer as the authenticated user
+   * POST /tasks/:taskId/time-entries
+   */
+  async createTimeEntry(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const { startedAt, endedAt, note } = req.body as CreateTimeEntryRequest;
+      const userId = (req as AuthRequest).user?.userId;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!userId) {
+        this.sendValidationError(res, "Authenticated user is required");
+        return;
+      }
+
+      const entry = await this.timeEntryService.createTimeEntry(
+        taskId,
+        userId,
+        { startedAt, endedAt, ...Sanitizer.sanitizeTimeEntryInput({ note }) }
+      );
+
+      res.status(201).json(this.formatTimeEntryResponse(entry));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Starts a timer on a task for the authenticated user
+   * POST /tasks/:taskId/time-entries/start
+   */
+  async startTimer(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const { note } = (req.body ?? {}) as StartTimerRequest;
+      const userId = (req as AuthRequest).user?.userId;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!userId) {
+        this.sendValidationError(res, "Authenticated user is required");
+        return;
+      }
+
+      const entry = await this.timeEntryService.startTimer(
+        taskId,
+        userId,
+        Sanitizer.sanitizeTimeEntryInput({ note })
+      );
+
+      res.status(201).json(this.formatTimeEntryResponse(entry));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Stops the authenticated user's timer on a task
+   * POST /tasks/:taskId/time-entries/stop
+   */
+  async stopTimer(req: Request, res: Response): Promise<void> {
+    try {
+      const { taskId } = req.params;
+      const userId = (req as AuthRequest).user?.userId;
+
+      if (!taskId || typeof taskId !== "string") {
+        this.sendValidationError(
+          res,
+          "Task ID is required and must be a string"
+        );
+        return;
+      }
+
+      if (!userId) {
+        this.sendValidationError(res, "Authenticated user is required");
+        return;
+      }
+
+      const entry = await this.timeEntryService.stopTimer(taskId, userId);
+
+      res.status(200).json(this.formatTimeEntryResponse(entry));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Retrieves the authenticated user's running timer
+   * GET /time-entries/running
+   */
+  async getRunningTimer(req: Request, res: Response): Promise<void> {
+    try {
+      const userId = (req as AuthRequest).user?.userId;
+
+      if (!userId) {
+        this.sendValidationError(res, "Authenticated user is required");
+        return;
+      }
+
+      const entry = await this.timeEntryService.getRunningTimer(userId);
+
+      res.status(200).json(this.formatTimeEntryResponse(entry));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Exports the timesheet of a user as CSV
+   * GET /time-entries/timesheet?from=&to=&userId=
+   * A date-only to (YYYY-MM-DD) includes that whole day
+   */
+  async exportTimesheet(req: Request, res: Response): Promise<void> {
+    try {
+      const { from, to, userId } = req.query as Record<
+        string,
+        string | undefined
+      >;
+      const targetId = userId || (req as AuthRequest).user?.userId;
+
+      if (!from || !to) {
+        this.sendValidationError(res, "from and to are required");
+        return;
+      }
+
+      if (!targetId) {
+        this.sendValidationError(res, "Authenticated user is required");
+        return;
+      }
+
+      const end = new Date(to);
+      if (DATE_ONLY_PATTERN.test(to)) {
+        end.setUTCDate(end.getUTCDate() + 1);
+      }
+
+      const entries = await this.timeEntryService.getTimesheet({
+        userId: targetId,
+        from: new Date(from),
+        to: end,
+      });
+
+      res.attachment(`timesheet-${from.slice(0, 10)}-${to.slice(0, 10)}.csv`);
+      res.type("text/csv; charset=utf-8");
+      res.status(200).send(this.formatTimesheetCsv(entries));
+    } catch (error) {
+      this.handleError(error, res);
+    }
+  }
+
+  /**
+   * Sends a 400 response for an invalid request
+   */
+  private sendValidationError(res: Response, message: string): void {
+    res.status(400).json({
+      error: "Validation Error",
+      message,
+      statusCode: 400,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Maps service errors to HTTP responses
+   */
+  private handleError(error: unknown, res: Response): void {
+    if (error instanceof Error && error.message.includes("not found")) {
+      res.status(404).json({
+        error: "Not Found",
+        message: error.message,
+        statusCode: 404,
+        timestamp: new Date().toISOString(),
+      });
+      return;
+    }
+
+    if (
+      error instanceof Error &&
+      (error.message.includes("Invalid") || error.message.includes("required"))
+    ) {
+      this.sendValidationError(res, error.message);
+      return;
+    }
+
+    res.status(500).json({
+      error: "Internal Server Error",
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+      statusCode: 500,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Formats a time entry as an API response
+   */
+  private formatTimeEntryResponse(entry: TimeEntry): TimeEntryResponse {
+    return {
+      id: entry.id,
+      taskId: entry.taskId,
+      ...(entry.task && { task: entry.task }),
+      userId: entry.userId,
+      ...(entry.user && { user: entry.user }),
+      startedAt: entry.startedAt.toISOString(),
+      ...(entry.endedAt && {
+        endedAt: entry.endedAt.toISOString(),
+        durationSeconds: durationSeconds(entry.startedAt, entry.endedAt),
+      }),
+      ...(entry.note && { note: entry.note }),
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+  }
+
+  /**
+   * One row per entry; times in UTC, hours with two decimals
+   */
+  private formatTimesheetCsv(entries: TimeEntry[]): string {
+    return toCsv(
+      TIMESHEET_HEADER,
+      entries.map((entry) => {
+        const endedAt = entry.endedAt ?? entry.startedAt;
+        return [
+          entry.startedAt.toISOString().slice(0, 10),
+          entry.task?.boardName ?? "",
+          entry.task?.title ?? "",
+          entry.startedAt.toISOString(),
+          endedAt.toISOString(),
+          formatHours(durationSeconds(entry.startedAt, endedAt)),
+          entry.note ?? "",
+        ];
+      })
+    );
+  }
+}
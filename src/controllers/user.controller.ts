@@ -0,0 +1,32 @@
+import type { Request, Response } from "express";
+import { UserService } from "../services/user.service.js";
+
+/**
+ * UserController - HTTP request handlers for user operations
+ */
+export class UserController {
+  private userService: UserService;
+
+  constructor() {
+    this.userService = new UserService();
+  }
+
+  /**
+   * Retrieves all users (e.g. to pick a task assignee)
+   * GET /users
+   */
+  async getAllUsers(req: Request, res: Response): Promise<void> {
+    try {
+      const users = await this.userService.getAllUsers();
+      res.status(200).json(users);
+    } catch (error) {
+      res.status(500).json({
+        error: "Internal Server Error",
+        message:
+          error instanceof Error ? error.message : "Unknown error occurred",
+        statusCode: 500,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+}
@@ -13,6 +13,10 @@ if (process.env.NODE_ENV !== "production") {
   globalThis.__prisma = prisma;
 }
 
+// PostgreSQL-only features (full-text search) check this before raw queries
+export const isPostgresDatabase = (): boolean =>
+  /^postgres(ql)?:/.test(process.env.DATABASE_URL ?? "");
+
 // Graceful shutdown handler
 export const disconnectDatabase = async () => {
   await prisma.$disconnect();
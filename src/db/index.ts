@@ -1,3 +1,3 @@
-export { prisma, disconnectDatabase } from "./client.js";
+export { prisma, disconnectDatabase, isPostgresDatabase } from "./client.js";
 export { TaskRepository } from "./task.repository.js";
 export * from "@prisma/client";
@@ -24,24 +24,51 @@ export class TaskRepository {
       title: prismaTask.title,
       description: prismaTask.description ?? undefined,
       status: prismaTask.status,
+      priority: prismaTask.priority,
+      boardId: prismaTask.boardId,
+      columnId: prismaTask.columnId,
+      rank: prismaTask.rank,
+      dueAt: prismaTask.dueAt ?? undefined,
+      estimate: prismaTask.estimate ?? undefined,
+      version: prismaTask.version,
+      archivedAt: prismaTask.archivedAt ?? undefined,
+      deletedAt: prismaTask.deletedAt ?? undefined,
       createdAt: prismaTask.createdAt,
       updatedAt: prismaTask.updatedAt,
+      createdById: prismaTask.createdById ?? undefined,
+      assigneeId: prismaTask.assigneeId ?? undefined,
+      // Relations are not loaded here
+      labels: prismaTask.labels ?? [],
+      checklist: { done: 0, total: 0 },
+      commentCount: 0,
+      attachmentCount: 0,
+      blockedBy: [],
+      loggedSeconds: 0,
     };
   }
 
   /**
    * Creates a new task in the database
-   * @param data - Task creation data
+   * @param data - Task creation data including the owning board, column and rank
    * @returns Promise<Task> - The created task
    * @throws Error if database operation fails
    */
-  async create(data: CreateTaskRequest): Promise<Task> {
+  async create(
+    data: CreateTaskRequest & {
+      boardId: string;
+      columnId: string;
+      rank: string;
+    }
+  ): Promise<Task> {
     try {
       const task = await this.prisma.task.create({
         data: {
           title: data.title,
           description: data.description ?? null,
           status: TaskStatus.PENDING, // Default status
+          boardId: data.boardId,
+          columnId: data.columnId,
+          rank: data.rank,
         },
       });
 
@@ -56,16 +83,15 @@ export class TaskRepository {
   }
 
   /**
-   * Retrieves all tasks from the database
-   * @returns Promise<Task[]> - Array of all tasks ordered by creation date (newest first)
+   * Retrieves all tasks that are not in the trash
+   * @returns Promise<Task[]> - Array of tasks ordered by rank (manual order)
    * @throws Error if database operation fails
    */
   async findMany(): Promise<Task[]> {
     try {
       const tasks = await this.prisma.task.findMany({
-        orderBy: {
-          createdAt: "desc", // Most recent first
-        },
+        where: { deletedAt: null },
+        orderBy: [{ rank: "asc" }, { createdAt: "desc" }],
       });
 
       return tasks.map((task) => this.convertPrismaTaskToTask(task));
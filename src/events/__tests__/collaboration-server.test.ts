@@ -0,0 +1,228 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import {
+  startCollaborationServer,
+  COLLABORATION_PATH,
+} from "../collaboration-server.js";
+import type { CollaborationServerMessage } from "../../models/index.js";
+
+const USERS: Record<
+  string,
+  { userId: string; username: string; exp?: number }
+> = {
+  "token-ana": { userId: "user-1", username: "ana" },
+  "token-luis": { userId: "user-2", username: "luis" },
+};
+
+/**
+ * Client that keeps every message it receives
+ */
+interface TestClient {
+  socket: WebSocket;
+  messages: CollaborationServerMessage[];
+  send(message: unknown): void;
+  next(
+    type: CollaborationServerMessage["type"]
+  ): Promise<CollaborationServerMessage>;
+}
+
+describe("startCollaborationServer", () => {
+  let server: Server;
+  let stop: () => void;
+  let url: string;
+  const clients: WebSocket[] = [];
+
+  beforeEach(async () => {
+    server = createServer();
+    stop = startCollaborationServer(server, (token) => USERS[token] ?? null);
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+    url = `ws://localhost:${port}${COLLABORATION_PATH}`;
+  });
+
+  afterEach(async () => {
+    clients.forEach((socket) => socket.terminate());
+    clients.length = 0;
+    stop();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const connect = async (token: string): Promise<TestClient> => {
+    const socket = new WebSocket(url, ["bearer", token]);
+    clients.push(socket);
+    const messages: CollaborationServerMessage[] = [];
+    const waiting: Array<{
+      type: string;
+      resolve: (message: CollaborationServerMessage) => void;
+    }> = [];
+
+    socket.on("message", (data) => {
+      const message = JSON.parse(data.toString());
+      const index = waiting.findIndex((w) => w.type === message.type);
+      if (index >= 0) {
+        waiting.splice(index, 1)[0]!.resolve(message);
+      } else {
+        messages.push(message);
+      }
+    });
+
+    const client: TestClient = {
+      socket,
+      messages,
+      send: (message) => socket.send(JSON.stringify(message)),
+      next: (type) => {
+        const index = messages.findIndex((m) => m.type === type);
+        if (index >= 0) {
+          return Promise.resolve(messages.splice(index, 1)[0]!);
+        }
+        return new Promise((resolve) => waiting.push({ type, resolve }));
+      },
+    };
+
+    await client.next("welcome");
+    return client;
+  };
+
+  it("should reject connections without a valid token", async () => {
+    // Act
+    const socket = new WebSocket(url, ["bearer", "expired"]);
+    clients.push(socket);
+    const status = await new Promise<number | undefined>((resolve) => {
+      socket.on("unexpected-response", (_req, res) => resolve(res.statusCode));
+      socket.on("error", () => resolve(undefined));
+    });
+
+    // Assert
+    expect(status).toBe(401);
+  });
+
+  it("should leave upgrades on other paths to other listeners", async () => {
+    // Arrange
+    server.on("upgrade", (_req, socket) => {
+      socket.end("HTTP/1.1 418 I'm a Teapot\r\nConnection: close\r\n\r\n");
+    });
+
+    // Act
+    const socket = new WebSocket(url.replace(COLLABORATION_PATH, "/other"));
+    clients.push(socket);
+    const status = await new Promise<number | undefined>((resolve) => {
+      socket.on("unexpected-response", (_req, res) => resolve(res.statusCode));
+      socket.on("error", () => resolve(undefined));
+    });
+
+    // Assert
+    expect(status).toBe(418);
+  });
+
+  it("should drop an oversized message without stopping the server", async () => {
+    // Arrange
+    const ana = await connect("token-ana");
+    const closed = new Promise((resolve) => ana.socket.on("close", resolve));
+
+    // Act
+    ana.socket.send("x".repeat(5000));
+    await closed;
+
+    // Assert
+    const luis = await connect("token-luis");
+    luis.send({ type: "join", boardId: "board-1" });
+    expect(await luis.next("presence")).toEqual({
+      type: "presence",
+      boardId: "board-1",
+      users: [{ userId: "user-2", username: "luis" }],
+    });
+  });
+
+  it("should close the socket when its token expires", async () => {
+    // Arrange
+    USERS["token-expiring"] = {
+      userId: "user-1",
+      username: "ana",
+      exp: Math.floor(Date.now() / 1000),
+    };
+    const ana = await connect("token-expiring");
+
+    // Act
+    const code = await new Promise<number>((resolve) =>
+      ana.socket.on("close", resolve)
+    );
+
+    // Assert
+    expect(code).toBe(4001);
+  });
+
+  it("should broadcast presence to the users of a board", async () => {
+    // Arrange
+    const ana = await connect("token-ana");
+    const luis = await connect("token-luis");
+    ana.send({ type: "join", boardId: "board-1" });
+    await ana.next("presence");
+
+    // Act
+    luis.send({ type: "join", boardId: "board-1" });
+
+    // Assert
+    const presence = await ana.next("presence");
+    expect(presence).toEqual({
+      type: "presence",
+      boardId: "board-1",
+      users: [
+        { userId: "user-1", username: "ana" },
+        { userId: "user-2", username: "luis" },
+      ],
+    });
+  });
+
+  it("should deny editing a card another user is editing", async () => {
+    // Arrange
+    const ana = await connect("token-ana");
+    const luis = await connect("token-luis");
+    ana.send({ type: "join", boardId: "board-1" });
+    await ana.next("presence");
+    luis.send({ type: "join", boardId: "board-1" });
+    await luis.next("presence");
+    ana.send({ type: "editing", taskId: "task-1" });
+    const presence = await luis.next("presence");
+
+    // Act
+    luis.send({ type: "editing", taskId: "task-1" });
+
+    // Assert
+    expect(presence).toEqual(
+      expect.objectContaining({
+        users: expect.arrayContaining([
+          { userId: "user-1", username: "ana", editingTaskId: "task-1" },
+        ]),
+      })
+    );
+    expect(await luis.next("lockDenied")).toEqual({
+      type: "lockDenied",
+      taskId: "task-1",
+      username: "ana",
+    });
+  });
+
+  it("should release the lock when the editor disconnects", async () => {
+    // Arrange
+    const ana = await connect("token-ana");
+    const luis = await connect("token-luis");
+    ana.send({ type: "join", boardId: "board-1" });
+    await ana.next("presence");
+    luis.send({ type: "join", boardId: "board-1" });
+    await luis.next("presence");
+    ana.send({ type: "editing", taskId: "task-1" });
+    await luis.next("presence");
+
+    // Act
+    ana.socket.close();
+
+    // Assert
+    expect(await luis.next("presence")).toEqual({
+      type: "presence",
+      boardId: "board-1",
+      users: [{ userId: "user-2", username: "luis" }],
+    });
+  });
+});
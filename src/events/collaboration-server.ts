@@ -0,0 +1,283 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import type {
+  PresenceUser,
+  CollaborationClientMessage,
+  CollaborationServerMessage,
+} from "../models/index.js";
+import type { JwtPayload } from "../types/auth.types.js";
+
+/**
+ * Path of the collaboration socket on the HTTP server
+ */
+export const COLLABORATION_PATH = "/api/collaboration";
+
+/**
+ * Subprotocol carrying the JWT: browsers cannot set headers on a WebSocket,
+ * so clients connect with the protocols ["bearer", <token>]
+ */
+const AUTH_PROTOCOL = "bearer";
+
+/**
+ * Connections that miss a ping for this long are dropped
+ */
+const PING_INTERVAL_MS = 30 * 1000;
+
+/**
+ * Largest message accepted from a browser
+ */
+const MAX_PAYLOAD_BYTES = 4 * 1024;
+
+/**
+ * Close code sent when the token a socket was opened with expires
+ */
+const TOKEN_EXPIRED_CODE = 4001;
+
+/**
+ * An open socket and what its user is doing
+ */
+interface Connection {
+  socket: WebSocket;
+  user: JwtPayload;
+  boardId: string | null;
+  editingTaskId: string | null;
+  alive: boolean;
+  expiry: NodeJS.Timeout | null;
+}
+
+/**
+ * Starts the collaboration socket on an HTTP server
+ * Each connection follows one board; everyone on it receives the presence
+ * list whenever someone joins, leaves or starts or stops editing a card.
+ * Edit claims are first come, first served and only advisory: the REST API
+ * does not check them. A socket is closed when its token expires, so the
+ * client has to reconnect with a fresh one
+ * @param server - HTTP server returned by app.listen
+ * @param verifyToken - Decodes a JWT, null when invalid or expired
+ * @returns Function that closes every socket and stops the server
+ */
+export function startCollaborationServer(
+  server: Server,
+  verifyToken: (token: string) => JwtPayload | null
+): () => void {
+  const wss = new WebSocketServer({
+    noServer: true,
+    maxPayload: MAX_PAYLOAD_BYTES,
+    handleProtocols: () => AUTH_PROTOCOL,
+  });
+  const connections = new Set<Connection>();
+
+  const send = (
+    connection: Connection,
+    message: CollaborationServerMessage
+  ): void => {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(JSON.stringify(message));
+    }
+  };
+
+  const broadcastPresence = (boardId: string): void => {
+    const room = Array.from(connections).filter(
+      (connection) => connection.boardId === boardId
+    );
+
+    // One entry per user, whichever tab holds the edit claim
+    const users = new Map<string, PresenceUser>();
+    for (const { user, editingTaskId } of room) {
+      const taskId = editingTaskId ?? users.get(user.userId)?.editingTaskId;
+      users.set(user.userId, {
+        userId: user.userId,
+        username: user.username,
+        ...(taskId && { editingTaskId: taskId }),
+      });
+    }
+
+    const message: CollaborationServerMessage = {
+      type: "presence",
+      boardId,
+      users: Array.from(users.values()),
+    };
+    room.forEach((connection) => send(connection, message));
+  };
+
+  const findEditor = (
+    boardId: string,
+    taskId: string
+  ): Connection | undefined =>
+    Array.from(connections).find(
+      (connection) =>
+        connection.boardId === boardId && connection.editingTaskId === taskId
+    );
+
+  const handleMessage = (
+    connection: Connection,
+    message: CollaborationClientMessage
+  ): void => {
+    if (message.type === "join") {
+      const previous = connection.boardId;
+      connection.boardId = message.boardId;
+      connection.editingTaskId = null;
+      if (previous && previous !== message.boardId) {
+        broadcastPresence(previous);
+      }
+      broadcastPresence(message.boardId);
+      return;
+    }
+
+    if (!connection.boardId) {
+      send(connection, { type: "error", message: "Join a board first" });
+      return;
+    }
+
+    if (message.taskId) {
+      const editor = findEditor(connection.boardId, message.taskId);
+      if (editor && editor.user.userId !== connection.user.userId) {
+        send(connection, {
+          type: "lockDenied",
+          taskId: message.taskId,
+          username: editor.user.username,
+        });
+        return;
+      }
+    }
+
+    connection.editingTaskId = message.taskId;
+    broadcastPresence(connection.boardId);
+  };
+
+  const handleConnection = (socket: WebSocket, user: JwtPayload): void => {
+    const connection: Connection = {
+      socket,
+      user,
+      boardId: null,
+      editingTaskId: null,
+      alive: true,
+      expiry: user.exp
+        ? setTimeout(
+            () => socket.close(TOKEN_EXPIRED_CODE, "Token expired"),
+            Math.max(0, user.exp * 1000 - Date.now())
+          )
+        : null,
+    };
+    connections.add(connection);
+    send(connection, {
+      type: "welcome",
+      userId: user.userId,
+      username: user.username,
+    });
+
+    // Oversized or malformed frames end this socket only; without a
+    // listener the error would bring down the whole process
+    socket.on("error", () => socket.terminate());
+
+    socket.on("pong", () => {
+      connection.alive = true;
+    });
+
+    socket.on("message", (data) => {
+      const message = parseClientMessage(data.toString());
+      if (!message) {
+        send(connection, { type: "error", message: "Invalid message" });
+        return;
+      }
+      handleMessage(connection, message);
+    });
+
+    socket.on("close", () => {
+      if (connection.expiry) clearTimeout(connection.expiry);
+      connections.delete(connection);
+      if (connection.boardId) {
+        broadcastPresence(connection.boardId);
+      }
+    });
+  };
+
+  const handleUpgrade = (
+    req: IncomingMessage,
+    socket: Duplex,
+    head: Buffer
+  ): void => {
+    const { pathname } = new URL(req.url ?? "", "http://localhost");
+    if (pathname !== COLLABORATION_PATH) {
+      // Leave other paths to whichever upgrade listener serves them
+      if (server.listenerCount("upgrade") === 1) {
+        socket.destroy();
+      }
+      return;
+    }
+
+    const [protocol, token] = (req.headers["sec-websocket-protocol"] ?? "")
+      .split(",")
+      .map((value) => value.trim());
+    const user =
+      protocol === AUTH_PROTOCOL && token ? verifyToken(token) : null;
+    if (!user) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    wss.handleUpgrade(req, socket, head, (ws) => handleConnection(ws, user));
+  };
+
+  server.on("upgrade", handleUpgrade);
+
+  const heartbeat = setInterval(() => {
+    connections.forEach((connection) => {
+      if (!connection.alive) {
+        connection.socket.terminate();
+        return;
+      }
+      connection.alive = false;
+      connection.socket.ping();
+    });
+  }, PING_INTERVAL_MS);
+  // Do not keep the process alive just for the pings
+  heartbeat.unref();
+
+  return () => {
+    clearInterval(heartbeat);
+    server.off("upgrade", handleUpgrade);
+    connections.forEach((connection) => connection.socket.terminate());
+    wss.close();
+  };
+}
+
+/**
+ * Parses and checks a message from a browser
+ * @returns The message, or null when it is malformed
+ */
+function parseClientMessage(raw: string): CollaborationClientMessage | null {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (typeof parsed !== "object" || parsed === null) {
+    return null;
+  }
+  const message = parsed as Record<string, unknown>;
+
+  if (
+    message.type === "join" &&
+    typeof message.boardId === "string" &&
+    message.boardId.length > 0 &&
+    message.boardId.length <= 100
+  ) {
+    return { type: "join", boardId: message.boardId };
+  }
+
+  if (
+    message.type === "editing" &&
+    (message.taskId === null ||
+      (typeof message.taskId === "string" &&
+        message.taskId.length > 0 &&
+        message.taskId.length <= 100))
+  ) {
+    return { type: "editing", taskId: message.taskId };
+  }
+
+  return null;
+}
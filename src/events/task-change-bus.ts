@@ -0,0 +1,50 @@
+import { EventEmitter } from "events";
+import type { TaskChange } from "../models/index.js";
+
+/**
+ * Listener called with every published task change
+ */
+export type TaskChangeListener = (change: TaskChange) => void;
+
+/**
+ * TaskChangeBus - In-process fan-out of task changes to open event streams
+ * Changes only reach the clients connected to this server instance
+ */
+export class TaskChangeBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // One listener per open stream; the default limit of 10 is far too low
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Sends a change to every subscriber
+   * A failing listener is logged and does not affect the others
+   */
+  publish(change: TaskChange): void {
+    for (const listener of this.emitter.listeners("change")) {
+      try {
+        (listener as TaskChangeListener)(change);
+      } catch (error) {
+        console.error("Task change listener failed:", error);
+      }
+    }
+  }
+
+  /**
+   * Registers a listener for every change
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: TaskChangeListener): () => void {
+    this.emitter.on("change", listener);
+    return () => {
+      this.emitter.off("change", listener);
+    };
+  }
+}
+
+/**
+ * Bus shared by TaskService and the event stream route
+ */
+export const taskChangeBus = new TaskChangeBus();
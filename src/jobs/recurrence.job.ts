@@ -0,0 +1,46 @@
+import { RecurrenceService } from "../services/recurrence.service.js";
+
+/**
+ * How often due recurrences are checked
+ */
+const RECURRENCE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Starts the background job that creates the copies of recurring tasks
+ * Runs once at startup and then every minute; a check still running when the
+ * next one is due is not overlapped
+ * @returns Function that stops the job and resolves once a running check ends
+ */
+export function startRecurrenceJob(): () => Promise<void> {
+  const recurrenceService = new RecurrenceService();
+  let running: Promise<void> | null = null;
+
+  const run = async (): Promise<void> => {
+    try {
+      const count = await recurrenceService.runDueRecurrences();
+      if (count > 0) {
+        console.log(`Recurrences: created ${count} task(s)`);
+      }
+    } catch (error) {
+      console.error("Recurrence check failed:", error);
+    }
+  };
+
+  const tick = (): void => {
+    if (!running) {
+      running = run().finally(() => {
+        running = null;
+      });
+    }
+  };
+
+  tick();
+  const timer = setInterval(tick, RECURRENCE_INTERVAL_MS);
+  // Do not keep the process alive just for the schedule
+  timer.unref();
+
+  return async () => {
+    clearInterval(timer);
+    await running;
+  };
+}
@@ -0,0 +1,49 @@
+import { TaskService } from "../services/task.service.js";
+
+/**
+ * Days a trashed task stays restorable (TRASH_RETENTION_DAYS)
+ */
+const DEFAULT_RETENTION_DAYS = 30;
+
+/**
+ * How often the trash is checked for expired tasks
+ */
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Reads the retention period from the environment
+ * Falls back to the default for missing or invalid values
+ */
+export function getTrashRetentionDays(): number {
+  const value = Number(process.env.TRASH_RETENTION_DAYS);
+
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_RETENTION_DAYS;
+}
+
+/**
+ * Starts the background job that permanently deletes expired trash
+ * Runs once at startup and then every hour
+ * @returns Function that stops the job
+ */
+export function startTrashPurgeJob(): () => void {
+  const taskService = new TaskService();
+  const retentionDays = getTrashRetentionDays();
+
+  const purge = async (): Promise<void> => {
+    try {
+      const count = await taskService.purgeTrash(retentionDays);
+      if (count > 0) {
+        console.log(`Trash purge: permanently deleted ${count} task(s)`);
+      }
+    } catch (error) {
+      console.error("Trash purge failed:", error);
+    }
+  };
+
+  void purge();
+  const timer = setInterval(purge, PURGE_INTERVAL_MS);
+  // Do not keep the process alive just for the purge
+  timer.unref();
+
+  return () => clearInterval(timer);
+}
@@ -0,0 +1,97 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import multer from "multer";
+
+/**
+ * Largest accepted attachment in MB when ATTACHMENT_MAX_MB is not set
+ * Uploads are multipart, so this is independent from the express.json limit
+ */
+const DEFAULT_ATTACHMENT_MAX_MB = 10;
+
+/**
+ * Accepted attachment types: screenshots, logs and common documents
+ * SVG and HTML are left out since they could run scripts when opened
+ */
+export const ATTACHMENT_MIME_TYPES = [
+  "image/png",
+  "image/jpeg",
+  "image/gif",
+  "image/webp",
+  "text/plain",
+  "text/csv",
+  "application/json",
+  "application/pdf",
+  "application/zip",
+  "application/gzip",
+  "application/x-gzip",
+  // Browsers send files without a known type (e.g. .log) like this
+  "application/octet-stream",
+];
+
+/**
+ * Reads the attachment size limit from the environment, in bytes
+ * Falls back to the default for missing or invalid values
+ */
+export function getAttachmentMaxBytes(): number {
+  const value = Number(process.env.ATTACHMENT_MAX_MB);
+  const megabytes =
+    Number.isFinite(value) && value > 0 ? value : DEFAULT_ATTACHMENT_MAX_MB;
+
+  return Math.floor(megabytes * 1024 * 1024);
+}
+
+/**
+ * Parses a single-file multipart upload (field "file") into req.file
+ * The file is kept in memory; the service hands it to the file storage.
+ * Oversized files get 413 and unsupported types 415
+ */
+export function uploadAttachment(): RequestHandler {
+  const maxBytes = getAttachmentMaxBytes();
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxBytes, files: 1 },
+    fileFilter: (req, file, callback) => {
+      if (ATTACHMENT_MIME_TYPES.includes(file.mimetype)) {
+        callback(null, true);
+      } else {
+        callback(new Error(`Unsupported file type: ${file.mimetype}`));
+      }
+    },
+  }).single("file");
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (!error) {
+        next();
+        return;
+      }
+
+      if (error instanceof multer.MulterError) {
+        const tooLarge = error.code === "LIMIT_FILE_SIZE";
+        res.status(tooLarge ? 413 : 400).json({
+          error: tooLarge ? "Payload Too Large" : "Validation Error",
+          message: tooLarge
+            ? `File exceeds the ${+(maxBytes / (1024 * 1024)).toFixed(1)} MB limit`
+            : `Invalid upload: ${error.message}`,
+          statusCode: tooLarge ? 413 : 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      if (
+        error instanceof Error &&
+        error.message.startsWith("Unsupported file type")
+      ) {
+        res.status(415).json({
+          error: "Unsupported Media Type",
+          message: error.message,
+          statusCode: 415,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      next(error);
+    });
+  };
+}
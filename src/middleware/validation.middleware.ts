@@ -1,5 +1,10 @@
 import type { Request, Response, NextFunction } from "express";
-import { TaskStatus } from "../models/task.types.js";
+import {
+  TaskStatus,
+  TaskPriority,
+  TASK_SORTS,
+  TASK_VIEWS,
+} from "../models/task.types.js";
 
 /**
  * Validation rule types
@@ -23,10 +28,32 @@ interface CuidValidationRule {
   required: boolean;
 }
 
+interface IntegerValidationRule {
+  type: "integer";
+  min?: number;
+  max?: number;
+  required: boolean;
+}
+
+interface NumberValidationRule {
+  type: "number";
+  min?: number;
+  max?: number;
+  required: boolean;
+}
+
+interface DateValidationRule {
+  type: "date";
+  required: boolean;
+}
+
 type ValidationRule =
   | StringValidationRule
   | EnumValidationRule
-  | CuidValidationRule;
+  | CuidValidationRule
+  | IntegerValidationRule
+  | NumberValidationRule
+  | DateValidationRule;
 
 /**
  * Validation rules configuration
@@ -48,6 +75,11 @@ interface ValidationError {
  */
 const CUID_PATTERN = /^[a-z0-9]{25}$/;
 
+/**
+ * Integer pattern for values received as strings (query parameters)
+ */
+const INTEGER_PATTERN = /^-?\d+$/;
+
 /**
  * Predefined validation rules for common use cases
  */
@@ -64,7 +96,22 @@ export const VALIDATION_RULE_SETS = {
       maxLength: 1000,
       required: false,
     },
+    priority: {
+      type: "enum" as const,
+      values: Object.values(TaskPriority),
+      required: false,
+    },
+    // null clears the due date when updating
+    dueAt: { type: "date" as const, required: false },
+    // Story points; null clears the estimate when updating
+    estimate: {
+      type: "number" as const,
+      min: 0,
+      max: 100,
+      required: false,
+    },
   },
+  // Merge patch: every field is optional
   updateTask: {
     title: {
       type: "string" as const,
@@ -72,11 +119,28 @@ export const VALIDATION_RULE_SETS = {
       minLength: 1,
       required: false,
     },
+    // null clears the description
     description: {
       type: "string" as const,
       maxLength: 1000,
       required: false,
     },
+    priority: {
+      type: "enum" as const,
+      values: Object.values(TaskPriority),
+      required: false,
+    },
+    // null clears the due date when updating
+    dueAt: { type: "date" as const, required: false },
+    // Story points; null clears the estimate when updating
+    estimate: {
+      type: "number" as const,
+      min: 0,
+      max: 100,
+      required: false,
+    },
+    // null unassigns the task
+    assigneeId: { type: "cuid" as const, required: false },
   },
   updateTaskStatus: {
     status: {
@@ -91,6 +155,252 @@ export const VALIDATION_RULE_SETS = {
       required: true,
     },
   },
+  register: {
+    username: {
+      type: "string" as const,
+      minLength: 3,
+      maxLength: 50,
+      required: true,
+      pattern: /^[a-zA-Z0-9_.-]+$/,
+    },
+    password: {
+      type: "string" as const,
+      minLength: 8,
+      maxLength: 128,
+      required: true,
+    },
+  },
+  createBoard: {
+    name: {
+      type: "string" as const,
+      maxLength: 100,
+      minLength: 1,
+      required: true,
+    },
+    description: {
+      type: "string" as const,
+      maxLength: 500,
+      required: false,
+    },
+  },
+  updateBoard: {
+    name: {
+      type: "string" as const,
+      maxLength: 100,
+      minLength: 1,
+      required: false,
+    },
+    description: {
+      type: "string" as const,
+      maxLength: 500,
+      required: false,
+    },
+  },
+  createColumn: {
+    name: {
+      type: "string" as const,
+      maxLength: 50,
+      minLength: 1,
+      required: true,
+    },
+    color: {
+      type: "string" as const,
+      required: false,
+      pattern: /^#[0-9a-fA-F]{6}$/,
+    },
+    status: {
+      type: "enum" as const,
+      values: Object.values(TaskStatus),
+      required: false,
+    },
+  },
+  createLabel: {
+    name: {
+      type: "string" as const,
+      maxLength: 30,
+      minLength: 1,
+      required: true,
+    },
+    color: {
+      type: "string" as const,
+      required: false,
+      pattern: /^#[0-9a-fA-F]{6}$/,
+    },
+  },
+  updateLabel: {
+    name: {
+      type: "string" as const,
+      maxLength: 30,
+      minLength: 1,
+      required: false,
+    },
+    color: {
+      type: "string" as const,
+      required: false,
+      pattern: /^#[0-9a-fA-F]{6}$/,
+    },
+  },
+  createChecklistItem: {
+    text: {
+      type: "string" as const,
+      maxLength: 200,
+      minLength: 1,
+      required: true,
+    },
+  },
+  updateChecklistItem: {
+    text: {
+      type: "string" as const,
+      maxLength: 200,
+      minLength: 1,
+      required: false,
+    },
+  },
+  comment: {
+    body: {
+      type: "string" as const,
+      maxLength: 2000,
+      minLength: 1,
+      required: true,
+    },
+  },
+  startTimer: {
+    note: {
+      type: "string" as const,
+      maxLength: 500,
+      required: false,
+    },
+  },
+  timeEntry: {
+    startedAt: { type: "date" as const, required: true },
+    endedAt: { type: "date" as const, required: true },
+    note: {
+      type: "string" as const,
+      maxLength: 500,
+      required: false,
+    },
+  },
+  // Query of the task change stream; all boards when boardId is omitted
+  events: {
+    boardId: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+  },
+  // Query of the CSV export; userId defaults to the requesting user
+  timesheet: {
+    userId: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+    from: { type: "date" as const, required: true },
+    to: { type: "date" as const, required: true },
+  },
+  // "daily", "weekly", "monthly" or an RRULE-style string
+  recurrence: {
+    rule: {
+      type: "string" as const,
+      maxLength: 200,
+      minLength: 1,
+      required: true,
+    },
+    startsAt: { type: "date" as const, required: false },
+  },
+  listTasks: {
+    limit: {
+      type: "integer" as const,
+      min: 1,
+      max: 100,
+      required: false,
+    },
+    cursor: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+    sort: {
+      type: "enum" as const,
+      values: [...TASK_SORTS],
+      required: false,
+    },
+    view: {
+      type: "enum" as const,
+      values: [...TASK_VIEWS],
+      required: false,
+    },
+    status: {
+      type: "enum" as const,
+      values: Object.values(TaskStatus),
+      required: false,
+    },
+    assignee: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+    columnId: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+    // Comma-separated label IDs; tasks with any of them match
+    label: {
+      type: "string" as const,
+      maxLength: 1000,
+      required: false,
+    },
+    createdFrom: { type: "date" as const, required: false },
+    createdTo: { type: "date" as const, required: false },
+    updatedFrom: { type: "date" as const, required: false },
+    updatedTo: { type: "date" as const, required: false },
+    dueBefore: { type: "date" as const, required: false },
+  },
+  overdueTasks: {
+    boardId: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+  },
+  searchTasks: {
+    q: {
+      type: "string" as const,
+      minLength: 1,
+      maxLength: 200,
+      required: true,
+    },
+    boardId: {
+      type: "string" as const,
+      maxLength: 100,
+      required: false,
+    },
+    limit: {
+      type: "integer" as const,
+      min: 1,
+      max: 50,
+      required: false,
+    },
+  },
+  updateColumn: {
+    name: {
+      type: "string" as const,
+      maxLength: 50,
+      minLength: 1,
+      required: false,
+    },
+    color: {
+      type: "string" as const,
+      required: false,
+      pattern: /^#[0-9a-fA-F]{6}$/,
+    },
+    status: {
+      type: "enum" as const,
+      values: Object.values(TaskStatus),
+      required: false,
+    },
+  },
 };
 
 /**
@@ -239,6 +549,107 @@ function validateCuid(
   return null;
 }
 
+/**
+ * Validates an integer value (number or numeric string)
+ */
+function validateInteger(
+  value: any,
+  rule: IntegerValidationRule,
+  fieldName: string
+): ValidationError | null {
+  if (value === undefined || value === null || value === "") {
+    return rule.required
+      ? { field: fieldName, message: `${fieldName} is required` }
+      : null;
+  }
+
+  const isInteger =
+    typeof value === "number"
+      ? Number.isInteger(value)
+      : typeof value === "string" && INTEGER_PATTERN.test(value);
+  if (!isInteger) {
+    return {
+      field: fieldName,
+      message: `${fieldName} must be an integer`,
+    };
+  }
+
+  const number = Number(value);
+  if (
+    (rule.min !== undefined && number < rule.min) ||
+    (rule.max !== undefined && number > rule.max)
+  ) {
+    return {
+      field: fieldName,
+      message: `${fieldName} must be between ${rule.min ?? "-∞"} and ${
+        rule.max ?? "∞"
+      }`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Validates a decimal number value (JSON numbers only)
+ */
+function validateNumber(
+  value: any,
+  rule: NumberValidationRule,
+  fieldName: string
+): ValidationError | null {
+  if (value === undefined || value === null) {
+    return rule.required
+      ? { field: fieldName, message: `${fieldName} is required` }
+      : null;
+  }
+
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return {
+      field: fieldName,
+      message: `${fieldName} must be a number`,
+    };
+  }
+
+  if (
+    (rule.min !== undefined && value < rule.min) ||
+    (rule.max !== undefined && value > rule.max)
+  ) {
+    return {
+      field: fieldName,
+      message: `${fieldName} must be between ${rule.min ?? "-∞"} and ${
+        rule.max ?? "∞"
+      }`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Validates a date value (ISO 8601 string)
+ */
+function validateDate(
+  value: any,
+  rule: DateValidationRule,
+  fieldName: string
+): ValidationError | null {
+  if (value === undefined || value === null || value === "") {
+    return rule.required
+      ? { field: fieldName, message: `${fieldName} is required` }
+      : null;
+  }
+
+  if (typeof value !== "string" || Number.isNaN(Date.parse(value))) {
+    return {
+      field: fieldName,
+      message: `${fieldName} must be a valid ISO 8601 date`,
+    };
+  }
+
+  return null;
+}
+
 /**
  * Validates a single field against its validation rule
  */
@@ -254,6 +665,12 @@ function validateField(
       return validateEnum(value, rule, fieldName);
     case "cuid":
       return validateCuid(value, rule, fieldName);
+    case "integer":
+      return validateInteger(value, rule, fieldName);
+    case "number":
+      return validateNumber(value, rule, fieldName);
+    case "date":
+      return validateDate(value, rule, fieldName);
     default:
       return {
         field: fieldName,
@@ -264,20 +681,20 @@ function validateField(
 
 /**
  * Middleware factory that creates validation middleware based on provided rules
- * Validates request body and/or params against defined rules
+ * Validates request body, params or query string against defined rules
  * Returns 400 error with descriptive messages if validation fails
  *
  * @param rules - Validation rules to apply
- * @param source - Where to validate from ('body' or 'params')
+ * @param source - Where to validate from ('body', 'params' or 'query')
  * @returns Express middleware function
  */
 export function validateInput(
   rules: ValidationRules,
-  source: "body" | "params" = "body"
+  source: "body" | "params" | "query" = "body"
 ) {
   return (req: Request, res: Response, next: NextFunction): void => {
     const errors: ValidationError[] = [];
-    const dataSource = source === "body" ? req.body : req.params;
+    const dataSource = req[source] ?? {};
 
     // Validate each field according to its rules
     for (const [fieldName, rule] of Object.entries(rules)) {
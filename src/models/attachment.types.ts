@@ -0,0 +1,41 @@
+import type { UserSummary } from "./user.types.js";
+
+/**
+ * Core Attachment interface representing a file attached to a task
+ * The content lives in the file storage under storageKey
+ */
+export interface Attachment {
+  id: string;
+  taskId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  storageKey: string;
+  uploadedById?: string;
+  uploadedBy?: UserSummary;
+  createdAt: Date;
+}
+
+/**
+ * A file received by the upload route, ready to be stored
+ */
+export interface AttachmentUpload {
+  filename: string;
+  mimeType: string;
+  data: Buffer;
+}
+
+/**
+ * Response DTO for attachment data returned by API
+ * The storage key is internal and never exposed
+ */
+export interface AttachmentResponse {
+  id: string;
+  taskId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  uploadedById?: string;
+  uploadedBy?: UserSummary;
+  createdAt: string;
+}
@@ -0,0 +1,37 @@
+/**
+ * Core Board interface representing a project board that groups tasks
+ */
+export interface Board {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Request DTO for creating a new board
+ */
+export interface CreateBoardRequest {
+  name: string;
+  description?: string;
+}
+
+/**
+ * Request DTO for updating a board
+ */
+export interface UpdateBoardRequest {
+  name?: string;
+  description?: string;
+}
+
+/**
+ * Response DTO for board data returned by API
+ */
+export interface BoardResponse {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
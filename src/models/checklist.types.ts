@@ -0,0 +1,57 @@
+/**
+ * Core ChecklistItem interface representing one step of a task
+ * Items are ordered by position inside their task
+ */
+export interface ChecklistItem {
+  id: string;
+  taskId: string;
+  text: string;
+  done: boolean;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Checklist completion embedded in task responses ("3/7")
+ */
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+/**
+ * Request DTO for adding a checklist item (appended at the end)
+ */
+export interface CreateChecklistItemRequest {
+  text: string;
+}
+
+/**
+ * Request DTO for editing or ticking a checklist item
+ */
+export interface UpdateChecklistItemRequest {
+  text?: string;
+  done?: boolean;
+}
+
+/**
+ * Request DTO for reordering the checklist of a task
+ * Must list every item of the task exactly once
+ */
+export interface ReorderChecklistRequest {
+  itemIds: string[];
+}
+
+/**
+ * Response DTO for checklist item data returned by API
+ */
+export interface ChecklistItemResponse {
+  id: string;
+  taskId: string;
+  text: string;
+  done: boolean;
+  position: number;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,30 @@
+/**
+ * User with the board open, and the task they are editing if any
+ * A user with several tabs open is listed once
+ */
+export interface PresenceUser {
+  userId: string;
+  username: string;
+  editingTaskId?: string;
+}
+
+/**
+ * Messages sent by browsers over the collaboration socket
+ * join switches the board followed by the connection; editing claims a
+ * task (null releases it)
+ */
+export type CollaborationClientMessage =
+  | { type: "join"; boardId: string }
+  | { type: "editing"; taskId: string | null };
+
+/**
+ * Messages sent to browsers over the collaboration socket
+ * welcome identifies the connected user; presence lists who is on the board
+ * after every change; lockDenied answers a claim on a task another user is
+ * already editing
+ */
+export type CollaborationServerMessage =
+  | { type: "welcome"; userId: string; username: string }
+  | { type: "presence"; boardId: string; users: PresenceUser[] }
+  | { type: "lockDenied"; taskId: string; username: string }
+  | { type: "error"; message: string };
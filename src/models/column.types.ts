@@ -0,0 +1,67 @@
+import type { TaskStatus } from "./task.types.js";
+
+/**
+ * Core Column interface representing a workflow column of a board
+ * status is the category reported for the tasks it holds
+ */
+export interface Column {
+  id: string;
+  boardId: string;
+  name: string;
+  position: number;
+  color: string;
+  status: TaskStatus;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Request DTO for creating a new column (appended at the end)
+ */
+export interface CreateColumnRequest {
+  name: string;
+  color?: string;
+  status?: TaskStatus;
+}
+
+/**
+ * Request DTO for updating a column
+ */
+export interface UpdateColumnRequest {
+  name?: string;
+  color?: string;
+  status?: TaskStatus;
+}
+
+/**
+ * Request DTO for reordering the columns of a board
+ * Lists every column ID of the board in its new order
+ */
+export interface ReorderColumnsRequest {
+  columnIds: string[];
+}
+
+/**
+ * Workload of a column: its active tasks and their summed story points
+ * Tasks without an estimate count as zero points
+ */
+export interface ColumnTotals {
+  columnId: string;
+  name: string;
+  taskCount: number;
+  estimateTotal: number;
+}
+
+/**
+ * Response DTO for column data returned by API
+ */
+export interface ColumnResponse {
+  id: string;
+  boardId: string;
+  name: string;
+  position: number;
+  color: string;
+  status: string;
+  createdAt: string;
+  updatedAt: string;
+}
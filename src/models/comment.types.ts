@@ -0,0 +1,69 @@
+import type { UserSummary } from "./user.types.js";
+
+/**
+ * Core Comment interface representing a message in a task's thread
+ * editedAt is set once the body has been changed; earlier bodies are kept
+ * as revisions
+ */
+export interface Comment {
+  id: string;
+  taskId: string;
+  body: string;
+  authorId?: string;
+  author?: UserSummary;
+  createdAt: Date;
+  updatedAt: Date;
+  editedAt?: Date;
+  revisionCount: number;
+}
+
+/**
+ * A previous body of a comment, saved when the comment was edited
+ */
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  body: string;
+  createdAt: Date;
+}
+
+/**
+ * Request DTO for posting a comment
+ */
+export interface CreateCommentRequest {
+  body: string;
+}
+
+/**
+ * Request DTO for editing a comment (author only)
+ */
+export interface UpdateCommentRequest {
+  body: string;
+}
+
+/**
+ * Response DTO for comment data returned by API
+ * editable tells whether the requesting user may edit or delete it
+ */
+export interface CommentResponse {
+  id: string;
+  taskId: string;
+  body: string;
+  authorId?: string;
+  author?: UserSummary;
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string;
+  revisionCount: number;
+  editable: boolean;
+}
+
+/**
+ * Response DTO for a comment revision
+ */
+export interface CommentRevisionResponse {
+  id: string;
+  commentId: string;
+  body: string;
+  createdAt: string;
+}
@@ -1,3 +1,9 @@
+import type {
+  TaskBlocker,
+  TaskResponse,
+  BulkTaskResultResponse,
+} from "./task.types.js";
+
 /**
  * Standard error response interface for API errors
  */
@@ -24,6 +30,39 @@ export interface ValidationErrorResponse extends ErrorResponse {
   errors: ValidationError[];
 }
 
+/**
+ * Error response for task moves rejected by the board workflow (422)
+ */
+export interface WorkflowErrorResponse extends ErrorResponse {
+  from: string;
+  to: string;
+  allowed: string[];
+  missing: string[];
+}
+
+/**
+ * Error response for moves of a task that still has open blockers (409)
+ */
+export interface BlockedTaskErrorResponse extends ErrorResponse {
+  blockers: TaskBlocker[];
+}
+
+/**
+ * Error response for task writes whose If-Match is stale (409)
+ * Carries the server copy so the client can merge or overwrite
+ */
+export interface VersionConflictErrorResponse extends ErrorResponse {
+  current: TaskResponse;
+}
+
+/**
+ * Error response for bulk requests with an operation that cannot be applied
+ * (422); nothing was saved, the results tell which operations failed
+ */
+export interface BulkTaskErrorResponse extends ErrorResponse {
+  results: BulkTaskResultResponse[];
+}
+
 /**
  * Database error response for Prisma-related errors
  */
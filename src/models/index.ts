@@ -6,16 +6,142 @@
 export type {
   Task,
   CreateTaskRequest,
+  UpdateTaskRequest,
   UpdateTaskStatusRequest,
+  UpdateTaskAssigneeRequest,
+  UpdateTaskColumnRequest,
+  UpdateTaskPositionRequest,
+  UpdateTaskArchiveRequest,
+  UpdateTaskLabelsRequest,
+  AddTaskBlockerRequest,
+  BulkTaskOperation,
+  BulkTaskRequest,
+  BulkTaskResult,
+  BulkTaskResultResponse,
+  TaskBlocker,
+  TaskFilters,
+  OverdueTaskFilters,
+  TaskView,
+  TaskSort,
+  TaskPageOptions,
+  TaskPage,
+  TaskSearchOptions,
+  TaskSearchResult,
   TaskResponse,
+  TaskSearchResultResponse,
+  TaskEvent,
+  TaskEventValues,
+  TaskEventResponse,
 } from "./task.types.js";
 
-export { TaskStatus } from "./task.types.js";
+// Board-related types and interfaces
+export type {
+  Board,
+  CreateBoardRequest,
+  UpdateBoardRequest,
+  BoardResponse,
+} from "./board.types.js";
+
+// Column-related types and interfaces
+export type {
+  Column,
+  CreateColumnRequest,
+  UpdateColumnRequest,
+  ReorderColumnsRequest,
+  ColumnTotals,
+  ColumnResponse,
+} from "./column.types.js";
+
+// Label-related types and interfaces
+export type {
+  Label,
+  LabelSummary,
+  CreateLabelRequest,
+  UpdateLabelRequest,
+  LabelResponse,
+} from "./label.types.js";
+
+// Checklist-related types and interfaces
+export type {
+  ChecklistItem,
+  ChecklistProgress,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+  ReorderChecklistRequest,
+  ChecklistItemResponse,
+} from "./checklist.types.js";
+
+// Comment-related types and interfaces
+export type {
+  Comment,
+  CommentRevision,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+  CommentResponse,
+  CommentRevisionResponse,
+} from "./comment.types.js";
+
+// Attachment-related types and interfaces
+export type {
+  Attachment,
+  AttachmentUpload,
+  AttachmentResponse,
+} from "./attachment.types.js";
+
+// Recurrence-related types and interfaces
+export type {
+  RecurrenceRule,
+  SetRecurrenceRequest,
+  RecurrenceRuleResponse,
+} from "./recurrence.types.js";
+
+// Time tracking types and interfaces
+export type {
+  TimeEntry,
+  TimeEntryTask,
+  StartTimerRequest,
+  CreateTimeEntryRequest,
+  TimesheetFilters,
+  TimeEntryResponse,
+} from "./time-entry.types.js";
+
+// Task change types pushed over the event stream
+export type {
+  TaskChange,
+  TaskChangeType,
+  TaskChangeResponse,
+} from "./task-change.types.js";
+
+// Collaboration socket messages (presence and edit locks)
+export type {
+  PresenceUser,
+  CollaborationClientMessage,
+  CollaborationServerMessage,
+} from "./collaboration.types.js";
+
+// Workflow-related types and interfaces
+export type { WorkflowConfig, WorkflowRequirement } from "./workflow.types.js";
+
+// User-related types and interfaces
+export type { UserSummary } from "./user.types.js";
+
+export {
+  TaskStatus,
+  TaskPriority,
+  TaskEventType,
+  TASK_VIEWS,
+  TASK_SORTS,
+  BULK_OPERATION_TYPES,
+} from "./task.types.js";
 
 // Error-related types and interfaces
 export type {
   ErrorResponse,
   ValidationError,
   ValidationErrorResponse,
+  WorkflowErrorResponse,
+  BlockedTaskErrorResponse,
+  VersionConflictErrorResponse,
+  BulkTaskErrorResponse,
   DatabaseErrorResponse,
 } from "./error.types.js";
@@ -0,0 +1,49 @@
+/**
+ * Core Label interface representing a colored tag of a board
+ * Label names are unique within a board
+ */
+export interface Label {
+  id: string;
+  boardId: string;
+  name: string;
+  color: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Label information embedded in task responses
+ */
+export interface LabelSummary {
+  id: string;
+  name: string;
+  color: string;
+}
+
+/**
+ * Request DTO for creating a new label
+ */
+export interface CreateLabelRequest {
+  name: string;
+  color?: string;
+}
+
+/**
+ * Request DTO for updating a label
+ */
+export interface UpdateLabelRequest {
+  name?: string;
+  color?: string;
+}
+
+/**
+ * Response DTO for label data returned by API
+ */
+export interface LabelResponse {
+  id: string;
+  boardId: string;
+  name: string;
+  color: string;
+  createdAt: string;
+  updatedAt: string;
+}
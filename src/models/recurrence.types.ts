@@ -0,0 +1,39 @@
+/**
+ * Core RecurrenceRule interface: the schedule of a template task
+ * Each occurrence creates a fresh PENDING copy of the task
+ */
+export interface RecurrenceRule {
+  id: string;
+  taskId: string;
+  // Canonical RRULE-style string, e.g. FREQ=WEEKLY;INTERVAL=1;BYDAY=MO
+  rule: string;
+  startsAt: Date;
+  nextRunAt: Date;
+  lastRunAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Request DTO for setting the recurrence of a task
+ * rule is "daily", "weekly", "monthly" or an RRULE-style string;
+ * startsAt (ISO 8601) defaults to now and sets the time of day
+ */
+export interface SetRecurrenceRequest {
+  rule: string;
+  startsAt?: string;
+}
+
+/**
+ * Response DTO for recurrence data returned by API
+ */
+export interface RecurrenceRuleResponse {
+  id: string;
+  taskId: string;
+  rule: string;
+  startsAt: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
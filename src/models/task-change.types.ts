@@ -0,0 +1,30 @@
+import type { Task, TaskResponse } from "./task.types.js";
+
+/**
+ * Kinds of task changes pushed to open boards
+ * "task.updated" also covers archiving and restoring: clients hide tasks
+ * whose archivedAt is set
+ */
+export type TaskChangeType =
+  "task.created" | "task.updated" | "task.moved" | "task.deleted";
+
+/**
+ * A change made to a task, published by TaskService once it is saved
+ * Deleted tasks carry no task data
+ */
+export interface TaskChange {
+  type: TaskChangeType;
+  boardId: string;
+  taskId: string;
+  task?: Task;
+}
+
+/**
+ * Response DTO for a task change sent over the event stream
+ */
+export interface TaskChangeResponse {
+  type: TaskChangeType;
+  boardId: string;
+  taskId: string;
+  task?: TaskResponse;
+}
@@ -1,5 +1,10 @@
+import type { UserSummary } from "./user.types.js";
+import type { LabelSummary } from "./label.types.js";
+import type { ChecklistProgress } from "./checklist.types.js";
+
 /**
  * TaskStatus enum matching Prisma schema
+ * Derived from the task's column; kept for status-based clients and filters
  */
 export enum TaskStatus {
   PENDING = "PENDING",
@@ -7,6 +12,27 @@ export enum TaskStatus {
   COMPLETED = "COMPLETED",
 }
 
+/**
+ * TaskPriority enum matching Prisma schema, from least to most urgent
+ */
+export enum TaskPriority {
+  LOW = "LOW",
+  MEDIUM = "MEDIUM",
+  HIGH = "HIGH",
+  URGENT = "URGENT",
+}
+
+/**
+ * TaskEventType enum matching Prisma schema
+ * Kinds of changes recorded in a task's history
+ */
+export enum TaskEventType {
+  CREATED = "CREATED",
+  STATUS_CHANGED = "STATUS_CHANGED",
+  EDITED = "EDITED",
+  DELETED = "DELETED",
+}
+
 /**
  * Core Task interface representing the Task entity
  */
@@ -15,16 +41,212 @@ export interface Task {
   title: string;
   description?: string;
   status: TaskStatus;
+  priority: TaskPriority;
   createdAt: Date;
   updatedAt: Date;
+  boardId: string;
+  columnId: string;
+  rank: string;
+  dueAt?: Date;
+  // Effort in story points
+  estimate?: number;
+  // Incremented by every change, for optimistic concurrency (ETag)
+  version: number;
+  archivedAt?: Date;
+  deletedAt?: Date;
+  createdById?: string;
+  assigneeId?: string;
+  assignee?: UserSummary;
+  labels: LabelSummary[];
+  checklist: ChecklistProgress;
+  commentCount: number;
+  attachmentCount: number;
+  // First image attachment, used as the card thumbnail
+  coverAttachmentId?: string;
+  // Tasks this one is blocked by, trashed ones excluded
+  blockedBy: TaskBlocker[];
+  // Total of the finished time entries; running timers are not counted
+  loggedSeconds: number;
+}
+
+/**
+ * Task referenced as a blocker of another task
+ * It stops blocking once its status is COMPLETED
+ */
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  status: TaskStatus;
 }
 
+/**
+ * Which tasks a listing returns:
+ * active (on the board), archived, or trash (soft-deleted)
+ */
+export const TASK_VIEWS = ["active", "archived", "trash"] as const;
+export type TaskView = (typeof TASK_VIEWS)[number];
+
+/**
+ * Sort orders accepted when listing tasks
+ * rank is the manual board order; a leading "-" sorts descending
+ * (so "-priority" lists the most urgent tasks first)
+ */
+export const TASK_SORTS = [
+  "rank",
+  "createdAt",
+  "-createdAt",
+  "updatedAt",
+  "-updatedAt",
+  "title",
+  "-title",
+  "priority",
+  "-priority",
+] as const;
+export type TaskSort = (typeof TASK_SORTS)[number];
+
 /**
  * Request DTO for creating a new task
  */
 export interface CreateTaskRequest {
   title: string;
   description?: string;
+  // Defaults to MEDIUM
+  priority?: TaskPriority;
+  // ISO 8601 deadline
+  dueAt?: string;
+  // Story points, between 0 and 100
+  estimate?: number;
+  assigneeId?: string;
+  // Defaults to the oldest board when omitted
+  boardId?: string;
+  // Defaults to the first column of the board when omitted
+  columnId?: string;
+  // Labels of the task's board
+  labelIds?: string[];
+}
+
+/**
+ * Request DTO for editing a task, applied as a JSON merge patch
+ * Omitted fields are kept; null clears the optional ones
+ */
+export interface UpdateTaskRequest {
+  title?: string;
+  description?: string | null;
+  priority?: TaskPriority;
+  // ISO 8601 deadline
+  dueAt?: string | null;
+  // Story points, between 0 and 100
+  estimate?: number | null;
+  assigneeId?: string | null;
+  // Replaces every label; labels of the task's board
+  labelIds?: string[] | null;
+}
+
+/**
+ * Request DTO for changing the assignee of a task (null unassigns it)
+ */
+export interface UpdateTaskAssigneeRequest {
+  assigneeId: string | null;
+}
+
+/**
+ * Request DTO for moving a task to another column
+ */
+export interface UpdateTaskColumnRequest {
+  columnId: string;
+  // Move even if the task has open blockers
+  force?: boolean;
+}
+
+/**
+ * Request DTO for reordering a task inside its column
+ * Neighbors are the tasks that end up directly above and below it;
+ * null (or omitted) means the top or bottom of the column
+ */
+export interface UpdateTaskPositionRequest {
+  beforeId?: string | null;
+  afterId?: string | null;
+}
+
+/**
+ * Request DTO for replacing the labels of a task (empty removes them all)
+ */
+export interface UpdateTaskLabelsRequest {
+  labelIds: string[];
+}
+
+/**
+ * Request DTO for archiving or unarchiving a task
+ */
+export interface UpdateTaskArchiveRequest {
+  archived: boolean;
+}
+
+/**
+ * Filters accepted when listing tasks
+ * assigneeId null selects unassigned tasks; view defaults to active
+ * Date ranges are inclusive
+ */
+export interface TaskFilters {
+  boardId?: string;
+  columnId?: string;
+  status?: TaskStatus;
+  assigneeId?: string | null;
+  // Tasks carrying any of these labels
+  labelIds?: string[];
+  view?: TaskView;
+  createdFrom?: Date;
+  createdTo?: Date;
+  updatedFrom?: Date;
+  updatedTo?: Date;
+  // Tasks due at or before this date (tasks without a due date never match)
+  dueBefore?: Date;
+}
+
+/**
+ * Filters accepted when listing overdue tasks
+ */
+export interface OverdueTaskFilters {
+  boardId?: string;
+}
+
+/**
+ * Page requested when listing tasks
+ * cursor is the nextCursor of the previous page
+ */
+export interface TaskPageOptions {
+  limit: number;
+  sort: TaskSort;
+  cursor?: string;
+}
+
+/**
+ * One page of tasks; nextCursor is null on the last page
+ */
+export interface TaskPage {
+  tasks: Task[];
+  nextCursor: string | null;
+}
+
+/**
+ * Options of a full-text search; archived tasks match, trashed ones do not
+ */
+export interface TaskSearchOptions {
+  boardId?: string;
+  limit: number;
+}
+
+/**
+ * A search match with its relevance (higher is better) and snippets
+ * Snippets are HTML-escaped text with the matches wrapped in <mark>
+ */
+export interface TaskSearchResult {
+  task: Task;
+  score: number;
+  highlights: {
+    title: string;
+    description?: string;
+  };
 }
 
 /**
@@ -32,6 +254,67 @@ export interface CreateTaskRequest {
  */
 export interface UpdateTaskStatusRequest {
   status: TaskStatus;
+  // Move even if the task has open blockers
+  force?: boolean;
+}
+
+/**
+ * Request DTO for marking a task as blocked by another one
+ */
+export interface AddTaskBlockerRequest {
+  blockerId: string;
+}
+
+/**
+ * Kinds of change a bulk request can make
+ */
+export const BULK_OPERATION_TYPES = [
+  "status",
+  "label",
+  "assignee",
+  "archive",
+  "delete",
+] as const;
+
+/**
+ * One change of a bulk request, applied to a single task
+ * A label operation adds the label, or takes it off with remove
+ */
+export type BulkTaskOperation =
+  | { type: "status"; taskId: string; status: TaskStatus }
+  | { type: "label"; taskId: string; labelId: string; remove?: boolean }
+  | { type: "assignee"; taskId: string; assigneeId: string | null }
+  | { type: "archive"; taskId: string; archived: boolean }
+  | { type: "delete"; taskId: string };
+
+/**
+ * Request DTO for changing many tasks at once (all or nothing)
+ */
+export interface BulkTaskRequest {
+  operations: BulkTaskOperation[];
+}
+
+/**
+ * Outcome of one operation of a bulk request, in request order
+ * Nothing is saved when any operation fails, so there ok only means the
+ * operation itself was valid
+ */
+export interface BulkTaskResult {
+  taskId: string;
+  ok: boolean;
+  // The task once saved
+  task?: Task;
+  error?: string;
+}
+
+/**
+ * Response DTO for one operation of a bulk request
+ */
+export interface BulkTaskResultResponse {
+  taskId: string;
+  ok: boolean;
+  task?: TaskResponse;
+  error?: string;
 }
 
 /**
@@ -42,6 +325,72 @@ export interface TaskResponse {
   title: string;
   description?: string;
   status: string;
+  priority: string;
   createdAt: string;
   updatedAt: string;
+  boardId: string;
+  columnId: string;
+  rank: string;
+  dueAt?: string;
+  estimate?: number;
+  version: number;
+  archivedAt?: string;
+  deletedAt?: string;
+  createdById?: string;
+  assigneeId?: string;
+  assignee?: UserSummary;
+  labels: LabelSummary[];
+  checklist: ChecklistProgress;
+  commentCount: number;
+  attachmentCount: number;
+  // First image attachment, used as the card thumbnail
+  coverAttachmentId?: string;
+  blockedBy: TaskBlocker[];
+  loggedSeconds: number;
+}
+
+/**
+ * Task fields recorded by a history event (null when the field was empty)
+ */
+export type TaskEventValues = Record<string, string | null>;
+
+/**
+ * Entry of a task's history; before and after only hold the fields that
+ * changed (a creation has no before, a deletion no after)
+ */
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  type: TaskEventType;
+  actorId?: string;
+  actor?: UserSummary;
+  before?: TaskEventValues;
+  after?: TaskEventValues;
+  createdAt: Date;
+}
+
+/**
+ * Response DTO for a task history event
+ */
+export interface TaskEventResponse {
+  id: string;
+  taskId: string;
+  type: string;
+  actorId?: string;
+  actor?: UserSummary;
+  before?: TaskEventValues;
+  after?: TaskEventValues;
+  createdAt: string;
+}
+
+/**
+ * Response DTO for a search match
+ */
+export interface TaskSearchResultResponse {
+  task: TaskResponse;
+  score: number;
+  highlights: {
+    title: string;
+    description?: string;
+  };
 }
@@ -0,0 +1,70 @@
+import type { UserSummary } from "./user.types.js";
+
+/**
+ * Core TimeEntry interface: work logged by a user on a task
+ * endedAt is unset while the entry is a running timer
+ */
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  task?: TimeEntryTask;
+  userId: string;
+  user?: UserSummary;
+  startedAt: Date;
+  endedAt?: Date;
+  note?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Task an entry was logged on, as listed in timesheets
+ */
+export interface TimeEntryTask {
+  id: string;
+  title: string;
+  boardName: string;
+}
+
+/**
+ * Request DTO for starting a timer on a task
+ */
+export interface StartTimerRequest {
+  note?: string;
+}
+
+/**
+ * Request DTO for logging work done without a timer (ISO 8601 dates)
+ */
+export interface CreateTimeEntryRequest {
+  startedAt: string;
+  endedAt: string;
+  note?: string;
+}
+
+/**
+ * Timesheet of a user: finished entries started in [from, to)
+ */
+export interface TimesheetFilters {
+  userId: string;
+  from: Date;
+  to: Date;
+}
+
+/**
+ * Response DTO for time entry data returned by API
+ * durationSeconds is only set once the entry has ended
+ */
+export interface TimeEntryResponse {
+  id: string;
+  taskId: string;
+  task?: TimeEntryTask;
+  userId: string;
+  user?: UserSummary;
+  startedAt: string;
+  endedAt?: string;
+  durationSeconds?: number;
+  note?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,7 @@
+/**
+ * Public user information safe to embed in other API responses
+ */
+export interface UserSummary {
+  id: string;
+  username: string;
+}
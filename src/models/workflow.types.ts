@@ -0,0 +1,16 @@
+import type { TaskStatus } from "./task.types.js";
+
+/**
+ * Task fields that can be required to enter a status
+ */
+export type WorkflowRequirement = "assignee" | "description";
+
+/**
+ * Workflow state machine of a board
+ * transitions lists, for each status, the statuses a task may move to.
+ * Moves between columns of the same status are always allowed.
+ */
+export interface WorkflowConfig {
+  transitions: Record<TaskStatus, TaskStatus[]>;
+  requirements: Partial<Record<TaskStatus, WorkflowRequirement[]>>;
+}
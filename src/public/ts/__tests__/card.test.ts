@@ -3,6 +3,7 @@
  */
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { TaskCard } from "../components/card.js";
+import { TaskConflictError } from "../api/client.js";
 import type {
   Task,
   TaskStatus,
@@ -14,10 +15,13 @@ import type {
 const mockDragDropService: IDragDropService = {
   setupDragHandlers: vi.fn(),
   setupDropZone: vi.fn(),
+  setupSortable: vi.fn(),
 };
 
 const mockApiClient: IApiClient = {
   getTasks: vi.fn(),
+  getTaskPage: vi.fn(),
+  searchTasks: vi.fn(),
   createTask: vi.fn(),
   updateTaskStatus: vi.fn(),
   updateTask: vi.fn().mockResolvedValue({
@@ -27,7 +31,59 @@ const mockApiClient: IApiClient = {
     status: "pending" as TaskStatus,
     createdAt: "2023-01-01T00:00:00Z",
     updatedAt: "2023-01-01T00:00:00Z",
+    boardId: "board-1",
+    columnId: "column-1",
+    rank: "i",
   }),
+  updateTaskAssignee: vi.fn(),
+  deleteTask: vi.fn(),
+  restoreTask: vi.fn(),
+  archiveTask: vi.fn(),
+  bulkUpdateTasks: vi.fn(),
+  moveTaskToColumn: vi.fn(),
+  addTaskBlocker: vi.fn(),
+  removeTaskBlocker: vi.fn(),
+  updateTaskPosition: vi.fn(),
+  getUsers: vi.fn(),
+  getBoards: vi.fn(),
+  createBoard: vi.fn(),
+  updateBoard: vi.fn(),
+  deleteBoard: vi.fn(),
+  getColumns: vi.fn(),
+  getColumnTotals: vi.fn(),
+  createColumn: vi.fn(),
+  updateColumn: vi.fn(),
+  deleteColumn: vi.fn(),
+  reorderColumns: vi.fn(),
+  getWorkflow: vi.fn(),
+  updateTaskLabels: vi.fn(),
+  getLabels: vi.fn(),
+  createLabel: vi.fn(),
+  deleteLabel: vi.fn(),
+  getChecklist: vi.fn(),
+  createChecklistItem: vi.fn(),
+  updateChecklistItem: vi.fn(),
+  deleteChecklistItem: vi.fn(),
+  getTaskHistory: vi.fn(),
+  getRecurrence: vi.fn(),
+  setRecurrence: vi.fn(),
+  deleteRecurrence: vi.fn(),
+  getTimeEntries: vi.fn(),
+  createTimeEntry: vi.fn(),
+  startTimer: vi.fn(),
+  stopTimer: vi.fn(),
+  getRunningTimer: vi.fn(),
+  getTimesheetBlob: vi.fn(),
+  streamTaskChanges: vi.fn(),
+  getAttachments: vi.fn(),
+  uploadAttachment: vi.fn(),
+  getAttachmentBlob: vi.fn(),
+  deleteAttachment: vi.fn(),
+  getComments: vi.fn(),
+  createComment: vi.fn(),
+  updateComment: vi.fn(),
+  deleteComment: vi.fn(),
+  getCommentRevisions: vi.fn(),
   setAuthService: vi.fn(),
   setUnauthorizedHandler: vi.fn(),
 };
@@ -39,6 +95,10 @@ const mockTask: Task = {
   status: "pending" as TaskStatus,
   createdAt: "2023-01-01T00:00:00Z",
   updatedAt: "2023-01-01T00:00:00Z",
+  boardId: "board-1",
+  columnId: "column-1",
+  rank: "i",
+  version: 1,
 };
 
 describe("TaskCard", () => {
@@ -59,6 +119,135 @@ describe("TaskCard", () => {
     expect(element.textContent).toContain("Test description");
   });
 
+  it("should render label chips with their colors", () => {
+    const labeledCard = new TaskCard(
+      {
+        ...mockTask,
+        labels: [{ id: "label-1", name: "Bug", color: "#dc2626" }],
+      },
+      mockDragDropService,
+      mockApiClient
+    );
+
+    const chip = labeledCard.render().querySelector(".task-label");
+
+    expect(chip?.textContent).toBe("Bug");
+    expect((chip as HTMLElement).style.backgroundColor).toBe(
+      "rgb(220, 38, 38)"
+    );
+  });
+
+  it("should flag overdue cards and describe how late they are", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2023-01-10T12:00:00Z"));
+
+    const overdueCard = new TaskCard(
+      { ...mockTask, dueAt: "2023-01-07T12:00:00Z" },
+      mockDragDropService,
+      mockApiClient
+    );
+    const element = overdueCard.render();
+
+    expect(element.classList.contains("overdue")).toBe(true);
+    expect(element.querySelector(".task-card-due")?.textContent).toBe(
+      "Vencida hace 3 días"
+    );
+    vi.useRealTimers();
+  });
+
+  it("should show checklist progress", () => {
+    const checklistCard = new TaskCard(
+      { ...mockTask, checklist: { done: 3, total: 7 } },
+      mockDragDropService,
+      mockApiClient
+    );
+
+    const progress = checklistCard
+      .render()
+      .querySelector(".task-card-checklist");
+
+    expect(progress?.textContent).toContain("3/7");
+    expect(progress?.classList.contains("complete")).toBe(false);
+  });
+
+  it("should show the comment count only when there are comments", () => {
+    const commentedCard = new TaskCard(
+      { ...mockTask, commentCount: 4 },
+      mockDragDropService,
+      mockApiClient
+    );
+
+    expect(
+      commentedCard.render().querySelector(".task-card-comments")?.textContent
+    ).toContain("4");
+    expect(taskCard.render().querySelector(".task-card-comments")).toBeNull();
+  });
+
+  it("should mark tasks with open blockers and list them", () => {
+    const blockedCard = new TaskCard(
+      {
+        ...mockTask,
+        blockedBy: [
+          {
+            id: "task-2",
+            title: "Diseño",
+            status: "IN_PROGRESS" as TaskStatus,
+          },
+          { id: "task-3", title: "Specs", status: "COMPLETED" as TaskStatus },
+        ],
+      },
+      mockDragDropService,
+      mockApiClient
+    );
+    const unblockedCard = new TaskCard(
+      {
+        ...mockTask,
+        blockedBy: [
+          { id: "task-3", title: "Specs", status: "COMPLETED" as TaskStatus },
+        ],
+      },
+      mockDragDropService,
+      mockApiClient
+    );
+
+    expect(
+      blockedCard
+        .render()
+        .querySelector(".task-card-blocked")
+        ?.getAttribute("title")
+    ).toBe("Bloqueada por: Diseño");
+    expect(
+      unblockedCard.render().querySelector(".task-card-blocked")
+    ).toBeNull();
+  });
+
+  it("should show the first image attachment as a thumbnail", async () => {
+    URL.createObjectURL = vi.fn(() => "blob:thumbnail");
+    vi.mocked(mockApiClient.getAttachmentBlob).mockResolvedValue(
+      new Blob(["png"])
+    );
+    const attachedCard = new TaskCard(
+      { ...mockTask, attachmentCount: 2, coverAttachmentId: "attachment-1" },
+      mockDragDropService,
+      mockApiClient
+    );
+
+    const element = attachedCard.render();
+    await vi.waitFor(() =>
+      expect(
+        element.querySelector(".task-card-thumbnail")?.getAttribute("src")
+      ).toBe("blob:thumbnail")
+    );
+
+    expect(mockApiClient.getAttachmentBlob).toHaveBeenCalledWith(
+      mockTask.id,
+      "attachment-1"
+    );
+    expect(
+      element.querySelector(".task-card-attachments")?.textContent
+    ).toContain("2");
+  });
+
   it("should setup drag handlers when rendered", () => {
     const element = taskCard.render();
 
@@ -105,6 +294,200 @@ describe("TaskCard", () => {
     expect(element.classList.contains("editing")).toBe(true);
   });
 
+  it("should render assignee initials when the task is assigned", () => {
+    const assignedCard = new TaskCard(
+      {
+        ...mockTask,
+        assigneeId: "user-1",
+        assignee: { id: "user-1", username: "ana.garcia" },
+      },
+      mockDragDropService,
+      mockApiClient
+    );
+    const element = assignedCard.render();
+
+    const avatar = element.querySelector(".task-card-assignee");
+    expect(avatar?.textContent).toBe("AG");
+    expect(avatar?.getAttribute("title")).toBe("Asignada a ana.garcia");
+  });
+
+  it("should not render an avatar for unassigned tasks", () => {
+    const element = taskCard.render();
+
+    expect(element.querySelector(".task-card-assignee")).toBeNull();
+  });
+
+  it("should request moving the task to the trash from the delete button", () => {
+    const element = taskCard.render();
+    const listener = vi.fn();
+    element.addEventListener("taskDeleteRequested", listener);
+
+    (element.querySelector(".delete") as HTMLButtonElement).click();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0]![0].detail.task).toEqual(mockTask);
+  });
+
+  it("should show the logged time and the running timer", () => {
+    const element = new TaskCard(
+      { ...mockTask, loggedSeconds: 5400 },
+      mockDragDropService,
+      mockApiClient
+    ).render();
+    expect(element.querySelector(".task-card-timer")?.textContent).toContain(
+      "1 h 30 min"
+    );
+
+    const runningCard = new TaskCard(
+      mockTask,
+      mockDragDropService,
+      mockApiClient
+    );
+    const runningElement = runningCard.render();
+    const listener = vi.fn();
+    runningElement.addEventListener("taskTimerToggled", listener);
+    runningCard.setRunningTimer({
+      id: "entry-1",
+      taskId: mockTask.id,
+      userId: "user-1",
+      startedAt: new Date(Date.now() - 65 * 1000).toISOString(),
+      createdAt: new Date().toISOString(),
+    });
+
+    const timer = runningElement.querySelector(".task-card-timer.running");
+    expect(timer?.textContent).toContain("0:01:05");
+    (timer as HTMLButtonElement).click();
+    expect(listener).toHaveBeenCalledTimes(1);
+    runningCard.setRunningTimer(null);
+  });
+
+  it("should show the estimate in points", () => {
+    const element = new TaskCard(
+      { ...mockTask, estimate: 2.5 },
+      mockDragDropService,
+      mockApiClient
+    ).render();
+    expect(element.querySelector(".task-card-estimate")?.textContent).toBe(
+      "2,5 pts"
+    );
+
+    const unestimated = new TaskCard(
+      mockTask,
+      mockDragDropService,
+      mockApiClient
+    ).render();
+    expect(unestimated.querySelector(".task-card-estimate")).toBeNull();
+  });
+
+  it("should not enable inline editing while another user edits the task", () => {
+    const element = taskCard.render();
+    const onEditingChanged = vi.fn();
+    element.addEventListener("taskEditingChanged", onEditingChanged);
+
+    taskCard.setEditLock("luis");
+    taskCard.enableInlineEdit();
+
+    expect(element.classList.contains("locked")).toBe(true);
+    expect(element.classList.contains("editing")).toBe(false);
+    expect(element.querySelector(".task-card-lock")?.textContent).toBe(
+      "Editando: luis"
+    );
+    expect(onEditingChanged).not.toHaveBeenCalled();
+
+    taskCard.setEditLock(null);
+    taskCard.enableInlineEdit();
+
+    expect(element.classList.contains("editing")).toBe(true);
+    expect(onEditingChanged).toHaveBeenCalledWith(
+      expect.objectContaining({ detail: { task: mockTask, editing: true } })
+    );
+  });
+
+  it("should ask the board to select the card on shift or ctrl click", () => {
+    const element = taskCard.render();
+    const onSelectionToggled = vi.fn();
+    element.addEventListener("taskSelectionToggled", onSelectionToggled);
+
+    element.dispatchEvent(new MouseEvent("click", { bubbles: true }));
+    expect(onSelectionToggled).not.toHaveBeenCalled();
+
+    element.dispatchEvent(
+      new MouseEvent("click", { bubbles: true, shiftKey: true })
+    );
+    element.dispatchEvent(
+      new MouseEvent("click", { bubbles: true, ctrlKey: true })
+    );
+    expect(onSelectionToggled).toHaveBeenCalledTimes(2);
+    expect(onSelectionToggled).toHaveBeenCalledWith(
+      expect.objectContaining({ detail: { task: mockTask } })
+    );
+
+    taskCard.setSelected(true);
+    expect(element.classList.contains("selected")).toBe(true);
+  });
+
+  it("should save over a newer version only after the user confirms", async () => {
+    const current: Task = { ...mockTask, title: "Their title", version: 2 };
+    vi.mocked(mockApiClient.updateTask).mockRejectedValueOnce(
+      new TaskConflictError(current)
+    );
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(true);
+    const element = taskCard.render();
+    taskCard.enableInlineEdit();
+    element.querySelector<HTMLInputElement>(".task-card-input")!.value =
+      "My title";
+
+    element.querySelector<HTMLButtonElement>(".save")!.click();
+    await vi.waitFor(() =>
+      expect(mockApiClient.updateTask).toHaveBeenCalledTimes(2)
+    );
+
+    expect(confirmSpy).toHaveBeenCalled();
+    expect(mockApiClient.updateTask).toHaveBeenNthCalledWith(
+      1,
+      "1",
+      { title: "My title", description: "Test description" },
+      1
+    );
+    expect(mockApiClient.updateTask).toHaveBeenNthCalledWith(
+      2,
+      "1",
+      { title: "My title", description: "Test description" },
+      2
+    );
+    confirmSpy.mockRestore();
+  });
+
+  it("should merge a newer version into the editor when the user declines", async () => {
+    const current: Task = {
+      ...mockTask,
+      title: "Their title",
+      description: "Their description",
+      version: 2,
+    };
+    vi.mocked(mockApiClient.updateTask).mockRejectedValueOnce(
+      new TaskConflictError(current)
+    );
+    const confirmSpy = vi.spyOn(window, "confirm").mockReturnValue(false);
+    const element = taskCard.render();
+    taskCard.enableInlineEdit();
+    element.querySelector<HTMLInputElement>(".task-card-input")!.value =
+      "My title";
+
+    element.querySelector<HTMLButtonElement>(".save")!.click();
+    await vi.waitFor(() => expect(confirmSpy).toHaveBeenCalled());
+
+    // The title edited here wins; the untouched description takes theirs
+    expect(
+      element.querySelector<HTMLInputElement>(".task-card-input")!.value
+    ).toBe("My title");
+    expect(
+      element.querySelector<HTMLTextAreaElement>(".task-card-textarea")!.value
+    ).toBe("Their description");
+    expect(mockApiClient.updateTask).toHaveBeenCalledTimes(1);
+    confirmSpy.mockRestore();
+  });
+
   it("should escape HTML in task content", () => {
     const taskWithHtml: Task = {
       ...mockTask,
@@ -12,6 +12,10 @@ const mockTask: Task = {
   status: "pending" as TaskStatus,
   createdAt: "2023-01-01T00:00:00Z",
   updatedAt: "2023-01-01T00:00:00Z",
+  boardId: "board-1",
+  columnId: "column-1",
+  rank: "i",
+  version: 1,
 };
 
 describe("TaskModal", () => {
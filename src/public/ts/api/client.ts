@@ -3,10 +3,53 @@ import type {
   Task,
   CreateTaskRequest,
   UpdateTaskRequest,
+  TaskFilters,
+  TaskPage,
+  TaskSearchResult,
+  UserSummary,
+  Board,
+  BoardColumn,
+  ColumnTotals,
+  CreateBoardRequest,
+  CreateColumnRequest,
+  WorkflowConfig,
+  Label,
+  ChecklistItem,
+  Comment,
+  CommentRevision,
+  TaskEvent,
+  Attachment,
+  RecurrenceRule,
+  TimeEntry,
+  TaskChange,
+  BulkTaskOperation,
+  BulkTaskResult,
 } from "../types/task.js";
 import { TaskStatus } from "../types/task.js";
 import type { IAuthService } from "../services/auth.js";
 
+/**
+ * Thrown when a task changed on the server since the copy being saved was
+ * read (409); carries the server copy so the user can merge or overwrite
+ */
+export class TaskConflictError extends Error {
+  constructor(readonly current: Task) {
+    super("La tarea ha sido modificada por otra persona");
+    this.name = "TaskConflictError";
+  }
+}
+
+/**
+ * Thrown when a bulk request is rejected because an operation cannot be
+ * applied (422); nothing was saved and the results tell which ones failed
+ */
+export class BulkTaskError extends Error {
+  constructor(readonly results: BulkTaskResult[]) {
+    super("No se ha podido aplicar el cambio a todas las tareas");
+    this.name = "BulkTaskError";
+  }
+}
+
 // Single Responsibility Principle - only handles HTTP communication
 export class ApiClient implements IApiClient {
   private baseUrl = "/api";
@@ -27,32 +70,513 @@ export class ApiClient implements IApiClient {
     this.onUnauthorized = handler;
   }
 
-  async getTasks(): Promise<Task[]> {
+  async getTasks(filters: TaskFilters = {}): Promise<Task[]> {
     // console.log("🔍 ApiClient: Fetching tasks from", `${this.baseUrl}/tasks`);
-    const tasks = await this.get<Task[]>("/tasks");
+    const tasks = await this.get<Task[]>(
+      this.getTasksEndpoint(filters, new URLSearchParams())
+    );
     // console.log("✅ ApiClient: Received tasks:", tasks);
     return tasks;
   }
 
+  /**
+   * Fetch one page of tasks; the server sends the next cursor in X-Next-Cursor
+   */
+  async getTaskPage(
+    filters: TaskFilters,
+    limit: number,
+    cursor?: string | null
+  ): Promise<TaskPage> {
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (cursor) {
+      params.set("cursor", cursor);
+    }
+
+    const response = await fetch(
+      `${this.baseUrl}${this.getTasksEndpoint(filters, params)}`,
+      { headers: this.getAuthHeaders() }
+    );
+    const tasks = await this.handleResponse<Task[]>(response);
+
+    return { tasks, nextCursor: response.headers.get("X-Next-Cursor") };
+  }
+
+  async searchTasks(
+    query: string,
+    boardId?: string
+  ): Promise<TaskSearchResult[]> {
+    const params = new URLSearchParams({ q: query });
+    if (boardId) {
+      params.set("boardId", boardId);
+    }
+    return this.get<TaskSearchResult[]>(`/tasks/search?${params}`);
+  }
+
   async createTask(data: CreateTaskRequest): Promise<Task> {
     return this.post<Task>("/tasks", data);
   }
 
-  async updateTaskStatus(id: string, status: TaskStatus): Promise<Task> {
-    return this.put<Task>(`/tasks/${id}/status`, { status });
+  async updateTaskStatus(
+    id: string,
+    status: TaskStatus,
+    force?: boolean,
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask(
+      "PUT",
+      `/tasks/${id}/status`,
+      { status, ...(force && { force }) },
+      version
+    );
+  }
+
+  /**
+   * Save the given task fields, leaving the rest as they are; with a version
+   * the save fails with TaskConflictError if someone else changed the task
+   * meanwhile
+   */
+  async updateTask(
+    id: string,
+    data: UpdateTaskRequest,
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask(
+      "PATCH",
+      `/tasks/${id}`,
+      data,
+      version,
+      "application/merge-patch+json"
+    );
+  }
+
+  async updateTaskAssignee(
+    id: string,
+    assigneeId: string | null,
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask(
+      "PUT",
+      `/tasks/${id}/assignee`,
+      { assigneeId },
+      version
+    );
+  }
+
+  async updateTaskLabels(
+    id: string,
+    labelIds: string[],
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask("PUT", `/tasks/${id}/labels`, { labelIds }, version);
+  }
+
+  async deleteTask(id: string): Promise<void> {
+    return this.delete(`/tasks/${id}`);
+  }
+
+  async restoreTask(id: string, version?: number): Promise<Task> {
+    return this.writeTask("POST", `/tasks/${id}/restore`, {}, version);
+  }
+
+  async archiveTask(
+    id: string,
+    archived: boolean,
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask("PUT", `/tasks/${id}/archive`, { archived }, version);
+  }
+
+  /**
+   * Apply changes to many tasks at once; either all are saved or none
+   */
+  async bulkUpdateTasks(
+    operations: BulkTaskOperation[]
+  ): Promise<BulkTaskResult[]> {
+    const response = await fetch(`${this.baseUrl}/tasks/bulk`, {
+      method: "POST",
+      headers: this.getAuthHeaders(),
+      body: JSON.stringify({ operations }),
+    });
+
+    if (response.status === 422) {
+      const body = await response.json();
+      if (body.results) {
+        throw new BulkTaskError(body.results);
+      }
+    }
+
+    const { results } = await this.handleResponse<{
+      results: BulkTaskResult[];
+    }>(response);
+    return results;
+  }
+
+  async moveTaskToColumn(
+    id: string,
+    columnId: string,
+    force?: boolean,
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask(
+      "PUT",
+      `/tasks/${id}/column`,
+      { columnId, ...(force && { force }) },
+      version
+    );
+  }
+
+  async addTaskBlocker(id: string, blockerId: string): Promise<Task> {
+    return this.post<Task>(`/tasks/${id}/blockers`, { blockerId });
+  }
+
+  async removeTaskBlocker(id: string, blockerId: string): Promise<Task> {
+    return this.delete<Task>(`/tasks/${id}/blockers/${blockerId}`);
   }
 
-  async updateTask(id: string, data: UpdateTaskRequest): Promise<Task> {
-    return this.put<Task>(`/tasks/${id}`, data);
+  async updateTaskPosition(
+    id: string,
+    beforeId: string | null,
+    afterId: string | null,
+    version?: number
+  ): Promise<Task> {
+    return this.writeTask(
+      "PUT",
+      `/tasks/${id}/position`,
+      { beforeId, afterId },
+      version
+    );
+  }
+
+  async getUsers(): Promise<UserSummary[]> {
+    return this.get<UserSummary[]>("/users");
+  }
+
+  async getBoards(): Promise<Board[]> {
+    return this.get<Board[]>("/boards");
+  }
+
+  async createBoard(data: CreateBoardRequest): Promise<Board> {
+    return this.post<Board>("/boards", data);
+  }
+
+  async updateBoard(
+    id: string,
+    data: Partial<CreateBoardRequest>
+  ): Promise<Board> {
+    return this.put<Board>(`/boards/${id}`, data);
+  }
+
+  async deleteBoard(id: string): Promise<void> {
+    return this.delete(`/boards/${id}`);
+  }
+
+  async getColumns(boardId: string): Promise<BoardColumn[]> {
+    return this.get<BoardColumn[]>(`/boards/${boardId}/columns`);
+  }
+
+  async getColumnTotals(boardId: string): Promise<ColumnTotals[]> {
+    return this.get<ColumnTotals[]>(`/boards/${boardId}/columns/totals`);
+  }
+
+  async createColumn(
+    boardId: string,
+    data: CreateColumnRequest
+  ): Promise<BoardColumn> {
+    return this.post<BoardColumn>(`/boards/${boardId}/columns`, data);
+  }
+
+  async updateColumn(
+    id: string,
+    data: Partial<CreateColumnRequest>
+  ): Promise<BoardColumn> {
+    return this.put<BoardColumn>(`/columns/${id}`, data);
+  }
+
+  async deleteColumn(id: string): Promise<void> {
+    return this.delete(`/columns/${id}`);
+  }
+
+  async reorderColumns(
+    boardId: string,
+    columnIds: string[]
+  ): Promise<BoardColumn[]> {
+    return this.put<BoardColumn[]>(`/boards/${boardId}/columns/order`, {
+      columnIds,
+    });
+  }
+
+  async getWorkflow(boardId: string): Promise<WorkflowConfig> {
+    return this.get<WorkflowConfig>(`/boards/${boardId}/workflow`);
+  }
+
+  async getLabels(boardId: string): Promise<Label[]> {
+    return this.get<Label[]>(`/boards/${boardId}/labels`);
+  }
+
+  async createLabel(
+    boardId: string,
+    data: { name: string; color?: string }
+  ): Promise<Label> {
+    return this.post<Label>(`/boards/${boardId}/labels`, data);
+  }
+
+  async deleteLabel(id: string): Promise<void> {
+    return this.delete(`/labels/${id}`);
+  }
+
+  async getChecklist(taskId: string): Promise<ChecklistItem[]> {
+    return this.get<ChecklistItem[]>(`/tasks/${taskId}/checklist`);
+  }
+
+  async createChecklistItem(
+    taskId: string,
+    text: string
+  ): Promise<ChecklistItem> {
+    return this.post<ChecklistItem>(`/tasks/${taskId}/checklist`, { text });
+  }
+
+  async updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    data: { text?: string; done?: boolean }
+  ): Promise<ChecklistItem> {
+    return this.put<ChecklistItem>(
+      `/tasks/${taskId}/checklist/${itemId}`,
+      data
+    );
+  }
+
+  async deleteChecklistItem(taskId: string, itemId: string): Promise<void> {
+    return this.delete(`/tasks/${taskId}/checklist/${itemId}`);
+  }
+
+  async getTaskHistory(taskId: string): Promise<TaskEvent[]> {
+    return this.get<TaskEvent[]>(`/tasks/${taskId}/history`);
+  }
+
+  /**
+   * Schedule of a task, or null if it does not recur
+   */
+  async getRecurrence(taskId: string): Promise<RecurrenceRule | null> {
+    try {
+      return await this.get<RecurrenceRule>(`/tasks/${taskId}/recurrence`);
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("404")) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async setRecurrence(taskId: string, rule: string): Promise<RecurrenceRule> {
+    return this.put<RecurrenceRule>(`/tasks/${taskId}/recurrence`, { rule });
+  }
+
+  async deleteRecurrence(taskId: string): Promise<void> {
+    return this.delete(`/tasks/${taskId}/recurrence`);
+  }
+
+  async getTimeEntries(taskId: string): Promise<TimeEntry[]> {
+    return this.get<TimeEntry[]>(`/tasks/${taskId}/time-entries`);
+  }
+
+  async createTimeEntry(
+    taskId: string,
+    data: { startedAt: string; endedAt: string; note?: string }
+  ): Promise<TimeEntry> {
+    return this.post<TimeEntry>(`/tasks/${taskId}/time-entries`, data);
+  }
+
+  async startTimer(taskId: string): Promise<TimeEntry> {
+    return this.post<TimeEntry>(`/tasks/${taskId}/time-entries/start`, {});
+  }
+
+  async stopTimer(taskId: string): Promise<TimeEntry> {
+    return this.post<TimeEntry>(`/tasks/${taskId}/time-entries/stop`, {});
+  }
+
+  /**
+   * The user's running timer, or null if none is running
+   */
+  async getRunningTimer(): Promise<TimeEntry | null> {
+    try {
+      return await this.get<TimeEntry>("/time-entries/running");
+    } catch (error) {
+      if (error instanceof Error && error.message.includes("404")) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch the user's timesheet as CSV (dates as YYYY-MM-DD, both included)
+   */
+  async getTimesheetBlob(from: string, to: string): Promise<Blob> {
+    const params = new URLSearchParams({ from, to });
+    const response = await fetch(
+      `${this.baseUrl}/time-entries/timesheet?${params}`,
+      { headers: this.getTokenHeaders() }
+    );
+    if (!response.ok) {
+      await this.handleResponse<void>(response);
+    }
+    return response.blob();
+  }
+
+  /**
+   * Read the task changes of a board until the stream ends or is aborted
+   * EventSource cannot send the Authorization header, so the Server-Sent
+   * Events are parsed from a fetch body instead
+   */
+  async streamTaskChanges(
+    boardId: string,
+    onChange: (change: TaskChange) => void,
+    signal: AbortSignal
+  ): Promise<void> {
+    const params = new URLSearchParams({ boardId });
+    const response = await fetch(`${this.baseUrl}/events?${params}`, {
+      headers: { Accept: "text/event-stream", ...this.getTokenHeaders() },
+      signal,
+    });
+    if (!response.ok) {
+      await this.handleResponse<void>(response);
+    }
+    if (!response.body) {
+      throw new Error("Event stream not supported");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      // Messages end with a blank line; comments and retry hints carry no data
+      let end = buffer.indexOf("\n\n");
+      while (end !== -1) {
+        const data = buffer
+          .slice(0, end)
+          .split("\n")
+          .filter((line) => line.startsWith("data:"))
+          .map((line) => line.slice(5).trimStart())
+          .join("\n");
+        buffer = buffer.slice(end + 2);
+        if (data) {
+          onChange(JSON.parse(data) as TaskChange);
+        }
+        end = buffer.indexOf("\n\n");
+      }
+    }
+  }
+
+  async getAttachments(taskId: string): Promise<Attachment[]> {
+    return this.get<Attachment[]>(`/tasks/${taskId}/attachments`);
+  }
+
+  /**
+   * Upload a file as multipart form data (field "file")
+   */
+  async uploadAttachment(taskId: string, file: File): Promise<Attachment> {
+    const body = new FormData();
+    body.append("file", file);
+
+    // No Content-Type header: the browser adds the multipart boundary
+    const response = await fetch(
+      `${this.baseUrl}/tasks/${taskId}/attachments`,
+      { method: "POST", headers: this.getTokenHeaders(), body }
+    );
+    return this.handleResponse<Attachment>(response);
+  }
+
+  /**
+   * Fetch an attachment's content; the route needs the auth header, so
+   * images cannot point at it directly and use object URLs instead
+   */
+  async getAttachmentBlob(taskId: string, attachmentId: string): Promise<Blob> {
+    const response = await fetch(
+      `${this.baseUrl}/tasks/${taskId}/attachments/${attachmentId}`,
+      { headers: this.getTokenHeaders() }
+    );
+    if (!response.ok) {
+      await this.handleResponse<void>(response);
+    }
+    return response.blob();
+  }
+
+  async deleteAttachment(taskId: string, attachmentId: string): Promise<void> {
+    return this.delete(`/tasks/${taskId}/attachments/${attachmentId}`);
+  }
+
+  async getComments(taskId: string): Promise<Comment[]> {
+    return this.get<Comment[]>(`/tasks/${taskId}/comments`);
+  }
+
+  async createComment(taskId: string, body: string): Promise<Comment> {
+    return this.post<Comment>(`/tasks/${taskId}/comments`, { body });
+  }
+
+  async updateComment(
+    taskId: string,
+    commentId: string,
+    body: string
+  ): Promise<Comment> {
+    return this.put<Comment>(`/tasks/${taskId}/comments/${commentId}`, {
+      body,
+    });
+  }
+
+  async deleteComment(taskId: string, commentId: string): Promise<void> {
+    return this.delete(`/tasks/${taskId}/comments/${commentId}`);
+  }
+
+  async getCommentRevisions(
+    taskId: string,
+    commentId: string
+  ): Promise<CommentRevision[]> {
+    return this.get<CommentRevision[]>(
+      `/tasks/${taskId}/comments/${commentId}/revisions`
+    );
+  }
+
+  /**
+   * Build the task listing endpoint with the filters as query parameters
+   */
+  private getTasksEndpoint(
+    filters: TaskFilters,
+    params: URLSearchParams
+  ): string {
+    const { boardId, ...query } = filters;
+    Object.entries(query).forEach(([key, value]) => {
+      if (value) {
+        params.set(key, value);
+      }
+    });
+
+    const endpoint = boardId
+      ? `/boards/${encodeURIComponent(boardId)}/tasks`
+      : "/tasks";
+    const search = params.toString();
+    return `${endpoint}${search ? `?${search}` : ""}`;
   }
 
   /**
    * Get authorization headers with JWT token
    */
   private getAuthHeaders(): HeadersInit {
-    const headers: HeadersInit = {
+    return {
       "Content-Type": "application/json",
+      ...this.getTokenHeaders(),
     };
+  }
+
+  /**
+   * Get the Authorization header alone, for requests without a JSON body
+   */
+  private getTokenHeaders(): Record<string, string> {
+    const headers: Record<string, string> = {};
 
     if (this.authService) {
       const token = this.authService.getToken();
@@ -92,6 +616,11 @@ export class ApiClient implements IApiClient {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`);
     }
 
+    // No Content responses carry no body to parse
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
     return response.json();
   }
 
@@ -124,4 +653,43 @@ export class ApiClient implements IApiClient {
     });
     return this.handleResponse<T>(response);
   }
+
+  /**
+   * Send a change to one task; with a version the change fails with
+   * TaskConflictError if someone else changed the task since that version
+   */
+  private async writeTask(
+    method: string,
+    endpoint: string,
+    data: unknown,
+    version?: number,
+    contentType = "application/json"
+  ): Promise<Task> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method,
+      headers: {
+        ...this.getTokenHeaders(),
+        "Content-Type": contentType,
+        ...(version !== undefined && { "If-Match": `"${version}"` }),
+      },
+      body: JSON.stringify(data),
+    });
+
+    if (response.status === 409) {
+      const body = await response.json();
+      if (body.current) {
+        throw new TaskConflictError(body.current);
+      }
+    }
+
+    return this.handleResponse<Task>(response);
+  }
+
+  private async delete<T = void>(endpoint: string): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${endpoint}`, {
+      method: "DELETE",
+      headers: this.getAuthHeaders(),
+    });
+    return this.handleResponse<T>(response);
+  }
 }
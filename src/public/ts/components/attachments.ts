@@ -0,0 +1,265 @@
+import type { IApiClient, Task, Attachment } from "../types/task.js";
+
+/**
+ * TaskAttachments - Files attached to a task, in the modal's edit view
+ * Images are previewed as thumbnails; other files download on click.
+ * The callback receives the new count and first image so the board can
+ * refresh the task's card
+ */
+export class TaskAttachments {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private attachments: Attachment[] = [];
+  // Object URLs of the loaded thumbnails, revoked when the task changes
+  private thumbnailUrls = new Map<string, string>();
+  private onChangeCallback:
+    | ((
+        taskId: string,
+        changes: { attachmentCount: number; coverAttachmentId?: string }
+      ) => void)
+    | null = null;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show and fetch the attachments of a task
+   */
+  async load(task: Task): Promise<void> {
+    this.reset();
+    this.taskId = task.id;
+    this.element.classList.remove("hidden");
+    this.render();
+
+    try {
+      const attachments = await this.apiClient.getAttachments(task.id);
+      if (this.taskId !== task.id) return;
+
+      this.attachments = attachments;
+      this.render();
+    } catch (error) {
+      console.error("Failed to load attachments:", error);
+      this.showError("Error al cargar los adjuntos");
+    }
+  }
+
+  /**
+   * Hide the attachments (new tasks have none yet)
+   */
+  hide(): void {
+    this.reset();
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  setOnChange(
+    callback: (
+      taskId: string,
+      changes: { attachmentCount: number; coverAttachmentId?: string }
+    ) => void
+  ): void {
+    this.onChangeCallback = callback;
+  }
+
+  private reset(): void {
+    this.taskId = null;
+    this.attachments = [];
+    this.thumbnailUrls.forEach((url) => URL.revokeObjectURL(url));
+    this.thumbnailUrls.clear();
+  }
+
+  private render(): void {
+    this.element.innerHTML = `
+      <span class="form-label">
+        Adjuntos
+        <span class="task-attachments-count">${this.attachments.length}</span>
+      </span>
+      <ul class="task-attachments-list">
+        ${this.attachments
+          .map(
+            (attachment) => `
+              <li class="task-attachment" data-attachment-id="${attachment.id}">
+                ${
+                  this.isImage(attachment)
+                    ? `<img class="task-attachment-thumbnail" alt="" />`
+                    : `<span class="task-attachment-icon">&#128196;</span>`
+                }
+                <button class="task-attachment-name" type="button" title="Descargar">${this.escapeHtml(
+                  attachment.filename
+                )}</button>
+                <span class="task-attachment-size">${this.formatSize(
+                  attachment.size
+                )}</span>
+                <button class="task-attachment-delete" type="button" title="Eliminar adjunto">&times;</button>
+              </li>
+            `
+          )
+          .join("")}
+      </ul>
+      <label class="btn btn-secondary task-attachments-upload">
+        Adjuntar archivo
+        <input class="task-attachments-input" type="file" hidden />
+      </label>
+      <div class="task-attachments-error hidden"></div>
+    `;
+
+    this.attachments
+      .filter((attachment) => this.isImage(attachment))
+      .forEach((attachment) => void this.showThumbnail(attachment));
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const input = e.target as HTMLInputElement;
+      const file = input.files?.[0];
+      if (input.classList.contains("task-attachments-input") && file) {
+        this.upload(file);
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const attachmentId =
+        target.closest<HTMLElement>(".task-attachment")?.dataset.attachmentId;
+      if (!attachmentId) return;
+
+      if (target.closest(".task-attachment-delete")) {
+        this.deleteAttachment(attachmentId);
+      } else if (
+        target.closest(".task-attachment-name, .task-attachment-thumbnail")
+      ) {
+        this.download(attachmentId);
+      }
+    });
+  }
+
+  private async upload(file: File): Promise<void> {
+    if (!this.taskId) return;
+
+    try {
+      const attachment = await this.apiClient.uploadAttachment(
+        this.taskId,
+        file
+      );
+      this.attachments.push(attachment);
+      this.handleChange();
+    } catch (error) {
+      console.error("Failed to upload attachment:", error);
+      // 413 and 415 come from the size and type limits
+      const message = error instanceof Error ? error.message : "";
+      this.showError(
+        message.includes("413")
+          ? "El archivo es demasiado grande"
+          : message.includes("415")
+            ? "Tipo de archivo no permitido"
+            : "Error al subir el archivo"
+      );
+    }
+  }
+
+  private async download(attachmentId: string): Promise<void> {
+    const attachment = this.attachments.find((a) => a.id === attachmentId);
+    if (!this.taskId || !attachment) return;
+
+    try {
+      const blob = await this.apiClient.getAttachmentBlob(
+        this.taskId,
+        attachmentId
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = attachment.filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to download attachment:", error);
+      this.showError("Error al descargar el archivo");
+    }
+  }
+
+  private async deleteAttachment(attachmentId: string): Promise<void> {
+    if (!this.taskId || !window.confirm("¿Eliminar este adjunto?")) return;
+
+    try {
+      await this.apiClient.deleteAttachment(this.taskId, attachmentId);
+      this.attachments = this.attachments.filter((a) => a.id !== attachmentId);
+      const url = this.thumbnailUrls.get(attachmentId);
+      if (url) {
+        URL.revokeObjectURL(url);
+        this.thumbnailUrls.delete(attachmentId);
+      }
+      this.handleChange();
+    } catch (error) {
+      console.error("Failed to delete attachment:", error);
+      this.showError("Error al eliminar el adjunto");
+    }
+  }
+
+  private async showThumbnail(attachment: Attachment): Promise<void> {
+    const taskId = this.taskId;
+    if (!taskId) return;
+
+    let url = this.thumbnailUrls.get(attachment.id);
+    if (!url) {
+      try {
+        const blob = await this.apiClient.getAttachmentBlob(
+          taskId,
+          attachment.id
+        );
+        if (this.taskId !== taskId) return;
+
+        url = URL.createObjectURL(blob);
+        this.thumbnailUrls.set(attachment.id, url);
+      } catch (error) {
+        console.error("Failed to load thumbnail:", error);
+        return;
+      }
+    }
+
+    this.element
+      .querySelector(
+        `.task-attachment[data-attachment-id="${attachment.id}"] .task-attachment-thumbnail`
+      )
+      ?.setAttribute("src", url);
+  }
+
+  private handleChange(): void {
+    this.render();
+    if (this.taskId && this.onChangeCallback) {
+      const cover = this.attachments.find((a) => this.isImage(a));
+      this.onChangeCallback(this.taskId, {
+        attachmentCount: this.attachments.length,
+        ...(cover && { coverAttachmentId: cover.id }),
+      });
+    }
+  }
+
+  private isImage(attachment: Attachment): boolean {
+    return attachment.mimeType.startsWith("image/");
+  }
+
+  private formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  private showError(message: string): void {
+    const error = this.element.querySelector(".task-attachments-error");
+    if (error) {
+      error.textContent = message;
+      error.classList.remove("hidden");
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
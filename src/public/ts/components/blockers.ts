@@ -0,0 +1,177 @@
+import {
+  TaskStatus,
+  type IApiClient,
+  type Task,
+  type TaskBlocker,
+} from "../types/task.js";
+
+/**
+ * TaskBlockers - Tasks the edited task is blocked by, in the modal's edit view
+ * Blockers are picked among the other tasks loaded on the board. The callback
+ * receives the updated task so the board can refresh its card
+ */
+export class TaskBlockers {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private blockers: TaskBlocker[] = [];
+  private candidates: Task[] = [];
+  private onChangeCallback: ((task: Task) => void) | null = null;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show the blockers of a task
+   * Candidates are the tasks of the board that can be added as blockers
+   */
+  load(task: Task, candidates: Task[]): void {
+    this.taskId = task.id;
+    this.blockers = task.blockedBy ?? [];
+    this.candidates = candidates.filter(
+      (candidate) => candidate.id !== task.id
+    );
+    this.element.classList.remove("hidden");
+    this.render();
+  }
+
+  /**
+   * Hide the blockers (new tasks have none yet)
+   */
+  hide(): void {
+    this.taskId = null;
+    this.blockers = [];
+    this.candidates = [];
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  setOnChange(callback: (task: Task) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private render(): void {
+    const blockerIds = new Set(this.blockers.map((blocker) => blocker.id));
+    const options = this.candidates.filter(
+      (candidate) => !blockerIds.has(candidate.id)
+    );
+
+    this.element.innerHTML = `
+      <span class="form-label">Bloqueada por</span>
+      <ul class="task-blockers-list">
+        ${this.blockers
+          .map(
+            (blocker) => `
+              <li class="task-blocker${
+                blocker.status === TaskStatus.COMPLETED ? " done" : ""
+              }" data-blocker-id="${blocker.id}">
+                <span>${this.escapeHtml(blocker.title)}</span>
+                <button class="task-blocker-delete" type="button" title="Quitar bloqueo">&times;</button>
+              </li>
+            `
+          )
+          .join("")}
+      </ul>
+      ${
+        options.length > 0
+          ? `
+            <div class="task-blockers-add">
+              <select class="task-blockers-select" aria-label="Tarea que la bloquea">
+                ${options
+                  .map(
+                    (option) =>
+                      `<option value="${option.id}">${this.escapeHtml(
+                        option.title
+                      )}</option>`
+                  )
+                  .join("")}
+              </select>
+              <button class="btn btn-secondary task-blockers-add-btn" type="button">Añadir</button>
+            </div>
+          `
+          : ""
+      }
+      <div class="task-blockers-error hidden"></div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+
+      if (target.closest(".task-blockers-add-btn")) {
+        const select = this.element.querySelector<HTMLSelectElement>(
+          ".task-blockers-select"
+        );
+        if (select?.value) {
+          this.addBlocker(select.value);
+        }
+        return;
+      }
+
+      const blockerId =
+        target.closest<HTMLElement>(".task-blocker")?.dataset.blockerId;
+      if (blockerId && target.closest(".task-blocker-delete")) {
+        this.removeBlocker(blockerId);
+      }
+    });
+  }
+
+  private async addBlocker(blockerId: string): Promise<void> {
+    if (!this.taskId) return;
+
+    try {
+      const task = await this.apiClient.addTaskBlocker(this.taskId, blockerId);
+      this.handleChange(task);
+    } catch (error) {
+      console.error("Failed to add blocker:", error);
+      // 400 means the link would close a dependency cycle
+      const message = error instanceof Error ? error.message : "";
+      this.showError(
+        message.includes("400")
+          ? "Esa tarea ya depende de esta; se crearía un ciclo"
+          : "Error al añadir el bloqueo"
+      );
+    }
+  }
+
+  private async removeBlocker(blockerId: string): Promise<void> {
+    if (!this.taskId) return;
+
+    try {
+      const task = await this.apiClient.removeTaskBlocker(
+        this.taskId,
+        blockerId
+      );
+      this.handleChange(task);
+    } catch (error) {
+      console.error("Failed to remove blocker:", error);
+      this.showError("Error al quitar el bloqueo");
+    }
+  }
+
+  private handleChange(task: Task): void {
+    this.blockers = task.blockedBy ?? [];
+    this.render();
+    if (this.onChangeCallback) {
+      this.onChangeCallback(task);
+    }
+  }
+
+  private showError(message: string): void {
+    const error = this.element.querySelector(".task-blockers-error");
+    if (error) {
+      error.textContent = message;
+      error.classList.remove("hidden");
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -4,30 +4,56 @@ import type {
   ITaskCache,
   IDragDropService,
   Task,
-  ColumnConfig,
+  Board,
+  BoardColumn,
+  Label,
+  ChecklistProgress,
   CreateTaskRequest,
+  UpdateTaskRequest,
+  TaskFilters,
+  TaskChange,
+  TimeEntry,
+  WorkflowConfig,
+  ICollaborationClient,
+  PresenceUser,
+  BulkTaskAction,
 } from "../types/task.js";
-import { TaskStatus } from "../types/task.js";
 import { TaskColumn } from "./column.js";
+import { canTransition } from "../utils/workflow.js";
 import { TaskModal } from "./modal.js";
+import { TrashPanel } from "./trash.js";
+import { TaskSearch } from "./search.js";
+import { BulkActionBar } from "./bulk-actions.js";
+import { TaskChecklist } from "./checklist.js";
+import { TaskComments } from "./comments.js";
+import { TaskHistory } from "./history.js";
+import { TaskBlockers } from "./blockers.js";
+import { TaskRecurrence } from "./recurrence.js";
+import { TaskAttachments } from "./attachments.js";
+import { TaskTimeEntries } from "./time-entries.js";
+import { secondsSince } from "../utils/duration.js";
+import { TaskConflictError, BulkTaskError } from "../api/client.js";
+import { getAvatarColor, getInitials } from "../utils/avatar.js";
 
-// Column configuration following the design requirements
-const COLUMN_CONFIG: ColumnConfig[] = [
-  {
-    id: TaskStatus.PENDING,
-    title: "Pendiente",
-    className: "column-pending",
-  },
-  {
-    id: TaskStatus.IN_PROGRESS,
-    title: "En Progreso",
-    className: "column-progress",
-  },
-  {
-    id: TaskStatus.COMPLETED,
-    title: "Completado",
-    className: "column-completed",
-  },
+// localStorage key remembering the last board the user opened
+const CURRENT_BOARD_KEY = "current_board_id";
+
+// Tasks fetched per column at a time; more load as the column scrolls
+const TASK_PAGE_SIZE = 30;
+
+// Pause before reopening a dropped change stream
+const TASK_SYNC_RETRY_MS = 5000;
+
+// Colors cycled through for new labels
+const LABEL_PALETTE = [
+  "#dc2626",
+  "#ea580c",
+  "#ca8a04",
+  "#16a34a",
+  "#0891b2",
+  "#2563eb",
+  "#7c3aed",
+  "#db2777",
 ];
 
 /**
@@ -38,23 +64,61 @@ const COLUMN_CONFIG: ColumnConfig[] = [
  */
 export class TaskBoard implements ITaskBoard {
   private container: HTMLElement;
-  private columns: Map<TaskStatus, TaskColumn>;
+  private columns: Map<string, TaskColumn>;
+  private boardColumns: BoardColumn[] = [];
+  private workflow: WorkflowConfig | null = null;
   private apiClient: IApiClient;
   private cache: ITaskCache;
   private dragDropService: IDragDropService;
   private modal: TaskModal;
+  private checklist: TaskChecklist | null = null;
+  private comments: TaskComments | null = null;
+  private history: TaskHistory | null = null;
+  private attachments: TaskAttachments | null = null;
+  private blockers: TaskBlockers | null = null;
+  private recurrence: TaskRecurrence | null = null;
+  private timeEntries: TaskTimeEntries | null = null;
+  // The user's running timer (on any board), null when none runs
+  private runningTimer: TimeEntry | null = null;
+  private trashPanel: TrashPanel | null = null;
+  private search: TaskSearch | null = null;
+  // IDs matching the header search, null when no search is active
+  private searchMatches: Set<string> | null = null;
   private isLoading: boolean = false;
+  // Cursor of the next page per column, null once the column is complete
+  private nextCursors: Map<string, string | null> = new Map();
+  private loadingColumns: Set<string> = new Set();
+  private assigneeFilter: string | null = null;
+  private labels: Label[] = [];
+  // Selected label IDs; tasks with any of them are shown
+  private labelFilter: Set<string> = new Set();
+  private boards: Board[] = [];
+  private currentBoardId: string | null =
+    localStorage.getItem(CURRENT_BOARD_KEY);
+  // Aborts the change stream of the current board
+  private taskSync: AbortController | null = null;
+  // Presence and edit claims; the board works without it
+  private collaboration: ICollaborationClient | null;
+  // Tasks other users are editing, by task ID, with the editor's name
+  private editLocks: Map<string, string> = new Map();
+  // Version of the task open in the modal, guarding its save
+  private modalTaskVersion: number | undefined;
+  private bulkBar: BulkActionBar | null = null;
+  // Tasks picked with shift/ctrl-click for a bulk action
+  private selectedTaskIds: Set<string> = new Set();
 
   constructor(
     container: HTMLElement,
     apiClient: IApiClient,
     cache: ITaskCache,
-    dragDropService: IDragDropService
+    dragDropService: IDragDropService,
+    collaboration: ICollaborationClient | null = null
   ) {
     this.container = container;
     this.apiClient = apiClient;
     this.cache = cache;
     this.dragDropService = dragDropService;
+    this.collaboration = collaboration;
     this.columns = new Map();
     this.modal = new TaskModal();
   }
@@ -66,9 +130,14 @@ export class TaskBoard implements ITaskBoard {
   async init(): Promise<void> {
     try {
       this.renderBoardStructure();
-      this.setupColumns();
       this.setupEventListeners();
       this.setupModal();
+      this.setupCollaboration();
+      await this.loadUsers();
+      await this.loadBoards();
+      await this.loadLabels();
+      await this.loadRunningTimer();
+      await this.loadColumns();
       await this.loadTasks();
     } catch (error) {
       console.error("Failed to initialize TaskBoard:", error);
@@ -77,7 +146,7 @@ export class TaskBoard implements ITaskBoard {
   }
 
   /**
-   * Load tasks with cache-first strategy then API fetch
+   * Load the first page of tasks of every column from the API
    * Requirements: 5.1, 5.2, 5.3, 5.4
    */
   async loadTasks(): Promise<void> {
@@ -93,7 +162,21 @@ export class TaskBoard implements ITaskBoard {
 
       // Fetch fresh data from API
       // console.log("🌐 TaskBoard: Fetching fresh tasks from API...");
-      const freshTasks = await this.apiClient.getTasks();
+      const pages = await Promise.all(
+        this.boardColumns.map((boardColumn) =>
+          this.apiClient.getTaskPage(
+            this.getTaskFilters(boardColumn.id),
+            TASK_PAGE_SIZE
+          )
+        )
+      );
+      this.nextCursors = new Map(
+        this.boardColumns.map((boardColumn, i) => [
+          boardColumn.id,
+          pages[i]?.nextCursor ?? null,
+        ])
+      );
+      const freshTasks = pages.flatMap((page) => page.tasks);
       // console.log("✅ TaskBoard: Received fresh tasks:", freshTasks);
 
       // Update cache with fresh data
@@ -102,6 +185,10 @@ export class TaskBoard implements ITaskBoard {
       // Update display with fresh data
       // console.log("🎨 TaskBoard: Displaying fresh tasks");
       this.displayTasks(freshTasks);
+      void this.loadColumnTotals();
+
+      // Short first pages may not fill a column enough to scroll
+      this.columns.forEach((column) => column.checkScrollEnd());
     } catch (error) {
       console.error("❌ TaskBoard: Failed to load tasks:", error);
       // console.error("❌ TaskBoard: Error details:", {
@@ -119,23 +206,582 @@ export class TaskBoard implements ITaskBoard {
     }
   }
 
+  /**
+   * Append the next page of a column when its list is scrolled to the end
+   */
+  private async loadMoreTasks(columnId: string): Promise<void> {
+    const cursor = this.nextCursors.get(columnId);
+    if (!cursor || this.isLoading || this.loadingColumns.has(columnId)) {
+      return;
+    }
+
+    try {
+      this.loadingColumns.add(columnId);
+      const page = await this.apiClient.getTaskPage(
+        this.getTaskFilters(columnId),
+        TASK_PAGE_SIZE,
+        cursor
+      );
+
+      // The board was reloaded meanwhile; this page belongs to the old list
+      if (this.nextCursors.get(columnId) !== cursor) return;
+
+      this.nextCursors.set(columnId, page.nextCursor);
+      const column = this.columns.get(columnId);
+      page.tasks.forEach((task) => column?.addTask(task));
+      this.cache.set([...(this.cache.get() || []), ...page.tasks]);
+      column?.checkScrollEnd();
+    } catch (error) {
+      console.error("Failed to load more tasks:", error);
+      this.showError("Error al cargar más tareas");
+    } finally {
+      this.loadingColumns.delete(columnId);
+    }
+  }
+
+  /**
+   * Listing filters for one column of the current board
+   */
+  private getTaskFilters(columnId: string): TaskFilters {
+    return {
+      columnId,
+      ...(this.currentBoardId && { boardId: this.currentBoardId }),
+      ...(this.assigneeFilter && { assignee: this.assigneeFilter }),
+      ...(this.labelFilter.size > 0 && {
+        label: Array.from(this.labelFilter).join(","),
+      }),
+    };
+  }
+
+  /**
+   * Load the labels of the current board for the filter bar and the modal
+   * A failure here only hides labels, the board keeps working
+   */
+  private async loadLabels(): Promise<void> {
+    try {
+      this.labels = this.currentBoardId
+        ? await this.apiClient.getLabels(this.currentBoardId)
+        : [];
+    } catch (error) {
+      console.error("Failed to load labels:", error);
+      this.labels = [];
+    }
+
+    this.modal.setLabels(this.labels);
+    this.bulkBar?.setLabels(this.labels);
+    this.renderLabelFilter();
+  }
+
+  /**
+   * Render the label filter chips of the board header
+   */
+  private renderLabelFilter(): void {
+    const filter = this.container.querySelector(".label-filter");
+    if (!filter) return;
+
+    filter.innerHTML = "";
+    this.labels.forEach((label) => {
+      const chip = document.createElement("button");
+      const selected = this.labelFilter.has(label.id);
+      chip.type = "button";
+      chip.className = "label-filter-chip";
+      chip.classList.toggle("active", selected);
+      chip.dataset.labelId = label.id;
+      chip.style.setProperty("--label-color", label.color);
+      chip.setAttribute("aria-pressed", String(selected));
+      chip.textContent = label.name;
+      filter.appendChild(chip);
+    });
+
+    const addButton = document.createElement("button");
+    addButton.type = "button";
+    addButton.className = "label-add-btn";
+    addButton.title = "Nueva etiqueta";
+    addButton.textContent = "+ Etiqueta";
+    filter.appendChild(addButton);
+  }
+
+  /**
+   * Toggle a label in the filter and reload the tasks
+   */
+  private toggleLabelFilter(labelId: string): void {
+    if (this.labelFilter.has(labelId)) {
+      this.labelFilter.delete(labelId);
+    } else {
+      this.labelFilter.add(labelId);
+    }
+
+    this.renderLabelFilter();
+    this.loadTasks();
+  }
+
+  /**
+   * Prompt for a name and add a label to the current board
+   */
+  private async createLabel(): Promise<void> {
+    if (!this.currentBoardId) return;
+
+    const name = window.prompt("Nombre de la nueva etiqueta")?.trim();
+    if (!name) return;
+
+    try {
+      await this.apiClient.createLabel(this.currentBoardId, {
+        name,
+        color: LABEL_PALETTE[this.labels.length % LABEL_PALETTE.length]!,
+      });
+      await this.loadLabels();
+      this.showSuccess("Etiqueta creada exitosamente");
+    } catch (error) {
+      console.error("Failed to create label:", error);
+      this.showError("Error al crear la etiqueta");
+    }
+  }
+
+  /**
+   * Load assignable users for the task modal
+   * A failure here only disables assignment, the board keeps working
+   */
+  private async loadUsers(): Promise<void> {
+    try {
+      const users = await this.apiClient.getUsers();
+      this.modal.setUsers(users);
+      this.bulkBar?.setUsers(users);
+    } catch (error) {
+      console.error("Failed to load users:", error);
+    }
+  }
+
+  /**
+   * Load boards and select the remembered one (or the first available)
+   */
+  private async loadBoards(): Promise<void> {
+    this.boards = await this.apiClient.getBoards();
+
+    this.setCurrentBoard(
+      this.boards.some((board) => board.id === this.currentBoardId)
+        ? this.currentBoardId
+        : (this.boards[0]?.id ?? null)
+    );
+
+    this.renderBoardSelector();
+  }
+
+  /**
+   * Remember the selected board across reloads
+   * The header search, label filter and bulk selection are scoped to it, so
+   * they are cleared
+   */
+  private setCurrentBoard(boardId: string | null): void {
+    if (boardId !== this.currentBoardId || !this.taskSync) {
+      this.startTaskSync(boardId);
+      this.collaboration?.join(boardId);
+    }
+    this.currentBoardId = boardId;
+    this.labelFilter.clear();
+    this.search?.setBoard(boardId);
+    this.setSelection(new Set());
+
+    if (boardId) {
+      localStorage.setItem(CURRENT_BOARD_KEY, boardId);
+    } else {
+      localStorage.removeItem(CURRENT_BOARD_KEY);
+    }
+  }
+
+  /**
+   * Stop following board changes and presence once the board is discarded
+   * (logout)
+   */
+  destroy(): void {
+    this.taskSync?.abort();
+    this.taskSync = null;
+    this.collaboration?.close();
+  }
+
+  /**
+   * Follow the changes made to a board by other users, replacing the stream
+   * of the previous board
+   */
+  private startTaskSync(boardId: string | null): void {
+    this.taskSync?.abort();
+    this.taskSync = null;
+    if (!boardId) return;
+
+    const taskSync = new AbortController();
+    this.taskSync = taskSync;
+    void this.followTaskChanges(boardId, taskSync.signal);
+  }
+
+  /**
+   * Keep the change stream open, reopening it after a pause when it drops
+   * Changes are not replayed, so the board reloads once reconnected
+   */
+  private async followTaskChanges(
+    boardId: string,
+    signal: AbortSignal
+  ): Promise<void> {
+    let reconnecting = false;
+
+    while (!signal.aborted) {
+      try {
+        const stream = this.apiClient.streamTaskChanges(
+          boardId,
+          (change) => this.applyTaskChange(change),
+          signal
+        );
+        if (reconnecting) {
+          void this.loadTasks();
+        }
+        await stream;
+      } catch (error) {
+        if (signal.aborted) return;
+        console.error("Task change stream failed:", error);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, TASK_SYNC_RETRY_MS));
+      reconnecting = true;
+    }
+  }
+
+  /**
+   * Apply a pushed change to the columns on screen
+   * Changes made from this page come back too; applying them again is harmless
+   */
+  private applyTaskChange(change: TaskChange): void {
+    if (change.boardId !== this.currentBoardId) return;
+
+    const shownIn = Array.from(this.columns.values()).find((column) =>
+      column.getTasks().some((task) => task.id === change.taskId)
+    );
+    const task = change.task;
+
+    if (
+      !task ||
+      task.archivedAt ||
+      task.deletedAt ||
+      !this.matchesFilters(task, shownIn !== undefined)
+    ) {
+      shownIn?.removeTask(change.taskId);
+    } else {
+      if (shownIn && shownIn.getColumn().id !== task.columnId) {
+        shownIn.removeTask(task.id);
+      }
+      // Updates the card when the task is already in the column
+      this.columns.get(task.columnId)?.addTask(task);
+    }
+
+    this.cache.clear();
+    void this.loadColumnTotals();
+  }
+
+  /**
+   * Whether a changed task belongs in the filtered view
+   * The "my tasks" filter cannot be checked here, so under it only tasks
+   * already on screen are kept
+   */
+  private matchesFilters(task: Task, shown: boolean): boolean {
+    if (
+      this.labelFilter.size > 0 &&
+      !(task.labels ?? []).some((label) => this.labelFilter.has(label.id))
+    ) {
+      return false;
+    }
+
+    return !this.assigneeFilter || shown;
+  }
+
+  /**
+   * Show who else is on the board and lock the cards they are editing
+   */
+  private setupCollaboration(): void {
+    this.collaboration?.onPresence((users) => this.renderPresence(users));
+    this.collaboration?.onLockDenied((_taskId, username) =>
+      this.showError(`${username} ya está editando esta tarea`)
+    );
+  }
+
+  /**
+   * Render the avatars of the other users on the board and update the
+   * editing hints of the cards
+   */
+  private renderPresence(users: PresenceUser[]): void {
+    const userId = this.collaboration?.getUserId();
+    const others = users.filter((user) => user.userId !== userId);
+
+    const presence = this.container.querySelector(".board-presence");
+    if (presence) {
+      presence.innerHTML = "";
+      others.forEach((user) => {
+        const avatar = document.createElement("span");
+        avatar.className = "presence-avatar";
+        avatar.classList.toggle("editing", !!user.editingTaskId);
+        avatar.style.backgroundColor = getAvatarColor(user.username);
+        avatar.title = user.editingTaskId
+          ? `${user.username} (editando)`
+          : user.username;
+        avatar.textContent = getInitials(user.username);
+        presence.appendChild(avatar);
+      });
+    }
+
+    this.editLocks = new Map(
+      others
+        .filter((user) => user.editingTaskId)
+        .map((user) => [user.editingTaskId!, user.username])
+    );
+    this.columns.forEach((column) => column.setEditLocks(this.editLocks));
+  }
+
+  /**
+   * Fill the board switcher with the available boards
+   */
+  private renderBoardSelector(): void {
+    const select = this.container.querySelector(
+      ".board-select"
+    ) as HTMLSelectElement | null;
+    if (!select) return;
+
+    select.innerHTML = "";
+    this.boards.forEach((board) => {
+      const option = document.createElement("option");
+      option.value = board.id;
+      option.textContent = board.name;
+      option.selected = board.id === this.currentBoardId;
+      select.appendChild(option);
+    });
+
+    const deleteButton = this.container.querySelector(
+      ".board-delete-btn"
+    ) as HTMLButtonElement | null;
+    if (deleteButton) {
+      // The last board cannot be deleted
+      deleteButton.disabled = this.boards.length <= 1;
+    }
+  }
+
+  /**
+   * Switch to another board and reload its tasks
+   */
+  private async switchBoard(boardId: string): Promise<void> {
+    if (boardId === this.currentBoardId) return;
+
+    this.setCurrentBoard(boardId);
+    this.renderBoardSelector();
+    await this.loadLabels();
+    await this.loadColumns();
+    await this.loadTasks();
+
+    if (this.trashPanel?.isOpen()) {
+      await this.trashPanel.open(boardId);
+    }
+  }
+
+  /**
+   * Fetch the user's running timer, so it survives page reloads
+   */
+  private async loadRunningTimer(): Promise<void> {
+    try {
+      this.runningTimer = await this.apiClient.getRunningTimer();
+    } catch (error) {
+      console.error("Failed to load running timer:", error);
+    }
+  }
+
+  /**
+   * Fetch the task count and estimate total of every column for the headers
+   * Called after any change that adds, removes or edits tasks on the board
+   */
+  private async loadColumnTotals(): Promise<void> {
+    if (!this.currentBoardId) return;
+
+    try {
+      const totals = await this.apiClient.getColumnTotals(this.currentBoardId);
+      totals.forEach((total) =>
+        this.columns
+          .get(total.columnId)
+          ?.setTotals(total.taskCount, total.estimateTotal)
+      );
+    } catch (error) {
+      console.error("Failed to load column totals:", error);
+    }
+  }
+
+  /**
+   * Start the timer on a task, or stop it if it already runs there
+   * Starting a timer stops the one running elsewhere; both cards'
+   * totals are updated
+   */
+  private async toggleTimer(task: Task): Promise<void> {
+    const previous = this.runningTimer;
+
+    try {
+      if (previous?.taskId === task.id) {
+        const entry = await this.apiClient.stopTimer(task.id);
+        this.setRunningTimer(null);
+        this.addLoggedTime(task.id, entry.durationSeconds ?? 0);
+        return;
+      }
+
+      const entry = await this.apiClient.startTimer(task.id);
+      this.setRunningTimer(entry);
+      if (previous) {
+        this.addLoggedTime(
+          previous.taskId,
+          secondsSince(previous.startedAt, new Date(entry.startedAt))
+        );
+      }
+    } catch (error) {
+      console.error("Failed to toggle timer:", error);
+      this.showError("Error al actualizar el temporizador");
+    }
+  }
+
+  private setRunningTimer(entry: TimeEntry | null): void {
+    this.runningTimer = entry;
+    this.columns.forEach((column) => column.setRunningTimer(entry));
+  }
+
+  private addLoggedTime(taskId: string, seconds: number): void {
+    this.updateCardTask(taskId, (task) => ({
+      ...task,
+      loggedSeconds: (task.loggedSeconds ?? 0) + seconds,
+    }));
+  }
+
+  /**
+   * Prompt for a month and download the user's timesheet of it as CSV
+   */
+  private async exportTimesheet(): Promise<void> {
+    const month = window
+      .prompt(
+        "Mes de las horas a exportar (AAAA-MM)",
+        new Date().toISOString().slice(0, 7)
+      )
+      ?.trim();
+    if (!month) return;
+
+    const match = /^(\d{4})-(\d{2})$/.exec(month);
+    if (!match) {
+      this.showError("Indica el mes como AAAA-MM");
+      return;
+    }
+
+    // Day 0 of the next month is the last day of this one
+    const lastDay = new Date(
+      Date.UTC(Number(match[1]), Number(match[2]), 0)
+    ).getUTCDate();
+
+    try {
+      const blob = await this.apiClient.getTimesheetBlob(
+        `${month}-01`,
+        `${month}-${String(lastDay).padStart(2, "0")}`
+      );
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `horas-${month}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Failed to export timesheet:", error);
+      this.showError("Error al exportar las horas");
+    }
+  }
+
+  /**
+   * Prompt for a name and create a new board
+   */
+  private async createBoard(): Promise<void> {
+    const name = window.prompt("Nombre del nuevo tablero")?.trim();
+    if (!name) return;
+
+    try {
+      const board = await this.apiClient.createBoard({ name });
+      this.boards.push(board);
+      await this.switchBoard(board.id);
+      this.showSuccess("Tablero creado exitosamente");
+    } catch (error) {
+      console.error("Failed to create board:", error);
+      this.showError("Error al crear el tablero");
+    }
+  }
+
+  /**
+   * Prompt for a new name for the current board
+   */
+  private async renameBoard(): Promise<void> {
+    const current = this.boards.find(
+      (board) => board.id === this.currentBoardId
+    );
+    if (!current) return;
+
+    const name = window
+      .prompt("Nuevo nombre del tablero", current.name)
+      ?.trim();
+    if (!name || name === current.name) return;
+
+    try {
+      const updated = await this.apiClient.updateBoard(current.id, { name });
+      this.boards = this.boards.map((board) =>
+        board.id === updated.id ? updated : board
+      );
+      this.renderBoardSelector();
+      this.showSuccess("Tablero renombrado exitosamente");
+    } catch (error) {
+      console.error("Failed to rename board:", error);
+      this.showError("Error al renombrar el tablero");
+    }
+  }
+
+  /**
+   * Delete the current board after confirmation; its tasks skip the trash
+   * and are gone for good, so the prompt says so
+   */
+  private async deleteBoard(): Promise<void> {
+    const current = this.boards.find(
+      (board) => board.id === this.currentBoardId
+    );
+    if (!current) return;
+
+    const confirmed = window.confirm(
+      `¿Eliminar el tablero "${current.name}"? Todas sus tareas, incluidas las de la papelera, se borrarán definitivamente y no se podrán restaurar.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await this.apiClient.deleteBoard(current.id);
+      this.setCurrentBoard(null);
+      await this.loadBoards();
+      await this.loadLabels();
+      await this.loadColumns();
+      await this.loadTasks();
+      this.showSuccess("Tablero eliminado exitosamente");
+    } catch (error) {
+      console.error("Failed to delete board:", error);
+      this.showError("Error al eliminar el tablero");
+    }
+  }
+
   /**
    * Create a new task integrating with modal and API
    * Requirements: 3.4
    */
   async createTask(data: CreateTaskRequest): Promise<void> {
     try {
-      // Create task via API
-      const newTask = await this.apiClient.createTask(data);
-
-      // Add to appropriate column (new tasks start as pending)
-      const pendingColumn = this.columns.get(TaskStatus.PENDING);
-      if (pendingColumn) {
-        pendingColumn.addTask(newTask);
-        // console.log("✅ TaskBoard: New task added to PENDING column:", newTask);
+      // Create task via API on the board being viewed
+      const newTask = await this.apiClient.createTask({
+        ...data,
+        ...(this.currentBoardId && { boardId: this.currentBoardId }),
+      });
+
+      // Add to the column chosen by the server (first column by default)
+      const column = this.columns.get(newTask.columnId);
+      if (column) {
+        column.addTask(newTask);
       } else {
-        console.error("❌ TaskBoard: PENDING column not found");
+        console.error("❌ TaskBoard: Column not found:", newTask.columnId);
       }
+      void this.loadColumnTotals();
 
       // Update cache with the new task
       const currentTasks = this.cache.get() || [];
@@ -159,7 +805,28 @@ export class TaskBoard implements ITaskBoard {
       <div class="task-board">
         <header class="board-header">
           <h1>Gestor de Tareas</h1>
+          <div class="board-switcher">
+            <select class="board-select" aria-label="Tablero actual"></select>
+            <button class="board-new-btn" type="button" title="Nuevo tablero">+</button>
+            <button class="board-rename-btn" type="button" title="Renombrar tablero">Renombrar</button>
+            <button class="board-delete-btn" type="button" title="Eliminar tablero">Eliminar</button>
+          </div>
+          <div class="task-search"></div>
+          <div class="label-filter" aria-label="Filtrar por etiquetas"></div>
+          <div class="board-presence" aria-label="Usuarios en el tablero"></div>
           <div class="header-actions">
+            <button class="add-column-btn" type="button" title="Añadir columna">
+              + Columna
+            </button>
+            <button class="my-tasks-btn" type="button" aria-pressed="false" title="Mostrar solo mis tareas">
+              Mis tareas
+            </button>
+            <button class="trash-btn" type="button" title="Tareas archivadas y eliminadas">
+              Papelera
+            </button>
+            <button class="timesheet-btn" type="button" title="Exportar mis horas de un mes (CSV)">
+              Horas
+            </button>
             <button class="create-task-btn" type="button">
               <span class="btn-icon">+</span>
               Nueva Tarea
@@ -167,6 +834,8 @@ export class TaskBoard implements ITaskBoard {
             <button class="logout-btn" type="button" title="Cerrar sesión">Salir</button>
           </div>
         </header>
+
+        <div class="bulk-action-bar hidden" role="toolbar" aria-label="Acciones sobre las tareas seleccionadas"></div>
         
         <div class="loading-overlay hidden">
           <div class="loading-spinner"></div>
@@ -176,6 +845,8 @@ export class TaskBoard implements ITaskBoard {
         <main class="board-container">
           <!-- Columns will be inserted here -->
         </main>
+
+        <aside class="trash-panel hidden"></aside>
         
         <div class="error-toast hidden"></div>
         <div class="success-toast hidden"></div>
@@ -184,36 +855,320 @@ export class TaskBoard implements ITaskBoard {
   }
 
   /**
-   * Setup columns based on configuration
+   * Load the workflow columns of the current board
+   */
+  private async loadColumns(): Promise<void> {
+    [this.boardColumns, this.workflow] = this.currentBoardId
+      ? await Promise.all([
+          this.apiClient.getColumns(this.currentBoardId),
+          this.apiClient.getWorkflow(this.currentBoardId),
+        ])
+      : [[], null];
+    this.setupColumns();
+  }
+
+  /**
+   * Render one TaskColumn per board column, in position order
    */
   private setupColumns(): void {
     const boardContainer = this.container.querySelector(
       ".board-container"
     ) as HTMLElement;
 
-    COLUMN_CONFIG.forEach((config) => {
+    boardContainer.innerHTML = "";
+    this.columns.clear();
+
+    this.boardColumns.forEach((boardColumn) => {
       const column = new TaskColumn(
-        config,
+        boardColumn,
         this.dragDropService,
-        this.apiClient
+        this.apiClient,
+        (taskId, sourceColumnId) =>
+          this.canMoveTask(taskId, sourceColumnId, boardColumn),
+        (taskId, sourceColumnId) => this.findColumnTask(taskId, sourceColumnId)
       );
-      this.columns.set(config.id, column);
+      this.columns.set(boardColumn.id, column);
       boardContainer.appendChild(column.render());
+      column.setSearchMatches(this.searchMatches);
+      column.setRunningTimer(this.runningTimer);
+      column.setEditLocks(this.editLocks);
+      column.setSelectedTasks(this.selectedTaskIds);
     });
+    this.bulkBar?.setColumns(this.boardColumns);
+  }
+
+  /**
+   * Check a drag against the board workflow before the API is called
+   */
+  private canMoveTask(
+    taskId: string,
+    sourceColumnId: string,
+    target: BoardColumn
+  ): boolean {
+    const task = this.findColumnTask(taskId, sourceColumnId);
+
+    if (!this.workflow || !task) {
+      return true;
+    }
+
+    return canTransition(this.workflow, task, target.status);
+  }
+
+  /**
+   * The copy of a task shown in a column, if it is there
+   */
+  private findColumnTask(taskId: string, columnId: string): Task | undefined {
+    return this.columns
+      .get(columnId)
+      ?.getTasks()
+      .find((t) => t.id === taskId);
+  }
+
+  /**
+   * Prompt for a name and append a column to the current board
+   */
+  private async createColumn(): Promise<void> {
+    if (!this.currentBoardId) return;
+
+    const name = window.prompt("Nombre de la nueva columna")?.trim();
+    if (!name) return;
+
+    try {
+      await this.apiClient.createColumn(this.currentBoardId, { name });
+      await this.loadColumns();
+      await this.loadTasks();
+      this.showSuccess("Columna creada exitosamente");
+    } catch (error) {
+      console.error("Failed to create column:", error);
+      this.showError("Error al crear la columna");
+    }
+  }
+
+  /**
+   * Prompt for a new column name
+   */
+  private async renameColumn(columnId: string): Promise<void> {
+    const current = this.boardColumns.find((column) => column.id === columnId);
+    if (!current) return;
+
+    const name = window
+      .prompt("Nuevo nombre de la columna", current.name)
+      ?.trim();
+    if (!name || name === current.name) return;
+
+    try {
+      await this.apiClient.updateColumn(columnId, { name });
+      await this.loadColumns();
+      await this.loadTasks();
+    } catch (error) {
+      console.error("Failed to rename column:", error);
+      this.showError("Error al renombrar la columna");
+    }
+  }
+
+  /**
+   * Delete an empty column after confirmation
+   */
+  private async deleteColumn(columnId: string): Promise<void> {
+    const current = this.boardColumns.find((column) => column.id === columnId);
+    if (!current) return;
+
+    if (!window.confirm(`¿Eliminar la columna "${current.name}"?`)) return;
+
+    try {
+      await this.apiClient.deleteColumn(columnId);
+      await this.loadColumns();
+      await this.loadTasks();
+      this.showSuccess("Columna eliminada exitosamente");
+    } catch (error) {
+      console.error("Failed to delete column:", error);
+      this.showError(
+        "Error al eliminar la columna. Debe estar vacía y no ser la única del tablero."
+      );
+    }
+  }
+
+  /**
+   * Move a column one position left (-1) or right (1)
+   */
+  private async moveColumn(columnId: string, direction: number): Promise<void> {
+    if (!this.currentBoardId) return;
+
+    const columnIds = this.boardColumns.map((column) => column.id);
+    const index = columnIds.indexOf(columnId);
+    const target = index + direction;
+    if (index === -1 || target < 0 || target >= columnIds.length) return;
+
+    columnIds.splice(index, 1);
+    columnIds.splice(target, 0, columnId);
+
+    try {
+      this.boardColumns = await this.apiClient.reorderColumns(
+        this.currentBoardId,
+        columnIds
+      );
+      this.setupColumns();
+      await this.loadTasks();
+    } catch (error) {
+      console.error("Failed to reorder columns:", error);
+      this.showError("Error al reordenar las columnas");
+    }
   }
 
   /**
    * Setup event listeners for board interactions
    */
   private setupEventListeners(): void {
+    // Trash and archive panel
+    this.trashPanel = new TrashPanel(
+      this.container.querySelector(".trash-panel") as HTMLElement,
+      this.apiClient
+    );
+    this.container
+      .querySelector(".trash-btn")
+      ?.addEventListener("click", () => {
+        if (this.trashPanel?.isOpen()) {
+          this.trashPanel.close();
+        } else if (this.currentBoardId) {
+          this.trashPanel?.open(this.currentBoardId);
+        }
+      });
+
+    // Header search: hide the cards that do not match and jump to a pick
+    this.search = new TaskSearch(
+      this.container.querySelector(".task-search") as HTMLElement,
+      this.apiClient
+    );
+    this.container.addEventListener("taskSearchChanged", (e) => {
+      this.searchMatches = (e as CustomEvent).detail.matchIds;
+      this.columns.forEach((column) =>
+        column.setSearchMatches(this.searchMatches)
+      );
+    });
+    this.container.addEventListener("taskSearchSelected", (e) => {
+      this.jumpToTask((e as CustomEvent).detail.task);
+    });
+
+    // Shift/ctrl-click selection and the bulk actions applied to it
+    this.bulkBar = new BulkActionBar(
+      this.container.querySelector(".bulk-action-bar") as HTMLElement
+    );
+    this.container.addEventListener("taskSelectionToggled", (e) => {
+      this.toggleSelection((e as CustomEvent).detail.task);
+    });
+    this.container.addEventListener("bulkActionRequested", (e) => {
+      void this.runBulkAction((e as CustomEvent).detail.action);
+    });
+    this.container.addEventListener("bulkSelectionCleared", () => {
+      this.setSelection(new Set());
+    });
+
+    // Archive and trash requests from task cards
+    this.container.addEventListener("taskArchiveRequested", (e) => {
+      this.archiveTask((e as CustomEvent).detail.task);
+    });
+    this.container.addEventListener("taskDeleteRequested", (e) => {
+      this.deleteTask((e as CustomEvent).detail.task);
+    });
+    this.container.addEventListener("taskTimerToggled", (e) => {
+      this.toggleTimer((e as CustomEvent).detail.task);
+    });
+    this.container
+      .querySelector(".timesheet-btn")
+      ?.addEventListener("click", () => this.exportTimesheet());
+    this.container.addEventListener("taskRestored", (e) => {
+      this.handleTaskRestored((e as CustomEvent).detail.task);
+    });
+    this.container.addEventListener("taskRestoreError", () => {
+      this.showError("Error al restaurar la tarea");
+    });
+
     // Create task button
     const createButton = this.container.querySelector(
       ".create-task-btn"
     ) as HTMLButtonElement;
     createButton?.addEventListener("click", () => {
+      this.checklist?.hide();
+      this.comments?.hide();
+      this.history?.hide();
+      this.attachments?.hide();
+      this.blockers?.hide();
+      this.recurrence?.hide();
+      this.timeEntries?.hide();
       this.modal.show();
     });
 
+    // Details button of task cards opens the modal in edit mode
+    this.container.addEventListener("taskDetailsRequested", (e) => {
+      this.openTaskDetails((e as CustomEvent).detail.task);
+    });
+
+    // Inline editing claims the card for as long as it lasts
+    this.container.addEventListener("taskEditingChanged", (e) => {
+      const { task, editing } = (e as CustomEvent).detail;
+      this.collaboration?.setEditing(editing ? task.id : null);
+    });
+
+    // Board switcher
+    const boardSelect = this.container.querySelector(
+      ".board-select"
+    ) as HTMLSelectElement;
+    boardSelect?.addEventListener("change", () => {
+      this.switchBoard(boardSelect.value);
+    });
+
+    this.container
+      .querySelector(".board-new-btn")
+      ?.addEventListener("click", () => this.createBoard());
+    this.container
+      .querySelector(".board-rename-btn")
+      ?.addEventListener("click", () => this.renameBoard());
+    this.container
+      .querySelector(".board-delete-btn")
+      ?.addEventListener("click", () => this.deleteBoard());
+
+    // Column management
+    this.container
+      .querySelector(".add-column-btn")
+      ?.addEventListener("click", () => this.createColumn());
+
+    this.container.addEventListener("columnMoveRequested", (e) => {
+      const { columnId, direction } = (e as CustomEvent).detail;
+      this.moveColumn(columnId, direction);
+    });
+
+    this.container.addEventListener("columnRenameRequested", (e) => {
+      this.renameColumn((e as CustomEvent).detail.columnId);
+    });
+
+    this.container.addEventListener("columnDeleteRequested", (e) => {
+      this.deleteColumn((e as CustomEvent).detail.columnId);
+    });
+
+    // Label filter chips and label creation
+    this.container
+      .querySelector(".label-filter")
+      ?.addEventListener("click", (e) => {
+        const target = e.target as HTMLElement;
+        const chip = target.closest<HTMLElement>(".label-filter-chip");
+        if (chip?.dataset.labelId) {
+          this.toggleLabelFilter(chip.dataset.labelId);
+        } else if (target.closest(".label-add-btn")) {
+          this.createLabel();
+        }
+      });
+
+    // Toggle "my tasks" filter
+    const myTasksButton = this.container.querySelector(
+      ".my-tasks-btn"
+    ) as HTMLButtonElement;
+    myTasksButton?.addEventListener("click", () => {
+      this.assigneeFilter = this.assigneeFilter ? null : "me";
+      myTasksButton.classList.toggle("active", !!this.assigneeFilter);
+      myTasksButton.setAttribute("aria-pressed", String(!!this.assigneeFilter));
+      this.loadTasks();
+    });
+
     // Listen for task move events from columns
     this.container.addEventListener("taskMoved", (e) => {
       const customEvent = e as CustomEvent;
@@ -221,6 +1176,16 @@ export class TaskBoard implements ITaskBoard {
       this.handleTaskMoved(task, fromColumn, toColumn);
     });
 
+    // Listen for reorders inside a column
+    this.container.addEventListener("columnNeedsMoreTasks", (e) => {
+      const { columnId } = (e as CustomEvent).detail;
+      this.loadMoreTasks(columnId);
+    });
+
+    this.container.addEventListener("taskReordered", () => {
+      this.cache.clear();
+    });
+
     // Listen for task move errors
     this.container.addEventListener("taskMoveError", (e) => {
       const customEvent = e as CustomEvent;
@@ -256,17 +1221,83 @@ export class TaskBoard implements ITaskBoard {
    * Setup modal for task creation and editing
    */
   private setupModal(): void {
+    // Steps are saved as they change; only the card needs refreshing
+    const checklistElement = document.getElementById("task-checklist");
+    if (checklistElement) {
+      this.checklist = new TaskChecklist(checklistElement, this.apiClient);
+      this.checklist.setOnChange((taskId, checklist) =>
+        this.handleChecklistChanged(taskId, checklist)
+      );
+    }
+
+    const commentsElement = document.getElementById("task-comments");
+    if (commentsElement) {
+      this.comments = new TaskComments(commentsElement, this.apiClient);
+      this.comments.setOnChange((taskId, commentCount) =>
+        this.updateCardTask(taskId, (task) => ({ ...task, commentCount }))
+      );
+    }
+
+    const attachmentsElement = document.getElementById("task-attachments");
+    if (attachmentsElement) {
+      this.attachments = new TaskAttachments(
+        attachmentsElement,
+        this.apiClient
+      );
+      // The thumbnail is dropped unless an image is left
+      this.attachments.setOnChange((taskId, changes) =>
+        this.updateCardTask(taskId, ({ coverAttachmentId, ...task }) => ({
+          ...task,
+          ...changes,
+        }))
+      );
+    }
+
+    const blockersElement = document.getElementById("task-blockers");
+    if (blockersElement) {
+      this.blockers = new TaskBlockers(blockersElement, this.apiClient);
+      this.blockers.setOnChange((updated) =>
+        this.updateCardTask(updated.id, () => updated)
+      );
+    }
+
+    const recurrenceElement = document.getElementById("task-recurrence");
+    if (recurrenceElement) {
+      this.recurrence = new TaskRecurrence(recurrenceElement, this.apiClient);
+    }
+
+    const timeElement = document.getElementById("task-time");
+    if (timeElement) {
+      this.timeEntries = new TaskTimeEntries(timeElement, this.apiClient);
+      this.timeEntries.setOnChange((taskId, loggedSeconds) =>
+        this.updateCardTask(taskId, (task) => ({ ...task, loggedSeconds }))
+      );
+    }
+
+    const historyElement = document.getElementById("task-history");
+    if (historyElement) {
+      this.history = new TaskHistory(historyElement, this.apiClient);
+    }
+
+    // Releases the task claimed by openTaskDetails
+    this.modal.setOnHide(() => this.collaboration?.setEditing(null));
+
     this.modal.setOnSubmit(async (data) => {
       if ("id" in data) {
         // Edit mode - update existing task
-        const { id, ...updateData } = data;
-        const updatedTask = await this.apiClient.updateTask(id, updateData);
+        // Assignee and labels are part of the same patch
+        const { id, assigneeId, ...updateData } = data;
+        const updatedTask = await this.saveTaskFields(id, {
+          ...updateData,
+          ...(assigneeId !== undefined && { assigneeId: assigneeId || null }),
+        });
 
         // Update task in appropriate column
-        const column = this.columns.get(updatedTask.status);
+        const column = this.columns.get(updatedTask.columnId);
         if (column) {
           column.updateTask(updatedTask);
         }
+        void this.loadColumnTotals();
 
         // Clear cache
         this.cache.clear();
@@ -278,6 +1309,32 @@ export class TaskBoard implements ITaskBoard {
     });
   }
 
+  /**
+   * Save the modal's fields unless someone changed the task since it was
+   * opened and the user chooses to keep their version
+   */
+  private async saveTaskFields(
+    id: string,
+    data: UpdateTaskRequest
+  ): Promise<Task> {
+    try {
+      return await this.apiClient.updateTask(id, data, this.modalTaskVersion);
+    } catch (error) {
+      if (!(error instanceof TaskConflictError)) throw error;
+
+      // Their copy is shown on the card either way
+      this.updateCardTask(id, () => error.current);
+      if (
+        !window.confirm(
+          "Otra persona ha modificado esta tarea desde que la abriste. ¿Guardar tus cambios sobre su versión?"
+        )
+      ) {
+        throw error;
+      }
+      return this.apiClient.updateTask(id, data, error.current.version);
+    }
+  }
+
   /**
    * Display tasks in their respective columns
    */
@@ -303,26 +1360,171 @@ export class TaskBoard implements ITaskBoard {
       // console.log(
       //   `➕ TaskBoard: Adding task "${task.title}" to ${task.status} column`
       // );
-      const column = this.columns.get(task.status);
+      const column = this.columns.get(task.columnId);
       if (column) {
         column.addTask(task);
-        // console.log(`✅ TaskBoard: Task added to ${task.status} column`);
+        // console.log(`✅ TaskBoard: Task added to ${task.columnId} column`);
       } else {
         console.error(
-          `❌ TaskBoard: No column found for status: ${task.status}`
+          `❌ TaskBoard: No column found for task column: ${task.columnId}`
         );
       }
     });
   }
 
+  /**
+   * Scroll to a search match, adding it to its column if that page is not loaded
+   */
+  private jumpToTask(task: Task): void {
+    if (task.archivedAt) {
+      this.showError("La tarea está archivada; restáurala desde la Papelera");
+      return;
+    }
+
+    const column = this.columns.get(task.columnId);
+    if (!column) {
+      this.showError("La tarea pertenece a otro tablero");
+      return;
+    }
+
+    if (!column.getTasks().some((t) => t.id === task.id)) {
+      column.addTask(task);
+    }
+    column.focusTask(task.id);
+  }
+
+  /**
+   * Move a task to the trash; it stays restorable from the trash panel
+   */
+  private async deleteTask(task: Task): Promise<void> {
+    try {
+      await this.apiClient.deleteTask(task.id);
+      this.columns.get(task.columnId)?.removeTask(task.id);
+      this.cache.clear();
+      void this.loadColumnTotals();
+      this.showSuccess("Tarea movida a la papelera");
+    } catch (error) {
+      console.error("Failed to delete task:", error);
+      this.showError("Error al eliminar la tarea");
+    }
+  }
+
+  /**
+   * Add a card to the bulk selection, or take it out
+   */
+  private toggleSelection(task: Task): void {
+    const selection = new Set(this.selectedTaskIds);
+    if (!selection.delete(task.id)) {
+      selection.add(task.id);
+    }
+    this.setSelection(selection);
+  }
+
+  private setSelection(taskIds: Set<string>): void {
+    this.selectedTaskIds = taskIds;
+    this.columns.forEach((column) => column.setSelectedTasks(taskIds));
+    this.bulkBar?.setCount(taskIds.size);
+  }
+
+  /**
+   * Apply a bulk action to the selected tasks still on the board
+   * The server saves all the changes or none of them
+   */
+  private async runBulkAction(action: BulkTaskAction): Promise<void> {
+    const shown = new Set(
+      Array.from(this.columns.values()).flatMap((column) =>
+        column.getTasks().map((task) => task.id)
+      )
+    );
+    const taskIds = [...this.selectedTaskIds].filter((id) => shown.has(id));
+    if (taskIds.length === 0) {
+      this.setSelection(new Set());
+      return;
+    }
+
+    if (
+      action.type === "delete" &&
+      !window.confirm(`¿Mover ${taskIds.length} tareas a la papelera?`)
+    ) {
+      return;
+    }
+
+    try {
+      const results = await this.apiClient.bulkUpdateTasks(
+        taskIds.map((taskId) => ({ ...action, taskId }))
+      );
+      results.forEach(({ task }) => {
+        if (task) {
+          this.applyTaskChange({
+            type: "task.updated",
+            boardId: task.boardId,
+            taskId: task.id,
+            task,
+          });
+        }
+      });
+
+      this.setSelection(new Set());
+      this.showSuccess(
+        taskIds.length === 1
+          ? "1 tarea actualizada"
+          : `${taskIds.length} tareas actualizadas`
+      );
+    } catch (error) {
+      console.error("Bulk action failed:", error);
+      if (error instanceof BulkTaskError) {
+        const failed = error.results.filter((result) => !result.ok).length;
+        this.showError(
+          `No se ha cambiado ninguna tarea: ${failed} de ${taskIds.length} no admiten el cambio`
+        );
+      } else {
+        this.showError("Error al cambiar las tareas");
+      }
+    }
+  }
+
+  /**
+   * Archive a task, hiding it from the board
+   */
+  private async archiveTask(task: Task): Promise<void> {
+    try {
+      await this.apiClient.archiveTask(task.id, true, task.version);
+      this.columns.get(task.columnId)?.removeTask(task.id);
+      this.cache.clear();
+      void this.loadColumnTotals();
+      this.showSuccess("Tarea archivada");
+    } catch (error) {
+      console.error("Failed to archive task:", error);
+      if (error instanceof TaskConflictError) {
+        // Show their copy so the user decides again with it in view
+        this.updateCardTask(task.id, () => error.current);
+        this.showError("Otra persona ha modificado esta tarea");
+        return;
+      }
+      this.showError("Error al archivar la tarea");
+    }
+  }
+
+  /**
+   * Put a task restored from the trash or archive back on the board
+   */
+  private handleTaskRestored(task: Task): void {
+    if (task.boardId === this.currentBoardId) {
+      this.columns.get(task.columnId)?.addTask(task);
+      void this.loadColumnTotals();
+    }
+    this.cache.clear();
+    this.showSuccess("Tarea restaurada");
+  }
+
   /**
    * Handle successful task move between columns
    * Requirements: 2.4, 2.5
    */
   private handleTaskMoved(
     task: Task,
-    fromColumn: TaskStatus,
-    toColumn: TaskStatus
+    fromColumn: string,
+    toColumn: string
   ): void {
     // Remove task from source column
     const sourceColumn = this.columns.get(fromColumn);
@@ -338,6 +1540,7 @@ export class TaskBoard implements ITaskBoard {
 
     // Clear cache to ensure fresh data on next load
     this.cache.clear();
+    void this.loadColumnTotals();
 
     this.showSuccess("Tarea movida exitosamente");
   }
@@ -348,11 +1551,17 @@ export class TaskBoard implements ITaskBoard {
   private handleTaskMoveError(
     error: Error,
     taskId: string,
-    fromColumn: TaskStatus,
-    toColumn: TaskStatus
+    fromColumn: string,
+    toColumn: string
   ): void {
     console.error("Task move failed:", error);
-    this.showError("Error al mover la tarea. Inténtalo de nuevo.");
+    this.showError(
+      error instanceof TaskConflictError
+        ? "Otra persona ha modificado esta tarea; se ha recargado el tablero"
+        : error.message.includes("409")
+          ? "La tarea está bloqueada por otras tareas sin completar"
+          : "Error al mover la tarea. Inténtalo de nuevo."
+    );
 
     // Optionally reload tasks to ensure consistency
     setTimeout(() => {
@@ -369,6 +1578,57 @@ export class TaskBoard implements ITaskBoard {
     this.showSuccess("Tarea actualizada exitosamente");
   }
 
+  /**
+   * Open the modal in edit mode along with the task's checklist, blockers,
+   * schedule, logged time, comments, attachments and history
+   */
+  private openTaskDetails(task: Task): void {
+    this.modal.show(task);
+    this.modalTaskVersion = task.version;
+
+    // The details stay readable while someone else holds the task
+    const editor = this.editLocks.get(task.id);
+    if (editor) {
+      this.showError(`${editor} está editando esta tarea`);
+    } else {
+      this.collaboration?.setEditing(task.id);
+    }
+    this.checklist?.load(task);
+    this.blockers?.load(
+      task,
+      Array.from(this.columns.values()).flatMap((column) => column.getTasks())
+    );
+    this.recurrence?.load(task);
+    this.timeEntries?.load(task);
+    this.comments?.load(task);
+    this.attachments?.load(task);
+    this.history?.load(task, this.boardColumns);
+  }
+
+  /**
+   * Refresh the progress shown on a task's card
+   */
+  private handleChecklistChanged(
+    taskId: string,
+    checklist: ChecklistProgress
+  ): void {
+    this.updateCardTask(taskId, (task) => ({ ...task, checklist }));
+  }
+
+  /**
+   * Apply changes saved outside the task form to the task's card
+   */
+  private updateCardTask(taskId: string, update: (task: Task) => Task): void {
+    for (const column of this.columns.values()) {
+      const task = column.getTasks().find((t) => t.id === taskId);
+      if (task) {
+        column.updateTask(update(task));
+        break;
+      }
+    }
+    this.cache.clear();
+  }
+
   /**
    * Handle task update errors
    */
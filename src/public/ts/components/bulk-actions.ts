@@ -0,0 +1,152 @@
+import type {
+  BoardColumn,
+  BulkTaskAction,
+  Label,
+  TaskStatus,
+  UserSummary,
+} from "../types/task.js";
+
+// Value of the assignee option that unassigns the tasks
+const UNASSIGNED = "none";
+
+/**
+ * BulkActionBar - Actions for the cards picked with shift/ctrl-click
+ * Hidden while nothing is selected. Dispatches "bulkActionRequested" with the
+ * change to apply to every selected task and "bulkSelectionCleared" when the
+ * user drops the selection
+ */
+export class BulkActionBar {
+  private element: HTMLElement;
+
+  constructor(element: HTMLElement) {
+    this.element = element;
+    this.render();
+    this.setupEventListeners();
+    this.setCount(0);
+  }
+
+  /**
+   * Show how many cards are selected, hiding the bar when there are none
+   */
+  setCount(count: number): void {
+    this.element.classList.toggle("hidden", count === 0);
+    this.getElement(".bulk-count").textContent =
+      count === 1 ? "1 tarea seleccionada" : `${count} tareas seleccionadas`;
+  }
+
+  /**
+   * Offer one move per status, named after the first column in that status
+   * since that is where the tasks land
+   */
+  setColumns(columns: BoardColumn[]): void {
+    const select = this.getSelect(".bulk-status");
+    select.innerHTML = "";
+    select.appendChild(new Option("Mover a…", ""));
+
+    const seen = new Set<TaskStatus>();
+    [...columns]
+      .sort((a, b) => a.position - b.position)
+      .forEach((column) => {
+        if (seen.has(column.status)) return;
+        seen.add(column.status);
+        select.appendChild(new Option(column.name, column.status));
+      });
+  }
+
+  setUsers(users: UserSummary[]): void {
+    const select = this.getSelect(".bulk-assignee");
+    select.innerHTML = "";
+    select.appendChild(new Option("Asignar a…", ""));
+    select.appendChild(new Option("Sin asignar", UNASSIGNED));
+    users.forEach((user) => {
+      select.appendChild(new Option(user.username, user.id));
+    });
+  }
+
+  setLabels(labels: Label[]): void {
+    const select = this.getSelect(".bulk-label");
+    select.innerHTML = "";
+    select.appendChild(new Option("Etiquetar…", ""));
+    labels.forEach((label) => {
+      select.appendChild(new Option(`+ ${label.name}`, `add:${label.id}`));
+    });
+    labels.forEach((label) => {
+      select.appendChild(new Option(`− ${label.name}`, `remove:${label.id}`));
+    });
+    select.disabled = labels.length === 0;
+  }
+
+  private render(): void {
+    this.element.innerHTML = `
+      <span class="bulk-count"></span>
+      <select class="bulk-status" aria-label="Mover las tareas seleccionadas"></select>
+      <select class="bulk-assignee" aria-label="Asignar las tareas seleccionadas"></select>
+      <select class="bulk-label" aria-label="Etiquetar las tareas seleccionadas"></select>
+      <button class="bulk-archive-btn" type="button">Archivar</button>
+      <button class="bulk-delete-btn" type="button">Eliminar</button>
+      <button class="bulk-clear-btn" type="button" title="Deseleccionar">Cancelar</button>
+    `;
+    this.setColumns([]);
+    this.setUsers([]);
+    this.setLabels([]);
+  }
+
+  private setupEventListeners(): void {
+    this.onChoice(".bulk-status", (value) => ({
+      type: "status",
+      status: value as TaskStatus,
+    }));
+    this.onChoice(".bulk-assignee", (value) => ({
+      type: "assignee",
+      assigneeId: value === UNASSIGNED ? null : value,
+    }));
+    this.onChoice(".bulk-label", (value) => {
+      const [action, labelId = ""] = value.split(":");
+      return { type: "label", labelId, remove: action === "remove" };
+    });
+
+    this.getElement(".bulk-archive-btn").addEventListener("click", () =>
+      this.dispatch("bulkActionRequested", {
+        action: { type: "archive", archived: true },
+      })
+    );
+    this.getElement(".bulk-delete-btn").addEventListener("click", () =>
+      this.dispatch("bulkActionRequested", { action: { type: "delete" } })
+    );
+    this.getElement(".bulk-clear-btn").addEventListener("click", () =>
+      this.dispatch("bulkSelectionCleared", {})
+    );
+  }
+
+  /**
+   * Request an action when an option of a picker is chosen, then reset it
+   * so the same option can be chosen again
+   */
+  private onChoice(
+    selector: string,
+    toAction: (value: string) => BulkTaskAction
+  ): void {
+    const select = this.getSelect(selector);
+    select.addEventListener("change", () => {
+      const value = select.value;
+      select.value = "";
+      if (value) {
+        this.dispatch("bulkActionRequested", { action: toAction(value) });
+      }
+    });
+  }
+
+  private dispatch(name: string, detail: object): void {
+    this.element.dispatchEvent(
+      new CustomEvent(name, { detail, bubbles: true })
+    );
+  }
+
+  private getSelect(selector: string): HTMLSelectElement {
+    return this.getElement(selector) as HTMLSelectElement;
+  }
+
+  private getElement(selector: string): HTMLElement {
+    return this.element.querySelector(selector) as HTMLElement;
+  }
+}
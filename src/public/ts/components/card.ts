@@ -3,7 +3,27 @@ import type {
   Task,
   IDragDropService,
   IApiClient,
+  TaskPriority,
+  TimeEntry,
 } from "../types/task.js";
+import { TaskStatus } from "../types/task.js";
+import { getAvatarColor, getInitials } from "../utils/avatar.js";
+import { formatDueDate, getDueState } from "../utils/due.js";
+import {
+  formatDuration,
+  formatElapsed,
+  secondsSince,
+} from "../utils/duration.js";
+import { formatPoints } from "../utils/estimate.js";
+import { TaskConflictError } from "../api/client.js";
+
+// Marker text of each priority
+const PRIORITY_NAMES: Record<TaskPriority, string> = {
+  LOW: "Baja",
+  MEDIUM: "Media",
+  HIGH: "Alta",
+  URGENT: "Urgente",
+};
 
 // Single Responsibility Principle - only handles individual task display and editing
 export class TaskCard implements ITaskCard {
@@ -12,7 +32,20 @@ export class TaskCard implements ITaskCard {
   private dragDropService: IDragDropService;
   private apiClient: IApiClient;
   private isEditing = false;
+  // Server copy the inline edit is based on; its version guards the save
   private originalTask: Task;
+  // Newer copy pushed while editing, shown once editing ends
+  private remoteTask: Task | null = null;
+  // Object URL of the loaded thumbnail, kept across re-renders
+  private thumbnail: { attachmentId: string; url: string } | null = null;
+  // The user's timer when it runs on this task; it lives on the server, so
+  // it is still shown after a reload
+  private runningTimer: TimeEntry | null = null;
+  private timerInterval: number | null = null;
+  // Name of another user editing this task, who holds it until done
+  private editLock: string | null = null;
+  // Picked with shift/ctrl-click for a bulk action
+  private selected = false;
 
   constructor(
     task: Task,
@@ -37,16 +70,18 @@ export class TaskCard implements ITaskCard {
     this.updateCardContent();
     this.setupDragHandlers();
     this.setupEditHandlers();
+    this.setupActionHandlers();
 
     return this.element;
   }
 
   enableInlineEdit(): void {
-    if (this.isEditing || !this.element) return;
+    if (this.isEditing || this.editLock || !this.element) return;
 
     this.isEditing = true;
     this.element.classList.add("editing");
     this.updateCardContent();
+    this.dispatchEditingChanged(true);
 
     // Focus on the title input
     const titleInput = this.element.querySelector(
@@ -59,6 +94,13 @@ export class TaskCard implements ITaskCard {
   }
 
   updateTask(task: Task): void {
+    // Re-rendering would drop what is being typed; changes made meanwhile
+    // come back as a conflict on save
+    if (this.isEditing) {
+      this.remoteTask = task;
+      return;
+    }
+
     this.task = task;
     this.originalTask = { ...task };
     if (this.element) {
@@ -66,15 +108,59 @@ export class TaskCard implements ITaskCard {
     }
   }
 
+  /**
+   * Show or clear the user's running timer on this card
+   */
+  setRunningTimer(entry: TimeEntry | null): void {
+    if (entry?.id === this.runningTimer?.id) return;
+
+    this.runningTimer = entry;
+    if (this.element && !this.isEditing) {
+      this.updateCardContent();
+    }
+  }
+
+  /**
+   * Show who else is editing this task, or clear the hint (null)
+   */
+  setEditLock(username: string | null): void {
+    if (username === this.editLock) return;
+
+    this.editLock = username;
+    if (this.element && !this.isEditing) {
+      this.updateCardContent();
+    }
+  }
+
+  /**
+   * Mark the card as picked for a bulk action
+   */
+  setSelected(selected: boolean): void {
+    this.selected = selected;
+    this.element?.classList.toggle("selected", selected);
+  }
+
   private updateCardContent(): void {
     if (!this.element) return;
 
+    // Completed tasks are never flagged as late
+    const dueState =
+      this.task.dueAt && this.task.status !== TaskStatus.COMPLETED
+        ? getDueState(this.task.dueAt)
+        : null;
+    this.element.classList.toggle("overdue", dueState === "overdue");
+    this.element.classList.toggle("due-soon", dueState === "due-soon");
+    this.element.classList.toggle("locked", this.editLock !== null);
+    this.element.classList.toggle("selected", this.selected);
+
     if (this.isEditing) {
       this.element.innerHTML = this.getEditingHTML();
       this.setupEditingEventListeners();
     } else {
       this.element.innerHTML = this.getReadOnlyHTML();
+      void this.loadThumbnail();
     }
+    this.updateTimerTicker();
   }
 
   private getReadOnlyHTML(): string {
@@ -86,7 +172,19 @@ export class TaskCard implements ITaskCard {
       <!-- <div class="task-card-actions">
         <button class="task-action-btn edit" title="Edit task">✏️</button>
       </div> -->
-      <div class="task-card-title">${this.escapeHtml(this.task.title)}</div>
+      <div class="task-card-actions">
+        <button class="task-action-btn details" type="button" title="Detalles">&#9776;</button>
+        <button class="task-action-btn archive" type="button" title="Archivar tarea">&#128451;</button>
+        <button class="task-action-btn delete" type="button" title="Mover a la papelera">&#128465;</button>
+      </div>
+      ${
+        this.task.coverAttachmentId
+          ? `<img class="task-card-thumbnail" alt="" />`
+          : ""
+      }
+      <div class="task-card-title">${this.getBlockedHTML()}${this.escapeHtml(
+        this.task.title
+      )}</div>
       ${
         description
           ? `<div class="task-card-description">${this.escapeHtml(
@@ -94,10 +192,187 @@ export class TaskCard implements ITaskCard {
             )}</div>`
           : ""
       }
-      <div class="task-card-meta">Creado: ${createdDate}</div>
+      ${this.getLabelsHTML()}
+      ${this.getDueHTML()}
+      ${this.getEditLockHTML()}
+      <div class="task-card-meta">
+        <span>Creado: ${createdDate}</span>
+        ${this.getChecklistHTML()}
+        ${this.getCommentsHTML()}
+        ${this.getAttachmentsHTML()}
+        ${this.getTimerHTML()}
+        ${this.getEstimateHTML()}
+        ${this.getPriorityHTML()}
+        ${this.getAssigneeHTML()}
+      </div>
     `;
   }
 
+  private getAssigneeHTML(): string {
+    const assignee = this.task.assignee;
+    if (!assignee) return "";
+
+    return `<span class="task-card-assignee" title="Asignada a ${this.escapeHtml(
+      assignee.username
+    )}" style="background-color: ${getAvatarColor(
+      assignee.username
+    )}">${this.escapeHtml(getInitials(assignee.username))}</span>`;
+  }
+
+  private getChecklistHTML(): string {
+    const checklist = this.task.checklist;
+    if (!checklist || checklist.total === 0) return "";
+
+    const complete = checklist.done === checklist.total;
+    return `<span class="task-card-checklist${
+      complete ? " complete" : ""
+    }" title="Pasos completados">&#9745; ${checklist.done}/${checklist.total}</span>`;
+  }
+
+  /**
+   * Lock icon for tasks waiting on others; the tooltip lists the open blockers
+   */
+  private getBlockedHTML(): string {
+    const blockers = (this.task.blockedBy ?? []).filter(
+      (blocker) => blocker.status !== TaskStatus.COMPLETED
+    );
+    if (blockers.length === 0) return "";
+
+    return `<span class="task-card-blocked" title="Bloqueada por: ${this.escapeHtml(
+      blockers.map((blocker) => blocker.title).join(", ")
+    )}">&#128274;</span>`;
+  }
+
+  private getCommentsHTML(): string {
+    const count = this.task.commentCount;
+    if (!count) return "";
+
+    return `<span class="task-card-comments" title="Comentarios">&#128172; ${count}</span>`;
+  }
+
+  private getAttachmentsHTML(): string {
+    const count = this.task.attachmentCount;
+    if (!count) return "";
+
+    return `<span class="task-card-attachments" title="Adjuntos">&#128206; ${count}</span>`;
+  }
+
+  /**
+   * Start/stop button with the running time, or the logged total when idle
+   */
+  private getTimerHTML(): string {
+    if (this.runningTimer) {
+      return `<button class="task-card-timer running" type="button" title="Detener temporizador">&#9632; <span class="task-card-timer-elapsed">${formatElapsed(
+        secondsSince(this.runningTimer.startedAt)
+      )}</span></button>`;
+    }
+
+    const logged = this.task.loggedSeconds ?? 0;
+    return `<button class="task-card-timer" type="button" title="Iniciar temporizador">&#9654;${
+      logged > 0 ? ` ${formatDuration(logged)}` : ""
+    }</button>`;
+  }
+
+  /**
+   * Tick the running time every second until the timer stops or the card
+   * leaves the board
+   */
+  private updateTimerTicker(): void {
+    if (this.timerInterval !== null) {
+      window.clearInterval(this.timerInterval);
+      this.timerInterval = null;
+    }
+
+    const timer = this.runningTimer;
+    if (!timer || this.isEditing) return;
+
+    this.timerInterval = window.setInterval(() => {
+      const elapsed = this.element?.querySelector(".task-card-timer-elapsed");
+      if (!elapsed || !this.element?.parentNode) {
+        window.clearInterval(this.timerInterval ?? undefined);
+        this.timerInterval = null;
+        return;
+      }
+      elapsed.textContent = formatElapsed(secondsSince(timer.startedAt));
+    }, 1000);
+  }
+
+  /**
+   * Show the task's first image; fetched once since the route needs auth
+   */
+  private async loadThumbnail(): Promise<void> {
+    const attachmentId = this.task.coverAttachmentId;
+    if (!attachmentId) return;
+
+    if (this.thumbnail?.attachmentId !== attachmentId) {
+      try {
+        const blob = await this.apiClient.getAttachmentBlob(
+          this.task.id,
+          attachmentId
+        );
+        if (this.thumbnail) URL.revokeObjectURL(this.thumbnail.url);
+        this.thumbnail = { attachmentId, url: URL.createObjectURL(blob) };
+      } catch (error) {
+        console.error("Failed to load thumbnail:", error);
+        return;
+      }
+    }
+
+    // Looked up again: the card may have re-rendered while loading
+    this.element
+      ?.querySelector(".task-card-thumbnail")
+      ?.setAttribute("src", this.thumbnail.url);
+  }
+
+  private getEditLockHTML(): string {
+    if (!this.editLock) return "";
+
+    return `<div class="task-card-lock" title="Espera a que termine para editarla">Editando: ${this.escapeHtml(
+      this.editLock
+    )}</div>`;
+  }
+
+  private getEstimateHTML(): string {
+    if (this.task.estimate === undefined) return "";
+
+    return `<span class="task-card-estimate" title="Estimación">${formatPoints(
+      this.task.estimate
+    )}</span>`;
+  }
+
+  private getPriorityHTML(): string {
+    const priority = this.task.priority;
+    if (!priority) return "";
+
+    return `<span class="task-card-priority priority-${priority.toLowerCase()}" title="Prioridad ${PRIORITY_NAMES[
+      priority
+    ].toLowerCase()}">${PRIORITY_NAMES[priority]}</span>`;
+  }
+
+  private getDueHTML(): string {
+    if (!this.task.dueAt) return "";
+
+    const dueDate = new Date(this.task.dueAt);
+    return `<div class="task-card-due" title="${dueDate.toLocaleString()}">${formatDueDate(
+      this.task.dueAt
+    )}</div>`;
+  }
+
+  private getLabelsHTML(): string {
+    const labels = this.task.labels ?? [];
+    if (labels.length === 0) return "";
+
+    // Colors are validated as #rrggbb by the API
+    return `<div class="task-card-labels">${labels
+      .map(
+        (label) =>
+          `<span class="task-label" style="background-color: ${
+            label.color
+          }">${this.escapeHtml(label.name)}</span>`
+      )
+      .join("")}</div>`;
+  }
+
   private getEditingHTML(): string {
     const description = this.task.description || "";
 
@@ -153,6 +428,51 @@ export class TaskCard implements ITaskCard {
     // });
   }
 
+  private setupActionHandlers(): void {
+    if (!this.element) return;
+
+    // Archiving, trashing, timers and selection are handled by the board
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+
+      // Shift/ctrl-click picks the card for a bulk action
+      if (
+        (e.shiftKey || e.ctrlKey || e.metaKey) &&
+        !this.isEditing &&
+        !target.closest("button")
+      ) {
+        e.preventDefault();
+        e.stopPropagation();
+        this.element!.dispatchEvent(
+          new CustomEvent("taskSelectionToggled", {
+            detail: { task: this.task },
+            bubbles: true,
+          })
+        );
+        return;
+      }
+
+      const eventName = target.closest(".details")
+        ? "taskDetailsRequested"
+        : target.closest(".archive")
+          ? "taskArchiveRequested"
+          : target.closest(".delete")
+            ? "taskDeleteRequested"
+            : target.closest(".task-card-timer")
+              ? "taskTimerToggled"
+              : null;
+      if (!eventName || this.isEditing) return;
+
+      e.stopPropagation();
+      this.element!.dispatchEvent(
+        new CustomEvent(eventName, {
+          detail: { task: this.task },
+          bubbles: true,
+        })
+      );
+    });
+  }
+
   private setupEditingEventListeners(): void {
     if (!this.element) return;
 
@@ -251,8 +571,8 @@ export class TaskCard implements ITaskCard {
 
     // Check if anything changed
     if (
-      newTitle === this.task.title &&
-      newDescription === (this.task.description || "")
+      newTitle === this.originalTask.title &&
+      newDescription === (this.originalTask.description || "")
     ) {
       this.cancelEditing();
       return;
@@ -266,23 +586,22 @@ export class TaskCard implements ITaskCard {
         saveBtn.textContent = "⏳";
       }
 
-      // Update task via API
-      const updateData: { title: string; description?: string } = {
+      // Update task via API; an emptied description is cleared with null
+      const updateData = {
         title: newTitle,
+        description: newDescription || null,
       };
 
-      if (newDescription) {
-        updateData.description = newDescription;
-      }
-
       const updatedTask = await this.apiClient.updateTask(
         this.task.id,
-        updateData
+        updateData,
+        this.originalTask.version
       );
 
       // Update local task data
       this.task = updatedTask;
       this.originalTask = { ...updatedTask };
+      this.remoteTask = null;
 
       // Exit editing mode
       this.exitEditingMode();
@@ -295,6 +614,11 @@ export class TaskCard implements ITaskCard {
         })
       );
     } catch (error) {
+      if (error instanceof TaskConflictError) {
+        await this.resolveConflict(newTitle, newDescription, error.current);
+        return;
+      }
+
       console.error("Failed to update task:", error);
 
       // Show error state
@@ -317,9 +641,47 @@ export class TaskCard implements ITaskCard {
     }
   }
 
+  /**
+   * Someone saved the task while it was being edited: either save over
+   * their copy, or merge (their values for the fields left untouched here)
+   * and let the user review the result before saving again
+   */
+  private async resolveConflict(
+    title: string,
+    description: string,
+    current: Task
+  ): Promise<void> {
+    const base = this.originalTask;
+    this.originalTask = { ...current };
+    this.remoteTask = null;
+
+    const overwrite = window.confirm(
+      "Otra persona ha modificado esta tarea mientras la editabas.\n\n" +
+        "Aceptar: guardar tus cambios sobre su versión.\n" +
+        "Cancelar: combinar ambas versiones y revisarlas antes de guardar."
+    );
+    if (overwrite) {
+      // The inputs still hold the user's values
+      await this.saveChanges();
+      return;
+    }
+
+    this.task = {
+      ...current,
+      title: title !== base.title ? title : current.title,
+      description:
+        description !== (base.description || "")
+          ? description
+          : (current.description ?? ""),
+    };
+    this.updateCardContent();
+  }
+
   private cancelEditing(): void {
-    // Restore original task data
-    this.task = { ...this.originalTask };
+    // Restore original task data, or what was saved meanwhile
+    this.task = { ...(this.remoteTask ?? this.originalTask) };
+    this.originalTask = { ...this.task };
+    this.remoteTask = null;
     this.exitEditingMode();
   }
 
@@ -330,9 +692,22 @@ export class TaskCard implements ITaskCard {
       this.element.draggable = true;
       this.updateCardContent();
       this.setupDragHandlers(); // Re-setup drag handlers
+      this.dispatchEditingChanged(false);
     }
   }
 
+  /**
+   * Let the board tell the other users this card is (no longer) being edited
+   */
+  private dispatchEditingChanged(editing: boolean): void {
+    this.element?.dispatchEvent(
+      new CustomEvent("taskEditingChanged", {
+        detail: { task: this.task, editing },
+        bubbles: true,
+      })
+    );
+  }
+
   private escapeHtml(text: string): string {
     const div = document.createElement("div");
     div.textContent = text;
@@ -0,0 +1,203 @@
+import type {
+  IApiClient,
+  Task,
+  ChecklistItem,
+  ChecklistProgress,
+} from "../types/task.js";
+
+/**
+ * TaskChecklist - Interactive checklist shown in the task modal's edit view
+ * Every change is saved right away; the callback receives the new progress
+ * so the board can refresh the task's card
+ */
+export class TaskChecklist {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private items: ChecklistItem[] = [];
+  private onChangeCallback:
+    ((taskId: string, checklist: ChecklistProgress) => void) | null = null;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show and fetch the checklist of a task
+   */
+  async load(task: Task): Promise<void> {
+    this.taskId = task.id;
+    this.items = [];
+    this.element.classList.remove("hidden");
+    this.render();
+
+    try {
+      const items = await this.apiClient.getChecklist(task.id);
+      if (this.taskId !== task.id) return;
+
+      this.items = items;
+      this.render();
+    } catch (error) {
+      console.error("Failed to load checklist:", error);
+      this.showError("Error al cargar la lista de pasos");
+    }
+  }
+
+  /**
+   * Hide the checklist (new tasks have none yet)
+   */
+  hide(): void {
+    this.taskId = null;
+    this.items = [];
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  setOnChange(
+    callback: (taskId: string, checklist: ChecklistProgress) => void
+  ): void {
+    this.onChangeCallback = callback;
+  }
+
+  private render(): void {
+    const done = this.items.filter((item) => item.done).length;
+
+    this.element.innerHTML = `
+      <span class="form-label">
+        Pasos
+        <span class="task-checklist-progress">${done}/${this.items.length}</span>
+      </span>
+      <ul class="task-checklist-items">
+        ${this.items
+          .map(
+            (item) => `
+              <li class="task-checklist-item${item.done ? " done" : ""}" data-item-id="${item.id}">
+                <label>
+                  <input type="checkbox" ${item.done ? "checked" : ""} />
+                  <span>${this.escapeHtml(item.text)}</span>
+                </label>
+                <button class="task-checklist-delete" type="button" title="Eliminar paso">&times;</button>
+              </li>
+            `
+          )
+          .join("")}
+      </ul>
+      <div class="task-checklist-add">
+        <input class="task-checklist-input" type="text" maxlength="200" placeholder="Añadir un paso…" aria-label="Nuevo paso" />
+        <button class="btn btn-secondary task-checklist-add-btn" type="button">Añadir</button>
+      </div>
+      <div class="task-checklist-error hidden"></div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const target = e.target as HTMLInputElement;
+      const itemId = this.getItemId(target);
+      if (target.type === "checkbox" && itemId) {
+        this.toggleItem(itemId, target.checked);
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const itemId = this.getItemId(target);
+      if (target.closest(".task-checklist-delete") && itemId) {
+        this.deleteItem(itemId);
+      } else if (target.closest(".task-checklist-add-btn")) {
+        this.addItem();
+      }
+    });
+
+    // Enter adds a step instead of submitting the task form
+    this.element.addEventListener("keydown", (e) => {
+      const target = e.target as HTMLElement;
+      if (e.key === "Enter" && target.closest(".task-checklist-input")) {
+        e.preventDefault();
+        this.addItem();
+      }
+    });
+  }
+
+  private async addItem(): Promise<void> {
+    const text = this.getInput()?.value.trim();
+    if (!this.taskId || !text) return;
+
+    try {
+      const item = await this.apiClient.createChecklistItem(this.taskId, text);
+      this.items.push(item);
+      this.handleChange();
+      this.getInput()?.focus();
+    } catch (error) {
+      console.error("Failed to add checklist item:", error);
+      this.showError("Error al añadir el paso");
+    }
+  }
+
+  private async toggleItem(itemId: string, done: boolean): Promise<void> {
+    if (!this.taskId) return;
+
+    try {
+      const updated = await this.apiClient.updateChecklistItem(
+        this.taskId,
+        itemId,
+        { done }
+      );
+      this.items = this.items.map((item) =>
+        item.id === itemId ? updated : item
+      );
+      this.handleChange();
+    } catch (error) {
+      console.error("Failed to update checklist item:", error);
+      this.render();
+      this.showError("Error al actualizar el paso");
+    }
+  }
+
+  private async deleteItem(itemId: string): Promise<void> {
+    if (!this.taskId) return;
+
+    try {
+      await this.apiClient.deleteChecklistItem(this.taskId, itemId);
+      this.items = this.items.filter((item) => item.id !== itemId);
+      this.handleChange();
+    } catch (error) {
+      console.error("Failed to delete checklist item:", error);
+      this.showError("Error al eliminar el paso");
+    }
+  }
+
+  private handleChange(): void {
+    this.render();
+    if (this.taskId && this.onChangeCallback) {
+      this.onChangeCallback(this.taskId, {
+        done: this.items.filter((item) => item.done).length,
+        total: this.items.length,
+      });
+    }
+  }
+
+  private showError(message: string): void {
+    const error = this.element.querySelector(".task-checklist-error");
+    if (error) {
+      error.textContent = message;
+      error.classList.remove("hidden");
+    }
+  }
+
+  private getItemId(target: HTMLElement): string | undefined {
+    return target.closest<HTMLElement>(".task-checklist-item")?.dataset.itemId;
+  }
+
+  private getInput(): HTMLInputElement | null {
+    return this.element.querySelector(".task-checklist-input");
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
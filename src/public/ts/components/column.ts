@@ -3,31 +3,52 @@ import type {
   Task,
   IDragDropService,
   IApiClient,
-  ColumnConfig,
+  BoardColumn,
+  TimeEntry,
 } from "../types/task.js";
-import { TaskStatus } from "../types/task.js";
 import { TaskCard } from "./card.js";
+import { formatPoints } from "../utils/estimate.js";
+
+// Distance from the end of the list at which more tasks are requested
+const LOAD_MORE_THRESHOLD_PX = 100;
 
 // Single Responsibility Principle - only responsible for column management
 export class TaskColumn implements ITaskColumn {
   private element: HTMLElement | null = null;
-  private status: TaskStatus;
-  private config: ColumnConfig;
+  private columnId: string;
+  private config: BoardColumn;
   private tasks: Task[] = [];
   private taskCards: Map<string, TaskCard> = new Map();
   private dragDropService: IDragDropService;
   private apiClient: IApiClient;
   private contentElement: HTMLElement | null = null;
+  private canDrop:
+    ((taskId: string, sourceColumnId: string) => boolean) | undefined;
+  // Looks up a task dropped from another column, to send its version
+  private findTask:
+    ((taskId: string, sourceColumnId: string) => Task | undefined) | undefined;
+  // IDs matching the board search, null when no search is active
+  private searchMatches: Set<string> | null = null;
+  // The user's running timer, shown on its task's card
+  private runningTimer: TimeEntry | null = null;
+  // Tasks other users are editing, by task ID, with the editor's name
+  private editLocks: Map<string, string> = new Map();
+  // Tasks picked for a bulk action
+  private selectedTaskIds: ReadonlySet<string> = new Set();
 
   constructor(
-    config: ColumnConfig,
+    config: BoardColumn,
     dragDropService: IDragDropService,
-    apiClient: IApiClient
+    apiClient: IApiClient,
+    canDrop?: (taskId: string, sourceColumnId: string) => boolean,
+    findTask?: (taskId: string, sourceColumnId: string) => Task | undefined
   ) {
-    this.status = config.id;
+    this.columnId = config.id;
     this.config = config;
     this.dragDropService = dragDropService;
     this.apiClient = apiClient;
+    this.canDrop = canDrop;
+    this.findTask = findTask;
   }
 
   render(): HTMLElement {
@@ -36,13 +57,22 @@ export class TaskColumn implements ITaskColumn {
     }
 
     this.element = document.createElement("div");
-    this.element.className = `column ${this.config.className}`;
-    this.element.dataset.status = this.status;
+    this.element.className = "column";
+    this.element.dataset.columnId = this.columnId;
+    this.element.dataset.status = this.config.status;
+    this.element.style.setProperty("--column-color", this.config.color);
 
     // Create column structure
     this.element.innerHTML = `
       <div class="column-header">
-        <h2>${this.escapeHtml(this.config.title)}</h2>
+        <h2>${this.escapeHtml(this.config.name)}</h2>
+        <span class="column-totals hidden"></span>
+        <div class="column-actions">
+          <button class="column-move-left-btn" type="button" title="Mover a la izquierda">&larr;</button>
+          <button class="column-move-right-btn" type="button" title="Mover a la derecha">&rarr;</button>
+          <button class="column-rename-btn" type="button" title="Renombrar columna">&#9998;</button>
+          <button class="column-delete-btn" type="button" title="Eliminar columna">&times;</button>
+        </div>
       </div>
       <div class="column-content">
         ${this.getEmptyStateHTML()}
@@ -60,8 +90,8 @@ export class TaskColumn implements ITaskColumn {
   }
 
   addTask(task: Task): void {
-    // Only add tasks that match this column's status
-    if (task.status !== this.status) {
+    // Only add tasks that belong to this column
+    if (task.columnId !== this.columnId) {
       return;
     }
 
@@ -74,28 +104,16 @@ export class TaskColumn implements ITaskColumn {
     // Add to internal collection
     this.tasks.push(task);
 
-    //Order tasks
-    this.tasks.sort(
-      (a, b) =>
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
-    );
-
     // Create task card
     const taskCard = new TaskCard(task, this.dragDropService, this.apiClient);
+    if (this.runningTimer?.taskId === task.id) {
+      taskCard.setRunningTimer(this.runningTimer);
+    }
+    taskCard.setEditLock(this.editLocks.get(task.id) ?? null);
+    taskCard.setSelected(this.selectedTaskIds.has(task.id));
     this.taskCards.set(task.id, taskCard);
 
-    // Add to DOM
-    if (this.contentElement) {
-      this.contentElement.innerHTML = "";
-      for (const t of this.tasks) {
-        const card =
-          this.taskCards.get(t.id) ||
-          new TaskCard(t, this.dragDropService, this.apiClient);
-        this.taskCards.set(t.id, card);
-        this.contentElement.appendChild(card.render());
-      }
-      this.updateEmptyState();
-    }
+    this.renderTasks();
   }
 
   removeTask(taskId: string): void {
@@ -116,14 +134,15 @@ export class TaskColumn implements ITaskColumn {
   }
 
   updateTask(task: Task): void {
-    // If task status changed, remove it from this column
-    if (task.status !== this.status) {
+    // If task moved to another column, remove it from this one
+    if (task.columnId !== this.columnId) {
       this.removeTask(task.id);
       return;
     }
 
     // Update internal collection
     const taskIndex = this.tasks.findIndex((t) => t.id === task.id);
+    const previousRank = this.tasks[taskIndex]?.rank;
     if (taskIndex !== -1) {
       this.tasks[taskIndex] = task;
     }
@@ -132,6 +151,9 @@ export class TaskColumn implements ITaskColumn {
     const taskCard = this.taskCards.get(task.id);
     if (taskCard) {
       taskCard.updateTask(task);
+      if (previousRank !== task.rank) {
+        this.renderTasks();
+      }
     } else {
       // Task doesn't exist in this column, add it
       this.addTask(task);
@@ -142,19 +164,147 @@ export class TaskColumn implements ITaskColumn {
     return [...this.tasks]; // Return a copy to prevent external modification
   }
 
+  getColumn(): BoardColumn {
+    return this.config;
+  }
+
+  /**
+   * Hide the cards that do not match the board search (null shows them all)
+   */
+  setSearchMatches(matchIds: Set<string> | null): void {
+    this.searchMatches = matchIds;
+    this.renderTasks();
+  }
+
+  /**
+   * Show the column's task count and estimate total in the header
+   * Totals come from the API: they cover the pages not loaded yet
+   */
+  setTotals(taskCount: number, estimateTotal: number): void {
+    const totals = this.element?.querySelector(".column-totals");
+    if (!totals) return;
+
+    totals.textContent =
+      estimateTotal > 0
+        ? `${taskCount} · ${formatPoints(estimateTotal)}`
+        : String(taskCount);
+    totals.setAttribute(
+      "title",
+      `${taskCount} tareas, ${formatPoints(estimateTotal)} estimados`
+    );
+    totals.classList.remove("hidden");
+  }
+
+  /**
+   * Show the user's running timer on its card (null when none runs)
+   */
+  setRunningTimer(entry: TimeEntry | null): void {
+    this.runningTimer = entry;
+    this.taskCards.forEach((card, taskId) =>
+      card.setRunningTimer(entry?.taskId === taskId ? entry : null)
+    );
+  }
+
+  /**
+   * Show which cards other users are editing
+   */
+  setEditLocks(locks: Map<string, string>): void {
+    this.editLocks = locks;
+    this.taskCards.forEach((card, taskId) =>
+      card.setEditLock(locks.get(taskId) ?? null)
+    );
+  }
+
+  /**
+   * Highlight the cards picked for a bulk action
+   */
+  setSelectedTasks(taskIds: ReadonlySet<string>): void {
+    this.selectedTaskIds = taskIds;
+    this.taskCards.forEach((card, taskId) =>
+      card.setSelected(taskIds.has(taskId))
+    );
+  }
+
+  /**
+   * Scroll a card into view and flash it
+   * @returns false if the task is not in this column
+   */
+  focusTask(taskId: string): boolean {
+    const cardElement = this.taskCards.get(taskId)?.render();
+    if (!cardElement) return false;
+
+    cardElement.scrollIntoView({ behavior: "smooth", block: "center" });
+    cardElement.classList.remove("search-focus");
+    // Restart the animation when the same card is picked twice
+    void cardElement.offsetWidth;
+    cardElement.classList.add("search-focus");
+    return true;
+  }
+
+  /**
+   * Ask the board for more tasks when the end of the list is in view
+   * Dispatches "columnNeedsMoreTasks"; the board ignores it once all pages are loaded
+   */
+  checkScrollEnd(): void {
+    if (!this.element || !this.contentElement) return;
+
+    const { scrollTop, scrollHeight, clientHeight } = this.contentElement;
+    if (scrollHeight - scrollTop - clientHeight > LOAD_MORE_THRESHOLD_PX) {
+      return;
+    }
+
+    this.element.dispatchEvent(
+      new CustomEvent("columnNeedsMoreTasks", {
+        detail: { columnId: this.columnId },
+        bubbles: true,
+      })
+    );
+  }
+
   private setupDropZone(): void {
     if (!this.element) return;
 
     this.dragDropService.setupDropZone(
       this.element,
-      this.status,
-      this.handleTaskDrop.bind(this)
+      this.columnId,
+      this.handleTaskDrop.bind(this),
+      this.canDrop
     );
+
+    if (this.contentElement) {
+      this.dragDropService.setupSortable(
+        this.contentElement,
+        this.columnId,
+        this.handleTaskReorder.bind(this)
+      );
+    }
   }
 
   private setupEventListeners(): void {
     if (!this.element) return;
 
+    // Column management buttons are handled by the board
+    const actions: Array<[string, string, Record<string, unknown>]> = [
+      [".column-move-left-btn", "columnMoveRequested", { direction: -1 }],
+      [".column-move-right-btn", "columnMoveRequested", { direction: 1 }],
+      [".column-rename-btn", "columnRenameRequested", {}],
+      [".column-delete-btn", "columnDeleteRequested", {}],
+    ];
+    actions.forEach(([selector, eventName, detail]) => {
+      this.element!.querySelector(selector)?.addEventListener("click", () => {
+        this.element!.dispatchEvent(
+          new CustomEvent(eventName, {
+            detail: { columnId: this.columnId, ...detail },
+            bubbles: true,
+          })
+        );
+      });
+    });
+
+    this.contentElement?.addEventListener("scroll", () =>
+      this.checkScrollEnd()
+    );
+
     // Listen for task update events from task cards
     this.element.addEventListener("taskUpdated", (e) => {
       const customEvent = e as CustomEvent;
@@ -164,7 +314,7 @@ export class TaskColumn implements ITaskColumn {
       // Bubble the event up for parent components
       this.element!.dispatchEvent(
         new CustomEvent("columnTaskUpdated", {
-          detail: { task, column: this.status },
+          detail: { task, column: this.columnId },
           bubbles: true,
         })
       );
@@ -178,7 +328,7 @@ export class TaskColumn implements ITaskColumn {
       // Bubble the error up for parent components to handle
       this.element!.dispatchEvent(
         new CustomEvent("columnTaskUpdateError", {
-          detail: { error, task, column: this.status },
+          detail: { error, task, column: this.columnId },
           bubbles: true,
         })
       );
@@ -187,14 +337,15 @@ export class TaskColumn implements ITaskColumn {
 
   private async handleTaskDrop(
     taskId: string,
-    newStatus: TaskStatus,
-    sourceStatus: TaskStatus
+    targetColumnId: string,
+    sourceColumnId: string
   ): Promise<void> {
     try {
-      // Update task status via API
-      const updatedTask = await this.apiClient.updateTaskStatus(
+      // Move task to this column via API
+      const updatedTask = await this.moveTask(
         taskId,
-        newStatus
+        targetColumnId,
+        this.findTask?.(taskId, sourceColumnId)?.version
       );
 
       // Dispatch event for parent component to handle the move
@@ -203,8 +354,8 @@ export class TaskColumn implements ITaskColumn {
           new CustomEvent("taskMoved", {
             detail: {
               task: updatedTask,
-              fromColumn: sourceStatus,
-              toColumn: newStatus,
+              fromColumn: sourceColumnId,
+              toColumn: targetColumnId,
             },
             bubbles: true,
           })
@@ -220,8 +371,83 @@ export class TaskColumn implements ITaskColumn {
             detail: {
               error,
               taskId,
-              fromColumn: sourceStatus,
-              toColumn: newStatus,
+              fromColumn: sourceColumnId,
+              toColumn: targetColumnId,
+            },
+            bubbles: true,
+          })
+        );
+      }
+
+      throw error; // Re-throw for drag service to handle
+    }
+  }
+
+  /**
+   * Move a task through the API; a task with open blockers (409) is only
+   * moved if the user confirms it. Fails with TaskConflictError if someone
+   * else changed the task since the given version
+   */
+  private async moveTask(
+    taskId: string,
+    columnId: string,
+    version?: number
+  ): Promise<Task> {
+    try {
+      return await this.apiClient.moveTaskToColumn(
+        taskId,
+        columnId,
+        false,
+        version
+      );
+    } catch (error) {
+      if (
+        error instanceof Error &&
+        error.message.includes("409") &&
+        window.confirm(
+          "La tarea está bloqueada por otras tareas sin completar. ¿Moverla de todos modos?"
+        )
+      ) {
+        return this.apiClient.moveTaskToColumn(taskId, columnId, true, version);
+      }
+      throw error;
+    }
+  }
+
+  private async handleTaskReorder(
+    taskId: string,
+    beforeId: string | null,
+    afterId: string | null
+  ): Promise<void> {
+    try {
+      const updatedTask = await this.apiClient.updateTaskPosition(
+        taskId,
+        beforeId,
+        afterId,
+        this.tasks.find((task) => task.id === taskId)?.version
+      );
+      this.updateTask(updatedTask);
+
+      if (this.element) {
+        this.element.dispatchEvent(
+          new CustomEvent("taskReordered", {
+            detail: { task: updatedTask, column: this.columnId },
+            bubbles: true,
+          })
+        );
+      }
+    } catch (error) {
+      console.error("Failed to reorder task:", error);
+
+      // Reuse the move error flow so the board reloads a consistent order
+      if (this.element) {
+        this.element.dispatchEvent(
+          new CustomEvent("taskMoveError", {
+            detail: {
+              error,
+              taskId,
+              fromColumn: this.columnId,
+              toColumn: this.columnId,
             },
             bubbles: true,
           })
@@ -232,6 +458,30 @@ export class TaskColumn implements ITaskColumn {
     }
   }
 
+  /**
+   * Render the cards in rank order (plain string comparison, as the server)
+   */
+  private renderTasks(): void {
+    this.tasks.sort((a, b) => (a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0));
+
+    if (!this.contentElement) return;
+
+    this.contentElement.innerHTML = "";
+    for (const t of this.tasks) {
+      const card =
+        this.taskCards.get(t.id) ||
+        new TaskCard(t, this.dragDropService, this.apiClient);
+      this.taskCards.set(t.id, card);
+      const cardElement = card.render();
+      cardElement.classList.toggle(
+        "search-miss",
+        this.searchMatches !== null && !this.searchMatches.has(t.id)
+      );
+      this.contentElement.appendChild(cardElement);
+    }
+    this.updateEmptyState();
+  }
+
   private updateEmptyState(): void {
     if (!this.contentElement) return;
 
@@ -251,13 +501,9 @@ export class TaskColumn implements ITaskColumn {
   }
 
   private getEmptyStateHTML(): string {
-    const messages = {
-      [TaskStatus.PENDING]: "No hay tareas pendientes",
-      [TaskStatus.IN_PROGRESS]: "No hay tareas en progreso",
-      [TaskStatus.COMPLETED]: "No hay tareas completadas",
-    };
-
-    return `<div class="column-empty">${messages[this.status]}</div>`;
+    return `<div class="column-empty">No hay tareas en ${this.escapeHtml(
+      this.config.name
+    )}</div>`;
   }
 
   private escapeHtml(text: string): string {
@@ -0,0 +1,281 @@
+import type {
+  IApiClient,
+  Task,
+  Comment,
+  CommentRevision,
+} from "../types/task.js";
+
+/**
+ * TaskComments - Discussion thread shown in the task modal's edit view
+ * Authors can edit or delete their own comments; edited comments can show
+ * their earlier versions. The callback receives the new comment count so
+ * the board can refresh the task's card
+ */
+export class TaskComments {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private comments: Comment[] = [];
+  private editingId: string | null = null;
+  // Loaded revisions of the comments whose history is expanded
+  private revisions = new Map<string, CommentRevision[]>();
+  private onChangeCallback: ((taskId: string, count: number) => void) | null =
+    null;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show and fetch the thread of a task
+   */
+  async load(task: Task): Promise<void> {
+    this.taskId = task.id;
+    this.comments = [];
+    this.editingId = null;
+    this.revisions.clear();
+    this.element.classList.remove("hidden");
+    this.render();
+
+    try {
+      const comments = await this.apiClient.getComments(task.id);
+      if (this.taskId !== task.id) return;
+
+      this.comments = comments;
+      this.render();
+    } catch (error) {
+      console.error("Failed to load comments:", error);
+      this.showError("Error al cargar los comentarios");
+    }
+  }
+
+  /**
+   * Hide the thread (new tasks have none yet)
+   */
+  hide(): void {
+    this.taskId = null;
+    this.comments = [];
+    this.editingId = null;
+    this.revisions.clear();
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  setOnChange(callback: (taskId: string, count: number) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private render(): void {
+    this.element.innerHTML = `
+      <span class="form-label">
+        Comentarios
+        <span class="task-comments-count">${this.comments.length}</span>
+      </span>
+      <ul class="task-comments-list">
+        ${this.comments.map((comment) => this.getCommentHTML(comment)).join("")}
+      </ul>
+      <div class="task-comments-add">
+        <textarea class="task-comments-input" rows="2" maxlength="2000" placeholder="Escribe un comentario…" aria-label="Nuevo comentario"></textarea>
+        <button class="btn btn-secondary task-comments-add-btn" type="button">Comentar</button>
+      </div>
+      <div class="task-comments-error hidden"></div>
+    `;
+  }
+
+  private getCommentHTML(comment: Comment): string {
+    const author = comment.author
+      ? this.escapeHtml(comment.author.username)
+      : "Usuario eliminado";
+    const date = new Date(comment.createdAt).toLocaleString("es-ES");
+    const revisions = this.revisions.get(comment.id);
+
+    return `
+      <li class="task-comment" data-comment-id="${comment.id}">
+        <div class="task-comment-header">
+          <span class="task-comment-author">${author}</span>
+          <span class="task-comment-date">${date}</span>
+          ${
+            comment.editedAt
+              ? `<button class="task-comment-history" type="button" title="Ver versiones anteriores">(editado)</button>`
+              : ""
+          }
+          ${
+            comment.editable && this.editingId !== comment.id
+              ? `
+                <button class="task-comment-edit" type="button">Editar</button>
+                <button class="task-comment-delete" type="button" title="Eliminar comentario">&times;</button>
+              `
+              : ""
+          }
+        </div>
+        ${
+          this.editingId === comment.id
+            ? `
+              <textarea class="task-comment-edit-input" rows="2" maxlength="2000" aria-label="Editar comentario">${this.escapeHtml(
+                comment.body
+              )}</textarea>
+              <div class="task-comment-edit-actions">
+                <button class="btn btn-primary task-comment-save" type="button">Guardar</button>
+                <button class="btn btn-secondary task-comment-cancel" type="button">Cancelar</button>
+              </div>
+            `
+            : `<div class="task-comment-body">${this.escapeHtml(comment.body)}</div>`
+        }
+        ${
+          revisions
+            ? `
+              <ol class="task-comment-revisions">
+                ${revisions
+                  .map(
+                    (revision) => `
+                      <li>
+                        <span class="task-comment-date">${new Date(
+                          revision.createdAt
+                        ).toLocaleString("es-ES")}</span>
+                        <div class="task-comment-body">${this.escapeHtml(
+                          revision.body
+                        )}</div>
+                      </li>
+                    `
+                  )
+                  .join("")}
+              </ol>
+            `
+            : ""
+        }
+      </li>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+      const commentId = this.getCommentId(target);
+
+      if (target.closest(".task-comments-add-btn")) {
+        this.addComment();
+      } else if (!commentId) {
+        return;
+      } else if (target.closest(".task-comment-edit")) {
+        this.editingId = commentId;
+        this.render();
+      } else if (target.closest(".task-comment-cancel")) {
+        this.editingId = null;
+        this.render();
+      } else if (target.closest(".task-comment-save")) {
+        this.saveComment(commentId);
+      } else if (target.closest(".task-comment-delete")) {
+        this.deleteComment(commentId);
+      } else if (target.closest(".task-comment-history")) {
+        this.toggleRevisions(commentId);
+      }
+    });
+  }
+
+  private async addComment(): Promise<void> {
+    const input = this.element.querySelector<HTMLTextAreaElement>(
+      ".task-comments-input"
+    );
+    const body = input?.value.trim();
+    if (!this.taskId || !body) return;
+
+    try {
+      const comment = await this.apiClient.createComment(this.taskId, body);
+      this.comments.push(comment);
+      this.handleChange();
+    } catch (error) {
+      console.error("Failed to add comment:", error);
+      this.showError("Error al publicar el comentario");
+    }
+  }
+
+  private async saveComment(commentId: string): Promise<void> {
+    const input = this.element.querySelector<HTMLTextAreaElement>(
+      ".task-comment-edit-input"
+    );
+    const body = input?.value.trim();
+    if (!this.taskId || !body) return;
+
+    try {
+      const updated = await this.apiClient.updateComment(
+        this.taskId,
+        commentId,
+        body
+      );
+      this.comments = this.comments.map((comment) =>
+        comment.id === commentId ? updated : comment
+      );
+      this.editingId = null;
+      // Drop a stale history; it is fetched again when expanded
+      this.revisions.delete(commentId);
+      this.render();
+    } catch (error) {
+      console.error("Failed to update comment:", error);
+      this.showError("Error al editar el comentario");
+    }
+  }
+
+  private async deleteComment(commentId: string): Promise<void> {
+    if (!this.taskId || !window.confirm("¿Eliminar este comentario?")) return;
+
+    try {
+      await this.apiClient.deleteComment(this.taskId, commentId);
+      this.comments = this.comments.filter(
+        (comment) => comment.id !== commentId
+      );
+      this.handleChange();
+    } catch (error) {
+      console.error("Failed to delete comment:", error);
+      this.showError("Error al eliminar el comentario");
+    }
+  }
+
+  private async toggleRevisions(commentId: string): Promise<void> {
+    if (!this.taskId) return;
+
+    if (this.revisions.has(commentId)) {
+      this.revisions.delete(commentId);
+      this.render();
+      return;
+    }
+
+    try {
+      const revisions = await this.apiClient.getCommentRevisions(
+        this.taskId,
+        commentId
+      );
+      this.revisions.set(commentId, revisions);
+      this.render();
+    } catch (error) {
+      console.error("Failed to load comment history:", error);
+      this.showError("Error al cargar el historial del comentario");
+    }
+  }
+
+  private handleChange(): void {
+    this.render();
+    if (this.taskId && this.onChangeCallback) {
+      this.onChangeCallback(this.taskId, this.comments.length);
+    }
+  }
+
+  private showError(message: string): void {
+    const error = this.element.querySelector(".task-comments-error");
+    if (error) {
+      error.textContent = message;
+      error.classList.remove("hidden");
+    }
+  }
+
+  private getCommentId(target: HTMLElement): string | undefined {
+    return target.closest<HTMLElement>(".task-comment")?.dataset.commentId;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  TaskEventType,
+  TaskStatus,
+  type IApiClient,
+  type Task,
+  type TaskEvent,
+  type BoardColumn,
+} from "../types/task.js";
+
+// Shown when an event refers to a column that no longer exists
+const STATUS_NAMES: Record<TaskStatus, string> = {
+  [TaskStatus.PENDING]: "Pendiente",
+  [TaskStatus.IN_PROGRESS]: "En progreso",
+  [TaskStatus.COMPLETED]: "Completada",
+};
+
+/**
+ * TaskHistory - Read-only timeline of a task's changes in the modal's edit view
+ * Lists who created, moved, edited or deleted the task and when
+ */
+export class TaskHistory {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private columnNames = new Map<string, string>();
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+  }
+
+  /**
+   * Show and fetch the history of a task
+   * Columns of the board are used to name the columns a task moved between
+   */
+  async load(task: Task, columns: BoardColumn[]): Promise<void> {
+    this.taskId = task.id;
+    this.columnNames = new Map(
+      columns.map((column) => [column.id, column.name])
+    );
+    this.element.classList.remove("hidden");
+    this.render([]);
+
+    try {
+      const events = await this.apiClient.getTaskHistory(task.id);
+      if (this.taskId !== task.id) return;
+
+      this.render(events);
+    } catch (error) {
+      console.error("Failed to load task history:", error);
+      const timeline = this.element.querySelector(".task-history-timeline");
+      if (timeline) {
+        timeline.innerHTML = `<li class="task-history-empty">Error al cargar el historial</li>`;
+      }
+    }
+  }
+
+  /**
+   * Hide the history (new tasks have none yet)
+   */
+  hide(): void {
+    this.taskId = null;
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  private render(events: TaskEvent[]): void {
+    this.element.innerHTML = `
+      <span class="form-label">Historial</span>
+      <ol class="task-history-timeline">
+        ${events
+          .map(
+            (event) => `
+              <li class="task-history-event">
+                <span class="task-history-text">${this.describe(event)}</span>
+                <time class="task-history-date" datetime="${event.createdAt}">${new Date(
+                  event.createdAt
+                ).toLocaleString("es-ES")}</time>
+              </li>
+            `
+          )
+          .join("")}
+      </ol>
+    `;
+  }
+
+  /**
+   * One-line description of an event, with user-provided values escaped
+   */
+  private describe(event: TaskEvent): string {
+    const actor = `<strong>${
+      event.actor ? this.escapeHtml(event.actor.username) : "Alguien"
+    }</strong>`;
+    const before = event.before ?? {};
+    const after = event.after ?? {};
+
+    switch (event.type) {
+      case TaskEventType.CREATED:
+        return `${actor} creó la tarea`;
+      case TaskEventType.STATUS_CHANGED:
+        return `${actor} movió la tarea de ${this.describeColumn(
+          before
+        )} a ${this.describeColumn(after)}`;
+      case TaskEventType.EDITED: {
+        const changes: string[] = [];
+        if ("title" in after) {
+          changes.push(
+            `cambió el título de «${this.escapeHtml(
+              before.title ?? ""
+            )}» a «${this.escapeHtml(after.title ?? "")}»`
+          );
+        }
+        if ("description" in after) {
+          changes.push("editó la descripción");
+        }
+        return `${actor} ${changes.join(" y ") || "editó la tarea"}`;
+      }
+      case TaskEventType.DELETED:
+        return `${actor} movió la tarea a la papelera`;
+      default:
+        return `${actor} modificó la tarea`;
+    }
+  }
+
+  private describeColumn(values: Record<string, string | null>): string {
+    const name =
+      (values.columnId && this.columnNames.get(values.columnId)) ||
+      STATUS_NAMES[values.status as TaskStatus] ||
+      "otra columna";
+    return `«${this.escapeHtml(name)}»`;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
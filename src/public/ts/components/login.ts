@@ -20,6 +20,7 @@ export class LoginComponent implements ILoginComponent {
   private form: HTMLFormElement | null = null;
   private errorElement: HTMLElement | null = null;
   private loginSuccessCallback: (() => void) | null = null;
+  private isRegisterMode: boolean = false;
 
   constructor(private authService: IAuthService) {
     this.createModal();
@@ -61,6 +62,10 @@ export class LoginComponent implements ILoginComponent {
             <div class="modal-footer">
               <button type="submit" class="btn btn-primary">Iniciar Sesión</button>
             </div>
+            <p class="login-switch">
+              <span class="login-switch-text">¿No tienes cuenta?</span>
+              <button type="button" class="login-switch-btn">Crear cuenta</button>
+            </p>
           </form>
         </div>
       </div>
@@ -85,10 +90,53 @@ export class LoginComponent implements ILoginComponent {
       e.preventDefault();
       await this.handleLogin();
     });
+
+    const switchButton = this.form.querySelector(".login-switch-btn");
+    switchButton?.addEventListener("click", () => {
+      this.setRegisterMode(!this.isRegisterMode);
+    });
+  }
+
+  /**
+   * Toggle between login and account registration
+   */
+  private setRegisterMode(isRegisterMode: boolean): void {
+    this.isRegisterMode = isRegisterMode;
+    this.hideError();
+
+    const title = this.modal?.querySelector(".modal-header h2");
+    const switchText = this.form?.querySelector(".login-switch-text");
+    const switchButton = this.form?.querySelector(".login-switch-btn");
+    const passwordInput = this.form?.querySelector(
+      "#login-password"
+    ) as HTMLInputElement | null;
+
+    if (title) {
+      title.textContent = isRegisterMode ? "Crear Cuenta" : "Iniciar Sesión";
+    }
+    if (switchText) {
+      switchText.textContent = isRegisterMode
+        ? "¿Ya tienes cuenta?"
+        : "¿No tienes cuenta?";
+    }
+    if (switchButton) {
+      switchButton.textContent = isRegisterMode
+        ? "Iniciar sesión"
+        : "Crear cuenta";
+    }
+    if (passwordInput) {
+      passwordInput.autocomplete = isRegisterMode
+        ? "new-password"
+        : "current-password";
+      passwordInput.minLength = isRegisterMode ? 8 : 0;
+    }
+
+    this.hideLoading();
   }
 
   /**
    * Handle login form submission
+   * Creates the account first when the form is in registration mode
    */
   private async handleLogin(): Promise<void> {
     if (!this.form) return;
@@ -103,10 +151,15 @@ export class LoginComponent implements ILoginComponent {
       this.showLoading();
       this.hideError();
 
-      await this.authService.login(credentials);
+      if (this.isRegisterMode) {
+        await this.authService.register(credentials);
+      } else {
+        await this.authService.login(credentials);
+      }
 
       this.hide();
       this.form.reset();
+      this.setRegisterMode(false);
 
       // Call success callback if registered
       if (this.loginSuccessCallback) {
@@ -186,7 +239,9 @@ export class LoginComponent implements ILoginComponent {
     ) as HTMLButtonElement;
     if (submitButton) {
       submitButton.disabled = true;
-      submitButton.textContent = "Iniciando sesión...";
+      submitButton.textContent = this.isRegisterMode
+        ? "Creando cuenta..."
+        : "Iniciando sesión...";
     }
   }
 
@@ -199,7 +254,9 @@ export class LoginComponent implements ILoginComponent {
     ) as HTMLButtonElement;
     if (submitButton) {
       submitButton.disabled = false;
-      submitButton.textContent = "Iniciar Sesión";
+      submitButton.textContent = this.isRegisterMode
+        ? "Crear Cuenta"
+        : "Iniciar Sesión";
     }
   }
 }
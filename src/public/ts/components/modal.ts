@@ -1,4 +1,12 @@
-import type { ITaskModal, Task, CreateTaskRequest } from "../types/task.js";
+import type {
+  ITaskModal,
+  Task,
+  CreateTaskRequest,
+  UserSummary,
+  Label,
+} from "../types/task.js";
+import { TaskPriority } from "../types/task.js";
+import { fromDateInputValue, toDateInputValue } from "../utils/due.js";
 
 /**
  * TaskModal component implementing ITaskModal interface
@@ -9,6 +17,11 @@ export class TaskModal implements ITaskModal {
   private form: HTMLFormElement;
   private titleInput: HTMLInputElement;
   private descriptionTextarea: HTMLTextAreaElement;
+  private prioritySelect: HTMLSelectElement | null;
+  private dueInput: HTMLInputElement | null;
+  private estimateInput: HTMLInputElement | null;
+  private assigneeSelect: HTMLSelectElement | null;
+  private labelPicker: HTMLElement | null;
   private submitButton: HTMLButtonElement;
   private modalTitle: HTMLHeadingElement;
   private isEditMode: boolean = false;
@@ -18,6 +31,7 @@ export class TaskModal implements ITaskModal {
         data: CreateTaskRequest | ({ id: string } & CreateTaskRequest)
       ) => Promise<void>)
     | null = null;
+  private onHideCallback: (() => void) | null = null;
 
   constructor() {
     const modal = document.getElementById("task-modal");
@@ -40,6 +54,20 @@ export class TaskModal implements ITaskModal {
     this.form = form as HTMLFormElement;
     this.titleInput = titleInput as HTMLInputElement;
     this.descriptionTextarea = descriptionTextarea as HTMLTextAreaElement;
+    // Optional fields - only present when the page offers them
+    this.prioritySelect = document.getElementById(
+      "task-priority"
+    ) as HTMLSelectElement | null;
+    this.dueInput = document.getElementById(
+      "task-due"
+    ) as HTMLInputElement | null;
+    this.estimateInput = document.getElementById(
+      "task-estimate"
+    ) as HTMLInputElement | null;
+    this.assigneeSelect = document.getElementById(
+      "task-assignee"
+    ) as HTMLSelectElement | null;
+    this.labelPicker = document.getElementById("task-labels");
     this.submitButton = submitButton as HTMLButtonElement;
     this.modalTitle = modalTitle as HTMLHeadingElement;
 
@@ -60,11 +88,38 @@ export class TaskModal implements ITaskModal {
       this.submitButton.textContent = "Actualizar Tarea";
       this.titleInput.value = task.title;
       this.descriptionTextarea.value = task.description || "";
+      if (this.prioritySelect) {
+        this.prioritySelect.value = task.priority ?? TaskPriority.MEDIUM;
+      }
+      if (this.dueInput) {
+        this.dueInput.value = task.dueAt ? toDateInputValue(task.dueAt) : "";
+      }
+      if (this.estimateInput) {
+        this.estimateInput.value =
+          task.estimate !== undefined ? String(task.estimate) : "";
+      }
+      if (this.assigneeSelect) {
+        this.assigneeSelect.value = task.assigneeId || "";
+      }
+      this.setSelectedLabelIds((task.labels ?? []).map((label) => label.id));
     } else {
       this.modalTitle.textContent = "Nueva Tarea";
       this.submitButton.textContent = "Crear Tarea";
       this.titleInput.value = "";
       this.descriptionTextarea.value = "";
+      if (this.prioritySelect) {
+        this.prioritySelect.value = TaskPriority.MEDIUM;
+      }
+      if (this.dueInput) {
+        this.dueInput.value = "";
+      }
+      if (this.estimateInput) {
+        this.estimateInput.value = "";
+      }
+      if (this.assigneeSelect) {
+        this.assigneeSelect.value = "";
+      }
+      this.setSelectedLabelIds([]);
     }
 
     // Clear any previous validation errors
@@ -95,6 +150,44 @@ export class TaskModal implements ITaskModal {
 
     // Restore body scroll
     document.body.style.overflow = "";
+    this.onHideCallback?.();
+  }
+
+  /**
+   * Populate the assignee picker with the available users
+   * @param users Users that tasks can be assigned to
+   */
+  setUsers(users: UserSummary[]): void {
+    if (!this.assigneeSelect) return;
+
+    this.assigneeSelect.innerHTML = "";
+    this.assigneeSelect.appendChild(new Option("Sin asignar", ""));
+    users.forEach((user) => {
+      this.assigneeSelect!.appendChild(new Option(user.username, user.id));
+    });
+  }
+
+  /**
+   * Populate the label picker with the labels of the current board
+   * @param labels Labels that can be attached to tasks
+   */
+  setLabels(labels: Label[]): void {
+    if (!this.labelPicker) return;
+
+    this.labelPicker.innerHTML = "";
+    this.labelPicker.classList.toggle("hidden", labels.length === 0);
+    labels.forEach((label) => {
+      const option = document.createElement("label");
+      option.className = "task-label-option";
+      option.style.borderColor = label.color;
+
+      const checkbox = document.createElement("input");
+      checkbox.type = "checkbox";
+      checkbox.value = label.id;
+
+      option.append(checkbox, label.name);
+      this.labelPicker!.appendChild(option);
+    });
   }
 
   /**
@@ -109,6 +202,13 @@ export class TaskModal implements ITaskModal {
     this.onSubmitCallback = callback;
   }
 
+  /**
+   * Set callback function to run whenever the modal closes
+   */
+  setOnHide(callback: () => void): void {
+    this.onHideCallback = callback;
+  }
+
   /**
    * Setup all event listeners for modal functionality
    */
@@ -167,6 +267,11 @@ export class TaskModal implements ITaskModal {
     const formData = new FormData(this.form);
     const title = formData.get("title") as string;
     const description = formData.get("description") as string;
+    const priority = this.prioritySelect?.value as TaskPriority | undefined;
+    const dueDate = this.dueInput?.value ?? "";
+    const estimate = this.estimateInput?.value ?? "";
+    const assigneeId = this.assigneeSelect?.value ?? "";
+    const labelIds = this.getSelectedLabelIds();
 
     try {
       // Disable submit button during submission
@@ -178,15 +283,50 @@ export class TaskModal implements ITaskModal {
       if (this.onSubmitCallback) {
         const trimmedDescription = description.trim();
         if (this.isEditMode && this.currentTask) {
+          // Only send the assignee when it changed ("" unassigns)
+          const assigneeChanged =
+            this.assigneeSelect !== null &&
+            assigneeId !== (this.currentTask.assigneeId || "");
+          const currentLabelIds = (this.currentTask.labels ?? [])
+            .map((label) => label.id)
+            .sort();
+          // Only send the due date when the day changed ("" clears it)
+          const dueChanged =
+            this.dueInput !== null &&
+            dueDate !==
+              (this.currentTask.dueAt
+                ? toDateInputValue(this.currentTask.dueAt)
+                : "");
+          // Only send the estimate when it changed ("" clears it)
+          const estimateChanged =
+            this.estimateInput !== null &&
+            estimate !== String(this.currentTask.estimate ?? "");
+          const labelsChanged =
+            this.labelPicker !== null &&
+            labelIds.slice().sort().join() !== currentLabelIds.join();
           await this.onSubmitCallback({
             id: this.currentTask.id,
             title: title.trim(),
             ...(trimmedDescription && { description: trimmedDescription }),
+            ...(priority && { priority }),
+            ...(dueChanged && {
+              dueAt: dueDate ? fromDateInputValue(dueDate) : null,
+            }),
+            ...(estimateChanged && {
+              estimate: estimate ? Number(estimate) : null,
+            }),
+            ...(assigneeChanged && { assigneeId }),
+            ...(labelsChanged && { labelIds }),
           });
         } else {
           await this.onSubmitCallback({
             title: title.trim(),
             ...(trimmedDescription && { description: trimmedDescription }),
+            ...(priority && { priority }),
+            ...(dueDate && { dueAt: fromDateInputValue(dueDate) }),
+            ...(estimate && { estimate: Number(estimate) }),
+            ...(assigneeId && { assigneeId }),
+            ...(labelIds.length > 0 && { labelIds }),
           });
         }
       }
@@ -206,6 +346,24 @@ export class TaskModal implements ITaskModal {
     }
   }
 
+  private getSelectedLabelIds(): string[] {
+    if (!this.labelPicker) return [];
+
+    return Array.from(
+      this.labelPicker.querySelectorAll<HTMLInputElement>(
+        'input[type="checkbox"]:checked'
+      )
+    ).map((checkbox) => checkbox.value);
+  }
+
+  private setSelectedLabelIds(labelIds: string[]): void {
+    this.labelPicker
+      ?.querySelectorAll<HTMLInputElement>('input[type="checkbox"]')
+      .forEach((checkbox) => {
+        checkbox.checked = labelIds.includes(checkbox.value);
+      });
+  }
+
   /**
    * Validate the entire form
    * @returns true if form is valid, false otherwise
@@ -0,0 +1,135 @@
+import type { IApiClient, Task, RecurrenceRule } from "../types/task.js";
+
+// Rules offered in the selector; others show up as a custom rule
+const PRESETS: { rule: string; label: string }[] = [
+  { rule: "FREQ=DAILY;INTERVAL=1", label: "Cada día" },
+  { rule: "FREQ=WEEKLY;INTERVAL=1", label: "Cada semana" },
+  { rule: "FREQ=MONTHLY;INTERVAL=1", label: "Cada mes" },
+];
+
+/**
+ * TaskRecurrence - Repeat schedule of a task, in the modal's edit view
+ * A recurring task works as a template: a fresh pending copy is created on
+ * each occurrence. Rules set through the API that are not presets are shown
+ * as custom and kept unless another option is picked
+ */
+export class TaskRecurrence {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private recurrence: RecurrenceRule | null = null;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show and fetch the schedule of a task
+   */
+  async load(task: Task): Promise<void> {
+    this.taskId = task.id;
+    this.recurrence = null;
+    this.element.classList.remove("hidden");
+    this.render();
+
+    try {
+      const recurrence = await this.apiClient.getRecurrence(task.id);
+      if (this.taskId !== task.id) return;
+
+      this.recurrence = recurrence;
+      this.render();
+    } catch (error) {
+      console.error("Failed to load recurrence:", error);
+      this.showError("Error al cargar la repetición");
+    }
+  }
+
+  /**
+   * Hide the schedule (new tasks have none yet)
+   */
+  hide(): void {
+    this.taskId = null;
+    this.recurrence = null;
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  private render(): void {
+    const current = this.recurrence?.rule ?? "";
+    const custom =
+      current && !PRESETS.some((preset) => preset.rule === current);
+
+    this.element.innerHTML = `
+      <label for="task-recurrence-select">Repetir</label>
+      <select id="task-recurrence-select" class="task-recurrence-select">
+        <option value="">No se repite</option>
+        ${PRESETS.map(
+          (preset) =>
+            `<option value="${preset.rule}"${
+              preset.rule === current ? " selected" : ""
+            }>${preset.label}</option>`
+        ).join("")}
+        ${
+          custom
+            ? `<option value="${this.escapeHtml(
+                current
+              )}" selected>Personalizada (${this.escapeHtml(current)})</option>`
+            : ""
+        }
+      </select>
+      ${
+        this.recurrence
+          ? `<span class="task-recurrence-next">Próxima copia: ${new Date(
+              this.recurrence.nextRunAt
+            ).toLocaleString("es-ES")}</span>`
+          : ""
+      }
+      <div class="task-recurrence-error hidden"></div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("change", (e) => {
+      const select = e.target as HTMLSelectElement;
+      if (select.classList.contains("task-recurrence-select")) {
+        this.save(select.value);
+      }
+    });
+  }
+
+  private async save(rule: string): Promise<void> {
+    const taskId = this.taskId;
+    if (!taskId) return;
+
+    try {
+      if (rule) {
+        this.recurrence = await this.apiClient.setRecurrence(taskId, rule);
+      } else if (this.recurrence) {
+        await this.apiClient.deleteRecurrence(taskId);
+        this.recurrence = null;
+      }
+      if (this.taskId === taskId) {
+        this.render();
+      }
+    } catch (error) {
+      console.error("Failed to save recurrence:", error);
+      this.showError("Error al guardar la repetición");
+    }
+  }
+
+  private showError(message: string): void {
+    const error = this.element.querySelector(".task-recurrence-error");
+    if (error) {
+      error.textContent = message;
+      error.classList.remove("hidden");
+    }
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
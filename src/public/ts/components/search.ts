@@ -0,0 +1,155 @@
+import type { IApiClient, TaskSearchResult } from "../types/task.js";
+
+// Wait after the last keystroke before querying the API
+const SEARCH_DEBOUNCE_MS = 250;
+
+/**
+ * TaskSearch - Search box in the board header listing the best matches
+ * Dispatches "taskSearchChanged" with the matching task IDs (null once cleared)
+ * and "taskSearchSelected" when a match is picked so the board can jump to it
+ */
+export class TaskSearch {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private boardId: string | null = null;
+  private results: TaskSearchResult[] = [];
+  private debounceTimer: ReturnType<typeof setTimeout> | null = null;
+  // Only the latest request may update the results
+  private requestId = 0;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /**
+   * Scope the search to a board; any previous search is cleared
+   */
+  setBoard(boardId: string | null): void {
+    this.boardId = boardId;
+    this.clear();
+  }
+
+  clear(): void {
+    this.getInput().value = "";
+    this.showResults([]);
+    this.dispatch("taskSearchChanged", { matchIds: null });
+  }
+
+  private render(): void {
+    this.element.innerHTML = `
+      <input class="task-search-input" type="search" placeholder="Buscar tareas…" aria-label="Buscar tareas" autocomplete="off">
+      <ul class="task-search-results hidden" role="listbox"></ul>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    const input = this.getInput();
+
+    input.addEventListener("input", () => {
+      if (this.debounceTimer) clearTimeout(this.debounceTimer);
+      this.debounceTimer = setTimeout(
+        () => this.search(input.value),
+        SEARCH_DEBOUNCE_MS
+      );
+    });
+
+    input.addEventListener("keydown", (e) => {
+      if (e.key === "Escape") {
+        this.clear();
+      } else if (e.key === "Enter" && this.results[0]) {
+        e.preventDefault();
+        this.select(this.results[0]);
+      }
+    });
+
+    this.element.addEventListener("click", (e) => {
+      const item = (e.target as HTMLElement).closest<HTMLElement>(
+        ".task-search-result"
+      );
+      const result = this.results[Number(item?.dataset.index)];
+      if (result) {
+        this.select(result);
+      }
+    });
+  }
+
+  private async search(query: string): Promise<void> {
+    const requestId = ++this.requestId;
+
+    if (!query.trim()) {
+      this.showResults([]);
+      this.dispatch("taskSearchChanged", { matchIds: null });
+      return;
+    }
+
+    try {
+      const results = await this.apiClient.searchTasks(
+        query,
+        this.boardId ?? undefined
+      );
+      if (requestId !== this.requestId) return;
+
+      this.showResults(results);
+      this.dispatch("taskSearchChanged", {
+        matchIds: new Set(results.map((result) => result.task.id)),
+      });
+    } catch (error) {
+      console.error("Failed to search tasks:", error);
+      this.showResults([]);
+      this.getList().classList.remove("hidden");
+      this.getList().innerHTML = `<li class="task-search-empty">Error al buscar tareas</li>`;
+    }
+  }
+
+  private select(result: TaskSearchResult): void {
+    this.getList().classList.add("hidden");
+    this.dispatch("taskSearchSelected", { task: result.task });
+  }
+
+  private showResults(results: TaskSearchResult[]): void {
+    this.results = results;
+    const list = this.getList();
+    const hasQuery = this.getInput().value.trim() !== "";
+
+    list.classList.toggle("hidden", !hasQuery);
+    // Highlights arrive HTML-escaped from the API, with matches in <mark>
+    list.innerHTML = results.length
+      ? results
+          .map(
+            (result, index) => `
+              <li class="task-search-result" role="option" data-index="${index}">
+                <span class="task-search-title">${result.highlights.title}</span>
+                ${
+                  result.highlights.description
+                    ? `<span class="task-search-snippet">${result.highlights.description}</span>`
+                    : ""
+                }
+                ${
+                  result.task.archivedAt
+                    ? `<span class="task-search-badge">Archivada</span>`
+                    : ""
+                }
+              </li>
+            `
+          )
+          .join("")
+      : `<li class="task-search-empty">Sin resultados</li>`;
+  }
+
+  private dispatch(eventName: string, detail: Record<string, unknown>): void {
+    this.element.dispatchEvent(
+      new CustomEvent(eventName, { detail, bubbles: true })
+    );
+  }
+
+  private getInput(): HTMLInputElement {
+    return this.element.querySelector(".task-search-input") as HTMLInputElement;
+  }
+
+  private getList(): HTMLElement {
+    return this.element.querySelector(".task-search-results") as HTMLElement;
+  }
+}
@@ -0,0 +1,168 @@
+import type { IApiClient, Task, TimeEntry } from "../types/task.js";
+import { formatDuration } from "../utils/duration.js";
+
+/**
+ * TaskTimeEntries - Time logged on a task, in the modal's edit view
+ * Lists every user's entries and logs work done without the card's timer;
+ * the callback receives the new total so the board can refresh the card
+ */
+export class TaskTimeEntries {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private taskId: string | null = null;
+  private entries: TimeEntry[] = [];
+  private onChangeCallback:
+    ((taskId: string, loggedSeconds: number) => void) | null = null;
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show and fetch the time entries of a task
+   */
+  async load(task: Task): Promise<void> {
+    this.taskId = task.id;
+    this.entries = [];
+    this.element.classList.remove("hidden");
+    this.render();
+
+    try {
+      const entries = await this.apiClient.getTimeEntries(task.id);
+      if (this.taskId !== task.id) return;
+
+      this.entries = entries;
+      this.render();
+    } catch (error) {
+      console.error("Failed to load time entries:", error);
+      this.showError("Error al cargar el tiempo registrado");
+    }
+  }
+
+  /**
+   * Hide the entries (new tasks have none yet)
+   */
+  hide(): void {
+    this.taskId = null;
+    this.entries = [];
+    this.element.classList.add("hidden");
+    this.element.innerHTML = "";
+  }
+
+  setOnChange(callback: (taskId: string, loggedSeconds: number) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private render(): void {
+    this.element.innerHTML = `
+      <span class="form-label">
+        Tiempo
+        <span class="task-time-total">${formatDuration(this.getTotal())}</span>
+      </span>
+      <ul class="task-time-entries">
+        ${this.entries
+          .map(
+            (entry) => `
+              <li class="task-time-entry">
+                <span class="task-time-entry-user">${this.escapeHtml(
+                  entry.user?.username ?? ""
+                )}</span>
+                <span class="task-time-entry-date">${new Date(
+                  entry.startedAt
+                ).toLocaleString("es-ES")}</span>
+                <span class="task-time-entry-duration">${
+                  entry.durationSeconds !== undefined
+                    ? formatDuration(entry.durationSeconds)
+                    : "en curso"
+                }</span>
+                ${
+                  entry.note
+                    ? `<span class="task-time-entry-note">${this.escapeHtml(
+                        entry.note
+                      )}</span>`
+                    : ""
+                }
+              </li>
+            `
+          )
+          .join("")}
+      </ul>
+      <div class="task-time-add">
+        <input class="task-time-start" type="datetime-local" aria-label="Inicio" />
+        <input class="task-time-end" type="datetime-local" aria-label="Fin" />
+        <input class="task-time-note" type="text" maxlength="500" placeholder="Nota (opcional)" aria-label="Nota" />
+        <button class="btn btn-secondary task-time-add-btn" type="button">Registrar</button>
+      </div>
+      <div class="task-time-error hidden"></div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      if ((e.target as HTMLElement).closest(".task-time-add-btn")) {
+        this.addEntry();
+      }
+    });
+  }
+
+  /**
+   * Log the period typed in the form (local times)
+   */
+  private async addEntry(): Promise<void> {
+    const taskId = this.taskId;
+    const start = this.getInput(".task-time-start")?.value;
+    const end = this.getInput(".task-time-end")?.value;
+    const note = this.getInput(".task-time-note")?.value.trim();
+    if (!taskId) return;
+
+    if (!start || !end || new Date(end) <= new Date(start)) {
+      this.showError("Indica un inicio y un fin posterior");
+      return;
+    }
+
+    try {
+      const entry = await this.apiClient.createTimeEntry(taskId, {
+        startedAt: new Date(start).toISOString(),
+        endedAt: new Date(end).toISOString(),
+        ...(note && { note }),
+      });
+      if (this.taskId !== taskId) return;
+
+      this.entries = [entry, ...this.entries].sort((a, b) =>
+        b.startedAt.localeCompare(a.startedAt)
+      );
+      this.render();
+      this.onChangeCallback?.(taskId, this.getTotal());
+    } catch (error) {
+      console.error("Failed to log time:", error);
+      this.showError("Error al registrar el tiempo");
+    }
+  }
+
+  private getTotal(): number {
+    return this.entries.reduce(
+      (total, entry) => total + (entry.durationSeconds ?? 0),
+      0
+    );
+  }
+
+  private showError(message: string): void {
+    const error = this.element.querySelector(".task-time-error");
+    if (error) {
+      error.textContent = message;
+      error.classList.remove("hidden");
+    }
+  }
+
+  private getInput(selector: string): HTMLInputElement | null {
+    return this.element.querySelector(selector);
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
@@ -0,0 +1,159 @@
+import type { IApiClient, Task, TaskView } from "../types/task.js";
+import { TaskConflictError } from "../api/client.js";
+
+/**
+ * TrashPanel - Side panel listing the archived and trashed tasks of a board
+ * Restoring a task dispatches "taskRestored" so the board can show it again
+ */
+export class TrashPanel {
+  private element: HTMLElement;
+  private apiClient: IApiClient;
+  private boardId: string | null = null;
+  private view: Exclude<TaskView, "active"> = "trash";
+
+  constructor(element: HTMLElement, apiClient: IApiClient) {
+    this.element = element;
+    this.apiClient = apiClient;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /**
+   * Show the panel for a board and load its trashed tasks
+   */
+  async open(boardId: string): Promise<void> {
+    this.boardId = boardId;
+    this.element.classList.remove("hidden");
+    await this.loadTasks();
+  }
+
+  close(): void {
+    this.element.classList.add("hidden");
+  }
+
+  isOpen(): boolean {
+    return !this.element.classList.contains("hidden");
+  }
+
+  private render(): void {
+    this.element.innerHTML = `
+      <div class="trash-panel-header">
+        <div class="trash-tabs" role="tablist">
+          <button class="trash-tab active" type="button" data-view="trash">Papelera</button>
+          <button class="trash-tab" type="button" data-view="archived">Archivadas</button>
+        </div>
+        <button class="trash-close-btn" type="button" title="Cerrar">&times;</button>
+      </div>
+      <ul class="trash-list"></ul>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.element.addEventListener("click", (e) => {
+      const target = e.target as HTMLElement;
+
+      if (target.closest(".trash-close-btn")) {
+        this.close();
+        return;
+      }
+
+      const tab = target.closest<HTMLElement>(".trash-tab");
+      if (tab) {
+        this.view = tab.dataset.view === "archived" ? "archived" : "trash";
+        this.element
+          .querySelectorAll(".trash-tab")
+          .forEach((t) => t.classList.toggle("active", t === tab));
+        this.loadTasks();
+        return;
+      }
+
+      const restoreButton = target.closest<HTMLElement>(".trash-restore-btn");
+      if (restoreButton?.dataset.taskId) {
+        this.restoreTask(
+          restoreButton.dataset.taskId,
+          Number(restoreButton.dataset.version)
+        );
+      }
+    });
+  }
+
+  private async loadTasks(): Promise<void> {
+    if (!this.boardId) return;
+
+    const list = this.element.querySelector(".trash-list") as HTMLElement;
+    try {
+      const tasks = await this.apiClient.getTasks({
+        boardId: this.boardId,
+        view: this.view,
+      });
+      list.innerHTML = tasks.length
+        ? tasks.map((task) => this.getTaskHTML(task)).join("")
+        : `<li class="trash-empty">${
+            this.view === "trash"
+              ? "La papelera está vacía"
+              : "No hay tareas archivadas"
+          }</li>`;
+    } catch (error) {
+      console.error("Failed to load trash:", error);
+      list.innerHTML = `<li class="trash-empty">Error al cargar las tareas</li>`;
+    }
+  }
+
+  private async restoreTask(taskId: string, version: number): Promise<void> {
+    try {
+      const task =
+        this.view === "trash"
+          ? await this.apiClient.restoreTask(taskId, version)
+          : await this.apiClient.archiveTask(taskId, false, version);
+
+      this.element.dispatchEvent(
+        new CustomEvent("taskRestored", {
+          detail: { task },
+          bubbles: true,
+        })
+      );
+      await this.loadTasks();
+    } catch (error) {
+      console.error("Failed to restore task:", error);
+      this.element.dispatchEvent(
+        new CustomEvent("taskRestoreError", {
+          detail: { error, taskId },
+          bubbles: true,
+        })
+      );
+      // Someone else changed it meanwhile; list it as it is now
+      if (error instanceof TaskConflictError) {
+        await this.loadTasks();
+      }
+    }
+  }
+
+  private getTaskHTML(task: Task): string {
+    const date = task.deletedAt ?? task.archivedAt;
+    const label = this.view === "trash" ? "Eliminada" : "Archivada";
+
+    return `
+      <li class="trash-item">
+        <div class="trash-item-info">
+          <span class="trash-item-title">${this.escapeHtml(task.title)}</span>
+          ${
+            date
+              ? `<span class="trash-item-date">${label}: ${new Date(
+                  date
+                ).toLocaleDateString()}</span>`
+              : ""
+          }
+        </div>
+        <button class="trash-restore-btn" type="button" data-task-id="${this.escapeHtml(
+          task.id
+        )}" data-version="${task.version}">Restaurar</button>
+      </li>
+    `;
+  }
+
+  private escapeHtml(text: string): string {
+    const div = document.createElement("div");
+    div.textContent = text;
+    return div.innerHTML;
+  }
+}
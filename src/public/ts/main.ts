@@ -9,8 +9,14 @@ import { ApiClient } from "./api/client.js";
 import { TaskCache } from "./api/cache.js";
 import { DragDropService } from "./services/dragdrop.js";
 import { AuthService } from "./services/auth.js";
+import { CollaborationClient } from "./services/collaboration.js";
 import { LoginComponent } from "./components/login.js";
-import type { IApiClient, ITaskCache, IDragDropService } from "./types/task.js";
+import type {
+  IApiClient,
+  ITaskCache,
+  IDragDropService,
+  ICollaborationClient,
+} from "./types/task.js";
 import type { IAuthService } from "./services/auth.js";
 import type { ILoginComponent } from "./components/login.js";
 
@@ -135,11 +141,15 @@ class Application {
     const apiClient: IApiClient = new ApiClient();
     const taskCache: ITaskCache = new TaskCache();
     const dragDropService: IDragDropService = new DragDropService();
+    const collaborationClient: ICollaborationClient = new CollaborationClient(
+      authService
+    );
 
     this.container.register("authService", authService);
     this.container.register("apiClient", apiClient);
     this.container.register("taskCache", taskCache);
     this.container.register("dragDropService", dragDropService);
+    this.container.register("collaborationClient", collaborationClient);
 
     // console.log("📦 Dependencies registered in DI container");
   }
@@ -205,6 +215,7 @@ class Application {
           </div>
         `;
       }
+      this.taskBoard.destroy();
       this.taskBoard = null;
     }
 
@@ -238,13 +249,17 @@ class Application {
     const taskCache = this.container.get<ITaskCache>("taskCache");
     const dragDropService =
       this.container.get<IDragDropService>("dragDropService");
+    const collaborationClient = this.container.get<ICollaborationClient>(
+      "collaborationClient"
+    );
 
     // Initialize TaskBoard with injected dependencies
     this.taskBoard = new TaskBoard(
       appContainer,
       apiClient,
       taskCache,
-      dragDropService
+      dragDropService,
+      collaborationClient
     );
 
     // Initialize the board
@@ -285,6 +300,7 @@ class Application {
 
       // Reset application state
       this.isInitialized = false;
+      this.taskBoard?.destroy();
       this.taskBoard = null;
 
       // Reset app container
@@ -16,6 +16,7 @@ export interface AuthResponse {
 
 export interface IAuthService {
   login(credentials: LoginCredentials): Promise<AuthResponse>;
+  register(credentials: LoginCredentials): Promise<AuthResponse>;
   logout(): Promise<void>;
   getToken(): string | null;
   isAuthenticated(): boolean;
@@ -54,6 +55,29 @@ export class AuthService implements IAuthService {
     return authResponse;
   }
 
+  /**
+   * Create a new user account
+   * Stores JWT token on successful registration
+   */
+  async register(credentials: LoginCredentials): Promise<AuthResponse> {
+    const response = await fetch(`${this.baseUrl}/auth/register`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(credentials),
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({
+        message: "Registration failed",
+      }));
+      throw new Error(error.message || "Registration failed");
+    }
+
+    const authResponse: AuthResponse = await response.json();
+    this.setToken(authResponse.token);
+    return authResponse;
+  }
+
   /**
    * Clear authentication token and logout user
    * For JWT-based auth, logout is client-side only
@@ -0,0 +1,151 @@
+import type {
+  ICollaborationClient,
+  CollaborationServerMessage,
+  PresenceUser,
+} from "../types/task.js";
+import type { IAuthService } from "./auth.js";
+
+// Pause before reopening a dropped socket
+const RECONNECT_MS = 5000;
+
+/**
+ * CollaborationClient - Presence and edit claims over the collaboration socket
+ * Connects on the first join and keeps reconnecting until closed; the board
+ * and edit claim are sent again after every reconnection
+ */
+export class CollaborationClient implements ICollaborationClient {
+  private authService: IAuthService;
+  private socket: WebSocket | null = null;
+  private reconnectTimer: number | null = null;
+  private closed = false;
+  private boardId: string | null = null;
+  private editingTaskId: string | null = null;
+  private userId: string | null = null;
+  private presenceCallback: ((users: PresenceUser[]) => void) | null = null;
+  private lockDeniedCallback:
+    ((taskId: string, username: string) => void) | null = null;
+
+  constructor(authService: IAuthService) {
+    this.authService = authService;
+  }
+
+  /**
+   * Follow the presence of a board, leaving the previous one
+   */
+  join(boardId: string | null): void {
+    this.boardId = boardId;
+    this.editingTaskId = null;
+    this.closed = false;
+
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      if (boardId) this.send({ type: "join", boardId });
+    } else if (!this.socket && boardId) {
+      this.connect();
+    }
+  }
+
+  /**
+   * Tell the others which card this user is editing (null when done)
+   */
+  setEditing(taskId: string | null): void {
+    if (taskId === this.editingTaskId) return;
+
+    this.editingTaskId = taskId;
+    this.send({ type: "editing", taskId });
+  }
+
+  /**
+   * ID of the connected user, known once the server has welcomed us
+   */
+  getUserId(): string | null {
+    return this.userId;
+  }
+
+  onPresence(callback: (users: PresenceUser[]) => void): void {
+    this.presenceCallback = callback;
+  }
+
+  onLockDenied(callback: (taskId: string, username: string) => void): void {
+    this.lockDeniedCallback = callback;
+  }
+
+  /**
+   * Disconnect for good (logout)
+   */
+  close(): void {
+    this.closed = true;
+    if (this.reconnectTimer !== null) {
+      window.clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect(): void {
+    const token = this.authService.getToken();
+    if (!token) return;
+
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(
+      `${protocol}//${window.location.host}/api/collaboration`,
+      ["bearer", token]
+    );
+    this.socket = socket;
+
+    socket.addEventListener("open", () => {
+      if (this.boardId) {
+        this.send({ type: "join", boardId: this.boardId });
+      }
+      if (this.editingTaskId) {
+        this.send({ type: "editing", taskId: this.editingTaskId });
+      }
+    });
+
+    socket.addEventListener("message", (event) => {
+      this.handleMessage(JSON.parse(event.data) as CollaborationServerMessage);
+    });
+
+    socket.addEventListener("close", () => {
+      if (this.socket !== socket) return;
+
+      this.socket = null;
+      // Nobody is shown while disconnected rather than a stale list
+      this.presenceCallback?.([]);
+      if (!this.closed) {
+        this.reconnectTimer = window.setTimeout(() => {
+          this.reconnectTimer = null;
+          if (!this.closed && !this.socket) this.connect();
+        }, RECONNECT_MS);
+      }
+    });
+  }
+
+  private handleMessage(message: CollaborationServerMessage): void {
+    switch (message.type) {
+      case "welcome":
+        this.userId = message.userId;
+        break;
+      case "presence":
+        if (message.boardId === this.boardId) {
+          this.presenceCallback?.(message.users);
+        }
+        break;
+      case "lockDenied":
+        if (message.taskId === this.editingTaskId) {
+          this.editingTaskId = null;
+        }
+        this.lockDeniedCallback?.(message.taskId, message.username);
+        break;
+      case "error":
+        console.error("Collaboration error:", message.message);
+        break;
+    }
+  }
+
+  private send(message: object): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+}
@@ -1,5 +1,4 @@
 import type { IDragDropService, Task, DragDropData } from "../types/task.js";
-import { TaskStatus } from "../types/task.js";
 
 // Single Responsibility Principle - only handles drag & drop logic
 export class DragDropService implements IDragDropService {
@@ -12,8 +11,8 @@ export class DragDropService implements IDragDropService {
     card.addEventListener("dragstart", (e) => {
       this.dragData = {
         taskId: task.id,
-        sourceColumn: task.status,
-        targetColumn: task.status,
+        sourceColumn: task.columnId,
+        targetColumn: task.columnId,
       };
       card.classList.add("dragging");
       e.dataTransfer?.setData("text/plain", task.id);
@@ -22,20 +21,39 @@ export class DragDropService implements IDragDropService {
 
     card.addEventListener("dragend", () => {
       card.classList.remove("dragging");
+      this.removeDropIndicator();
+      document
+        .querySelectorAll(".drop-refused")
+        .forEach((column) => column.classList.remove("drop-refused"));
       this.dragData = null;
     });
   }
 
   setupDropZone(
     column: HTMLElement,
-    status: TaskStatus,
+    columnId: string,
     onDrop: (
       taskId: string,
-      newStatus: TaskStatus,
-      sourceStatus: TaskStatus
-    ) => Promise<void>
+      targetColumnId: string,
+      sourceColumnId: string
+    ) => Promise<void>,
+    canDrop?: (taskId: string, sourceColumnId: string) => boolean
   ): void {
+    // Moves within the same column are always accepted (and ignored)
+    const isRefused = (): boolean =>
+      !!this.dragData &&
+      this.dragData.sourceColumn !== columnId &&
+      !!canDrop &&
+      !canDrop(this.dragData.taskId, this.dragData.sourceColumn);
+
     column.addEventListener("dragover", (e) => {
+      // Not calling preventDefault keeps the browser from allowing the drop
+      if (isRefused()) {
+        e.dataTransfer!.dropEffect = "none";
+        column.classList.add("drop-refused");
+        return;
+      }
+
       e.preventDefault();
       e.dataTransfer!.dropEffect = "move";
       column.classList.add("drag-over");
@@ -44,19 +62,23 @@ export class DragDropService implements IDragDropService {
     column.addEventListener("dragleave", (e) => {
       // Only remove drag-over if we're leaving the column entirely
       if (!column.contains(e.relatedTarget as Node)) {
-        column.classList.remove("drag-over");
+        column.classList.remove("drag-over", "drop-refused");
       }
     });
 
     column.addEventListener("drop", async (e) => {
       e.preventDefault();
-      column.classList.remove("drag-over");
+      column.classList.remove("drag-over", "drop-refused");
 
-      if (this.dragData && this.dragData.sourceColumn !== status) {
+      if (
+        this.dragData &&
+        this.dragData.sourceColumn !== columnId &&
+        !isRefused()
+      ) {
         try {
           await onDrop(
             this.dragData.taskId,
-            status,
+            columnId,
             this.dragData.sourceColumn
           );
         } catch (error) {
@@ -66,4 +88,95 @@ export class DragDropService implements IDragDropService {
       }
     });
   }
+
+  setupSortable(
+    container: HTMLElement,
+    columnId: string,
+    onReorder: (
+      taskId: string,
+      beforeId: string | null,
+      afterId: string | null
+    ) => Promise<void>
+  ): void {
+    container.addEventListener("dragover", (e) => {
+      // Moves between columns are handled by the drop zone
+      if (!this.dragData || this.dragData.sourceColumn !== columnId) return;
+
+      e.preventDefault();
+      this.showDropIndicator(
+        container,
+        this.getCardBelow(container, e.clientY)
+      );
+    });
+
+    container.addEventListener("dragleave", (e) => {
+      if (!container.contains(e.relatedTarget as Node)) {
+        this.removeDropIndicator();
+      }
+    });
+
+    container.addEventListener("drop", async (e) => {
+      this.removeDropIndicator();
+      if (!this.dragData || this.dragData.sourceColumn !== columnId) return;
+
+      const taskId = this.dragData.taskId;
+      const cards = Array.from(
+        container.querySelectorAll<HTMLElement>(".task-card")
+      );
+      const others = cards.filter((card) => card.dataset.taskId !== taskId);
+      const after = this.getCardBelow(container, e.clientY);
+      const index = after ? others.indexOf(after) : others.length;
+
+      // Dropped back where it was
+      if (index === cards.findIndex((card) => card.dataset.taskId === taskId)) {
+        return;
+      }
+
+      try {
+        await onReorder(
+          taskId,
+          others[index - 1]?.dataset.taskId ?? null,
+          after?.dataset.taskId ?? null
+        );
+      } catch (error) {
+        console.error("Failed to reorder task:", error);
+        // Error handling will be done by the calling component
+      }
+    });
+  }
+
+  /**
+   * Find the first card whose vertical center is below the pointer
+   */
+  private getCardBelow(container: HTMLElement, y: number): HTMLElement | null {
+    const cards = container.querySelectorAll<HTMLElement>(
+      ".task-card:not(.dragging)"
+    );
+
+    for (const card of Array.from(cards)) {
+      const box = card.getBoundingClientRect();
+      if (y < box.top + box.height / 2) {
+        return card;
+      }
+    }
+
+    return null;
+  }
+
+  private showDropIndicator(
+    container: HTMLElement,
+    before: HTMLElement | null
+  ): void {
+    let indicator = document.querySelector<HTMLElement>(".drop-indicator");
+    if (!indicator) {
+      indicator = document.createElement("div");
+      indicator.className = "drop-indicator";
+    }
+
+    container.insertBefore(indicator, before);
+  }
+
+  private removeDropIndicator(): void {
+    document.querySelector(".drop-indicator")?.remove();
+  }
 }
@@ -1,11 +1,141 @@
 // Core interfaces matching backend API
+export interface UserSummary {
+  id: string;
+  username: string;
+}
+
+// Board label as embedded in tasks
+export interface LabelSummary {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface Label extends LabelSummary {
+  boardId: string;
+}
+
+// Completed and total steps of a task's checklist
+export interface ChecklistProgress {
+  done: number;
+  total: number;
+}
+
+export interface ChecklistItem {
+  id: string;
+  taskId: string;
+  text: string;
+  done: boolean;
+  position: number;
+}
+
+// Message in a task's discussion thread
+export interface Comment {
+  id: string;
+  taskId: string;
+  body: string;
+  authorId?: string;
+  author?: UserSummary;
+  createdAt: string;
+  updatedAt: string;
+  editedAt?: string;
+  revisionCount: number;
+  // Whether the current user wrote it and may edit or delete it
+  editable: boolean;
+}
+
+// Previous body of an edited comment
+export interface CommentRevision {
+  id: string;
+  commentId: string;
+  body: string;
+  createdAt: string;
+}
+
+// File attached to a task; images get thumbnails
+export interface Attachment {
+  id: string;
+  taskId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  uploadedById?: string;
+  uploadedBy?: UserSummary;
+  createdAt: string;
+}
+
+// Schedule of a recurring task; each occurrence creates a PENDING copy
+export interface RecurrenceRule {
+  id: string;
+  taskId: string;
+  // RRULE-style string, e.g. FREQ=WEEKLY;INTERVAL=1
+  rule: string;
+  startsAt: string;
+  nextRunAt: string;
+  lastRunAt?: string;
+}
+
+// Work logged on a task; endedAt is missing while the timer runs
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  task?: { id: string; title: string; boardName: string };
+  userId: string;
+  user?: UserSummary;
+  startedAt: string;
+  endedAt?: string;
+  durationSeconds?: number;
+  note?: string;
+  createdAt: string;
+}
+
+export interface Board {
+  id: string;
+  name: string;
+  description?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
 export interface Task {
   id: string;
   title: string;
   description?: string;
   status: TaskStatus;
+  priority?: TaskPriority;
   createdAt: string;
   updatedAt: string;
+  boardId: string;
+  columnId: string;
+  // Manual position inside the column; tasks sort by plain string order
+  rank: string;
+  dueAt?: string;
+  // Story points (0 to 100)
+  estimate?: number;
+  // Bumped by every change; sent back in If-Match to detect overwrites
+  version: number;
+  archivedAt?: string;
+  deletedAt?: string;
+  createdById?: string;
+  assigneeId?: string;
+  assignee?: UserSummary;
+  labels?: LabelSummary[];
+  checklist?: ChecklistProgress;
+  commentCount?: number;
+  attachmentCount?: number;
+  // First image attachment, shown as the card thumbnail
+  coverAttachmentId?: string;
+  // Tasks that have to be completed before this one can start
+  blockedBy?: TaskBlocker[];
+  // Time of the finished entries, in seconds
+  loggedSeconds?: number;
+}
+
+// Task another one is blocked by; completed blockers no longer block
+export interface TaskBlocker {
+  id: string;
+  title: string;
+  status: TaskStatus;
 }
 
 export enum TaskStatus {
@@ -14,47 +144,336 @@ export enum TaskStatus {
   COMPLETED = "COMPLETED",
 }
 
+// From least to most urgent
+export enum TaskPriority {
+  LOW = "LOW",
+  MEDIUM = "MEDIUM",
+  HIGH = "HIGH",
+  URGENT = "URGENT",
+}
+
+// Kinds of changes recorded in a task's history
+export enum TaskEventType {
+  CREATED = "CREATED",
+  STATUS_CHANGED = "STATUS_CHANGED",
+  EDITED = "EDITED",
+  DELETED = "DELETED",
+}
+
+// History entry; before/after only hold the fields that changed
+export interface TaskEvent {
+  id: string;
+  taskId: string;
+  type: TaskEventType;
+  actorId?: string;
+  actor?: UserSummary;
+  before?: Record<string, string | null>;
+  after?: Record<string, string | null>;
+  createdAt: string;
+}
+
 // UI-specific interfaces
 export interface TaskCardElement extends HTMLElement {
   taskId: string;
   taskData: Task;
 }
 
-export interface ColumnConfig {
-  id: TaskStatus;
-  title: string;
-  className: string;
+// Workflow column of a board; status is the category of its tasks
+export interface BoardColumn {
+  id: string;
+  boardId: string;
+  name: string;
+  position: number;
+  color: string;
+  status: TaskStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Active tasks of a column and their summed story points
+export interface ColumnTotals {
+  columnId: string;
+  name: string;
+  taskCount: number;
+  estimateTotal: number;
+}
+
+// Allowed status transitions of a board and the fields each status requires
+export type WorkflowRequirement = "assignee" | "description";
+
+export interface WorkflowConfig {
+  transitions: Record<TaskStatus, TaskStatus[]>;
+  requirements: Partial<Record<TaskStatus, WorkflowRequirement[]>>;
 }
 
 export interface DragDropData {
   taskId: string;
-  sourceColumn: TaskStatus;
-  targetColumn: TaskStatus;
+  sourceColumn: string;
+  targetColumn: string;
+}
+
+// Change pushed by the server when someone edits a board; deletions carry
+// no task, and archived tasks arrive as updates with archivedAt set
+export type TaskChangeType =
+  "task.created" | "task.updated" | "task.moved" | "task.deleted";
+
+export interface TaskChange {
+  type: TaskChangeType;
+  boardId: string;
+  taskId: string;
+  task?: Task;
+}
+
+// Change the bulk action bar applies to every selected task; a label action
+// adds the label, or takes it off with remove
+export type BulkTaskAction =
+  | { type: "status"; status: TaskStatus }
+  | { type: "label"; labelId: string; remove?: boolean }
+  | { type: "assignee"; assigneeId: string | null }
+  | { type: "archive"; archived: boolean }
+  | { type: "delete" };
+
+export type BulkTaskOperation = BulkTaskAction & { taskId: string };
+
+// Outcome of one bulk operation, in request order; when any fails nothing is
+// saved and ok only means that operation was valid
+export interface BulkTaskResult {
+  taskId: string;
+  ok: boolean;
+  task?: Task;
+  error?: string;
+}
+
+// Someone looking at the board, with the card they are editing if any
+export interface PresenceUser {
+  userId: string;
+  username: string;
+  editingTaskId?: string;
+}
+
+// Messages of the collaboration WebSocket
+export type CollaborationServerMessage =
+  | { type: "welcome"; userId: string; username: string }
+  | { type: "presence"; boardId: string; users: PresenceUser[] }
+  | { type: "lockDenied"; taskId: string; username: string }
+  | { type: "error"; message: string };
+
+export interface ICollaborationClient {
+  join(boardId: string | null): void;
+  setEditing(taskId: string | null): void;
+  getUserId(): string | null;
+  onPresence(callback: (users: PresenceUser[]) => void): void;
+  onLockDenied(callback: (taskId: string, username: string) => void): void;
+  close(): void;
 }
 
 // API interfaces
 export interface CreateTaskRequest {
   title: string;
   description?: string;
+  priority?: TaskPriority;
+  // ISO 8601; in edit mode null clears the due date
+  dueAt?: string | null;
+  // In edit mode null clears the estimate
+  estimate?: number | null;
+  // In edit mode an empty string means "unassign"
+  assigneeId?: string;
+  labelIds?: string[];
+  boardId?: string;
+  columnId?: string;
+}
+
+export interface CreateBoardRequest {
+  name: string;
+  description?: string;
+}
+
+export interface CreateColumnRequest {
+  name: string;
+  color?: string;
+  status?: TaskStatus;
+}
+
+// Which tasks a listing returns: on the board, archived or in the trash
+export type TaskView = "active" | "archived" | "trash";
+
+export type TaskSort =
+  | "rank"
+  | "createdAt"
+  | "-createdAt"
+  | "updatedAt"
+  | "-updatedAt"
+  | "title"
+  | "-title"
+  | "priority"
+  | "-priority";
+
+export interface TaskFilters {
+  boardId?: string;
+  columnId?: string;
+  status?: TaskStatus;
+  // "me", "none" or a user id
+  assignee?: string;
+  // Comma-separated label IDs; tasks with any of them match
+  label?: string;
+  view?: TaskView;
+  sort?: TaskSort;
+}
+
+export interface TaskSearchResult {
+  task: Task;
+  // Relevance, higher is better
+  score: number;
+  // HTML-escaped snippets with the matches wrapped in <mark>
+  highlights: {
+    title: string;
+    description?: string;
+  };
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  // Pass back to getTaskPage for the next page, null on the last one
+  nextCursor: string | null;
 }
 
 export interface UpdateTaskStatusRequest {
   status: TaskStatus;
 }
 
+// Sent as a JSON merge patch: omitted fields are kept
 export interface UpdateTaskRequest {
   title?: string;
-  description?: string;
+  // null clears the description
+  description?: string | null;
+  priority?: TaskPriority;
+  // null clears the due date
+  dueAt?: string | null;
+  // null clears the estimate
+  estimate?: number | null;
+  // null unassigns the task
+  assigneeId?: string | null;
+  // Replaces every label; null removes them all
+  labelIds?: string[] | null;
 }
 
 // Service interfaces following SOLID principles
 
 // Single Responsibility Principle - focused interfaces
 export interface IApiClient {
-  getTasks(): Promise<Task[]>;
+  getTasks(filters?: TaskFilters): Promise<Task[]>;
+  getTaskPage(
+    filters: TaskFilters,
+    limit: number,
+    cursor?: string | null
+  ): Promise<TaskPage>;
+  searchTasks(query: string, boardId?: string): Promise<TaskSearchResult[]>;
   createTask(data: CreateTaskRequest): Promise<Task>;
-  updateTaskStatus(id: string, status: TaskStatus): Promise<Task>;
-  updateTask(id: string, data: UpdateTaskRequest): Promise<Task>;
+  updateTaskStatus(
+    id: string,
+    status: TaskStatus,
+    force?: boolean,
+    version?: number
+  ): Promise<Task>;
+  updateTask(
+    id: string,
+    data: UpdateTaskRequest,
+    version?: number
+  ): Promise<Task>;
+  updateTaskAssignee(
+    id: string,
+    assigneeId: string | null,
+    version?: number
+  ): Promise<Task>;
+  updateTaskLabels(
+    id: string,
+    labelIds: string[],
+    version?: number
+  ): Promise<Task>;
+  deleteTask(id: string): Promise<void>;
+  restoreTask(id: string, version?: number): Promise<Task>;
+  archiveTask(id: string, archived: boolean, version?: number): Promise<Task>;
+  bulkUpdateTasks(operations: BulkTaskOperation[]): Promise<BulkTaskResult[]>;
+  moveTaskToColumn(
+    id: string,
+    columnId: string,
+    force?: boolean,
+    version?: number
+  ): Promise<Task>;
+  addTaskBlocker(id: string, blockerId: string): Promise<Task>;
+  removeTaskBlocker(id: string, blockerId: string): Promise<Task>;
+  updateTaskPosition(
+    id: string,
+    beforeId: string | null,
+    afterId: string | null,
+    version?: number
+  ): Promise<Task>;
+  getUsers(): Promise<UserSummary[]>;
+  getBoards(): Promise<Board[]>;
+  createBoard(data: CreateBoardRequest): Promise<Board>;
+  updateBoard(id: string, data: Partial<CreateBoardRequest>): Promise<Board>;
+  deleteBoard(id: string): Promise<void>;
+  getColumns(boardId: string): Promise<BoardColumn[]>;
+  getColumnTotals(boardId: string): Promise<ColumnTotals[]>;
+  createColumn(
+    boardId: string,
+    data: CreateColumnRequest
+  ): Promise<BoardColumn>;
+  updateColumn(
+    id: string,
+    data: Partial<CreateColumnRequest>
+  ): Promise<BoardColumn>;
+  deleteColumn(id: string): Promise<void>;
+  reorderColumns(boardId: string, columnIds: string[]): Promise<BoardColumn[]>;
+  getWorkflow(boardId: string): Promise<WorkflowConfig>;
+  getLabels(boardId: string): Promise<Label[]>;
+  createLabel(
+    boardId: string,
+    data: { name: string; color?: string }
+  ): Promise<Label>;
+  deleteLabel(id: string): Promise<void>;
+  getChecklist(taskId: string): Promise<ChecklistItem[]>;
+  createChecklistItem(taskId: string, text: string): Promise<ChecklistItem>;
+  updateChecklistItem(
+    taskId: string,
+    itemId: string,
+    data: { text?: string; done?: boolean }
+  ): Promise<ChecklistItem>;
+  deleteChecklistItem(taskId: string, itemId: string): Promise<void>;
+  getTaskHistory(taskId: string): Promise<TaskEvent[]>;
+  getRecurrence(taskId: string): Promise<RecurrenceRule | null>;
+  setRecurrence(taskId: string, rule: string): Promise<RecurrenceRule>;
+  deleteRecurrence(taskId: string): Promise<void>;
+  getTimeEntries(taskId: string): Promise<TimeEntry[]>;
+  createTimeEntry(
+    taskId: string,
+    data: { startedAt: string; endedAt: string; note?: string }
+  ): Promise<TimeEntry>;
+  startTimer(taskId: string): Promise<TimeEntry>;
+  stopTimer(taskId: string): Promise<TimeEntry>;
+  getRunningTimer(): Promise<TimeEntry | null>;
+  getTimesheetBlob(from: string, to: string): Promise<Blob>;
+  streamTaskChanges(
+    boardId: string,
+    onChange: (change: TaskChange) => void,
+    signal: AbortSignal
+  ): Promise<void>;
+  getAttachments(taskId: string): Promise<Attachment[]>;
+  uploadAttachment(taskId: string, file: File): Promise<Attachment>;
+  getAttachmentBlob(taskId: string, attachmentId: string): Promise<Blob>;
+  deleteAttachment(taskId: string, attachmentId: string): Promise<void>;
+  getComments(taskId: string): Promise<Comment[]>;
+  createComment(taskId: string, body: string): Promise<Comment>;
+  updateComment(
+    taskId: string,
+    commentId: string,
+    body: string
+  ): Promise<Comment>;
+  deleteComment(taskId: string, commentId: string): Promise<void>;
+  getCommentRevisions(
+    taskId: string,
+    commentId: string
+  ): Promise<CommentRevision[]>;
   setAuthService(authService: any): void;
   setUnauthorizedHandler(handler: () => void): void;
 }
@@ -69,11 +488,21 @@ export interface IDragDropService {
   setupDragHandlers(card: HTMLElement, task: Task): void;
   setupDropZone(
     column: HTMLElement,
-    status: TaskStatus,
+    columnId: string,
     onDrop: (
       taskId: string,
-      newStatus: TaskStatus,
-      sourceStatus: TaskStatus
+      targetColumnId: string,
+      sourceColumnId: string
+    ) => Promise<void>,
+    canDrop?: (taskId: string, sourceColumnId: string) => boolean
+  ): void;
+  setupSortable(
+    container: HTMLElement,
+    columnId: string,
+    onReorder: (
+      taskId: string,
+      beforeId: string | null,
+      afterId: string | null
     ) => Promise<void>
   ): void;
 }
@@ -83,6 +512,7 @@ export interface ITaskBoard {
   init(): Promise<void>;
   loadTasks(): Promise<void>;
   createTask(data: CreateTaskRequest): Promise<void>;
+  destroy(): void;
 }
 
 export interface ITaskColumn {
@@ -102,4 +532,6 @@ export interface ITaskCard {
 export interface ITaskModal {
   show(task?: Task): void;
   hide(): void;
+  setUsers(users: UserSummary[]): void;
+  setLabels(labels: Label[]): void;
 }
@@ -0,0 +1,29 @@
+/**
+ * Avatar helpers shared by every component that shows a user
+ * Colors are derived from the username so they stay stable across sessions
+ */
+
+/**
+ * Get up to two initials from a username ("ana.garcia" -> "AG")
+ */
+export function getInitials(username: string): string {
+  const parts = username.split(/[\s._-]+/).filter(Boolean);
+
+  if (parts.length >= 2) {
+    return `${parts[0]!.charAt(0)}${parts[1]!.charAt(0)}`.toUpperCase();
+  }
+
+  return username.slice(0, 2).toUpperCase();
+}
+
+/**
+ * Get a deterministic background color for a username
+ */
+export function getAvatarColor(username: string): string {
+  let hash = 0;
+  for (let i = 0; i < username.length; i++) {
+    hash = (hash * 31 + username.charCodeAt(i)) | 0;
+  }
+
+  return `hsl(${Math.abs(hash) % 360}, 55%, 45%)`;
+}
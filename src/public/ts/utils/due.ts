@@ -0,0 +1,61 @@
+/**
+ * Due date helpers for task cards
+ * Distances are phrased relative to now ("Vence mañana", "Vencida hace 3 días")
+ */
+
+// Open tasks due within this window are highlighted on the board
+export const DUE_SOON_MS = 24 * 60 * 60 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+const relativeTime = new Intl.RelativeTimeFormat("es", { numeric: "auto" });
+
+export type DueState = "overdue" | "due-soon" | "upcoming";
+
+/**
+ * Classify a due date against the current time
+ */
+export function getDueState(dueAt: string, now: Date = new Date()): DueState {
+  const remaining = new Date(dueAt).getTime() - now.getTime();
+
+  if (remaining < 0) return "overdue";
+  return remaining <= DUE_SOON_MS ? "due-soon" : "upcoming";
+}
+
+/**
+ * Describe a due date relative to now, in the largest fitting unit
+ */
+export function formatDueDate(dueAt: string, now: Date = new Date()): string {
+  const remaining = new Date(dueAt).getTime() - now.getTime();
+  const distance = Math.abs(remaining);
+
+  let relative: string;
+  if (distance < HOUR_MS) {
+    relative = relativeTime.format(Math.round(remaining / MINUTE_MS), "minute");
+  } else if (distance < DAY_MS) {
+    relative = relativeTime.format(Math.round(remaining / HOUR_MS), "hour");
+  } else {
+    relative = relativeTime.format(Math.round(remaining / DAY_MS), "day");
+  }
+
+  return remaining < 0 ? `Vencida ${relative}` : `Vence ${relative}`;
+}
+
+/**
+ * Local calendar date (YYYY-MM-DD) of a due date, as used by date inputs
+ */
+export function toDateInputValue(dueAt: string): string {
+  const date = new Date(dueAt);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Due date picked in a date input: the end of that local day, as ISO 8601
+ */
+export function fromDateInputValue(value: string): string {
+  return new Date(`${value}T23:59:59`).toISOString();
+}
@@ -0,0 +1,39 @@
+/**
+ * Duration helpers for logged time
+ */
+
+/**
+ * Logged time in hours and minutes, e.g. "2 h 05 min" or "40 min"
+ */
+export function formatDuration(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+
+  return hours > 0
+    ? `${hours} h ${String(minutes % 60).padStart(2, "0")} min`
+    : `${minutes} min`;
+}
+
+/**
+ * Running timer as a clock, e.g. "1:02:09"
+ */
+export function formatElapsed(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = seconds % 60;
+
+  return `${hours}:${String(minutes).padStart(2, "0")}:${String(rest).padStart(
+    2,
+    "0"
+  )}`;
+}
+
+/**
+ * Whole seconds elapsed since an ISO date
+ */
+export function secondsSince(iso: string, now: Date = new Date()): number {
+  return Math.max(
+    0,
+    Math.floor((now.getTime() - new Date(iso).getTime()) / 1000)
+  );
+}
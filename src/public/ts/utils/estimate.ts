@@ -0,0 +1,11 @@
+/**
+ * Story-point helpers for task estimates
+ */
+
+/**
+ * Points with at most one decimal, e.g. "1 pt", "2,5 pts"
+ */
+export function formatPoints(points: number): string {
+  const value = points.toLocaleString("es-ES", { maximumFractionDigits: 1 });
+  return `${value} ${points === 1 ? "pt" : "pts"}`;
+}
@@ -0,0 +1,27 @@
+import type { Task, TaskStatus, WorkflowConfig } from "../types/task.js";
+
+/**
+ * Workflow helpers mirroring the checks the server runs on every move
+ * Used to refuse drops before they reach the API
+ */
+
+/**
+ * Check whether a task may move to a status under a board workflow
+ */
+export function canTransition(
+  workflow: WorkflowConfig,
+  task: Task,
+  to: TaskStatus
+): boolean {
+  if (task.status === to) {
+    return true;
+  }
+
+  if (!(workflow.transitions[task.status] ?? []).includes(to)) {
+    return false;
+  }
+
+  return (workflow.requirements[to] ?? []).every((requirement) =>
+    requirement === "assignee" ? !!task.assigneeId : !!task.description?.trim()
+  );
+}
@@ -0,0 +1,48 @@
+import { Router } from "express";
+import { AttachmentController } from "../controllers/attachment.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import { uploadAttachment } from "../middleware/upload.middleware.js";
+
+/**
+ * Attachment routes configuration
+ * Mounted under /tasks/:taskId/attachments, hence mergeParams
+ */
+export function createAttachmentRoutes(): Router {
+  const router = Router({ mergeParams: true });
+  const attachmentController = new AttachmentController();
+
+  // GET /tasks/:taskId/attachments - List the attachments of a task
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await attachmentController.getAttachments(req, res);
+    })
+  );
+
+  // POST /tasks/:taskId/attachments - Upload a file (multipart field "file")
+  router.post(
+    "/",
+    uploadAttachment(),
+    asyncErrorWrapper(async (req, res) => {
+      await attachmentController.createAttachment(req, res);
+    })
+  );
+
+  // GET /tasks/:taskId/attachments/:attachmentId - Download a file
+  router.get(
+    "/:attachmentId",
+    asyncErrorWrapper(async (req, res) => {
+      await attachmentController.downloadAttachment(req, res);
+    })
+  );
+
+  // DELETE /tasks/:taskId/attachments/:attachmentId - Remove a file
+  router.delete(
+    "/:attachmentId",
+    asyncErrorWrapper(async (req, res) => {
+      await attachmentController.deleteAttachment(req, res);
+    })
+  );
+
+  return router;
+}
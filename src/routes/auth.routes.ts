@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { AuthController } from "../controllers/auth.controller.js";
 import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
 
 /**
  * Authentication routes configuration
@@ -18,6 +22,15 @@ export function createAuthRoutes(): Router {
     })
   );
 
+  // POST /auth/register - User registration endpoint
+  router.post(
+    "/register",
+    validateInput(VALIDATION_RULE_SETS.register),
+    asyncErrorWrapper(async (req, res) => {
+      await authController.register(req, res);
+    })
+  );
+
   // POST /auth/logout - User logout endpoint
   router.post(
     "/logout",
@@ -0,0 +1,151 @@
+import { Router } from "express";
+import { BoardController } from "../controllers/board.controller.js";
+import { TaskController } from "../controllers/task.controller.js";
+import { ColumnController } from "../controllers/column.controller.js";
+import { LabelController } from "../controllers/label.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Board routes configuration
+ * Defines route handlers connecting to BoardController methods
+ * Board-scoped tasks, columns and labels delegate to TaskController,
+ * ColumnController and LabelController
+ */
+export function createBoardRoutes(): Router {
+  const router = Router();
+  const boardController = new BoardController();
+  const taskController = new TaskController();
+  const columnController = new ColumnController();
+  const labelController = new LabelController();
+
+  // POST /boards - Create a new board
+  router.post(
+    "/",
+    validateInput(VALIDATION_RULE_SETS.createBoard),
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.createBoard(req, res);
+    })
+  );
+
+  // GET /boards - Retrieve all boards
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.getAllBoards(req, res);
+    })
+  );
+
+  // GET /boards/:id - Retrieve a single board
+  router.get(
+    "/:id",
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.getBoard(req, res);
+    })
+  );
+
+  // PUT /boards/:id - Rename or describe a board
+  router.put(
+    "/:id",
+    validateInput(VALIDATION_RULE_SETS.updateBoard),
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.updateBoard(req, res);
+    })
+  );
+
+  // DELETE /boards/:id - Delete a board and its tasks
+  router.delete(
+    "/:id",
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.deleteBoard(req, res);
+    })
+  );
+
+  // GET /boards/:id/workflow - Retrieve the allowed status transitions
+  router.get(
+    "/:id/workflow",
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.getWorkflow(req, res);
+    })
+  );
+
+  // PUT /boards/:id/workflow - Replace the allowed status transitions
+  router.put(
+    "/:id/workflow",
+    asyncErrorWrapper(async (req, res) => {
+      await boardController.updateWorkflow(req, res);
+    })
+  );
+
+  // GET /boards/:boardId/tasks - Retrieve the tasks of a board
+  router.get(
+    "/:boardId/tasks",
+    validateInput(VALIDATION_RULE_SETS.listTasks, "query"),
+    asyncErrorWrapper(async (req, res) => {
+      await taskController.getAllTasks(req, res);
+    })
+  );
+
+  // POST /boards/:boardId/tasks - Create a task on a board
+  router.post(
+    "/:boardId/tasks",
+    asyncErrorWrapper(async (req, res) => {
+      await taskController.createTask(req, res);
+    })
+  );
+
+  // GET /boards/:boardId/columns - Retrieve the columns of a board in order
+  router.get(
+    "/:boardId/columns",
+    asyncErrorWrapper(async (req, res) => {
+      await columnController.getColumns(req, res);
+    })
+  );
+
+  // POST /boards/:boardId/columns - Append a column to a board
+  router.post(
+    "/:boardId/columns",
+    validateInput(VALIDATION_RULE_SETS.createColumn),
+    asyncErrorWrapper(async (req, res) => {
+      await columnController.createColumn(req, res);
+    })
+  );
+
+  // GET /boards/:boardId/columns/totals - Task count and estimate total per column
+  router.get(
+    "/:boardId/columns/totals",
+    asyncErrorWrapper(async (req, res) => {
+      await columnController.getColumnTotals(req, res);
+    })
+  );
+
+  // PUT /boards/:boardId/columns/order - Reorder the columns of a board
+  router.put(
+    "/:boardId/columns/order",
+    asyncErrorWrapper(async (req, res) => {
+      await columnController.reorderColumns(req, res);
+    })
+  );
+
+  // GET /boards/:boardId/labels - Retrieve the labels of a board
+  router.get(
+    "/:boardId/labels",
+    asyncErrorWrapper(async (req, res) => {
+      await labelController.getLabels(req, res);
+    })
+  );
+
+  // POST /boards/:boardId/labels - Create a label on a board
+  router.post(
+    "/:boardId/labels",
+    validateInput(VALIDATION_RULE_SETS.createLabel),
+    asyncErrorWrapper(async (req, res) => {
+      await labelController.createLabel(req, res);
+    })
+  );
+
+  return router;
+}
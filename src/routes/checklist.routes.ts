@@ -0,0 +1,61 @@
+import { Router } from "express";
+import { ChecklistController } from "../controllers/checklist.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Checklist routes configuration
+ * Mounted under /tasks/:taskId/checklist, hence mergeParams
+ */
+export function createChecklistRoutes(): Router {
+  const router = Router({ mergeParams: true });
+  const checklistController = new ChecklistController();
+
+  // GET /tasks/:taskId/checklist - Retrieve the checklist of a task
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await checklistController.getItems(req, res);
+    })
+  );
+
+  // POST /tasks/:taskId/checklist - Append an item to the checklist
+  router.post(
+    "/",
+    validateInput(VALIDATION_RULE_SETS.createChecklistItem),
+    asyncErrorWrapper(async (req, res) => {
+      await checklistController.createItem(req, res);
+    })
+  );
+
+  // PUT /tasks/:taskId/checklist/order - Reorder the checklist
+  // Registered before /:itemId so "order" is not taken as an item ID
+  router.put(
+    "/order",
+    asyncErrorWrapper(async (req, res) => {
+      await checklistController.reorderItems(req, res);
+    })
+  );
+
+  // PUT /tasks/:taskId/checklist/:itemId - Edit or tick an item
+  router.put(
+    "/:itemId",
+    validateInput(VALIDATION_RULE_SETS.updateChecklistItem),
+    asyncErrorWrapper(async (req, res) => {
+      await checklistController.updateItem(req, res);
+    })
+  );
+
+  // DELETE /tasks/:taskId/checklist/:itemId - Remove an item
+  router.delete(
+    "/:itemId",
+    asyncErrorWrapper(async (req, res) => {
+      await checklistController.deleteItem(req, res);
+    })
+  );
+
+  return router;
+}
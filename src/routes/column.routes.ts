@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { ColumnController } from "../controllers/column.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Column routes configuration
+ * Listing, creating and reordering live under /boards/:boardId/columns
+ */
+export function createColumnRoutes(): Router {
+  const router = Router();
+  const columnController = new ColumnController();
+
+  // PUT /columns/:id - Rename, recolor or recategorize a column
+  router.put(
+    "/:id",
+    validateInput(VALIDATION_RULE_SETS.updateColumn),
+    asyncErrorWrapper(async (req, res) => {
+      await columnController.updateColumn(req, res);
+    })
+  );
+
+  // DELETE /columns/:id - Delete an empty column
+  router.delete(
+    "/:id",
+    asyncErrorWrapper(async (req, res) => {
+      await columnController.deleteColumn(req, res);
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,60 @@
+import { Router } from "express";
+import { CommentController } from "../controllers/comment.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Comment routes configuration
+ * Mounted under /tasks/:taskId/comments, hence mergeParams
+ */
+export function createCommentRoutes(): Router {
+  const router = Router({ mergeParams: true });
+  const commentController = new CommentController();
+
+  // GET /tasks/:taskId/comments - Retrieve the thread of a task
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await commentController.getComments(req, res);
+    })
+  );
+
+  // POST /tasks/:taskId/comments - Post a comment
+  router.post(
+    "/",
+    validateInput(VALIDATION_RULE_SETS.comment),
+    asyncErrorWrapper(async (req, res) => {
+      await commentController.createComment(req, res);
+    })
+  );
+
+  // PUT /tasks/:taskId/comments/:commentId - Edit an own comment
+  router.put(
+    "/:commentId",
+    validateInput(VALIDATION_RULE_SETS.comment),
+    asyncErrorWrapper(async (req, res) => {
+      await commentController.updateComment(req, res);
+    })
+  );
+
+  // DELETE /tasks/:taskId/comments/:commentId - Delete an own comment
+  router.delete(
+    "/:commentId",
+    asyncErrorWrapper(async (req, res) => {
+      await commentController.deleteComment(req, res);
+    })
+  );
+
+  // GET /tasks/:taskId/comments/:commentId/revisions - Edit history
+  router.get(
+    "/:commentId/revisions",
+    asyncErrorWrapper(async (req, res) => {
+      await commentController.getRevisions(req, res);
+    })
+  );
+
+  return router;
+}
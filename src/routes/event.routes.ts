@@ -0,0 +1,27 @@
+import { Router } from "express";
+import { EventController } from "../controllers/event.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Event routes configuration
+ * Long-lived Server-Sent Events streams, mounted under /events
+ */
+export function createEventRoutes(): Router {
+  const router = Router();
+  const eventController = new EventController();
+
+  // GET /events - Stream task changes, optionally of a single board
+  router.get(
+    "/",
+    validateInput(VALIDATION_RULE_SETS.events, "query"),
+    asyncErrorWrapper(async (req, res) => {
+      await eventController.streamTaskChanges(req, res);
+    })
+  );
+
+  return router;
+}
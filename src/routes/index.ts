@@ -1,2 +1,13 @@
 export { createTaskRoutes } from "./task.routes.js";
 export { createAuthRoutes } from "./auth.routes.js";
+export { createUserRoutes } from "./user.routes.js";
+export { createBoardRoutes } from "./board.routes.js";
+export { createColumnRoutes } from "./column.routes.js";
+export { createLabelRoutes } from "./label.routes.js";
+export { createChecklistRoutes } from "./checklist.routes.js";
+export { createCommentRoutes } from "./comment.routes.js";
+export { createAttachmentRoutes } from "./attachment.routes.js";
+export { createRecurrenceRoutes } from "./recurrence.routes.js";
+export { createTimeEntryRoutes } from "./time-entry.routes.js";
+export { createTimesheetRoutes } from "./timesheet.routes.js";
+export { createEventRoutes } from "./event.routes.js";
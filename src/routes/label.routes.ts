@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { LabelController } from "../controllers/label.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Label routes configuration
+ * Listing and creating live under /boards/:boardId/labels
+ */
+export function createLabelRoutes(): Router {
+  const router = Router();
+  const labelController = new LabelController();
+
+  // PUT /labels/:id - Rename or recolor a label
+  router.put(
+    "/:id",
+    validateInput(VALIDATION_RULE_SETS.updateLabel),
+    asyncErrorWrapper(async (req, res) => {
+      await labelController.updateLabel(req, res);
+    })
+  );
+
+  // DELETE /labels/:id - Delete a label and detach it from its tasks
+  router.delete(
+    "/:id",
+    asyncErrorWrapper(async (req, res) => {
+      await labelController.deleteLabel(req, res);
+    })
+  );
+
+  return router;
+}
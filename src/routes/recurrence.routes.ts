@@ -0,0 +1,43 @@
+import { Router } from "express";
+import { RecurrenceController } from "../controllers/recurrence.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Recurrence routes configuration
+ * Mounted under /tasks/:taskId/recurrence, hence mergeParams
+ */
+export function createRecurrenceRoutes(): Router {
+  const router = Router({ mergeParams: true });
+  const recurrenceController = new RecurrenceController();
+
+  // GET /tasks/:taskId/recurrence - Retrieve the schedule of a task
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await recurrenceController.getRecurrence(req, res);
+    })
+  );
+
+  // PUT /tasks/:taskId/recurrence - Make a task recur or change its schedule
+  router.put(
+    "/",
+    validateInput(VALIDATION_RULE_SETS.recurrence),
+    asyncErrorWrapper(async (req, res) => {
+      await recurrenceController.setRecurrence(req, res);
+    })
+  );
+
+  // DELETE /tasks/:taskId/recurrence - Stop a task from recurring
+  router.delete(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await recurrenceController.deleteRecurrence(req, res);
+    })
+  );
+
+  return router;
+}
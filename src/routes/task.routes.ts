@@ -1,6 +1,10 @@
 import { Router } from "express";
 import { TaskController } from "../controllers/task.controller.js";
 import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
 
 /**
  * Task routes configuration
@@ -18,34 +22,84 @@ export function createTaskRoutes(): Router {
     })
   );
 
-  // GET /tasks - Retrieve all tasks
+  // POST /tasks/bulk - Change many tasks in one transaction (all or nothing)
+  router.post(
+    "/bulk",
+    asyncErrorWrapper(async (req, res) => {
+      await taskController.bulkUpdateTasks(req, res);
+    })
+  );
+
+  // GET /tasks/search - Full-text search over titles and descriptions
+  // Registered before the /:id routes so "search" is not taken as an ID
+  router.get(
+    "/search",
+    validateInput(VALIDATION_RULE_SETS.searchTasks, "query"),
+    asyncErrorWrapper(async (req, res) => {
+      await taskController.searchTasks(req, res);
+    })
+  );
+
+  // GET /tasks/overdue - Open tasks past their due date, for polling tools
+  router.get(
+    "/overdue",
+    validateInput(VALIDATION_RULE_SETS.overdueTasks, "query"),
+    asyncErrorWrapper(async (req, res) => {
+      await taskController.getOverdueTasks(req, res);
+    })
+  );
+
+  // GET /tasks - Retrieve a page of tasks (?assignee=me filters by current user)
   router.get(
     "/",
+    validateInput(VALIDATION_RULE_SETS.listTasks, "query"),
     asyncErrorWrapper(async (req, res) => {
       await taskController.getAllTasks(req, res);
     })
   );
 
-  // PUT /tasks/:id - Update task (title, description) - COMMENTED OUT
-  // router.put(
-  //   "/:id",
-  //   asyncErrorWrapper(async (req, res) => {
-  //     // Route parameter validation for task ID
-  //     const { id } = req.params;
-  //     if (!id || typeof id !== "string" || id.trim().length === 0) {
-  //       res.status(400).json({
-  //         error: "Validation Error",
-  //         message:
-  //           "Task ID parameter is required and must be a non-empty string",
-  //         statusCode: 400,
-  //         timestamp: new Date().toISOString(),
-  //       });
-  //       return;
-  //     }
-
-  //     await taskController.updateTask(req, res);
-  //   })
-  // );
+  // GET /tasks/:id - Retrieve a single task (with its version as ETag)
+  router.get(
+    "/:id",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.getTaskById(req, res);
+    })
+  );
+
+  // PATCH /tasks/:id - Edit a task with a JSON merge patch (If-Match aware)
+  router.patch(
+    "/:id",
+    validateInput(VALIDATION_RULE_SETS.updateTask),
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.updateTask(req, res);
+    })
+  );
 
   // PUT /tasks/:id/status - Update task status
   router.put(
@@ -68,5 +122,215 @@ export function createTaskRoutes(): Router {
     })
   );
 
+  // PUT /tasks/:id/column - Move a task to another column
+  router.put(
+    "/:id/column",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.moveTaskToColumn(req, res);
+    })
+  );
+
+  // PUT /tasks/:id/position - Reorder a task inside its column
+  router.put(
+    "/:id/position",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.updateTaskPosition(req, res);
+    })
+  );
+
+  // PUT /tasks/:id/assignee - Assign or unassign a task
+  router.put(
+    "/:id/assignee",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.updateTaskAssignee(req, res);
+    })
+  );
+
+  // PUT /tasks/:id/labels - Replace the labels of a task
+  router.put(
+    "/:id/labels",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.updateTaskLabels(req, res);
+    })
+  );
+
+  // PUT /tasks/:id/archive - Archive or unarchive a task
+  router.put(
+    "/:id/archive",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.updateTaskArchive(req, res);
+    })
+  );
+
+  // POST /tasks/:id/restore - Restore a task from the trash
+  router.post(
+    "/:id/restore",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.restoreTask(req, res);
+    })
+  );
+
+  // GET /tasks/:id/history - Who created, moved, edited or deleted a task
+  router.get(
+    "/:id/history",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.getTaskHistory(req, res);
+    })
+  );
+
+  // POST /tasks/:id/blockers - Mark a task as blocked by another one
+  router.post(
+    "/:id/blockers",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.addTaskBlocker(req, res);
+    })
+  );
+
+  // DELETE /tasks/:id/blockers/:blockerId - Remove a blocker from a task
+  router.delete(
+    "/:id/blockers/:blockerId",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.removeTaskBlocker(req, res);
+    })
+  );
+
+  // DELETE /tasks/:id - Move a task to the trash
+  router.delete(
+    "/:id",
+    asyncErrorWrapper(async (req, res) => {
+      // Route parameter validation for task ID
+      const { id } = req.params;
+      if (!id || typeof id !== "string" || id.trim().length === 0) {
+        res.status(400).json({
+          error: "Validation Error",
+          message:
+            "Task ID parameter is required and must be a non-empty string",
+          statusCode: 400,
+          timestamp: new Date().toISOString(),
+        });
+        return;
+      }
+
+      await taskController.deleteTask(req, res);
+    })
+  );
+
   return router;
 }
@@ -0,0 +1,52 @@
+import { Router } from "express";
+import { TimeEntryController } from "../controllers/time-entry.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Time entry routes configuration
+ * Mounted under /tasks/:taskId/time-entries, hence mergeParams
+ */
+export function createTimeEntryRoutes(): Router {
+  const router = Router({ mergeParams: true });
+  const timeEntryController = new TimeEntryController();
+
+  // GET /tasks/:taskId/time-entries - Retrieve the time logged on a task
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await timeEntryController.getTimeEntries(req, res);
+    })
+  );
+
+  // POST /tasks/:taskId/time-entries - Log work done without a timer
+  router.post(
+    "/",
+    validateInput(VALIDATION_RULE_SETS.timeEntry),
+    asyncErrorWrapper(async (req, res) => {
+      await timeEntryController.createTimeEntry(req, res);
+    })
+  );
+
+  // POST /tasks/:taskId/time-entries/start - Start a timer on the task
+  router.post(
+    "/start",
+    validateInput(VALIDATION_RULE_SETS.startTimer),
+    asyncErrorWrapper(async (req, res) => {
+      await timeEntryController.startTimer(req, res);
+    })
+  );
+
+  // POST /tasks/:taskId/time-entries/stop - Stop the running timer
+  router.post(
+    "/stop",
+    asyncErrorWrapper(async (req, res) => {
+      await timeEntryController.stopTimer(req, res);
+    })
+  );
+
+  return router;
+}
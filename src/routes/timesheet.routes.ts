@@ -0,0 +1,35 @@
+import { Router } from "express";
+import { TimeEntryController } from "../controllers/time-entry.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+import {
+  validateInput,
+  VALIDATION_RULE_SETS,
+} from "../middleware/validation.middleware.js";
+
+/**
+ * Timesheet routes configuration
+ * Time entries across tasks, mounted under /time-entries
+ */
+export function createTimesheetRoutes(): Router {
+  const router = Router();
+  const timeEntryController = new TimeEntryController();
+
+  // GET /time-entries/running - Retrieve the user's running timer
+  router.get(
+    "/running",
+    asyncErrorWrapper(async (req, res) => {
+      await timeEntryController.getRunningTimer(req, res);
+    })
+  );
+
+  // GET /time-entries/timesheet - Export a user's entries in a period as CSV
+  router.get(
+    "/timesheet",
+    validateInput(VALIDATION_RULE_SETS.timesheet, "query"),
+    asyncErrorWrapper(async (req, res) => {
+      await timeEntryController.exportTimesheet(req, res);
+    })
+  );
+
+  return router;
+}
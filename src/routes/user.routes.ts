@@ -0,0 +1,22 @@
+import { Router } from "express";
+import { UserController } from "../controllers/user.controller.js";
+import { asyncErrorWrapper } from "../middleware/index.js";
+
+/**
+ * User routes configuration
+ * Defines route handlers connecting to UserController methods
+ */
+export function createUserRoutes(): Router {
+  const router = Router();
+  const userController = new UserController();
+
+  // GET /users - Retrieve all users
+  router.get(
+    "/",
+    asyncErrorWrapper(async (req, res) => {
+      await userController.getAllUsers(req, res);
+    })
+  );
+
+  return router;
+}
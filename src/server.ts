@@ -5,8 +5,23 @@ import { fileURLToPath } from "url";
 import { prisma, disconnectDatabase } from "./db/index.js";
 import { createTaskRoutes } from "./routes/task.routes.js";
 import { createAuthRoutes } from "./routes/auth.routes.js";
+import { createUserRoutes } from "./routes/user.routes.js";
+import { createBoardRoutes } from "./routes/board.routes.js";
+import { createColumnRoutes } from "./routes/column.routes.js";
+import { createLabelRoutes } from "./routes/label.routes.js";
+import { createChecklistRoutes } from "./routes/checklist.routes.js";
+import { createCommentRoutes } from "./routes/comment.routes.js";
+import { createAttachmentRoutes } from "./routes/attachment.routes.js";
+import { createRecurrenceRoutes } from "./routes/recurrence.routes.js";
+import { createTimeEntryRoutes } from "./routes/time-entry.routes.js";
+import { createTimesheetRoutes } from "./routes/timesheet.routes.js";
+import { createEventRoutes } from "./routes/event.routes.js";
 import { authMiddleware } from "./middleware/auth.middleware.js";
 import { errorHandler } from "./middleware/index.js";
+import { AuthService } from "./services/auth.service.js";
+import { startTrashPurgeJob } from "./jobs/trash-purge.job.js";
+import { startRecurrenceJob } from "./jobs/recurrence.job.js";
+import { startCollaborationServer } from "./events/collaboration-server.js";
 
 // ES module equivalent of __dirname
 const __filename = fileURLToPath(import.meta.url);
@@ -33,8 +48,14 @@ async function initializeDatabase(): Promise<void> {
  * Configure Express application with middleware
  */
 function configureApp(): void {
-  // JSON body parsing middleware with 1MB size limit
-  app.use(express.json({ limit: "1mb" }));
+  // JSON body parsing middleware with 1MB size limit; merge patches
+  // (PATCH /api/tasks/:id) are JSON too
+  app.use(
+    express.json({
+      limit: "1mb",
+      type: ["application/json", "application/merge-patch+json"],
+    })
+  );
 
   // Basic health check route
   app.get("/health", (req, res) => {
@@ -48,6 +69,56 @@ function configureApp(): void {
   // Middleware order: auth → validation → controller
   app.use("/api/tasks", authMiddleware, createTaskRoutes());
 
+  // Protected checklist routes (steps inside a task)
+  app.use(
+    "/api/tasks/:taskId/checklist",
+    authMiddleware,
+    createChecklistRoutes()
+  );
+
+  // Protected comment routes (discussion thread of a task)
+  app.use("/api/tasks/:taskId/comments", authMiddleware, createCommentRoutes());
+
+  // Protected attachment routes (multipart uploads, limits set in the
+  // upload middleware rather than by express.json)
+  app.use(
+    "/api/tasks/:taskId/attachments",
+    authMiddleware,
+    createAttachmentRoutes()
+  );
+
+  // Protected recurrence routes (schedule of a recurring task)
+  app.use(
+    "/api/tasks/:taskId/recurrence",
+    authMiddleware,
+    createRecurrenceRoutes()
+  );
+
+  // Protected time tracking routes (timers and logged work of a task)
+  app.use(
+    "/api/tasks/:taskId/time-entries",
+    authMiddleware,
+    createTimeEntryRoutes()
+  );
+
+  // Protected timesheet routes (running timer and CSV export per user)
+  app.use("/api/time-entries", authMiddleware, createTimesheetRoutes());
+
+  // Protected event stream (task changes pushed to open boards over SSE)
+  app.use("/api/events", authMiddleware, createEventRoutes());
+
+  // Protected user routes (list accounts for task assignment)
+  app.use("/api/users", authMiddleware, createUserRoutes());
+
+  // Protected board routes (boards and their tasks)
+  app.use("/api/boards", authMiddleware, createBoardRoutes());
+
+  // Protected column routes (rename, recolor, delete)
+  app.use("/api/columns", authMiddleware, createColumnRoutes());
+
+  // Protected label routes (rename, recolor, delete)
+  app.use("/api/labels", authMiddleware, createLabelRoutes());
+
   // Serve static files from dist directory with proper caching headers
   const distPath = path.join(__dirname, "../dist");
   app.use(
@@ -99,9 +170,19 @@ async function startServer(): Promise<void> {
     // Initialize database connection
     await initializeDatabase();
 
+    // Create the initial user account from environment variables if needed
+    const authService = new AuthService();
+    await authService.ensureBootstrapUser();
+
     // Configure Express app
     configureApp();
 
+    // Permanently delete trashed tasks once their retention period is over
+    const stopTrashPurge = startTrashPurgeJob();
+
+    // Create the copies of recurring tasks as their occurrences come due
+    const stopRecurrences = startRecurrenceJob();
+
     // Start HTTP server
     const server = app.listen(PORT, () => {
       console.log(`Server is running on port ${PORT}`);
@@ -111,14 +192,25 @@ async function startServer(): Promise<void> {
       console.log(`Frontend UI available at http://localhost:${PORT}/`);
     });
 
+    // Presence and edit locks over WebSocket, on the same port
+    const stopCollaboration = startCollaborationServer(server, (token) =>
+      authService.verifyToken(token)
+    );
+
     // Graceful shutdown handlers
     const gracefulShutdown = async (signal: string) => {
       console.log(`${signal} received, shutting down gracefully`);
+      stopTrashPurge();
+      const recurrencesStopped = stopRecurrences();
+      // Open sockets would otherwise keep server.close from finishing
+      stopCollaboration();
 
       server.close(async () => {
         console.log("HTTP server closed");
 
         try {
+          // Let a running recurrence check finish before disconnecting
+          await recurrencesStopped;
           await disconnectDatabase();
           console.log("Database connection closed");
           process.exit(0);
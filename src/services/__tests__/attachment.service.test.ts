@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { AttachmentService } from "../attachment.service.js";
+import type { FileStorage } from "../../storage/index.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    task: {
+      findUnique: vi.fn(),
+    },
+    attachment: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const mockPrismaAttachment = (id: string) => ({
+  id,
+  taskId: "task-1",
+  filename: "screenshot.png",
+  mimeType: "image/png",
+  size: 4,
+  storageKey: `task-1/${id}`,
+  uploadedById: "user-1",
+  uploadedBy: { id: "user-1", username: "ana" },
+  createdAt: new Date("2023-01-01"),
+});
+
+describe("AttachmentService", () => {
+  let storage: { [K in keyof FileStorage]: ReturnType<typeof vi.fn> };
+  let attachmentService: AttachmentService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage = {
+      save: vi.fn().mockResolvedValue(undefined),
+      read: vi.fn(),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+    attachmentService = new AttachmentService(storage as FileStorage);
+    (prisma.task.findUnique as any).mockResolvedValue({
+      id: "task-1",
+      deletedAt: null,
+    });
+  });
+
+  describe("createAttachment", () => {
+    it("should store the file under a generated key", async () => {
+      // Arrange
+      (prisma.attachment.create as any).mockResolvedValue(
+        mockPrismaAttachment("attachment-1")
+      );
+
+      // Act
+      const attachment = await attachmentService.createAttachment(
+        "task-1",
+        {
+          filename: "screenshot.png",
+          mimeType: "image/png",
+          data: Buffer.from("data"),
+        },
+        "user-1"
+      );
+
+      // Assert
+      const storageKey = storage.save.mock.calls[0]?.[0];
+      expect(storageKey).toMatch(/^task-1\/[0-9a-f-]{36}$/);
+      expect(prisma.attachment.create).toHaveBeenCalledWith({
+        data: {
+          taskId: "task-1",
+          filename: "screenshot.png",
+          mimeType: "image/png",
+          size: 4,
+          storageKey,
+          uploadedById: "user-1",
+        },
+        include: { uploadedBy: { select: { id: true, username: true } } },
+      });
+      expect(attachment.uploadedBy).toEqual({ id: "user-1", username: "ana" });
+    });
+
+    it("should remove the stored file when the row cannot be created", async () => {
+      // Arrange
+      (prisma.attachment.create as any).mockRejectedValue(
+        new Error("connection lost")
+      );
+
+      // Act & Assert
+      await expect(
+        attachmentService.createAttachment("task-1", {
+          filename: "app.log",
+          mimeType: "text/plain",
+          data: Buffer.from("log"),
+        })
+      ).rejects.toThrow("Failed to create attachment: connection lost");
+      expect(storage.delete).toHaveBeenCalledWith(
+        storage.save.mock.calls[0]?.[0]
+      );
+    });
+
+    it("should throw when the task is in the trash", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "task-1",
+        deletedAt: new Date(),
+      });
+
+      // Act & Assert
+      await expect(
+        attachmentService.createAttachment("task-1", {
+          filename: "app.log",
+          mimeType: "text/plain",
+          data: Buffer.from("log"),
+        })
+      ).rejects.toThrow("Task with ID task-1 not found");
+      expect(storage.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteAttachment", () => {
+    it("should delete the row and the stored file", async () => {
+      // Arrange
+      (prisma.attachment.findFirst as any).mockResolvedValue(
+        mockPrismaAttachment("attachment-1")
+      );
+
+      // Act
+      await attachmentService.deleteAttachment("task-1", "attachment-1");
+
+      // Assert
+      expect(prisma.attachment.delete).toHaveBeenCalledWith({
+        where: { id: "attachment-1" },
+      });
+      expect(storage.delete).toHaveBeenCalledWith("task-1/attachment-1");
+    });
+
+    it("should throw when the attachment belongs to another task", async () => {
+      // Arrange
+      (prisma.attachment.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        attachmentService.deleteAttachment("task-1", "attachment-9")
+      ).rejects.toThrow("Attachment with ID attachment-9 not found");
+      expect(storage.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import jwt from "jsonwebtoken";
+import { AuthService } from "../auth.service.js";
+import { hashPassword } from "../../utils/password.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    user: {
+      create: vi.fn(),
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+describe("AuthService", () => {
+  let authService: AuthService;
+
+  beforeEach(() => {
+    vi.stubEnv("JWT_SECRET", "test-secret");
+    vi.stubEnv("JWT_EXPIRES_IN", "24h");
+    authService = new AuthService();
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("register", () => {
+    it("should store a salted hash and return a token with the user id", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      (prisma.user.create as any).mockImplementation(async ({ data }: any) => ({
+        id: "user-id",
+        ...data,
+      }));
+
+      // Act
+      const result = await authService.register({
+        username: "alice",
+        password: "super-secret",
+      });
+
+      // Assert
+      const createArgs = (prisma.user.create as any).mock.calls[0][0];
+      expect(createArgs.data.username).toBe("alice");
+      expect(createArgs.data.passwordHash).not.toContain("super-secret");
+      expect(createArgs.data.passwordHash).toMatch(
+        /^scrypt\$[0-9a-f]+\$[0-9a-f]+$/
+      );
+
+      const decoded = jwt.verify(result.token, "test-secret") as any;
+      expect(decoded).toMatchObject({ userId: "user-id", username: "alice" });
+      expect(result.expiresIn).toBe("24h");
+    });
+
+    it("should throw error when username already exists", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({ id: "existing" });
+
+      // Act & Assert
+      await expect(
+        authService.register({ username: "alice", password: "super-secret" })
+      ).rejects.toThrow("Username already exists");
+
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should report a taken username when a concurrent registration wins", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+      (prisma.user.create as any).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError(
+          "Unique constraint failed on the fields: (`username`)",
+          { code: "P2002", clientVersion: Prisma.prismaVersion.client }
+        )
+      );
+
+      // Act & Assert
+      await expect(
+        authService.register({ username: "alice", password: "super-secret" })
+      ).rejects.toThrow("Username already exists");
+    });
+  });
+
+  describe("login", () => {
+    it("should return a token when the password matches the stored hash", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: "user-id",
+        username: "alice",
+        passwordHash: await hashPassword("super-secret"),
+      });
+
+      // Act
+      const result = await authService.login({
+        username: "alice",
+        password: "super-secret",
+      });
+
+      // Assert
+      expect(authService.verifyToken(result.token)).toMatchObject({
+        userId: "user-id",
+        username: "alice",
+      });
+    });
+
+    it("should trim the username the same way register does", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: "user-id",
+        username: "alice",
+        passwordHash: await hashPassword("super-secret"),
+      });
+
+      // Act
+      await authService.login({
+        username: " alice ",
+        password: "super-secret",
+      });
+
+      // Assert
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { username: "alice" },
+      });
+    });
+
+    it("should throw error when the password does not match", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({
+        id: "user-id",
+        username: "alice",
+        passwordHash: await hashPassword("super-secret"),
+      });
+
+      // Act & Assert
+      await expect(
+        authService.login({ username: "alice", password: "wrong-password" })
+      ).rejects.toThrow("Invalid credentials");
+    });
+
+    it("should throw error when the user does not exist", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        authService.login({ username: "nobody", password: "super-secret" })
+      ).rejects.toThrow("Invalid credentials");
+    });
+  });
+
+  describe("verifyToken", () => {
+    it("should reject tokens without a user id", () => {
+      // Arrange
+      const legacyToken = jwt.sign({ username: "alice" }, "test-secret");
+
+      // Act & Assert
+      expect(authService.verifyToken(legacyToken)).toBeNull();
+    });
+  });
+
+  describe("ensureBootstrapUser", () => {
+    it("should create the account from environment variables when missing", async () => {
+      // Arrange
+      vi.stubEnv("AUTH_USERNAME", "admin");
+      vi.stubEnv("AUTH_PASSWORD", "admin123");
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+
+      // Act
+      await authService.ensureBootstrapUser();
+
+      // Assert
+      expect(prisma.user.create).toHaveBeenCalledWith({
+        data: { username: "admin", passwordHash: expect.any(String) },
+      });
+    });
+
+    it("should trim the username so the account can log in", async () => {
+      // Arrange
+      vi.stubEnv("AUTH_USERNAME", " admin\n");
+      vi.stubEnv("AUTH_PASSWORD", "admin123");
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+
+      // Act
+      await authService.ensureBootstrapUser();
+
+      // Assert
+      expect(prisma.user.findUnique).toHaveBeenCalledWith({
+        where: { username: "admin" },
+      });
+      expect(prisma.user.create).toHaveBeenCalledWith({
+        data: { username: "admin", passwordHash: expect.any(String) },
+      });
+    });
+
+    it("should reject a blank username", async () => {
+      // Arrange
+      vi.stubEnv("AUTH_USERNAME", "   ");
+      vi.stubEnv("AUTH_PASSWORD", "admin123");
+
+      // Act & Assert
+      await expect(authService.ensureBootstrapUser()).rejects.toThrow(
+        "AUTH_USERNAME cannot be blank"
+      );
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should not recreate an existing account", async () => {
+      // Arrange
+      vi.stubEnv("AUTH_USERNAME", "admin");
+      vi.stubEnv("AUTH_PASSWORD", "admin123");
+      (prisma.user.findUnique as any).mockResolvedValue({ id: "user-id" });
+
+      // Act
+      await authService.ensureBootstrapUser();
+
+      // Assert
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+  });
+});
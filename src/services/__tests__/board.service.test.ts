@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { BoardService } from "../board.service.js";
+import { DEFAULT_COLUMNS } from "../column.service.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    board: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn(),
+    },
+    attachment: {
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock("../../storage/index.js", () => ({
+  deleteStoredFiles: vi.fn(),
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+import { deleteStoredFiles } from "../../storage/index.js";
+
+const mockPrismaBoard = {
+  id: "board-1",
+  name: "General",
+  description: null,
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+};
+
+describe("BoardService", () => {
+  let boardService: BoardService;
+
+  beforeEach(() => {
+    boardService = new BoardService();
+    vi.clearAllMocks();
+  });
+
+  describe("createBoard", () => {
+    it("should create a board with trimmed data", async () => {
+      // Arrange
+      (prisma.board.create as any).mockResolvedValue({
+        ...mockPrismaBoard,
+        name: "Producto",
+      });
+
+      // Act
+      const result = await boardService.createBoard({
+        name: "  Producto  ",
+        description: "   ",
+      });
+
+      // Assert
+      expect(prisma.board.create).toHaveBeenCalledWith({
+        data: {
+          name: "Producto",
+          description: null,
+          columns: { create: DEFAULT_COLUMNS },
+        },
+      });
+      expect(result.name).toBe("Producto");
+      expect(result.description).toBeUndefined();
+    });
+
+    it("should throw error when name is empty", async () => {
+      // Act & Assert
+      await expect(boardService.createBoard({ name: "  " })).rejects.toThrow(
+        "Name is required and cannot be empty"
+      );
+
+      expect(prisma.board.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getDefaultBoard", () => {
+    it("should return the oldest board", async () => {
+      // Arrange
+      (prisma.board.findFirst as any).mockResolvedValue(mockPrismaBoard);
+
+      // Act
+      const result = await boardService.getDefaultBoard();
+
+      // Assert
+      expect(prisma.board.findFirst).toHaveBeenCalledWith({
+        orderBy: { createdAt: "asc" },
+      });
+      expect(result.id).toBe("board-1");
+      expect(prisma.board.create).not.toHaveBeenCalled();
+    });
+
+    it("should create a board when none exist", async () => {
+      // Arrange
+      (prisma.board.findFirst as any).mockResolvedValue(null);
+      (prisma.board.create as any).mockResolvedValue(mockPrismaBoard);
+
+      // Act
+      const result = await boardService.getDefaultBoard();
+
+      // Assert
+      expect(prisma.board.create).toHaveBeenCalledWith({
+        data: {
+          name: "General",
+          description: null,
+          columns: { create: DEFAULT_COLUMNS },
+        },
+      });
+      expect(result.id).toBe("board-1");
+    });
+  });
+
+  describe("deleteBoard", () => {
+    it("should delete a board when others remain", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue(mockPrismaBoard);
+      (prisma.board.count as any).mockResolvedValue(2);
+      (prisma.attachment.findMany as any).mockResolvedValue([]);
+
+      // Act
+      await boardService.deleteBoard("board-1");
+
+      // Assert
+      expect(prisma.board.delete).toHaveBeenCalledWith({
+        where: { id: "board-1" },
+      });
+    });
+
+    it("should remove the files of the attachments deleted with the board", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue(mockPrismaBoard);
+      (prisma.board.count as any).mockResolvedValue(2);
+      (prisma.attachment.findMany as any).mockResolvedValue([
+        { storageKey: "task-1/file-1" },
+        { storageKey: "task-2/file-2" },
+      ]);
+
+      // Act
+      await boardService.deleteBoard("board-1");
+
+      // Assert
+      expect(prisma.attachment.findMany).toHaveBeenCalledWith({
+        where: { task: { boardId: "board-1" } },
+        select: { storageKey: true },
+      });
+      expect(deleteStoredFiles).toHaveBeenCalledWith([
+        "task-1/file-1",
+        "task-2/file-2",
+      ]);
+    });
+
+    it("should refuse to delete the last board", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue(mockPrismaBoard);
+      (prisma.board.count as any).mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(boardService.deleteBoard("board-1")).rejects.toThrow(
+        "Cannot delete the last board"
+      );
+
+      expect(prisma.board.delete).not.toHaveBeenCalled();
+    });
+
+    it("should throw error when board does not exist", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(boardService.deleteBoard("missing")).rejects.toThrow(
+        "not found"
+      );
+    });
+  });
+});
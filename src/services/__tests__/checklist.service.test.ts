@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ChecklistService } from "../checklist.service.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    task: {
+      findUnique: vi.fn(),
+    },
+    checklistItem: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const mockPrismaItem = (id: string, position: number, done = false) => ({
+  id,
+  taskId: "task-1",
+  text: `Step ${position + 1}`,
+  done,
+  position,
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+});
+
+describe("ChecklistService", () => {
+  let checklistService: ChecklistService;
+
+  beforeEach(() => {
+    checklistService = new ChecklistService();
+    vi.clearAllMocks();
+    (prisma.task.findUnique as any).mockResolvedValue({
+      id: "task-1",
+      deletedAt: null,
+    });
+  });
+
+  describe("createItem", () => {
+    it("should append the item after the last one", async () => {
+      // Arrange
+      (prisma.checklistItem.findFirst as any).mockResolvedValue(
+        mockPrismaItem("item-2", 1)
+      );
+      (prisma.checklistItem.create as any).mockResolvedValue(
+        mockPrismaItem("item-3", 2)
+      );
+
+      // Act
+      const item = await checklistService.createItem("task-1", {
+        text: " Step 3 ",
+      });
+
+      // Assert
+      expect(prisma.checklistItem.create).toHaveBeenCalledWith({
+        data: { taskId: "task-1", text: "Step 3", position: 2 },
+      });
+      expect(item.position).toBe(2);
+    });
+
+    it("should reject items on a trashed task", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "task-1",
+        deletedAt: new Date("2023-01-02"),
+      });
+
+      // Act & Assert
+      await expect(
+        checklistService.createItem("task-1", { text: "Step" })
+      ).rejects.toThrow("Task with ID task-1 not found");
+      expect(prisma.checklistItem.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateItem", () => {
+    it("should tick an item of the task", async () => {
+      // Arrange
+      (prisma.checklistItem.findFirst as any).mockResolvedValue(
+        mockPrismaItem("item-1", 0)
+      );
+      (prisma.checklistItem.update as any).mockResolvedValue(
+        mockPrismaItem("item-1", 0, true)
+      );
+
+      // Act
+      const item = await checklistService.updateItem("task-1", "item-1", {
+        done: true,
+      });
+
+      // Assert
+      expect(prisma.checklistItem.findFirst).toHaveBeenCalledWith({
+        where: { id: "item-1", taskId: "task-1" },
+      });
+      expect(prisma.checklistItem.update).toHaveBeenCalledWith({
+        where: { id: "item-1" },
+        data: { done: true },
+      });
+      expect(item.done).toBe(true);
+    });
+
+    it("should throw when the item belongs to another task", async () => {
+      // Arrange
+      (prisma.checklistItem.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        checklistService.updateItem("task-1", "item-9", { done: true })
+      ).rejects.toThrow("Checklist item with ID item-9 not found");
+    });
+  });
+
+  describe("reorderItems", () => {
+    it("should reject an order that does not list every item", async () => {
+      // Arrange
+      (prisma.checklistItem.findMany as any).mockResolvedValue([
+        mockPrismaItem("item-1", 0),
+        mockPrismaItem("item-2", 1),
+      ]);
+
+      // Act & Assert
+      await expect(
+        checklistService.reorderItems("task-1", ["item-2"])
+      ).rejects.toThrow("Invalid checklist order");
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,294 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { ColumnService } from "../column.service.js";
+import { TaskService } from "../task.service.js";
+import { TaskStatus } from "../../models/index.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    $queryRaw: vi.fn(),
+    board: {
+      findUnique: vi.fn(),
+    },
+    column: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findFirstOrThrow: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+      count: vi.fn(),
+    },
+    task: {
+      count: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+      groupBy: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const mockPrismaColumn = (id: string, position: number) => ({
+  id,
+  boardId: "board-1",
+  name: `Column ${position}`,
+  position,
+  color: "#6b7280",
+  status: TaskStatus.PENDING,
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+});
+
+describe("ColumnService", () => {
+  let columnService: ColumnService;
+
+  beforeEach(() => {
+    columnService = new ColumnService();
+    vi.clearAllMocks();
+    (prisma.board.findUnique as any).mockResolvedValue({ id: "board-1" });
+    // Interactive transactions run against the mocked client
+    (prisma.$transaction as any).mockImplementation((fn: any) =>
+      typeof fn === "function" ? fn(prisma) : Promise.all(fn)
+    );
+  });
+
+  describe("createColumn", () => {
+    it("should append the column after the last one", async () => {
+      // Arrange
+      (prisma.column.findFirst as any).mockResolvedValue(
+        mockPrismaColumn("column-3", 2)
+      );
+      (prisma.column.create as any).mockResolvedValue(
+        mockPrismaColumn("column-4", 3)
+      );
+
+      // Act
+      await columnService.createColumn("board-1", {
+        name: " Revisión ",
+        color: "#7c3aed",
+      });
+
+      // Assert
+      expect(prisma.column.create).toHaveBeenCalledWith({
+        data: {
+          boardId: "board-1",
+          name: "Revisión",
+          position: 3,
+          color: "#7c3aed",
+        },
+      });
+    });
+
+    it("should reject invalid colors", async () => {
+      // Act & Assert
+      await expect(
+        columnService.createColumn("board-1", { name: "QA", color: "red" })
+      ).rejects.toThrow("Invalid color");
+
+      expect(prisma.column.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateColumn", () => {
+    it("should announce the tasks whose status changed with the column", async () => {
+      // Arrange
+      const publish = vi
+        .spyOn(TaskService.prototype, "publishColumnTasks")
+        .mockResolvedValue();
+      (prisma.column.findUnique as any).mockResolvedValue(
+        mockPrismaColumn("column-1", 0)
+      );
+      (prisma.column.update as any).mockResolvedValue({
+        ...mockPrismaColumn("column-1", 0),
+        status: TaskStatus.IN_PROGRESS,
+      });
+
+      // Act
+      await columnService.updateColumn("column-1", {
+        status: TaskStatus.IN_PROGRESS,
+      });
+
+      // Assert
+      expect(prisma.task.updateMany).toHaveBeenCalledWith({
+        where: { columnId: "column-1" },
+        data: { status: TaskStatus.IN_PROGRESS, version: { increment: 1 } },
+      });
+      expect(publish).toHaveBeenCalledWith(["column-1"], "task.updated");
+      publish.mockRestore();
+    });
+
+    it("should announce nothing when only the name changes", async () => {
+      // Arrange
+      const publish = vi
+        .spyOn(TaskService.prototype, "publishColumnTasks")
+        .mockResolvedValue();
+      (prisma.column.findUnique as any).mockResolvedValue(
+        mockPrismaColumn("column-1", 0)
+      );
+      (prisma.column.update as any).mockResolvedValue(
+        mockPrismaColumn("column-1", 0)
+      );
+
+      // Act
+      await columnService.updateColumn("column-1", { name: "Hecho" });
+
+      // Assert
+      expect(prisma.task.updateMany).not.toHaveBeenCalled();
+      expect(publish).not.toHaveBeenCalled();
+      publish.mockRestore();
+    });
+  });
+
+  describe("reorderColumns", () => {
+    it("should reject an order that does not list every column", async () => {
+      // Arrange
+      (prisma.column.findMany as any).mockResolvedValue([
+        mockPrismaColumn("column-1", 0),
+        mockPrismaColumn("column-2", 1),
+      ]);
+
+      // Act & Assert
+      await expect(
+        columnService.reorderColumns("board-1", ["column-2"])
+      ).rejects.toThrow("Invalid column order");
+
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+
+    it("should store the new positions", async () => {
+      // Arrange
+      (prisma.column.findMany as any).mockResolvedValue([
+        mockPrismaColumn("column-1", 0),
+        mockPrismaColumn("column-2", 1),
+      ]);
+
+      // Act
+      await columnService.reorderColumns("board-1", ["column-2", "column-1"]);
+
+      // Assert
+      expect(prisma.column.update).toHaveBeenCalledWith({
+        where: { id: "column-2" },
+        data: { position: 0 },
+      });
+      expect(prisma.column.update).toHaveBeenCalledWith({
+        where: { id: "column-1" },
+        data: { position: 1 },
+      });
+      expect(prisma.$transaction).toHaveBeenCalled();
+    });
+  });
+
+  describe("getColumnTotals", () => {
+    it("should total the active tasks of every column", async () => {
+      // Arrange
+      (prisma.column.findMany as any).mockResolvedValue([
+        mockPrismaColumn("column-1", 0),
+        mockPrismaColumn("column-2", 1),
+      ]);
+      (prisma.task.groupBy as any).mockResolvedValue([
+        { columnId: "column-1", _count: { _all: 3 }, _sum: { estimate: 5.5 } },
+      ]);
+
+      // Act
+      const totals = await columnService.getColumnTotals("board-1");
+
+      // Assert
+      expect(prisma.task.groupBy).toHaveBeenCalledWith({
+        by: ["columnId"],
+        where: { boardId: "board-1", deletedAt: null, archivedAt: null },
+        _count: { _all: true },
+        _sum: { estimate: true },
+      });
+      expect(totals).toEqual([
+        {
+          columnId: "column-1",
+          name: "Column 0",
+          taskCount: 3,
+          estimateTotal: 5.5,
+        },
+        {
+          columnId: "column-2",
+          name: "Column 1",
+          taskCount: 0,
+          estimateTotal: 0,
+        },
+      ]);
+    });
+  });
+
+  describe("deleteColumn", () => {
+    it("should refuse to delete a column with tasks", async () => {
+      // Arrange
+      (prisma.column.findUnique as any).mockResolvedValue(
+        mockPrismaColumn("column-1", 0)
+      );
+      (prisma.task.count as any).mockResolvedValue(2);
+
+      // Act & Assert
+      await expect(columnService.deleteColumn("column-1")).rejects.toThrow(
+        "Cannot delete a column that still has tasks"
+      );
+
+      expect(prisma.column.delete).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to delete the last column of a board", async () => {
+      // Arrange
+      (prisma.column.findUnique as any).mockResolvedValue(
+        mockPrismaColumn("column-1", 0)
+      );
+      (prisma.task.count as any).mockResolvedValue(0);
+      (prisma.column.count as any).mockResolvedValue(1);
+
+      // Act & Assert
+      await expect(columnService.deleteColumn("column-1")).rejects.toThrow(
+        "Cannot delete the last column"
+      );
+    });
+
+    it("should move trashed tasks to the end of another column", async () => {
+      // Arrange
+      const target = mockPrismaColumn("column-2", 1);
+      (prisma.column.findUnique as any).mockResolvedValue(
+        mockPrismaColumn("column-1", 0)
+      );
+      (prisma.task.count as any).mockResolvedValue(0);
+      (prisma.column.count as any).mockResolvedValue(2);
+      (prisma.column.findFirst as any).mockResolvedValue(target);
+      (prisma.task.findMany as any).mockResolvedValue([
+        { id: "trashed-1" },
+        { id: "trashed-2" },
+      ]);
+      (prisma.task.findFirst as any).mockResolvedValue({ rank: "m" });
+
+      // Act
+      await columnService.deleteColumn("column-1");
+
+      // Assert
+      const moves = (prisma.task.update as any).mock.calls.map(
+        ([args]: any) => args
+      );
+      expect(moves.map((args: any) => args.where.id)).toEqual([
+        "trashed-1",
+        "trashed-2",
+      ]);
+      expect(moves[0].data).toMatchObject({
+        columnId: "column-2",
+        status: TaskStatus.PENDING,
+      });
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(moves[0].data.rank > "m").toBe(true);
+      expect(moves[1].data.rank > moves[0].data.rank).toBe(true);
+      expect(prisma.column.delete).toHaveBeenCalledWith({
+        where: { id: "column-1" },
+      });
+    });
+  });
+});
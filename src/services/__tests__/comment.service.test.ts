@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { CommentService } from "../comment.service.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    task: {
+      findUnique: vi.fn(),
+    },
+    comment: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+    commentRevision: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const mockPrismaComment = (id: string, body: string) => ({
+  id,
+  taskId: "task-1",
+  body,
+  authorId: "user-1",
+  author: { id: "user-1", username: "ana" },
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+  editedAt: null,
+  _count: { revisions: 0 },
+});
+
+describe("CommentService", () => {
+  let commentService: CommentService;
+
+  beforeEach(() => {
+    commentService = new CommentService();
+    vi.clearAllMocks();
+    (prisma.task.findUnique as any).mockResolvedValue({
+      id: "task-1",
+      deletedAt: null,
+    });
+  });
+
+  describe("createComment", () => {
+    it("should post a trimmed comment as the author", async () => {
+      // Arrange
+      (prisma.comment.create as any).mockResolvedValue(
+        mockPrismaComment("comment-1", "Hola")
+      );
+
+      // Act
+      const comment = await commentService.createComment(
+        "task-1",
+        { body: " Hola " },
+        "user-1"
+      );
+
+      // Assert
+      expect(prisma.comment.create).toHaveBeenCalledWith({
+        data: { taskId: "task-1", body: "Hola", authorId: "user-1" },
+        include: {
+          author: { select: { id: true, username: true } },
+          _count: { select: { revisions: true } },
+        },
+      });
+      expect(comment.author).toEqual({ id: "user-1", username: "ana" });
+      expect(comment.revisionCount).toBe(0);
+    });
+
+    it("should throw when the task is in the trash", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "task-1",
+        deletedAt: new Date(),
+      });
+
+      // Act & Assert
+      await expect(
+        commentService.createComment("task-1", { body: "Hola" }, "user-1")
+      ).rejects.toThrow("Task with ID task-1 not found");
+      expect(prisma.comment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateComment", () => {
+    it("should keep the previous body as a revision", async () => {
+      // Arrange
+      const edited = {
+        ...mockPrismaComment("comment-1", "Adiós"),
+        editedAt: new Date("2023-01-02"),
+        _count: { revisions: 1 },
+      };
+      (prisma.comment.findFirst as any).mockResolvedValue(
+        mockPrismaComment("comment-1", "Hola")
+      );
+      (prisma.$transaction as any).mockResolvedValue([{}, edited]);
+
+      // Act
+      const comment = await commentService.updateComment(
+        "task-1",
+        "comment-1",
+        { body: "Adiós" },
+        "user-1"
+      );
+
+      // Assert
+      expect(prisma.commentRevision.create).toHaveBeenCalledWith({
+        data: { commentId: "comment-1", body: "Hola" },
+      });
+      expect(prisma.comment.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: "comment-1" },
+          data: { body: "Adiós", editedAt: expect.any(Date) },
+        })
+      );
+      expect(comment.editedAt).toEqual(new Date("2023-01-02"));
+      expect(comment.revisionCount).toBe(1);
+    });
+
+    it("should reject edits from someone other than the author", async () => {
+      // Arrange
+      (prisma.comment.findFirst as any).mockResolvedValue(
+        mockPrismaComment("comment-1", "Hola")
+      );
+
+      // Act & Assert
+      await expect(
+        commentService.updateComment(
+          "task-1",
+          "comment-1",
+          { body: "Adiós" },
+          "user-2"
+        )
+      ).rejects.toThrow("Only the author can change this comment");
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("deleteComment", () => {
+    it("should throw when the comment does not exist", async () => {
+      // Arrange
+      (prisma.comment.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        commentService.deleteComment("task-1", "missing", "user-1")
+      ).rejects.toThrow("Comment with ID missing not found");
+      expect(prisma.comment.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { LabelService } from "../label.service.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    board: {
+      findUnique: vi.fn(),
+    },
+    label: {
+      create: vi.fn(),
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      update: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const mockPrismaLabel = (id: string, name: string) => ({
+  id,
+  boardId: "board-1",
+  name,
+  color: "#dc2626",
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+});
+
+describe("LabelService", () => {
+  let labelService: LabelService;
+
+  beforeEach(() => {
+    labelService = new LabelService();
+    vi.clearAllMocks();
+    (prisma.board.findUnique as any).mockResolvedValue({ id: "board-1" });
+  });
+
+  describe("createLabel", () => {
+    it("should create a trimmed label on the board", async () => {
+      // Arrange
+      (prisma.label.findFirst as any).mockResolvedValue(null);
+      (prisma.label.create as any).mockResolvedValue(
+        mockPrismaLabel("label-1", "Bug")
+      );
+
+      // Act
+      const label = await labelService.createLabel("board-1", {
+        name: " Bug ",
+        color: "#dc2626",
+      });
+
+      // Assert
+      expect(prisma.label.create).toHaveBeenCalledWith({
+        data: { boardId: "board-1", name: "Bug", color: "#dc2626" },
+      });
+      expect(label.name).toBe("Bug");
+    });
+
+    it("should reject a name already used on the board", async () => {
+      // Arrange
+      (prisma.label.findFirst as any).mockResolvedValue(
+        mockPrismaLabel("label-1", "Bug")
+      );
+
+      // Act & Assert
+      await expect(
+        labelService.createLabel("board-1", { name: "Bug" })
+      ).rejects.toThrow('Label "Bug" already exists on this board');
+      expect(prisma.label.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid colors", async () => {
+      // Act & Assert
+      await expect(
+        labelService.createLabel("board-1", { name: "Bug", color: "red" })
+      ).rejects.toThrow("Invalid color");
+    });
+  });
+
+  describe("updateLabel", () => {
+    it("should allow keeping the same name while recoloring", async () => {
+      // Arrange
+      (prisma.label.findUnique as any).mockResolvedValue(
+        mockPrismaLabel("label-1", "Bug")
+      );
+      (prisma.label.update as any).mockResolvedValue({
+        ...mockPrismaLabel("label-1", "Bug"),
+        color: "#2563eb",
+      });
+
+      // Act
+      await labelService.updateLabel("label-1", {
+        name: "Bug",
+        color: "#2563eb",
+      });
+
+      // Assert
+      expect(prisma.label.findFirst).not.toHaveBeenCalled();
+      expect(prisma.label.update).toHaveBeenCalledWith({
+        where: { id: "label-1" },
+        data: { name: "Bug", color: "#2563eb" },
+      });
+    });
+  });
+
+  describe("deleteLabel", () => {
+    it("should throw when the label does not exist", async () => {
+      // Arrange
+      (prisma.label.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(labelService.deleteLabel("missing")).rejects.toThrow(
+        "Label with ID missing not found"
+      );
+    });
+  });
+});
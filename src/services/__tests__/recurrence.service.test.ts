@@ -0,0 +1,235 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { RecurrenceService } from "../recurrence.service.js";
+import { TaskPriority, TaskStatus } from "../../models/index.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    task: {
+      findUnique: vi.fn(),
+    },
+    recurrenceRule: {
+      findUnique: vi.fn(),
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+// Copies are created through the task and column services
+vi.mock("../task.service.js", () => ({
+  TaskService: class MockTaskService {
+    createClaimedTask = vi.fn();
+  },
+}));
+vi.mock("../column.service.js", () => ({
+  ColumnService: class MockColumnService {
+    findFirstColumn = vi.fn();
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+// Monday 2026-10-19, 09:00 UTC
+const NOW = new Date("2026-10-19T09:00:00.000Z");
+
+const mockPrismaRule = (overrides: Record<string, unknown> = {}) => ({
+  id: "rule-1",
+  taskId: "task-1",
+  rule: "FREQ=WEEKLY;INTERVAL=1",
+  startsAt: NOW,
+  nextRunAt: new Date("2026-10-26T09:00:00.000Z"),
+  lastRunAt: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+  ...overrides,
+});
+
+describe("RecurrenceService", () => {
+  let recurrenceService: RecurrenceService;
+  let mockTaskService: any;
+  let mockColumnService: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    recurrenceService = new RecurrenceService();
+    mockTaskService = (recurrenceService as any).taskService;
+    mockColumnService = (recurrenceService as any).columnService;
+    // The copy is created only if the claim in its transaction succeeds
+    mockTaskService.createClaimedTask.mockImplementation(
+      async (_data: unknown, _createdById: unknown, claim: any) =>
+        (await claim(prisma)) ? { id: "copy-1" } : null
+    );
+    (prisma.task.findUnique as any).mockResolvedValue({
+      id: "task-1",
+      deletedAt: null,
+    });
+  });
+
+  describe("setRecurrence", () => {
+    it("should normalize the rule and schedule the next occurrence", async () => {
+      // Arrange
+      (prisma.recurrenceRule.upsert as any).mockResolvedValue(mockPrismaRule());
+
+      // Act
+      await recurrenceService.setRecurrence("task-1", { rule: "weekly" }, NOW);
+
+      // Assert: the template itself is the occurrence of today
+      const values = {
+        rule: "FREQ=WEEKLY;INTERVAL=1",
+        startsAt: NOW,
+        nextRunAt: new Date("2026-10-26T09:00:00.000Z"),
+      };
+      expect(prisma.recurrenceRule.upsert).toHaveBeenCalledWith({
+        where: { taskId: "task-1" },
+        create: { taskId: "task-1", ...values },
+        update: values,
+      });
+    });
+
+    it("should follow the weekdays and interval of RRULE-style rules", async () => {
+      // Arrange
+      (prisma.recurrenceRule.upsert as any).mockResolvedValue(mockPrismaRule());
+
+      // Act
+      await recurrenceService.setRecurrence(
+        "task-1",
+        {
+          rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=TH,MO",
+          startsAt: "2026-10-12T08:30:00.000Z",
+        },
+        NOW
+      );
+
+      // Assert: the week of the 19th is off-cycle, so Monday the 26th is next
+      expect(prisma.recurrenceRule.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: {
+            rule: "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH",
+            startsAt: new Date("2026-10-12T08:30:00.000Z"),
+            nextRunAt: new Date("2026-10-26T08:30:00.000Z"),
+          },
+        })
+      );
+    });
+
+    it("should reject unsupported rules", async () => {
+      // Act & Assert
+      await expect(
+        recurrenceService.setRecurrence("task-1", { rule: "FREQ=YEARLY" }, NOW)
+      ).rejects.toThrow("Invalid recurrence rule");
+      expect(prisma.recurrenceRule.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("runDueRecurrences", () => {
+    const template = {
+      id: "task-1",
+      title: "Release notes",
+      description: "Collect the merged changes",
+      priority: TaskPriority.HIGH,
+      boardId: "board-1",
+      assigneeId: "user-2",
+      createdById: "user-1",
+      labels: [{ id: "label-1" }],
+    };
+
+    it("should advance the rule and create a pending copy", async () => {
+      // Arrange: the occurrence of the 19th was missed for a day
+      const dueRule = mockPrismaRule({
+        startsAt: new Date("2026-10-12T09:00:00.000Z"),
+        nextRunAt: new Date("2026-10-19T09:00:00.000Z"),
+        task: template,
+      });
+      (prisma.recurrenceRule.findMany as any).mockResolvedValue([dueRule]);
+      (prisma.recurrenceRule.updateMany as any).mockResolvedValue({ count: 1 });
+      mockColumnService.findFirstColumn.mockResolvedValue({
+        id: "column-1",
+        status: TaskStatus.PENDING,
+      });
+      const later = new Date("2026-10-20T10:00:00.000Z");
+
+      // Act
+      const count = await recurrenceService.runDueRecurrences(later);
+
+      // Assert
+      expect(count).toBe(1);
+      expect(prisma.recurrenceRule.updateMany).toHaveBeenCalledWith({
+        where: { id: "rule-1", nextRunAt: dueRule.nextRunAt },
+        data: {
+          nextRunAt: new Date("2026-10-26T09:00:00.000Z"),
+          lastRunAt: later,
+        },
+      });
+      expect(mockColumnService.findFirstColumn).toHaveBeenCalledWith(
+        "board-1",
+        TaskStatus.PENDING
+      );
+      expect(mockTaskService.createClaimedTask).toHaveBeenCalledWith(
+        {
+          title: "Release notes",
+          description: "Collect the merged changes",
+          priority: TaskPriority.HIGH,
+          assigneeId: "user-2",
+          boardId: "board-1",
+          columnId: "column-1",
+          labelIds: ["label-1"],
+        },
+        "user-1",
+        expect.any(Function)
+      );
+    });
+
+    it("should leave the occurrence due when its copy cannot be created", async () => {
+      // Arrange: the claim is rolled back with the failed copy
+      (prisma.recurrenceRule.findMany as any).mockResolvedValue([
+        mockPrismaRule({ nextRunAt: NOW, task: template }),
+      ]);
+      mockTaskService.createClaimedTask.mockRejectedValue(
+        new Error("Failed to create task: connection lost")
+      );
+      const consoleError = vi
+        .spyOn(console, "error")
+        .mockImplementation(() => {});
+
+      // Act
+      const count = await recurrenceService.runDueRecurrences(NOW);
+
+      // Assert: no claim was made outside the creating transaction
+      expect(count).toBe(0);
+      expect(prisma.recurrenceRule.updateMany).not.toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+
+    it("should skip occurrences already claimed by another run", async () => {
+      // Arrange
+      (prisma.recurrenceRule.findMany as any).mockResolvedValue([
+        mockPrismaRule({ nextRunAt: NOW, task: template }),
+      ]);
+      (prisma.recurrenceRule.updateMany as any).mockResolvedValue({ count: 0 });
+
+      // Act
+      const count = await recurrenceService.runDueRecurrences(NOW);
+
+      // Assert
+      expect(count).toBe(0);
+      expect(prisma.recurrenceRule.updateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("deleteRecurrence", () => {
+    it("should throw when the task does not recur", async () => {
+      // Arrange
+      (prisma.recurrenceRule.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        recurrenceService.deleteRecurrence("task-1")
+      ).rejects.toThrow("Recurrence rule for task task-1 not found");
+      expect(prisma.recurrenceRule.delete).not.toHaveBeenCalled();
+    });
+  });
+});
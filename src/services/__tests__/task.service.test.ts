@@ -1,16 +1,55 @@
-import { describe, it, expect, vi, beforeEach } from "vitest";
-import { TaskService } from "../task.service.js";
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import {
+  TaskService,
+  TaskBlockedError,
+  TaskVersionConflictError,
+  BulkTaskError,
+} from "../task.service.js";
+import { WorkflowTransitionError } from "../workflow.service.js";
 import { TaskStatus } from "../../models/index.js";
-import type { CreateTaskRequest } from "../../models/index.js";
+import type { CreateTaskRequest, TaskChange } from "../../models/index.js";
+import { taskChangeBus } from "../../events/task-change-bus.js";
 
 // Mock the prisma client
 vi.mock("../../db/index.js", () => ({
+  isPostgresDatabase: () =>
+    /^postgres(ql)?:/.test(process.env.DATABASE_URL ?? ""),
   prisma: {
+    $queryRaw: vi.fn(),
+    $executeRaw: vi.fn(),
+    $transaction: vi.fn(),
     task: {
       create: vi.fn(),
       findMany: vi.fn(),
+      findFirst: vi.fn(),
       update: vi.fn(),
       findUnique: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    user: {
+      findUnique: vi.fn(),
+    },
+    column: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+    },
+    board: {
+      findFirst: vi.fn(),
+      findUnique: vi.fn(),
+      create: vi.fn(),
+    },
+    label: {
+      count: vi.fn(),
+    },
+    taskEvent: {
+      findMany: vi.fn(),
+    },
+    attachment: {
+      findMany: vi.fn(),
+    },
+    timeEntry: {
+      findMany: vi.fn(),
     },
   },
 }));
@@ -18,15 +57,126 @@ vi.mock("../../db/index.js", () => ({
 // Import the mocked prisma after mocking
 import { prisma } from "../../db/index.js";
 
+// Board tasks land on when none is given
+const DEFAULT_BOARD = {
+  id: "board-1",
+  name: "General",
+  description: null,
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+};
+
+// First column of the default board, where new tasks land
+const DEFAULT_COLUMN = {
+  id: "column-1",
+  boardId: "board-1",
+  name: "Pendiente",
+  position: 0,
+  color: "#d97706",
+  status: TaskStatus.PENDING,
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+};
+
+// Relations the service loads alongside every task
+const TASK_INCLUDE = {
+  assignee: { select: { id: true, username: true } },
+  labels: {
+    select: { id: true, name: true, color: true },
+    orderBy: { name: "asc" },
+  },
+  checklistItems: { select: { done: true } },
+  attachments: {
+    where: { mimeType: { startsWith: "image/" } },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: 1,
+  },
+  _count: { select: { comments: true, attachments: true } },
+  blockedBy: {
+    where: { deletedAt: null },
+    select: { id: true, title: true, status: true },
+    orderBy: { title: "asc" },
+  },
+};
+
 describe("TaskService", () => {
   let taskService: TaskService;
 
   beforeEach(() => {
     taskService = new TaskService();
     vi.clearAllMocks();
+    (prisma.board.findFirst as any).mockResolvedValue(DEFAULT_BOARD);
+    (prisma.column.findFirst as any).mockResolvedValue(DEFAULT_COLUMN);
+    (prisma.task.findFirst as any).mockReset();
+    (prisma.timeEntry.findMany as any).mockResolvedValue([]);
+    // Interactive transactions run against the mocked client
+    (prisma.$transaction as any).mockImplementation((fn: any) => fn(prisma));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe("createClaimedTask", () => {
+    it("should create nothing when the claim fails", async () => {
+      // Arrange
+      const claim = vi.fn().mockResolvedValue(false);
+
+      // Act
+      const result = await taskService.createClaimedTask(
+        { title: "Release notes" },
+        "user-1",
+        claim
+      );
+
+      // Assert
+      expect(result).toBeNull();
+      expect(claim).toHaveBeenCalledWith(prisma);
+      expect(prisma.task.create).not.toHaveBeenCalled();
+    });
   });
 
   describe("createTask", () => {
+    it("should retry when a concurrent write takes the same rank", async () => {
+      // Arrange
+      (prisma.$transaction as any).mockRejectedValueOnce(
+        new Prisma.PrismaClientKnownRequestError(
+          "Unique constraint failed on the fields: (`columnId`,`rank`)",
+          {
+            code: "P2002",
+            clientVersion: Prisma.prismaVersion.client,
+            meta: { target: ["columnId", "rank"] },
+          }
+        )
+      );
+      (prisma.task.create as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.createTask({ title: "Test Task" });
+
+      // Assert
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(prisma.task.create).toHaveBeenCalledTimes(1);
+    });
+
+    it("should rebalance the column instead of growing ranks past the limit", async () => {
+      // Arrange: the first task already has the longest rank kept
+      (prisma.task.findFirst as any)
+        .mockResolvedValueOnce({ rank: "0000000000000001" })
+        .mockResolvedValueOnce({ rank: "i0i" });
+      (prisma.task.findMany as any).mockResolvedValue([{ id: "first" }]);
+      (prisma.task.create as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.createTask({ title: "Test Task" });
+
+      // Assert
+      expect(prisma.$executeRaw).toHaveBeenCalledTimes(2);
+      const { rank } = (prisma.task.create as any).mock.calls[0][0].data;
+      expect(rank < "i0i" && rank.length <= 3).toBe(true);
+    });
+
     it("should create a task with valid data", async () => {
       // Arrange
       const createTaskRequest: CreateTaskRequest = {
@@ -54,7 +204,21 @@ describe("TaskService", () => {
           title: "Test Task",
           description: "Test Description",
           status: TaskStatus.PENDING,
+          boardId: "board-1",
+          columnId: "column-1",
+          rank: "i",
+          events: {
+            create: {
+              type: "CREATED",
+              after: {
+                title: "Test Task",
+                status: TaskStatus.PENDING,
+                columnId: "column-1",
+              },
+            },
+          },
         },
+        include: TASK_INCLUDE,
       });
 
       expect(result).toEqual({
@@ -64,6 +228,12 @@ describe("TaskService", () => {
         status: TaskStatus.PENDING,
         createdAt: new Date("2023-01-01"),
         updatedAt: new Date("2023-01-01"),
+        labels: [],
+        checklist: { done: 0, total: 0 },
+        commentCount: 0,
+        attachmentCount: 0,
+        blockedBy: [],
+        loggedSeconds: 0,
       });
     });
 
@@ -93,7 +263,21 @@ describe("TaskService", () => {
           title: "Test Task",
           description: null,
           status: TaskStatus.PENDING,
+          boardId: "board-1",
+          columnId: "column-1",
+          rank: "i",
+          events: {
+            create: {
+              type: "CREATED",
+              after: {
+                title: "Test Task",
+                status: TaskStatus.PENDING,
+                columnId: "column-1",
+              },
+            },
+          },
         },
+        include: TASK_INCLUDE,
       });
 
       expect(result).toEqual({
@@ -103,9 +287,159 @@ describe("TaskService", () => {
         status: TaskStatus.PENDING,
         createdAt: new Date("2023-01-01"),
         updatedAt: new Date("2023-01-01"),
+        labels: [],
+        checklist: { done: 0, total: 0 },
+        commentCount: 0,
+        attachmentCount: 0,
+        blockedBy: [],
+        loggedSeconds: 0,
+      });
+    });
+
+    it("should record creator and assignee when provided", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue({ id: "user-2" });
+      (prisma.task.create as any).mockResolvedValue({
+        id: "test-id",
+        title: "Test Task",
+        description: null,
+        status: TaskStatus.PENDING,
+        createdAt: new Date("2023-01-01"),
+        updatedAt: new Date("2023-01-01"),
+        createdById: "user-1",
+        assigneeId: "user-2",
+        assignee: { id: "user-2", username: "bob" },
+      });
+
+      // Act
+      const result = await taskService.createTask(
+        { title: "Test Task", assigneeId: "user-2" },
+        "user-1"
+      );
+
+      // Assert
+      expect(prisma.task.create).toHaveBeenCalledWith({
+        data: {
+          title: "Test Task",
+          description: null,
+          status: TaskStatus.PENDING,
+          boardId: "board-1",
+          columnId: "column-1",
+          rank: "i",
+          createdById: "user-1",
+          assigneeId: "user-2",
+          events: {
+            create: {
+              type: "CREATED",
+              actorId: "user-1",
+              after: {
+                title: "Test Task",
+                status: TaskStatus.PENDING,
+                columnId: "column-1",
+              },
+            },
+          },
+        },
+        include: TASK_INCLUDE,
+      });
+      expect(result.assignee).toEqual({ id: "user-2", username: "bob" });
+    });
+
+    it("should throw error when assignee does not exist", async () => {
+      // Arrange
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        taskService.createTask({ title: "Test Task", assigneeId: "missing" })
+      ).rejects.toThrow("Invalid assignee");
+
+      expect(prisma.task.create).not.toHaveBeenCalled();
+    });
+
+    it("should create the task on the requested board", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue({
+        ...DEFAULT_BOARD,
+        id: "board-2",
+      });
+      (prisma.task.create as any).mockResolvedValue({
+        id: "test-id",
+        title: "Test Task",
+        description: null,
+        status: TaskStatus.PENDING,
+        boardId: "board-2",
+        createdAt: new Date("2023-01-01"),
+        updatedAt: new Date("2023-01-01"),
+      });
+
+      // Act
+      const result = await taskService.createTask({
+        title: "Test Task",
+        boardId: "board-2",
+      });
+
+      // Assert
+      expect(prisma.column.findFirst).toHaveBeenCalledWith({
+        where: { boardId: "board-2" },
+        orderBy: { position: "asc" },
+      });
+      expect(prisma.board.findFirst).not.toHaveBeenCalled();
+      expect(result.boardId).toBe("board-2");
+    });
+
+    it("should throw error when board does not exist", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        taskService.createTask({ title: "Test Task", boardId: "missing" })
+      ).rejects.toThrow("Invalid board");
+
+      expect(prisma.task.create).not.toHaveBeenCalled();
+    });
+
+    it("should place the task in the requested column", async () => {
+      // Arrange
+      (prisma.column.findUnique as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-3",
+        status: TaskStatus.COMPLETED,
+      });
+      (prisma.task.create as any).mockResolvedValue({});
+
+      // Act
+      await taskService.createTask({
+        title: "Test Task",
+        columnId: "column-3",
+      });
+
+      // Assert
+      const createArgs = (prisma.task.create as any).mock.calls[0][0];
+      expect(createArgs.data).toMatchObject({
+        boardId: "board-1",
+        columnId: "column-3",
+        status: TaskStatus.COMPLETED,
       });
     });
 
+    it("should throw error when column is on another board", async () => {
+      // Arrange
+      (prisma.column.findUnique as any).mockResolvedValue(DEFAULT_COLUMN);
+
+      // Act & Assert
+      await expect(
+        taskService.createTask({
+          title: "Test Task",
+          boardId: "board-2",
+          columnId: "column-1",
+        })
+      ).rejects.toThrow("Invalid column");
+
+      expect(prisma.task.create).not.toHaveBeenCalled();
+    });
+
     it("should throw error when title is empty", async () => {
       // Arrange
       const createTaskRequest: CreateTaskRequest = {
@@ -161,12 +495,101 @@ describe("TaskService", () => {
           title: "Test Task",
           description: "Test Description",
           status: TaskStatus.PENDING,
+          boardId: "board-1",
+          columnId: "column-1",
+          rank: "i",
+          events: expect.any(Object),
         },
+        include: TASK_INCLUDE,
       });
     });
   });
 
   describe("getAllTasks", () => {
+    it("should report checklist progress from the item flags", async () => {
+      // Arrange
+      (prisma.task.findMany as any).mockResolvedValue([
+        {
+          id: "task-1",
+          title: "Task 1",
+          status: TaskStatus.PENDING,
+          createdAt: new Date("2023-01-01"),
+          updatedAt: new Date("2023-01-01"),
+          checklistItems: [{ done: true }, { done: false }, { done: true }],
+        },
+      ]);
+
+      // Act
+      const [task] = await taskService.getAllTasks();
+
+      // Assert
+      expect(task?.checklist).toEqual({ done: 2, total: 3 });
+    });
+
+    it("should total the logged time of finished entries", async () => {
+      // Arrange
+      (prisma.task.findMany as any).mockResolvedValue([
+        {
+          id: "task-1",
+          title: "Task 1",
+          status: TaskStatus.PENDING,
+          createdAt: new Date("2023-01-01"),
+          updatedAt: new Date("2023-01-01"),
+        },
+      ]);
+      (prisma.timeEntry.findMany as any).mockResolvedValue([
+        {
+          taskId: "task-1",
+          startedAt: new Date("2023-01-02T09:00:00.000Z"),
+          endedAt: new Date("2023-01-02T10:30:00.000Z"),
+        },
+        {
+          taskId: "task-1",
+          startedAt: new Date("2023-01-03T14:00:00.000Z"),
+          endedAt: new Date("2023-01-03T14:20:00.000Z"),
+        },
+      ]);
+
+      // Act
+      const [task] = await taskService.getAllTasks();
+
+      // Assert
+      expect(prisma.timeEntry.findMany).toHaveBeenCalledWith({
+        where: { taskId: { in: ["task-1"] }, endedAt: { not: null } },
+        select: { taskId: true, startedAt: true, endedAt: true },
+      });
+      expect(task?.loggedSeconds).toBe(110 * 60);
+    });
+
+    it("should let PostgreSQL sum the logged time", async () => {
+      // Arrange
+      vi.stubEnv("DATABASE_URL", "postgresql://localhost:5432/tasks");
+      (prisma.task.findMany as any).mockResolvedValue([
+        {
+          id: "task-1",
+          title: "Task 1",
+          status: TaskStatus.PENDING,
+          createdAt: new Date("2023-01-01"),
+          updatedAt: new Date("2023-01-01"),
+        },
+      ]);
+      (prisma.$queryRaw as any).mockResolvedValueOnce([
+        { taskId: "task-1", seconds: 6600 },
+      ]);
+
+      // Act
+      const [task] = await taskService.getAllTasks();
+
+      // Assert
+      const [sql, ...values] = (prisma.$queryRaw as any).mock.calls[0];
+      expect(sql.join("?")).toContain("SUM(");
+      expect(values).toContainEqual(
+        expect.objectContaining({ values: ["task-1"] })
+      );
+      expect(prisma.timeEntry.findMany).not.toHaveBeenCalled();
+      expect(task?.loggedSeconds).toBe(6600);
+    });
+
     it("should return all tasks", async () => {
       // Arrange
       const mockPrismaTasks = [
@@ -195,9 +618,9 @@ describe("TaskService", () => {
 
       // Assert
       expect(prisma.task.findMany).toHaveBeenCalledWith({
-        orderBy: {
-          createdAt: "desc",
-        },
+        where: { deletedAt: null, archivedAt: null },
+        include: TASK_INCLUDE,
+        orderBy: [{ rank: "asc" }, { createdAt: "desc" }],
       });
 
       expect(result).toEqual([
@@ -208,6 +631,12 @@ describe("TaskService", () => {
           status: TaskStatus.PENDING,
           createdAt: new Date("2023-01-01"),
           updatedAt: new Date("2023-01-01"),
+          labels: [],
+          checklist: { done: 0, total: 0 },
+          commentCount: 0,
+          attachmentCount: 0,
+          blockedBy: [],
+          loggedSeconds: 0,
         },
         {
           id: "task-2",
@@ -216,6 +645,12 @@ describe("TaskService", () => {
           status: TaskStatus.IN_PROGRESS,
           createdAt: new Date("2023-01-02"),
           updatedAt: new Date("2023-01-02"),
+          labels: [],
+          checklist: { done: 0, total: 0 },
+          commentCount: 0,
+          attachmentCount: 0,
+          blockedBy: [],
+          loggedSeconds: 0,
         },
       ]);
     });
@@ -230,84 +665,1345 @@ describe("TaskService", () => {
       // Assert
       expect(result).toEqual([]);
     });
-  });
 
-  describe("updateTaskStatus", () => {
-    it("should update task status with valid data", async () => {
+    it("should list trashed tasks when the trash view is requested", async () => {
       // Arrange
-      const taskId = "test-id";
-      const newStatus = TaskStatus.IN_PROGRESS;
+      (prisma.task.findMany as any).mockResolvedValue([]);
 
-      const mockExistingTask = {
-        id: taskId,
-        title: "Test Task",
-        description: "Test Description",
-        status: TaskStatus.PENDING,
-        createdAt: new Date("2023-01-01"),
-        updatedAt: new Date("2023-01-01"),
-      };
+      // Act
+      await taskService.getAllTasks({ boardId: "board-1", view: "trash" });
 
-      const mockUpdatedTask = {
-        ...mockExistingTask,
-        status: newStatus,
-        updatedAt: new Date("2023-01-02"),
-      };
+      // Assert
+      expect(prisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { deletedAt: { not: null }, boardId: "board-1" },
+        })
+      );
+    });
+  });
 
-      (prisma.task.findUnique as any).mockResolvedValue(mockExistingTask);
-      (prisma.task.update as any).mockResolvedValue(mockUpdatedTask);
+  describe("getOverdueTasks", () => {
+    it("should list open tasks past their due date, most overdue first", async () => {
+      // Arrange
+      const now = new Date("2023-03-01T12:00:00.000Z");
+      (prisma.task.findMany as any).mockResolvedValue([]);
 
       // Act
-      const result = await taskService.updateTaskStatus(taskId, newStatus);
+      await taskService.getOverdueTasks({ boardId: "board-1" }, now);
 
       // Assert
-      expect(prisma.task.findUnique).toHaveBeenCalledWith({
-        where: { id: taskId },
+      expect(prisma.task.findMany).toHaveBeenCalledWith({
+        where: {
+          deletedAt: null,
+          archivedAt: null,
+          boardId: "board-1",
+          dueAt: { lt: now },
+          status: { not: TaskStatus.COMPLETED },
+        },
+        include: TASK_INCLUDE,
+        orderBy: [{ dueAt: "asc" }, { id: "asc" }],
       });
+    });
+  });
 
-      expect(prisma.task.update).toHaveBeenCalledWith({
-        where: { id: taskId },
-        data: { status: newStatus },
-      });
+  describe("getTaskPage", () => {
+    const pageTask = (id: string) => ({
+      id,
+      title: `Task ${id}`,
+      description: null,
+      status: TaskStatus.PENDING,
+      createdAt: new Date("2023-01-01"),
+      updatedAt: new Date("2023-01-01"),
+    });
 
-      expect(result).toEqual({
-        id: taskId,
-        title: "Test Task",
-        description: "Test Description",
-        status: TaskStatus.IN_PROGRESS,
-        createdAt: new Date("2023-01-01"),
-        updatedAt: new Date("2023-01-02"),
+    it("should fetch one extra row and return its cursor", async () => {
+      // Arrange
+      (prisma.task.findMany as any).mockResolvedValue([
+        pageTask("task-1"),
+        pageTask("task-2"),
+        pageTask("task-3"),
+      ]);
+
+      // Act
+      const result = await taskService.getTaskPage(
+        { boardId: "board-1" },
+        { limit: 2, sort: "-createdAt" }
+      );
+
+      // Assert
+      expect(prisma.task.findMany).toHaveBeenCalledWith({
+        where: { deletedAt: null, archivedAt: null, boardId: "board-1" },
+        include: TASK_INCLUDE,
+        orderBy: [{ createdAt: "desc" }, { id: "asc" }],
+        take: 3,
       });
+      expect(result.tasks.map((task) => task.id)).toEqual(["task-1", "task-2"]);
+      expect(result.nextCursor).toBe("task-2");
     });
 
-    it("should throw error when task does not exist", async () => {
+    it("should resume after the cursor and end on the last page", async () => {
       // Arrange
-      const taskId = "non-existent-id";
-      const newStatus = TaskStatus.IN_PROGRESS;
+      (prisma.task.findMany as any).mockResolvedValue([pageTask("task-3")]);
 
-      (prisma.task.findUnique as any).mockResolvedValue(null);
-
-      // Act & Assert
-      await expect(
-        taskService.updateTaskStatus(taskId, newStatus)
-      ).rejects.toThrow(`Task with ID ${taskId} not found`);
+      // Act
+      const result = await taskService.getTaskPage(
+        {},
+        { limit: 2, sort: "rank", cursor: "task-2" }
+      );
 
-      expect(prisma.task.update).not.toHaveBeenCalled();
+      // Assert
+      expect(prisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          cursor: { id: "task-2" },
+          skip: 1,
+          take: 3,
+        })
+      );
+      expect(result.nextCursor).toBeNull();
     });
 
-    it("should throw error with invalid status", async () => {
+    it("should sort by priority, most urgent first, keeping manual order on ties", async () => {
       // Arrange
-      const taskId = "test-id";
-      const invalidStatus = "INVALID_STATUS" as TaskStatus;
+      (prisma.task.findMany as any).mockResolvedValue([]);
 
-      // Act & Assert
-      await expect(
-        taskService.updateTaskStatus(taskId, invalidStatus)
-      ).rejects.toThrow(
-        "Invalid status: INVALID_STATUS. Must be one of: PENDING, IN_PROGRESS, COMPLETED"
+      // Act
+      await taskService.getTaskPage({}, { limit: 10, sort: "-priority" });
+
+      // Assert
+      expect(prisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          orderBy: [{ priority: "desc" }, { rank: "asc" }, { id: "asc" }],
+        })
+      );
+    });
+
+    it("should filter by column, status and date ranges", async () => {
+      // Arrange
+      (prisma.task.findMany as any).mockResolvedValue([]);
+      const from = new Date("2023-01-01");
+      const to = new Date("2023-02-01");
+
+      // Act
+      await taskService.getTaskPage(
+        {
+          columnId: "column-1",
+          status: TaskStatus.COMPLETED,
+          createdFrom: from,
+          updatedFrom: from,
+          updatedTo: to,
+          dueBefore: to,
+        },
+        { limit: 50, sort: "rank" }
+      );
+
+      // Assert
+      expect(prisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deletedAt: null,
+            archivedAt: null,
+            columnId: "column-1",
+            status: TaskStatus.COMPLETED,
+            createdAt: { gte: from },
+            updatedAt: { gte: from, lte: to },
+            dueAt: { lte: to },
+          },
+        })
+      );
+    });
+  });
+
+  describe("searchTasks", () => {
+    const searchTask = {
+      id: "task-1",
+      title: "Fix login &amp; logout",
+      description: "Users are logged out after a deploy",
+      status: TaskStatus.PENDING,
+      createdAt: new Date("2023-01-01"),
+      updatedAt: new Date("2023-01-01"),
+    };
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    it("should rank matches with the tsvector index on PostgreSQL", async () => {
+      // Arrange
+      vi.stubEnv("DATABASE_URL", "postgresql://localhost:5432/tasks");
+      (prisma.$queryRaw as any).mockResolvedValue([
+        { id: "task-1", score: 0.6 },
+      ]);
+      (prisma.task.findMany as any).mockResolvedValue([searchTask]);
+
+      // Act
+      const result = await taskService.searchTasks("LOG", {
+        boardId: "board-1",
+        limit: 20,
+      });
+
+      // Assert
+      const [sql, ...values] = (prisma.$queryRaw as any).mock.calls[0];
+      expect(sql.join("?")).toContain('"searchVector" @@ query');
+      expect(values).toContainEqual("log:*");
+      expect(prisma.task.findMany).toHaveBeenCalledWith({
+        where: { id: { in: ["task-1"] } },
+        include: TASK_INCLUDE,
+      });
+      expect(result).toEqual([
+        expect.objectContaining({
+          score: 0.6,
+          highlights: {
+            title: "Fix <mark>log</mark>in &amp; <mark>log</mark>out",
+            description: "Users are <mark>log</mark>ged out after a deploy",
+          },
+        }),
+      ]);
+    });
+
+    it("should fall back to LIKE on other providers", async () => {
+      // Arrange
+      vi.stubEnv("DATABASE_URL", "file:./dev.db");
+      (prisma.task.findMany as any).mockResolvedValue([
+        { ...searchTask, id: "task-2", title: "Deploy docs" },
+        searchTask,
+      ]);
+
+      // Act
+      const result = await taskService.searchTasks("log", { limit: 20 });
+
+      // Assert
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+      expect(prisma.task.findMany).toHaveBeenCalledWith({
+        where: {
+          deletedAt: null,
+          AND: [
+            {
+              OR: [
+                { title: { contains: "log" } },
+                { description: { contains: "log" } },
+              ],
+            },
+          ],
+        },
+        include: TASK_INCLUDE,
+      });
+      // Title matches weigh double
+      expect(result.map((match) => [match.task.id, match.score])).toEqual([
+        ["task-1", 5],
+        ["task-2", 1],
+      ]);
+    });
+
+    it("should not query for a search without words", async () => {
+      // Act
+      const result = await taskService.searchTasks(" !? ", { limit: 20 });
+
+      // Assert
+      expect(result).toEqual([]);
+      expect(prisma.task.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateTask", () => {
+    it("should change only the fields present in the patch", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        boardId: "board-1",
+        title: "Title",
+        description: "Keep me",
+      });
+      (prisma.task.update as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.updateTask(
+        "test-id",
+        { estimate: null, assigneeId: null, labelIds: null },
+        "user-1"
+      );
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "test-id" },
+        data: {
+          version: { increment: 1 },
+          estimate: null,
+          assigneeId: null,
+          labels: { set: [] },
+        },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    it("should not clear a field the task's status requires", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        boardId: "board-1",
+        title: "Title",
+        status: TaskStatus.IN_PROGRESS,
+        assigneeId: "user-1",
+      });
+      (prisma.board.findUnique as any).mockResolvedValueOnce({
+        ...DEFAULT_BOARD,
+        workflow: {
+          transitions: {},
+          requirements: { [TaskStatus.IN_PROGRESS]: ["assignee"] },
+        },
+      });
+
+      // Act
+      const error = await taskService
+        .updateTask("test-id", { assigneeId: null }, "user-1")
+        .catch((caught) => caught);
+
+      // Assert
+      expect(error).toBeInstanceOf(WorkflowTransitionError);
+      expect(error.missing).toEqual(["assignee"]);
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should return the task untouched for an empty patch", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        title: "Title",
+        version: 2,
+      });
+
+      // Act
+      const result = await taskService.updateTask("test-id", {}, "user-1", 2);
+
+      // Assert
+      expect(result).toMatchObject({ id: "test-id", version: 2 });
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject an assignee that does not exist", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({ id: "test-id" });
+      (prisma.user.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        taskService.updateTask("test-id", { assigneeId: "ghost" })
+      ).rejects.toThrow("Invalid assignee: user ghost does not exist");
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("history", () => {
+    it("should record only the edited fields", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        title: "Old title",
+        description: "Same description",
+      });
+      (prisma.task.update as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.updateTask(
+        "test-id",
+        { title: "New title", description: "Same description" },
+        "user-1"
+      );
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            events: {
+              create: {
+                type: "EDITED",
+                actorId: "user-1",
+                before: { title: "Old title" },
+                after: { title: "New title" },
+              },
+            },
+          }),
+        })
+      );
+    });
+
+    it("should not record an edit that leaves title and description alone", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        title: "Title",
+        description: null,
+      });
+      (prisma.task.update as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.updateTask("test-id", { title: " Title " }, "user-1");
+
+      // Assert
+      const { data } = (prisma.task.update as any).mock.calls[0][0];
+      expect(data).not.toHaveProperty("events");
+    });
+
+    it("should list the events of a task oldest first", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({ id: "test-id" });
+      (prisma.taskEvent.findMany as any).mockResolvedValue([
+        {
+          id: "event-1",
+          taskId: "test-id",
+          type: "CREATED",
+          actorId: "user-1",
+          actor: { id: "user-1", username: "alice" },
+          before: null,
+          after: { title: "Task" },
+          createdAt: new Date("2023-01-01"),
+        },
+      ]);
+
+      // Act
+      const events = await taskService.getTaskHistory("test-id");
+
+      // Assert
+      expect(prisma.taskEvent.findMany).toHaveBeenCalledWith({
+        where: { taskId: "test-id" },
+        include: { actor: { select: { id: true, username: true } } },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      });
+      expect(events).toEqual([
+        {
+          id: "event-1",
+          taskId: "test-id",
+          type: "CREATED",
+          actorId: "user-1",
+          actor: { id: "user-1", username: "alice" },
+          after: { title: "Task" },
+          createdAt: new Date("2023-01-01"),
+        },
+      ]);
+    });
+
+    it("should throw when the task does not exist", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(taskService.getTaskHistory("missing")).rejects.toThrow(
+        "Task with ID missing not found"
+      );
+    });
+  });
+
+  describe("change events", () => {
+    it("should publish moves with the updated task", async () => {
+      // Arrange
+      const changes: TaskChange[] = [];
+      const unsubscribe = taskChangeBus.subscribe((change) =>
+        changes.push(change)
+      );
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        status: TaskStatus.PENDING,
+        boardId: "board-1",
+        columnId: "column-1",
+      });
+      (prisma.column.findUnique as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-2",
+      });
+      (prisma.task.update as any).mockResolvedValue({
+        id: "test-id",
+        boardId: "board-1",
+        columnId: "column-2",
+      });
+
+      // Act
+      await taskService.moveTaskToColumn("test-id", "column-2");
+      unsubscribe();
+
+      // Assert
+      expect(changes).toEqual([
+        expect.objectContaining({
+          type: "task.moved",
+          boardId: "board-1",
+          taskId: "test-id",
+          task: expect.objectContaining({ columnId: "column-2" }),
+        }),
+      ]);
+    });
+
+    it("should publish deletions without task data", async () => {
+      // Arrange
+      const listener = vi.fn();
+      const unsubscribe = taskChangeBus.subscribe(listener);
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        boardId: "board-1",
+      });
+      (prisma.task.update as any).mockResolvedValue({});
+
+      // Act
+      await taskService.deleteTask("test-id");
+      unsubscribe();
+
+      // Assert
+      expect(listener).toHaveBeenCalledWith({
+        type: "task.deleted",
+        boardId: "board-1",
+        taskId: "test-id",
+      });
+    });
+
+    it("should not publish failed changes", async () => {
+      // Arrange
+      const listener = vi.fn();
+      const unsubscribe = taskChangeBus.subscribe(listener);
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        boardId: "board-1",
+      });
+      (prisma.task.update as any).mockRejectedValue(new Error("DB down"));
+
+      // Act & Assert
+      await expect(
+        taskService.setTaskArchived("test-id", true)
+      ).rejects.toThrow("Failed to update task archive state");
+      unsubscribe();
+      expect(listener).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("trash and archive", () => {
+    it("should move a task to the trash instead of deleting it", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({ id: "test-id" });
+      (prisma.task.update as any).mockResolvedValue({});
+
+      // Act
+      await taskService.deleteTask("test-id", "user-1");
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "test-id" },
+        data: {
+          version: { increment: 1 },
+          deletedAt: expect.any(Date),
+          events: { create: { type: "DELETED", actorId: "user-1" } },
+        },
+      });
+    });
+
+    it("should treat trashed tasks as missing for other changes", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        deletedAt: new Date("2023-01-01"),
+      });
+
+      // Act & Assert
+      await expect(
+        taskService.updateTaskAssignee("test-id", null)
+      ).rejects.toThrow("Task with ID test-id not found");
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should restore a trashed task", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        deletedAt: new Date("2023-01-01"),
+      });
+      (prisma.task.update as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.restoreTask("test-id");
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "test-id" },
+        data: { deletedAt: null, version: { increment: 1 } },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    it("should reject restoring a task that is not in the trash", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({ id: "test-id" });
+
+      // Act & Assert
+      await expect(taskService.restoreTask("test-id")).rejects.toThrow(
+        "Invalid restore"
+      );
+    });
+
+    it("should archive and unarchive a task", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({ id: "test-id" });
+      (prisma.task.update as any).mockResolvedValue({ id: "test-id" });
+
+      // Act
+      await taskService.setTaskArchived("test-id", true);
+      await taskService.setTaskArchived("test-id", false);
+
+      // Assert
+      expect((prisma.task.update as any).mock.calls[0][0].data).toEqual({
+        archivedAt: expect.any(Date),
+        version: { increment: 1 },
+      });
+      expect((prisma.task.update as any).mock.calls[1][0].data).toEqual({
+        archivedAt: null,
+        version: { increment: 1 },
+      });
+    });
+
+    it("should purge only tasks trashed before the retention period", async () => {
+      // Arrange
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date("2023-02-01T00:00:00.000Z"));
+      (prisma.task.deleteMany as any).mockResolvedValue({ count: 3 });
+      (prisma.attachment.findMany as any).mockResolvedValue([]);
+
+      // Act
+      const count = await taskService.purgeTrash(30);
+      vi.useRealTimers();
+
+      // Assert
+      expect(count).toBe(3);
+      expect(prisma.task.deleteMany).toHaveBeenCalledWith({
+        where: { deletedAt: { lt: new Date("2023-01-02T00:00:00.000Z") } },
+      });
+    });
+  });
+
+  describe("moveTaskToColumn", () => {
+    it("should move the task and adopt the column status", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        status: TaskStatus.PENDING,
+        boardId: "board-1",
+        columnId: "column-1",
+      });
+      (prisma.column.findUnique as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-2",
+        status: TaskStatus.IN_PROGRESS,
+      });
+      (prisma.task.update as any).mockResolvedValue({});
+
+      // Act
+      await taskService.moveTaskToColumn("test-id", "column-2", "user-1");
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "test-id" },
+        data: {
+          version: { increment: 1 },
+          columnId: "column-2",
+          status: TaskStatus.IN_PROGRESS,
+          rank: "i",
+          events: {
+            create: {
+              type: "STATUS_CHANGED",
+              actorId: "user-1",
+              before: { status: TaskStatus.PENDING, columnId: "column-1" },
+              after: { status: TaskStatus.IN_PROGRESS, columnId: "column-2" },
+            },
+          },
+        },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    it("should reject columns from another board", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        boardId: "board-2",
+      });
+      (prisma.column.findUnique as any).mockResolvedValue(DEFAULT_COLUMN);
+
+      // Act & Assert
+      await expect(
+        taskService.moveTaskToColumn("test-id", "column-1")
+      ).rejects.toThrow("Invalid column");
+
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should refuse to start a task with open blockers unless forced", async () => {
+      // Arrange
+      const blocker = {
+        id: "task-2",
+        title: "Design",
+        status: TaskStatus.IN_PROGRESS,
+      };
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        status: TaskStatus.PENDING,
+        boardId: "board-1",
+        columnId: "column-1",
+        blockedBy: [
+          blocker,
+          { id: "task-3", title: "Specs", status: TaskStatus.COMPLETED },
+        ],
+      });
+      (prisma.column.findUnique as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-2",
+        status: TaskStatus.IN_PROGRESS,
+      });
+      (prisma.task.update as any).mockResolvedValue({});
+
+      // Act & Assert
+      const error = await taskService
+        .moveTaskToColumn("test-id", "column-2")
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(TaskBlockedError);
+      expect(error.blockers).toEqual([blocker]);
+      expect(prisma.task.update).not.toHaveBeenCalled();
+
+      await taskService.moveTaskToColumn("test-id", "column-2", "user-1", true);
+      expect(prisma.task.update).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("blockers", () => {
+    const boardTask = (id: string) => ({
+      id,
+      title: `Task ${id}`,
+      status: TaskStatus.PENDING,
+      boardId: "board-1",
+      columnId: "column-1",
+      deletedAt: null,
+    });
+
+    it("should link a blocker of the same board", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockImplementation(({ where }: any) =>
+        Promise.resolve(boardTask(where.id))
+      );
+      (prisma.task.findMany as any).mockResolvedValue([{ blockedBy: [] }]);
+      (prisma.task.update as any).mockResolvedValue(boardTask("task-1"));
+
+      // Act
+      await taskService.addBlocker("task-1", "task-2");
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: {
+          blockedBy: { connect: { id: "task-2" } },
+          version: { increment: 1 },
+        },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    it("should reject a task blocking itself", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(boardTask("task-1"));
+
+      // Act & Assert
+      await expect(taskService.addBlocker("task-1", "task-1")).rejects.toThrow(
+        "Invalid dependency"
+      );
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject links that would create a cycle", async () => {
+      // Arrange: task-3 is blocked by task-2, which is blocked by task-1
+      (prisma.task.findUnique as any).mockImplementation(({ where }: any) =>
+        Promise.resolve(boardTask(where.id))
+      );
+      (prisma.task.findMany as any)
+        .mockResolvedValueOnce([{ blockedBy: [{ id: "task-2" }] }])
+        .mockResolvedValueOnce([{ blockedBy: [{ id: "task-1" }] }]);
+
+      // Act & Assert
+      await expect(taskService.addBlocker("task-1", "task-3")).rejects.toThrow(
+        "Invalid dependency"
+      );
+      expect(prisma.task.findMany).toHaveBeenNthCalledWith(2, {
+        where: { id: { in: ["task-2"] } },
+        select: { blockedBy: { select: { id: true } } },
+      });
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject blockers from another board", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockImplementation(({ where }: any) =>
+        Promise.resolve({
+          ...boardTask(where.id),
+          ...(where.id === "task-2" && { boardId: "board-2" }),
+        })
+      );
+
+      // Act & Assert
+      await expect(taskService.addBlocker("task-1", "task-2")).rejects.toThrow(
+        "Invalid blocker"
+      );
+    });
+  });
+
+  describe("setTaskLabels", () => {
+    const labeledTask = {
+      id: "task-1",
+      title: "Task",
+      description: null,
+      status: TaskStatus.PENDING,
+      boardId: "board-1",
+      columnId: "column-1",
+      rank: "i",
+      deletedAt: null,
+      createdAt: new Date("2023-01-01"),
+      updatedAt: new Date("2023-01-01"),
+    };
+
+    it("should replace the labels of the task", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(labeledTask);
+      (prisma.label.count as any).mockResolvedValue(2);
+      (prisma.task.update as any).mockResolvedValue({
+        ...labeledTask,
+        labels: [
+          { id: "label-1", name: "Bug", color: "#dc2626" },
+          { id: "label-2", name: "UI", color: "#2563eb" },
+        ],
+      });
+
+      // Act
+      const result = await taskService.setTaskLabels("task-1", [
+        "label-1",
+        "label-2",
+        "label-1",
+      ]);
+
+      // Assert
+      expect(prisma.label.count).toHaveBeenCalledWith({
+        where: { id: { in: ["label-1", "label-2"] }, boardId: "board-1" },
+      });
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: {
+          labels: { set: [{ id: "label-1" }, { id: "label-2" }] },
+          version: { increment: 1 },
+        },
+        include: TASK_INCLUDE,
+      });
+      expect(result.labels.map((label) => label.name)).toEqual(["Bug", "UI"]);
+    });
+
+    it("should reject labels of another board", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(labeledTask);
+      (prisma.label.count as any).mockResolvedValue(0);
+
+      // Act & Assert
+      await expect(
+        taskService.setTaskLabels("task-1", ["label-9"])
+      ).rejects.toThrow("Invalid labels");
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should filter listings by any of the given labels", async () => {
+      // Arrange
+      (prisma.task.findMany as any).mockResolvedValue([]);
+
+      // Act
+      await taskService.getAllTasks({ labelIds: ["label-1", "label-2"] });
+
+      // Assert
+      expect(prisma.task.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            deletedAt: null,
+            archivedAt: null,
+            labels: { some: { id: { in: ["label-1", "label-2"] } } },
+          },
+        })
+      );
+    });
+  });
+
+  describe("updateTaskPosition", () => {
+    // Tasks of the same column, keyed by ID
+    let columnTasks: Record<string, any>;
+
+    beforeEach(() => {
+      columnTasks = {
+        "task-a": { id: "task-a", columnId: "column-1", rank: "a" },
+        "task-b": { id: "task-b", columnId: "column-1", rank: "b" },
+        "task-c": { id: "task-c", columnId: "column-1", rank: "c" },
+        "other-column": { id: "other-column", columnId: "column-2", rank: "b" },
+      };
+      (prisma.task.findUnique as any).mockImplementation(
+        async ({ where }: { where: { id: string } }) =>
+          columnTasks[where.id] ?? null
+      );
+      // First task of the column by rank, as the database answers it
+      (prisma.task.findFirst as any).mockImplementation(
+        async ({ where }: any) =>
+          Object.values(columnTasks)
+            .filter(
+              (task) =>
+                task.columnId === where.columnId &&
+                task.id !== where.id?.not &&
+                (!where.rank || task.rank > where.rank.gt)
+            )
+            .sort((a, b) => (a.rank < b.rank ? -1 : 1))[0] ?? null
+      );
+      (prisma.task.update as any).mockResolvedValue({});
+    });
+
+    it("should rank the task between its new neighbors", async () => {
+      // Act
+      await taskService.updateTaskPosition("task-c", {
+        beforeId: "task-a",
+        afterId: "task-b",
+      });
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "task-c" },
+        data: { rank: "ai", version: { increment: 1 } },
+        include: TASK_INCLUDE,
+      });
+    });
+
+    it("should not take the rank of a hidden task between the neighbors", async () => {
+      // Arrange: an archived task sits where the midpoint would be
+      columnTasks["task-archived"] = {
+        id: "task-archived",
+        columnId: "column-1",
+        rank: "ai",
+        archivedAt: new Date("2023-01-01"),
+      };
+
+      // Act
+      await taskService.updateTaskPosition("task-c", {
+        beforeId: "task-a",
+        afterId: "task-b",
+      });
+
+      // Assert
+      const { rank } = (prisma.task.update as any).mock.calls[0][0].data;
+      expect(rank > "a" && rank < "b" && rank !== "ai").toBe(true);
+    });
+
+    it("should rank the task above the first one when moved to the top", async () => {
+      // Act
+      await taskService.updateTaskPosition("task-c", {
+        beforeId: null,
+        afterId: "task-b",
+      });
+
+      // Assert
+      const updateArgs = (prisma.task.update as any).mock.calls[0][0];
+      expect(updateArgs.data.rank < "b").toBe(true);
+    });
+
+    it("should reject neighbors from another column", async () => {
+      // Act & Assert
+      await expect(
+        taskService.updateTaskPosition("task-a", {
+          beforeId: "other-column",
+          afterId: null,
+        })
+      ).rejects.toThrow("Invalid position");
+
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject neighbors given in the wrong order", async () => {
+      // Act & Assert
+      await expect(
+        taskService.updateTaskPosition("task-a", {
+          beforeId: "task-c",
+          afterId: "task-b",
+        })
+      ).rejects.toThrow("Invalid rank");
+
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("updateTaskStatus", () => {
+    it("should update task status with valid data", async () => {
+      // Arrange
+      const taskId = "test-id";
+      const newStatus = TaskStatus.IN_PROGRESS;
+
+      const mockExistingTask = {
+        id: taskId,
+        title: "Test Task",
+        description: "Test Description",
+        status: TaskStatus.PENDING,
+        createdAt: new Date("2023-01-01"),
+        updatedAt: new Date("2023-01-01"),
+      };
+
+      const mockUpdatedTask = {
+        ...mockExistingTask,
+        status: newStatus,
+        updatedAt: new Date("2023-01-02"),
+      };
+
+      (prisma.task.findUnique as any).mockResolvedValue({
+        ...mockExistingTask,
+        columnId: "column-1",
+      });
+      (prisma.task.update as any).mockResolvedValue(mockUpdatedTask);
+      (prisma.column.findFirst as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-2",
+        status: TaskStatus.IN_PROGRESS,
+      });
+
+      // Act
+      const result = await taskService.updateTaskStatus(taskId, newStatus);
+
+      // Assert
+      expect(prisma.task.findUnique).toHaveBeenCalledWith({
+        where: { id: taskId },
+        include: TASK_INCLUDE,
+      });
+
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: taskId },
+        data: {
+          version: { increment: 1 },
+          status: newStatus,
+          columnId: "column-2",
+          rank: "i",
+          events: {
+            create: {
+              type: "STATUS_CHANGED",
+              before: { status: TaskStatus.PENDING, columnId: "column-1" },
+              after: { status: newStatus, columnId: "column-2" },
+            },
+          },
+        },
+        include: TASK_INCLUDE,
+      });
+
+      expect(result).toEqual({
+        id: taskId,
+        title: "Test Task",
+        description: "Test Description",
+        status: TaskStatus.IN_PROGRESS,
+        createdAt: new Date("2023-01-01"),
+        updatedAt: new Date("2023-01-02"),
+        labels: [],
+        checklist: { done: 0, total: 0 },
+        commentCount: 0,
+        attachmentCount: 0,
+        blockedBy: [],
+        loggedSeconds: 0,
+      });
+    });
+
+    it("should reject moves the board workflow does not allow", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "test-id",
+        status: TaskStatus.PENDING,
+        boardId: "board-1",
+      });
+
+      // Act & Assert
+      await expect(
+        taskService.updateTaskStatus("test-id", TaskStatus.COMPLETED)
+      ).rejects.toBeInstanceOf(WorkflowTransitionError);
+
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw error when task does not exist", async () => {
+      // Arrange
+      const taskId = "non-existent-id";
+      const newStatus = TaskStatus.IN_PROGRESS;
+
+      (prisma.task.findUnique as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        taskService.updateTaskStatus(taskId, newStatus)
+      ).rejects.toThrow(`Task with ID ${taskId} not found`);
+
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should throw error with invalid status", async () => {
+      // Arrange
+      const taskId = "test-id";
+      const invalidStatus = "INVALID_STATUS" as TaskStatus;
+
+      // Act & Assert
+      await expect(
+        taskService.updateTaskStatus(taskId, invalidStatus)
+      ).rejects.toThrow(
+        "Invalid status: INVALID_STATUS. Must be one of: PENDING, IN_PROGRESS, COMPLETED"
       );
 
       expect(prisma.task.findUnique).not.toHaveBeenCalled();
       expect(prisma.task.update).not.toHaveBeenCalled();
     });
   });
+
+  describe("optimistic concurrency", () => {
+    const storedTask = (version: number) => ({
+      id: "test-id",
+      title: "Test Task",
+      status: TaskStatus.PENDING,
+      boardId: "board-1",
+      columnId: "column-1",
+      version,
+      createdAt: new Date("2023-01-01"),
+      updatedAt: new Date("2023-01-01"),
+    });
+
+    it("should reject an update based on an older version", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(storedTask(3));
+
+      // Act & Assert
+      const error = await taskService
+        .updateTask("test-id", { title: "Mine" }, "user-1", 2)
+        .catch((e) => e);
+      expect(error).toBeInstanceOf(TaskVersionConflictError);
+      expect(error.current).toEqual(
+        expect.objectContaining({ id: "test-id", version: 3 })
+      );
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should report a conflict when another write lands first", async () => {
+      // Arrange
+      (prisma.task.findUnique as any)
+        .mockResolvedValueOnce(storedTask(3))
+        .mockResolvedValueOnce({ ...storedTask(4), title: "Theirs" });
+      (prisma.task.update as any).mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError(
+          "Record to update not found.",
+          {
+            code: "P2025",
+            clientVersion: Prisma.prismaVersion.client,
+          }
+        )
+      );
+
+      // Act
+      const error = await taskService
+        .updateTask("test-id", { title: "Mine" }, "user-1", 3)
+        .catch((e) => e);
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "test-id", version: 3 } })
+      );
+      expect(error).toBeInstanceOf(TaskVersionConflictError);
+      expect(error.current).toEqual(
+        expect.objectContaining({ title: "Theirs", version: 4 })
+      );
+    });
+
+    it("should reject archiving a task based on an older version", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(storedTask(3));
+
+      // Act & Assert
+      await expect(
+        taskService.setTaskArchived("test-id", true, 2)
+      ).rejects.toBeInstanceOf(TaskVersionConflictError);
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject trashing a task based on an older version", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(storedTask(3));
+
+      // Act & Assert
+      await expect(
+        taskService.deleteTask("test-id", "user-1", 2)
+      ).rejects.toBeInstanceOf(TaskVersionConflictError);
+      expect(prisma.task.update).not.toHaveBeenCalled();
+    });
+
+    it("should only replace labels on the version the client saw", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue(storedTask(3));
+      (prisma.task.update as any).mockResolvedValue({
+        ...storedTask(4),
+        labels: [],
+      });
+
+      // Act
+      await taskService.setTaskLabels("test-id", [], 3);
+
+      // Assert
+      expect(prisma.task.update).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: "test-id", version: 3 } })
+      );
+    });
+  });
+
+  describe("runBulkOperations", () => {
+    // Tasks as stored; updates made through the transaction land here
+    let stored: Record<string, any>;
+
+    beforeEach(() => {
+      stored = {};
+      (prisma.board.findUnique as any).mockResolvedValue(DEFAULT_BOARD);
+      (prisma.task.findUnique as any).mockImplementation(({ where }: any) =>
+        Promise.resolve(stored[where.id] ?? null)
+      );
+      (prisma.task.update as any).mockImplementation(({ where, data }: any) => {
+        const { version, events, ...fields } = data;
+        stored[where.id] = { ...stored[where.id], ...fields };
+        return Promise.resolve(stored[where.id]);
+      });
+    });
+
+    it("should apply every operation in one transaction", async () => {
+      // Arrange
+      stored["task-1"] = { id: "task-1", boardId: "board-1" };
+      stored["task-2"] = {
+        id: "task-2",
+        boardId: "board-1",
+        assigneeId: "user-2",
+      };
+
+      // Act
+      const results = await taskService.runBulkOperations(
+        [
+          { type: "archive", taskId: "task-1", archived: true },
+          { type: "assignee", taskId: "task-2", assigneeId: null },
+        ],
+        "user-1"
+      );
+
+      // Assert
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "task-1" },
+        data: { version: { increment: 1 }, archivedAt: expect.any(Date) },
+        include: TASK_INCLUDE,
+      });
+      expect(prisma.task.update).toHaveBeenCalledWith({
+        where: { id: "task-2" },
+        data: { version: { increment: 1 }, assigneeId: null },
+        include: TASK_INCLUDE,
+      });
+      expect(results).toEqual([
+        expect.objectContaining({ taskId: "task-1", ok: true }),
+        expect.objectContaining({ taskId: "task-2", ok: true }),
+      ]);
+    });
+
+    it("should save nothing when an operation cannot be applied", async () => {
+      // Arrange
+      stored["task-1"] = { id: "task-1", boardId: "board-1" };
+
+      // Act
+      const error = await taskService
+        .runBulkOperations([
+          { type: "archive", taskId: "task-1", archived: true },
+          { type: "delete", taskId: "missing" },
+        ])
+        .catch((e) => e);
+
+      // Assert: the error rolls the transaction back
+      expect(error).toBeInstanceOf(BulkTaskError);
+      expect(error.results).toEqual([
+        { taskId: "task-1", ok: true },
+        {
+          taskId: "missing",
+          ok: false,
+          error: "Task with ID missing not found",
+        },
+      ]);
+    });
+
+    it("should check each operation against the state earlier ones left", async () => {
+      // Arrange: starting work requires an assignee
+      stored["task-1"] = {
+        id: "task-1",
+        boardId: "board-1",
+        columnId: "column-1",
+        status: TaskStatus.PENDING,
+        rank: "i",
+      };
+      (prisma.user.findUnique as any).mockResolvedValue({ id: "user-2" });
+      (prisma.board.findUnique as any).mockResolvedValue({
+        ...DEFAULT_BOARD,
+        workflow: {
+          transitions: { [TaskStatus.PENDING]: [TaskStatus.IN_PROGRESS] },
+          requirements: { [TaskStatus.IN_PROGRESS]: ["assignee"] },
+        },
+      });
+      (prisma.column.findFirst as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-2",
+        status: TaskStatus.IN_PROGRESS,
+      });
+      (prisma.task.findFirst as any).mockResolvedValue(null);
+
+      // Act
+      await taskService.runBulkOperations([
+        { type: "assignee", taskId: "task-1", assigneeId: "user-2" },
+        { type: "status", taskId: "task-1", status: TaskStatus.IN_PROGRESS },
+      ]);
+
+      // Assert
+      expect(stored["task-1"]).toMatchObject({
+        assigneeId: "user-2",
+        status: TaskStatus.IN_PROGRESS,
+        columnId: "column-2",
+      });
+      const move = (prisma.task.update as any).mock.calls[1][0];
+      expect(move.data.events).toBeDefined();
+    });
+
+    it("should complete a task whose blockers are completed by the same request", async () => {
+      // Arrange
+      stored["task-1"] = {
+        id: "task-1",
+        boardId: "board-1",
+        columnId: "column-1",
+        status: TaskStatus.IN_PROGRESS,
+      };
+      stored["task-2"] = {
+        id: "task-2",
+        boardId: "board-1",
+        columnId: "column-1",
+        status: TaskStatus.IN_PROGRESS,
+        blockedBy: [
+          { id: "task-1", title: "Design", status: TaskStatus.IN_PROGRESS },
+        ],
+      };
+      (prisma.column.findFirst as any).mockResolvedValue({
+        ...DEFAULT_COLUMN,
+        id: "column-3",
+        status: TaskStatus.COMPLETED,
+      });
+      // The top of the column is whatever the transaction wrote last
+      (prisma.task.findFirst as any).mockImplementation(() => {
+        const last = (prisma.task.update as any).mock.calls.at(-1);
+        return Promise.resolve(last ? { rank: last[0].data.rank } : null);
+      });
+
+      // Act
+      await taskService.runBulkOperations([
+        { type: "status", taskId: "task-1", status: TaskStatus.COMPLETED },
+        { type: "status", taskId: "task-2", status: TaskStatus.COMPLETED },
+      ]);
+
+      // Assert: both land in the column, each above the previous one
+      const ranks = (prisma.task.update as any).mock.calls.map(
+        ([args]: any) => args.data.rank
+      );
+      expect(ranks).toHaveLength(2);
+      expect(ranks[1] < ranks[0]).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,253 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { Prisma } from "@prisma/client";
+import { TimeEntryService } from "../time-entry.service.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    $transaction: vi.fn(),
+    task: {
+      findUnique: vi.fn(),
+    },
+    timeEntry: {
+      findMany: vi.fn(),
+      findFirst: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const NOW = new Date("2026-10-19T12:00:00.000Z");
+
+const TIME_ENTRY_INCLUDE = {
+  user: { select: { id: true, username: true } },
+  task: {
+    select: { id: true, title: true, board: { select: { name: true } } },
+  },
+};
+
+const mockPrismaEntry = (overrides: Record<string, unknown> = {}) => ({
+  id: "entry-1",
+  taskId: "task-1",
+  userId: "user-1",
+  startedAt: new Date("2026-10-19T10:00:00.000Z"),
+  endedAt: null,
+  note: null,
+  createdAt: NOW,
+  updatedAt: NOW,
+  user: { id: "user-1", username: "ana" },
+  task: { id: "task-1", title: "Invoice", board: { name: "Acme" } },
+  ...overrides,
+});
+
+describe("TimeEntryService", () => {
+  let timeEntryService: TimeEntryService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    timeEntryService = new TimeEntryService();
+    (prisma.task.findUnique as any).mockResolvedValue({
+      id: "task-1",
+      deletedAt: null,
+    });
+  });
+
+  describe("startTimer", () => {
+    it("should stop the user's running timer and start a new one", async () => {
+      // Arrange
+      (prisma.$transaction as any).mockResolvedValue([
+        { count: 1 },
+        mockPrismaEntry({ startedAt: NOW }),
+      ]);
+
+      // Act
+      const entry = await timeEntryService.startTimer(
+        "task-1",
+        "user-1",
+        {},
+        NOW
+      );
+
+      // Assert
+      expect(prisma.timeEntry.updateMany).toHaveBeenCalledWith({
+        where: { userId: "user-1", endedAt: null },
+        data: { endedAt: NOW },
+      });
+      expect(prisma.timeEntry.create).toHaveBeenCalledWith({
+        data: { taskId: "task-1", userId: "user-1", startedAt: NOW },
+        include: TIME_ENTRY_INCLUDE,
+      });
+      expect(entry).toEqual(
+        expect.objectContaining({
+          startedAt: NOW,
+          endedAt: undefined,
+          task: { id: "task-1", title: "Invoice", boardName: "Acme" },
+        })
+      );
+    });
+
+    it("should start again when a concurrent start wins the race", async () => {
+      // Arrange: the other start committed its running entry first
+      (prisma.$transaction as any)
+        .mockRejectedValueOnce(
+          new Prisma.PrismaClientKnownRequestError(
+            "Unique constraint failed on the fields: (`userId`)",
+            { code: "P2002", clientVersion: Prisma.prismaVersion.client }
+          )
+        )
+        .mockResolvedValueOnce([
+          { count: 1 },
+          mockPrismaEntry({ startedAt: NOW }),
+        ]);
+
+      // Act
+      const entry = await timeEntryService.startTimer(
+        "task-1",
+        "user-1",
+        {},
+        NOW
+      );
+
+      // Assert
+      expect(prisma.$transaction).toHaveBeenCalledTimes(2);
+      expect(entry.startedAt).toEqual(NOW);
+    });
+
+    it("should throw when the task is in the trash", async () => {
+      // Arrange
+      (prisma.task.findUnique as any).mockResolvedValue({
+        id: "task-1",
+        deletedAt: NOW,
+      });
+
+      // Act & Assert
+      await expect(
+        timeEntryService.startTimer("task-1", "user-1")
+      ).rejects.toThrow("Task with ID task-1 not found");
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("stopTimer", () => {
+    it("should end the running entry of the user on the task", async () => {
+      // Arrange
+      (prisma.timeEntry.findFirst as any).mockResolvedValue(mockPrismaEntry());
+      (prisma.timeEntry.update as any).mockResolvedValue(
+        mockPrismaEntry({ endedAt: NOW })
+      );
+
+      // Act
+      const entry = await timeEntryService.stopTimer("task-1", "user-1", NOW);
+
+      // Assert
+      expect(prisma.timeEntry.findFirst).toHaveBeenCalledWith({
+        where: { taskId: "task-1", userId: "user-1", endedAt: null },
+      });
+      expect(prisma.timeEntry.update).toHaveBeenCalledWith({
+        where: { id: "entry-1" },
+        data: { endedAt: NOW },
+        include: TIME_ENTRY_INCLUDE,
+      });
+      expect(entry.endedAt).toEqual(NOW);
+    });
+
+    it("should throw when no timer is running on the task", async () => {
+      // Arrange
+      (prisma.timeEntry.findFirst as any).mockResolvedValue(null);
+
+      // Act & Assert
+      await expect(
+        timeEntryService.stopTimer("task-1", "user-1", NOW)
+      ).rejects.toThrow("Running timer for task task-1 not found");
+      expect(prisma.timeEntry.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("createTimeEntry", () => {
+    it("should log a finished entry", async () => {
+      // Arrange
+      (prisma.timeEntry.create as any).mockResolvedValue(
+        mockPrismaEntry({ endedAt: new Date("2026-10-19T11:30:00.000Z") })
+      );
+
+      // Act
+      await timeEntryService.createTimeEntry(
+        "task-1",
+        "user-1",
+        {
+          startedAt: "2026-10-19T10:00:00.000Z",
+          endedAt: "2026-10-19T11:30:00.000Z",
+          note: "Call with the client",
+        },
+        NOW
+      );
+
+      // Assert
+      expect(prisma.timeEntry.create).toHaveBeenCalledWith({
+        data: {
+          taskId: "task-1",
+          userId: "user-1",
+          startedAt: new Date("2026-10-19T10:00:00.000Z"),
+          endedAt: new Date("2026-10-19T11:30:00.000Z"),
+          note: "Call with the client",
+        },
+        include: TIME_ENTRY_INCLUDE,
+      });
+    });
+
+    it("should reject periods that end before they start or in the future", async () => {
+      // Act & Assert
+      await expect(
+        timeEntryService.createTimeEntry(
+          "task-1",
+          "user-1",
+          {
+            startedAt: "2026-10-19T11:00:00.000Z",
+            endedAt: "2026-10-19T10:00:00.000Z",
+          },
+          NOW
+        )
+      ).rejects.toThrow("endedAt must be after startedAt");
+      await expect(
+        timeEntryService.createTimeEntry(
+          "task-1",
+          "user-1",
+          {
+            startedAt: "2026-10-19T11:00:00.000Z",
+            endedAt: "2026-10-19T13:00:00.000Z",
+          },
+          NOW
+        )
+      ).rejects.toThrow("endedAt cannot be in the future");
+      expect(prisma.timeEntry.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getTimesheet", () => {
+    it("should list the user's finished entries started in the period", async () => {
+      // Arrange
+      (prisma.timeEntry.findMany as any).mockResolvedValue([]);
+      const from = new Date("2026-10-01T00:00:00.000Z");
+      const to = new Date("2026-11-01T00:00:00.000Z");
+
+      // Act
+      await timeEntryService.getTimesheet({ userId: "user-1", from, to });
+
+      // Assert
+      expect(prisma.timeEntry.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "user-1",
+          endedAt: { not: null },
+          startedAt: { gte: from, lt: to },
+        },
+        include: TIME_ENTRY_INCLUDE,
+        orderBy: { startedAt: "asc" },
+      });
+    });
+  });
+});
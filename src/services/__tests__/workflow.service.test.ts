@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  WorkflowService,
+  WorkflowTransitionError,
+  DEFAULT_WORKFLOW,
+} from "../workflow.service.js";
+import { TaskStatus } from "../../models/index.js";
+import type { Task } from "../../models/index.js";
+
+// Mock the prisma client
+vi.mock("../../db/index.js", () => ({
+  prisma: {
+    board: {
+      findUnique: vi.fn(),
+      update: vi.fn(),
+    },
+  },
+}));
+
+// Import the mocked prisma after mocking
+import { prisma } from "../../db/index.js";
+
+const mockTask: Task = {
+  id: "task-1",
+  title: "Test Task",
+  status: TaskStatus.PENDING,
+  boardId: "board-1",
+  columnId: "column-1",
+  createdAt: new Date("2023-01-01"),
+  updatedAt: new Date("2023-01-01"),
+};
+
+describe("WorkflowService", () => {
+  let workflowService: WorkflowService;
+
+  beforeEach(() => {
+    workflowService = new WorkflowService();
+    vi.clearAllMocks();
+  });
+
+  describe("assertTransition", () => {
+    it("should allow moves listed in the default workflow", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue({ workflow: null });
+
+      // Act & Assert
+      await expect(
+        workflowService.assertTransition(mockTask, TaskStatus.IN_PROGRESS)
+      ).resolves.toBeUndefined();
+    });
+
+    it("should reject moves missing from the workflow", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue({ workflow: null });
+
+      // Act
+      const error = await workflowService
+        .assertTransition(mockTask, TaskStatus.COMPLETED)
+        .catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(WorkflowTransitionError);
+      expect(error).toMatchObject({
+        from: TaskStatus.PENDING,
+        to: TaskStatus.COMPLETED,
+        allowed: [TaskStatus.IN_PROGRESS],
+        missing: [],
+      });
+    });
+
+    it("should report required fields the task is missing", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue({
+        workflow: {
+          ...DEFAULT_WORKFLOW,
+          requirements: { [TaskStatus.IN_PROGRESS]: ["assignee"] },
+        },
+      });
+
+      // Act
+      const error = await workflowService
+        .assertTransition(mockTask, TaskStatus.IN_PROGRESS)
+        .catch((e) => e);
+
+      // Assert
+      expect(error).toBeInstanceOf(WorkflowTransitionError);
+      expect(error.missing).toEqual(["assignee"]);
+
+      await expect(
+        workflowService.assertTransition(
+          { ...mockTask, assigneeId: "user-1" },
+          TaskStatus.IN_PROGRESS
+        )
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe("updateWorkflow", () => {
+    it("should reject unknown statuses", async () => {
+      // Act & Assert
+      await expect(
+        workflowService.updateWorkflow("board-1", {
+          transitions: { PENDING: ["DONE"] } as any,
+          requirements: {},
+        })
+      ).rejects.toThrow("Invalid workflow");
+
+      expect(prisma.board.update).not.toHaveBeenCalled();
+    });
+
+    it("should fill statuses without transitions with an empty list", async () => {
+      // Arrange
+      (prisma.board.findUnique as any).mockResolvedValue({ id: "board-1" });
+
+      // Act
+      const result = await workflowService.updateWorkflow("board-1", {
+        transitions: { PENDING: ["COMPLETED"] } as any,
+        requirements: {},
+      });
+
+      // Assert
+      expect(result.transitions).toEqual({
+        PENDING: ["COMPLETED"],
+        IN_PROGRESS: [],
+        COMPLETED: [],
+      });
+    });
+  });
+});
@@ -0,0 +1,195 @@
+import { randomUUID } from "crypto";
+import { prisma } from "../db/index.js";
+import type { Attachment, AttachmentUpload } from "../models/index.js";
+import { getFileStorage, type FileStorage } from "../storage/index.js";
+
+/**
+ * Relations loaded alongside every attachment
+ */
+const ATTACHMENT_INCLUDE = {
+  uploadedBy: { select: { id: true, username: true } },
+} as const;
+
+/**
+ * Helper function to convert Prisma Attachment to our Attachment interface
+ * Converts null to undefined for optional fields
+ */
+function convertPrismaAttachmentToAttachment(
+  prismaAttachment: any
+): Attachment {
+  return {
+    id: prismaAttachment.id,
+    taskId: prismaAttachment.taskId,
+    filename: prismaAttachment.filename,
+    mimeType: prismaAttachment.mimeType,
+    size: prismaAttachment.size,
+    storageKey: prismaAttachment.storageKey,
+    uploadedById: prismaAttachment.uploadedById ?? undefined,
+    ...(prismaAttachment.uploadedBy && {
+      uploadedBy: {
+        id: prismaAttachment.uploadedBy.id,
+        username: prismaAttachment.uploadedBy.username,
+      },
+    }),
+    createdAt: prismaAttachment.createdAt,
+  };
+}
+
+/**
+ * AttachmentService - Business logic layer for task attachments
+ * Metadata is kept in the database and contents in the file storage
+ */
+export class AttachmentService {
+  private readonly storage: FileStorage;
+
+  constructor(storage: FileStorage = getFileStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Retrieves the attachments of a task, oldest first
+   * @param taskId - Task ID
+   * @returns Promise<Attachment[]> - Attachments of the task
+   * @throws Error if task not found
+   */
+  async getAttachments(taskId: string): Promise<Attachment[]> {
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const attachments = await prisma.attachment.findMany({
+        where: { taskId },
+        include: ATTACHMENT_INCLUDE,
+        orderBy: { createdAt: "asc" },
+      });
+
+      return attachments.map(convertPrismaAttachmentToAttachment);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve attachments: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Stores an uploaded file and attaches it to a task
+   * Size and type limits are enforced by the upload middleware
+   * @param taskId - Task ID
+   * @param upload - File name (already sanitized), type and content
+   * @param uploadedById - ID of the user uploading the file
+   * @returns Promise<Attachment> - The created attachment
+   * @throws Error if task not found or the file is empty
+   */
+  async createAttachment(
+    taskId: string,
+    upload: AttachmentUpload,
+    uploadedById?: string
+  ): Promise<Attachment> {
+    if (upload.data.length === 0) {
+      throw new Error("File is required and cannot be empty");
+    }
+
+    await this.ensureTaskExists(taskId);
+
+    // Random keys keep client file names out of storage paths
+    const storageKey = `${taskId}/${randomUUID()}`;
+
+    try {
+      await this.storage.save(storageKey, upload.data);
+
+      const attachment = await prisma.attachment.create({
+        data: {
+          taskId,
+          filename: upload.filename,
+          mimeType: upload.mimeType,
+          size: upload.data.length,
+          storageKey,
+          ...(uploadedById && { uploadedById }),
+        },
+        include: ATTACHMENT_INCLUDE,
+      });
+
+      return convertPrismaAttachmentToAttachment(attachment);
+    } catch (error) {
+      // Do not leave an unreferenced file behind
+      await this.storage.delete(storageKey).catch(() => undefined);
+      throw new Error(
+        `Failed to create attachment: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Reads an attachment along with its content
+   * @param taskId - Task ID
+   * @param attachmentId - Attachment ID
+   * @returns The attachment and its content
+   * @throws Error if the task, the attachment or its content is not found
+   */
+  async getAttachmentContent(
+    taskId: string,
+    attachmentId: string
+  ): Promise<{ attachment: Attachment; data: Buffer }> {
+    const attachment = await this.findAttachment(taskId, attachmentId);
+    const data = await this.storage.read(attachment.storageKey);
+
+    return { attachment, data };
+  }
+
+  /**
+   * Removes an attachment and its stored file
+   * @param taskId - Task ID
+   * @param attachmentId - Attachment ID
+   * @throws Error if the task or the attachment is not found
+   */
+  async deleteAttachment(taskId: string, attachmentId: string): Promise<void> {
+    const attachment = await this.findAttachment(taskId, attachmentId);
+
+    try {
+      await prisma.attachment.delete({ where: { id: attachmentId } });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete attachment: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    await this.storage.delete(attachment.storageKey);
+  }
+
+  /**
+   * Finds an attachment belonging to a task
+   * @throws Error if the task or the attachment does not exist
+   */
+  private async findAttachment(
+    taskId: string,
+    attachmentId: string
+  ): Promise<Attachment> {
+    await this.ensureTaskExists(taskId);
+
+    const attachment = await prisma.attachment.findFirst({
+      where: { id: attachmentId, taskId },
+      include: ATTACHMENT_INCLUDE,
+    });
+    if (!attachment) {
+      throw new Error(`Attachment with ID ${attachmentId} not found`);
+    }
+
+    return convertPrismaAttachmentToAttachment(attachment);
+  }
+
+  /**
+   * Ensures a task exists and is not in the trash
+   * @throws Error if the task does not exist
+   */
+  private async ensureTaskExists(taskId: string): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task || task.deletedAt) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+  }
+}
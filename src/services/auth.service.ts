@@ -1,4 +1,7 @@
+import { Prisma } from "@prisma/client";
 import jwt from "jsonwebtoken";
+import { prisma } from "../db/index.js";
+import { hashPassword, verifyPassword } from "../utils/password.js";
 
 /**
  * Interface for authentication credentials
@@ -20,37 +23,69 @@ export interface AuthResponse {
  * Interface for JWT payload
  */
 export interface JwtPayload {
+  userId: string;
   username: string;
   iat: number;
   exp: number;
 }
 
+/**
+ * Well-formed hash no password matches, checked for unknown usernames so a
+ * failed login costs one scrypt run whether or not the account exists
+ */
+const DUMMY_PASSWORD_HASH = `scrypt$${"0".repeat(32)}$${"0".repeat(128)}`;
+
 /**
  * AuthService - Handles JWT-based authentication
- * Manages token generation, verification, and credential validation
+ * Manages user accounts, token generation, verification, and credential validation
  */
 export class AuthService {
   private readonly jwtSecret: string;
   private readonly jwtExpiresIn: string;
-  private readonly authUsername: string;
-  private readonly authPassword: string;
 
   constructor() {
     // Load configuration from environment variables
     this.jwtSecret = process.env.JWT_SECRET || "";
     this.jwtExpiresIn = process.env.JWT_EXPIRES_IN || "24h";
-    this.authUsername = process.env.AUTH_USERNAME || "";
-    this.authPassword = process.env.AUTH_PASSWORD || "";
 
     // Validate required environment variables
     if (!this.jwtSecret) {
       throw new Error("JWT_SECRET environment variable is required");
     }
-    if (!this.authUsername || !this.authPassword) {
-      throw new Error(
-        "AUTH_USERNAME and AUTH_PASSWORD environment variables are required"
-      );
+  }
+
+  /**
+   * Registers a new user account and generates JWT token
+   * @param credentials - Desired username and password
+   * @returns Promise<AuthResponse> - JWT token and expiration info
+   * @throws Error if the username is already taken
+   */
+  async register(credentials: AuthCredentials): Promise<AuthResponse> {
+    const username = this.normalizeUsername(credentials.username);
+
+    const existingUser = await prisma.user.findUnique({
+      where: { username },
+    });
+    if (existingUser) {
+      throw new Error("Username already exists");
+    }
+
+    const passwordHash = await hashPassword(credentials.password);
+    let user;
+    try {
+      user = await prisma.user.create({ data: { username, passwordHash } });
+    } catch (error) {
+      // A concurrent registration took the name after the check above
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === "P2002"
+      ) {
+        throw new Error("Username already exists");
+      }
+      throw error;
     }
+
+    return this.issueToken(user.id, user.username);
   }
 
   /**
@@ -60,23 +95,56 @@ export class AuthService {
    * @throws Error if credentials are invalid
    */
   async login(credentials: AuthCredentials): Promise<AuthResponse> {
-    // Validate credentials against environment variables
-    if (
-      credentials.username !== this.authUsername ||
-      credentials.password !== this.authPassword
-    ) {
+    // Validate credentials against the stored password hash
+    const user = await prisma.user.findUnique({
+      where: { username: this.normalizeUsername(credentials.username) },
+    });
+
+    // Unknown users are checked against a dummy hash so response times do not
+    // reveal which usernames exist
+    const passwordMatches = await verifyPassword(
+      credentials.password,
+      user?.passwordHash ?? DUMMY_PASSWORD_HASH
+    );
+    if (!user || !passwordMatches) {
       throw new Error("Invalid credentials");
     }
 
-    // Generate JWT token with 24-hour expiration
-    const token = jwt.sign({ username: credentials.username }, this.jwtSecret, {
-      expiresIn: "24h",
+    return this.issueToken(user.id, user.username);
+  }
+
+  /**
+   * Creates the initial account from AUTH_USERNAME/AUTH_PASSWORD if it does not exist
+   * Keeps existing deployments able to log in after migrating to user accounts
+   * @throws Error if AUTH_USERNAME is blank
+   */
+  async ensureBootstrapUser(): Promise<void> {
+    const rawUsername = process.env.AUTH_USERNAME;
+    const password = process.env.AUTH_PASSWORD;
+
+    if (!rawUsername || !password) {
+      return;
+    }
+
+    // Stored the way login will look it up
+    const username = this.normalizeUsername(rawUsername);
+    if (!username) {
+      throw new Error("AUTH_USERNAME cannot be blank");
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { username },
     });
+    if (existingUser) {
+      return;
+    }
 
-    return {
-      token,
-      expiresIn: this.jwtExpiresIn,
-    };
+    await prisma.user.create({
+      data: {
+        username,
+        passwordHash: await hashPassword(password),
+      },
+    });
   }
 
   /**
@@ -87,10 +155,38 @@ export class AuthService {
   verifyToken(token: string): JwtPayload | null {
     try {
       const decoded = jwt.verify(token, this.jwtSecret) as JwtPayload;
+
+      // Tokens issued before user accounts existed carry no user id
+      if (!decoded.userId) {
+        return null;
+      }
+
       return decoded;
     } catch (error) {
       // Token is invalid or expired
       return null;
     }
   }
+
+  /**
+   * Usernames are stored trimmed; lookups must normalize the same way
+   */
+  private normalizeUsername(username: string): string {
+    return username.trim();
+  }
+
+  /**
+   * Generates a JWT token for the given user
+   */
+  private issueToken(userId: string, username: string): AuthResponse {
+    // Generate JWT token with 24-hour expiration
+    const token = jwt.sign({ userId, username }, this.jwtSecret, {
+      expiresIn: "24h",
+    });
+
+    return {
+      token,
+      expiresIn: this.jwtExpiresIn,
+    };
+  }
 }
@@ -0,0 +1,194 @@
+import { prisma } from "../db/index.js";
+import type {
+  Board,
+  CreateBoardRequest,
+  UpdateBoardRequest,
+} from "../models/index.js";
+import { DEFAULT_COLUMNS } from "./column.service.js";
+import { deleteStoredFiles } from "../storage/index.js";
+
+/**
+ * Name of the board created when none exists yet
+ */
+const DEFAULT_BOARD_NAME = "General";
+
+/**
+ * Helper function to convert Prisma Board to our Board interface
+ * Converts null to undefined for optional fields
+ */
+function convertPrismaBoardToBoard(prismaBoard: any): Board {
+  return {
+    id: prismaBoard.id,
+    name: prismaBoard.name,
+    description: prismaBoard.description ?? undefined,
+    createdAt: prismaBoard.createdAt,
+    updatedAt: prismaBoard.updatedAt,
+  };
+}
+
+/**
+ * BoardService - Business logic layer for board operations
+ * Boards group tasks so each product or project gets its own task list
+ */
+export class BoardService {
+  /**
+   * Creates a new board with validation
+   * The board starts with the default workflow columns
+   * @param data - Board creation data
+   * @returns Promise<Board> - The created board
+   * @throws Error if validation fails
+   */
+  async createBoard(data: CreateBoardRequest): Promise<Board> {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new Error("Name is required and cannot be empty");
+    }
+
+    try {
+      const board = await prisma.board.create({
+        data: {
+          name: data.name.trim(),
+          description: data.description?.trim() || null,
+          columns: { create: DEFAULT_COLUMNS },
+        },
+      });
+
+      return convertPrismaBoardToBoard(board);
+    } catch (error) {
+      throw new Error(
+        `Failed to create board: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves all boards ordered by creation date (oldest first)
+   * @returns Promise<Board[]> - Array of all boards
+   */
+  async getAllBoards(): Promise<Board[]> {
+    try {
+      const boards = await prisma.board.findMany({
+        orderBy: { createdAt: "asc" },
+      });
+
+      return boards.map(convertPrismaBoardToBoard);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve boards: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds a board by its ID
+   * @param id - Board ID
+   * @returns Promise<Board | null> - The board if found, null otherwise
+   */
+  async findBoardById(id: string): Promise<Board | null> {
+    try {
+      const board = await prisma.board.findUnique({ where: { id } });
+
+      return board ? convertPrismaBoardToBoard(board) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to find board: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Returns the board used when a task is created without one
+   * The oldest board is the default; one is created if none exist
+   * @returns Promise<Board> - The default board
+   */
+  async getDefaultBoard(): Promise<Board> {
+    const board = await prisma.board.findFirst({
+      orderBy: { createdAt: "asc" },
+    });
+
+    if (board) {
+      return convertPrismaBoardToBoard(board);
+    }
+
+    return this.createBoard({ name: DEFAULT_BOARD_NAME });
+  }
+
+  /**
+   * Updates board name and description
+   * @param id - Board ID
+   * @param data - Fields to update
+   * @returns Promise<Board> - The updated board
+   * @throws Error if board not found or validation fails
+   */
+  async updateBoard(id: string, data: UpdateBoardRequest): Promise<Board> {
+    if (data.name !== undefined && data.name.trim().length === 0) {
+      throw new Error("Name is required and cannot be empty");
+    }
+
+    const existingBoard = await this.findBoardById(id);
+    if (!existingBoard) {
+      throw new Error(`Board with ID ${id} not found`);
+    }
+
+    try {
+      const board = await prisma.board.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name.trim() }),
+          ...(data.description !== undefined && {
+            description: data.description.trim() || null,
+          }),
+        },
+      });
+
+      return convertPrismaBoardToBoard(board);
+    } catch (error) {
+      throw new Error(
+        `Failed to update board: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Permanently deletes a board together with its tasks
+   * Tasks do not go through the trash, which belongs to the board itself;
+   * clients must confirm this with the user. The last board cannot be deleted
+   * @param id - Board ID
+   * @throws Error if board not found or it is the last board
+   */
+  async deleteBoard(id: string): Promise<void> {
+    const existingBoard = await this.findBoardById(id);
+    if (!existingBoard) {
+      throw new Error(`Board with ID ${id} not found`);
+    }
+
+    const boardCount = await prisma.board.count();
+    if (boardCount <= 1) {
+      throw new Error("Cannot delete the last board");
+    }
+
+    try {
+      // Attachment rows go away with the tasks; collect the files first
+      const attachments = await prisma.attachment.findMany({
+        where: { task: { boardId: id } },
+        select: { storageKey: true },
+      });
+
+      await prisma.board.delete({ where: { id } });
+      await deleteStoredFiles(attachments.map(({ storageKey }) => storageKey));
+    } catch (error) {
+      throw new Error(
+        `Failed to delete board: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+}
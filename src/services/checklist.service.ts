@@ -0,0 +1,224 @@
+import { prisma } from "../db/index.js";
+import type {
+  ChecklistItem,
+  CreateChecklistItemRequest,
+  UpdateChecklistItemRequest,
+} from "../models/index.js";
+
+/**
+ * Helper function to convert Prisma ChecklistItem to our ChecklistItem interface
+ */
+function convertPrismaItemToItem(prismaItem: any): ChecklistItem {
+  return {
+    id: prismaItem.id,
+    taskId: prismaItem.taskId,
+    text: prismaItem.text,
+    done: prismaItem.done,
+    position: prismaItem.position,
+    createdAt: prismaItem.createdAt,
+    updatedAt: prismaItem.updatedAt,
+  };
+}
+
+/**
+ * ChecklistService - Business logic layer for task checklist operations
+ * Items belong to a task; trashed tasks cannot be edited
+ */
+export class ChecklistService {
+  /**
+   * Retrieves the checklist of a task in position order
+   * @param taskId - Task ID
+   * @returns Promise<ChecklistItem[]> - Items of the task
+   * @throws Error if task not found
+   */
+  async getItems(taskId: string): Promise<ChecklistItem[]> {
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const items = await prisma.checklistItem.findMany({
+        where: { taskId },
+        orderBy: { position: "asc" },
+      });
+
+      return items.map(convertPrismaItemToItem);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve checklist: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Appends an item to the checklist of a task
+   * @param taskId - Task ID
+   * @param data - Item creation data
+   * @returns Promise<ChecklistItem> - The created item
+   * @throws Error if task not found or validation fails
+   */
+  async createItem(
+    taskId: string,
+    data: CreateChecklistItemRequest
+  ): Promise<ChecklistItem> {
+    if (!data.text || data.text.trim().length === 0) {
+      throw new Error("Text is required and cannot be empty");
+    }
+
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const lastItem = await prisma.checklistItem.findFirst({
+        where: { taskId },
+        orderBy: { position: "desc" },
+      });
+
+      const item = await prisma.checklistItem.create({
+        data: {
+          taskId,
+          text: data.text.trim(),
+          position: lastItem ? lastItem.position + 1 : 0,
+        },
+      });
+
+      return convertPrismaItemToItem(item);
+    } catch (error) {
+      throw new Error(
+        `Failed to create checklist item: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Edits the text of an item or ticks it
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @param data - Fields to update
+   * @returns Promise<ChecklistItem> - The updated item
+   * @throws Error if task or item not found or validation fails
+   */
+  async updateItem(
+    taskId: string,
+    itemId: string,
+    data: UpdateChecklistItemRequest
+  ): Promise<ChecklistItem> {
+    if (data.text !== undefined && data.text.trim().length === 0) {
+      throw new Error("Text is required and cannot be empty");
+    }
+
+    await this.ensureItemExists(taskId, itemId);
+
+    try {
+      const item = await prisma.checklistItem.update({
+        where: { id: itemId },
+        data: {
+          ...(data.text !== undefined && { text: data.text.trim() }),
+          ...(data.done !== undefined && { done: data.done }),
+        },
+      });
+
+      return convertPrismaItemToItem(item);
+    } catch (error) {
+      throw new Error(
+        `Failed to update checklist item: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Reorders the checklist of a task
+   * @param taskId - Task ID
+   * @param itemIds - Every item ID of the task in the new order
+   * @returns Promise<ChecklistItem[]> - The items in their new order
+   * @throws Error if task not found or the list does not match the checklist
+   */
+  async reorderItems(
+    taskId: string,
+    itemIds: string[]
+  ): Promise<ChecklistItem[]> {
+    const items = await this.getItems(taskId);
+
+    const currentIds = new Set(items.map((item) => item.id));
+    if (
+      itemIds.length !== currentIds.size ||
+      new Set(itemIds).size !== itemIds.length ||
+      !itemIds.every((itemId) => currentIds.has(itemId))
+    ) {
+      throw new Error(
+        "Invalid checklist order: must list every item of the task exactly once"
+      );
+    }
+
+    try {
+      await prisma.$transaction(
+        itemIds.map((itemId, position) =>
+          prisma.checklistItem.update({
+            where: { id: itemId },
+            data: { position },
+          })
+        )
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to reorder checklist: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    return this.getItems(taskId);
+  }
+
+  /**
+   * Removes an item from the checklist of a task
+   * @param taskId - Task ID
+   * @param itemId - Checklist item ID
+   * @throws Error if task or item not found
+   */
+  async deleteItem(taskId: string, itemId: string): Promise<void> {
+    await this.ensureItemExists(taskId, itemId);
+
+    try {
+      await prisma.checklistItem.delete({ where: { id: itemId } });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete checklist item: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Ensures an item exists on a task that is not in the trash
+   * @throws Error if the task or the item does not exist
+   */
+  private async ensureItemExists(
+    taskId: string,
+    itemId: string
+  ): Promise<void> {
+    await this.ensureTaskExists(taskId);
+
+    const item = await prisma.checklistItem.findFirst({
+      where: { id: itemId, taskId },
+    });
+    if (!item) {
+      throw new Error(`Checklist item with ID ${itemId} not found`);
+    }
+  }
+
+  /**
+   * Ensures a task exists and is not in the trash
+   * @throws Error if the task does not exist
+   */
+  private async ensureTaskExists(taskId: string): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task || task.deletedAt) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+  }
+}
@@ -0,0 +1,437 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db/index.js";
+import type {
+  Column,
+  ColumnTotals,
+  CreateColumnRequest,
+  UpdateColumnRequest,
+} from "../models/index.js";
+import { TaskStatus } from "../models/index.js";
+import { rankBetween } from "../utils/rank.js";
+import { TaskService } from "./task.service.js";
+
+/**
+ * Columns every new board starts with (the former fixed workflow)
+ */
+export const DEFAULT_COLUMNS = [
+  {
+    name: "Pendiente",
+    position: 0,
+    color: "#d97706",
+    status: TaskStatus.PENDING,
+  },
+  {
+    name: "En Progreso",
+    position: 1,
+    color: "#2563eb",
+    status: TaskStatus.IN_PROGRESS,
+  },
+  {
+    name: "Completado",
+    position: 2,
+    color: "#16a34a",
+    status: TaskStatus.COMPLETED,
+  },
+];
+
+/**
+ * Accepted column colors (#rrggbb)
+ */
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Helper function to convert Prisma Column to our Column interface
+ */
+function convertPrismaColumnToColumn(prismaColumn: any): Column {
+  return {
+    id: prismaColumn.id,
+    boardId: prismaColumn.boardId,
+    name: prismaColumn.name,
+    position: prismaColumn.position,
+    color: prismaColumn.color,
+    status: prismaColumn.status,
+    createdAt: prismaColumn.createdAt,
+    updatedAt: prismaColumn.updatedAt,
+  };
+}
+
+/**
+ * ColumnService - Business logic layer for board column operations
+ * Columns define the workflow of a board; tasks belong to exactly one column
+ */
+export class ColumnService {
+  // Created on first use: a TaskService holds a ColumnService of its own
+  private taskService: TaskService | null = null;
+
+  /**
+   * Retrieves the columns of a board ordered by position
+   * @param boardId - Board ID
+   * @returns Promise<Column[]> - Columns of the board
+   * @throws Error if board not found
+   */
+  async getColumns(boardId: string): Promise<Column[]> {
+    await this.ensureBoardExists(boardId);
+
+    try {
+      const columns = await prisma.column.findMany({
+        where: { boardId },
+        orderBy: { position: "asc" },
+      });
+
+      return columns.map(convertPrismaColumnToColumn);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve columns: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Counts the active tasks of each column and sums their estimates
+   * Archived and trashed tasks are left out, as on the board
+   * @param boardId - Board ID
+   * @returns Promise<ColumnTotals[]> - Totals of every column, in board order
+   * @throws Error if board not found
+   */
+  async getColumnTotals(boardId: string): Promise<ColumnTotals[]> {
+    await this.ensureBoardExists(boardId);
+
+    try {
+      const [columns, groups] = await Promise.all([
+        prisma.column.findMany({
+          where: { boardId },
+          orderBy: { position: "asc" },
+        }),
+        prisma.task.groupBy({
+          by: ["columnId"],
+          where: { boardId, deletedAt: null, archivedAt: null },
+          _count: { _all: true },
+          _sum: { estimate: true },
+        }),
+      ]);
+
+      const byColumn = new Map(groups.map((group) => [group.columnId, group]));
+      return columns.map((column) => {
+        const group = byColumn.get(column.id);
+        return {
+          columnId: column.id,
+          name: column.name,
+          taskCount: group?._count._all ?? 0,
+          estimateTotal: group?._sum.estimate ?? 0,
+        };
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve column totals: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds a column by its ID
+   * @param id - Column ID
+   * @returns Promise<Column | null> - The column if found, null otherwise
+   */
+  async findColumnById(id: string): Promise<Column | null> {
+    try {
+      const column = await prisma.column.findUnique({ where: { id } });
+
+      return column ? convertPrismaColumnToColumn(column) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to find column: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds the left-most column of a board, optionally within a status category
+   * @param boardId - Board ID
+   * @param status - Optional status category
+   * @param db - Transaction to read in, if any
+   * @returns Promise<Column | null> - The column if any matches
+   */
+  async findFirstColumn(
+    boardId: string,
+    status?: TaskStatus,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<Column | null> {
+    const column = await db.column.findFirst({
+      where: { boardId, ...(status && { status }) },
+      orderBy: { position: "asc" },
+    });
+
+    return column ? convertPrismaColumnToColumn(column) : null;
+  }
+
+  /**
+   * Appends a new column to a board
+   * @param boardId - Board ID
+   * @param data - Column creation data
+   * @returns Promise<Column> - The created column
+   * @throws Error if board not found or validation fails
+   */
+  async createColumn(
+    boardId: string,
+    data: CreateColumnRequest
+  ): Promise<Column> {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new Error("Name is required and cannot be empty");
+    }
+    this.validateColumnFields(data);
+
+    await this.ensureBoardExists(boardId);
+
+    try {
+      const lastColumn = await prisma.column.findFirst({
+        where: { boardId },
+        orderBy: { position: "desc" },
+      });
+
+      const column = await prisma.column.create({
+        data: {
+          boardId,
+          name: data.name.trim(),
+          position: lastColumn ? lastColumn.position + 1 : 0,
+          ...(data.color && { color: data.color }),
+          ...(data.status && { status: data.status }),
+        },
+      });
+
+      return convertPrismaColumnToColumn(column);
+    } catch (error) {
+      throw new Error(
+        `Failed to create column: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Renames, recolors or recategorizes a column
+   * Changing the status category updates the tasks in the column as well,
+   * and announces them to the boards open on it
+   * @param id - Column ID
+   * @param data - Fields to update
+   * @returns Promise<Column> - The updated column
+   * @throws Error if column not found or validation fails
+   */
+  async updateColumn(id: string, data: UpdateColumnRequest): Promise<Column> {
+    if (data.name !== undefined && data.name.trim().length === 0) {
+      throw new Error("Name is required and cannot be empty");
+    }
+    this.validateColumnFields(data);
+
+    const existingColumn = await this.findColumnById(id);
+    if (!existingColumn) {
+      throw new Error(`Column with ID ${id} not found`);
+    }
+
+    const newStatus =
+      data.status !== existingColumn.status ? data.status : undefined;
+
+    try {
+      const column = await prisma.$transaction(async (tx) => {
+        if (newStatus) {
+          await tx.task.updateMany({
+            where: { columnId: id },
+            data: { status: newStatus, version: { increment: 1 } },
+          });
+        }
+
+        return tx.column.update({
+          where: { id },
+          data: {
+            ...(data.name !== undefined && { name: data.name.trim() }),
+            ...(data.color && { color: data.color }),
+            ...(data.status && { status: data.status }),
+          },
+        });
+      });
+
+      if (newStatus) {
+        this.taskService ??= new TaskService();
+        await this.taskService.publishColumnTasks([id], "task.updated");
+      }
+
+      return convertPrismaColumnToColumn(column);
+    } catch (error) {
+      throw new Error(
+        `Failed to update column: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Reorders the columns of a board
+   * @param boardId - Board ID
+   * @param columnIds - Every column ID of the board in the new order
+   * @returns Promise<Column[]> - Columns in their new order
+   * @throws Error if the IDs do not match the board's columns
+   */
+  async reorderColumns(
+    boardId: string,
+    columnIds: string[]
+  ): Promise<Column[]> {
+    const columns = await this.getColumns(boardId);
+
+    const currentIds = new Set(columns.map((column) => column.id));
+    if (
+      columnIds.length !== currentIds.size ||
+      new Set(columnIds).size !== columnIds.length ||
+      !columnIds.every((columnId) => currentIds.has(columnId))
+    ) {
+      throw new Error(
+        "Invalid column order: must list every column of the board exactly once"
+      );
+    }
+
+    try {
+      await prisma.$transaction(
+        columnIds.map((columnId, position) =>
+          prisma.column.update({ where: { id: columnId }, data: { position } })
+        )
+      );
+    } catch (error) {
+      throw new Error(
+        `Failed to reorder columns: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    return this.getColumns(boardId);
+  }
+
+  /**
+   * Deletes a column without live tasks
+   * Its trashed tasks move to the end of another column of the board, the
+   * first one with the same status if any, so they stay restorable
+   * @param id - Column ID
+   * @throws Error if column not found, not empty, or the board's last column
+   */
+  async deleteColumn(id: string): Promise<void> {
+    const existingColumn = await this.findColumnById(id);
+    if (!existingColumn) {
+      throw new Error(`Column with ID ${id} not found`);
+    }
+
+    let refusal: string | null;
+    try {
+      refusal = await prisma.$transaction(async (tx) => {
+        // Locking the board's columns holds back tasks being created in or
+        // moved into them, and other deletions, until this one commits
+        await tx.$queryRaw`
+          SELECT "id" FROM "Column"
+          WHERE "boardId" = ${existingColumn.boardId}
+          FOR UPDATE
+        `;
+
+        // Trashed tasks do not block the deletion; they move to another column
+        const taskCount = await tx.task.count({
+          where: { columnId: id, deletedAt: null },
+        });
+        if (taskCount > 0) {
+          return "Cannot delete a column that still has tasks";
+        }
+
+        const columnCount = await tx.column.count({
+          where: { boardId: existingColumn.boardId },
+        });
+        if (columnCount <= 1) {
+          return "Cannot delete the last column of a board";
+        }
+
+        const others = { boardId: existingColumn.boardId, id: { not: id } };
+        const target =
+          (await tx.column.findFirst({
+            where: { ...others, status: existingColumn.status },
+            orderBy: { position: "asc" },
+          })) ??
+          (await tx.column.findFirstOrThrow({
+            where: others,
+            orderBy: { position: "asc" },
+          }));
+
+        const trashed = await tx.task.findMany({
+          where: { columnId: id },
+          orderBy: { rank: "asc" },
+          select: { id: true },
+        });
+        const last = await tx.task.findFirst({
+          where: { columnId: target.id },
+          orderBy: { rank: "desc" },
+          select: { rank: true },
+        });
+
+        let rank = last?.rank ?? null;
+        for (const task of trashed) {
+          rank = rankBetween(rank, null);
+          await tx.task.update({
+            where: { id: task.id },
+            data: {
+              columnId: target.id,
+              status: target.status,
+              rank,
+              version: { increment: 1 },
+            },
+          });
+        }
+
+        await tx.column.delete({ where: { id } });
+        return null;
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete column: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    if (refusal) {
+      throw new Error(refusal);
+    }
+  }
+
+  /**
+   * Validates optional color and status values
+   * @throws Error if a value is invalid
+   */
+  private validateColumnFields(data: UpdateColumnRequest): void {
+    if (data.color !== undefined && !COLOR_PATTERN.test(data.color)) {
+      throw new Error(`Invalid color: ${data.color}. Must be #rrggbb`);
+    }
+
+    if (
+      data.status !== undefined &&
+      !Object.values(TaskStatus).includes(data.status)
+    ) {
+      throw new Error(
+        `Invalid status: ${data.status}. Must be one of: ${Object.values(
+          TaskStatus
+        ).join(", ")}`
+      );
+    }
+  }
+
+  /**
+   * Ensures a board exists before touching its columns
+   * @throws Error if the board does not exist
+   */
+  private async ensureBoardExists(boardId: string): Promise<void> {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new Error(`Board with ID ${boardId} not found`);
+    }
+  }
+}
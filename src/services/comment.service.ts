@@ -0,0 +1,265 @@
+import { prisma } from "../db/index.js";
+import type {
+  Comment,
+  CommentRevision,
+  CreateCommentRequest,
+  UpdateCommentRequest,
+} from "../models/index.js";
+
+/**
+ * Relations loaded alongside every comment
+ */
+const COMMENT_INCLUDE = {
+  author: { select: { id: true, username: true } },
+  _count: { select: { revisions: true } },
+} as const;
+
+/**
+ * Helper function to convert Prisma Comment to our Comment interface
+ * Converts null to undefined for optional fields
+ */
+function convertPrismaCommentToComment(prismaComment: any): Comment {
+  return {
+    id: prismaComment.id,
+    taskId: prismaComment.taskId,
+    body: prismaComment.body,
+    authorId: prismaComment.authorId ?? undefined,
+    ...(prismaComment.author && {
+      author: {
+        id: prismaComment.author.id,
+        username: prismaComment.author.username,
+      },
+    }),
+    createdAt: prismaComment.createdAt,
+    updatedAt: prismaComment.updatedAt,
+    editedAt: prismaComment.editedAt ?? undefined,
+    revisionCount: prismaComment._count?.revisions ?? 0,
+  };
+}
+
+/**
+ * CommentService - Business logic layer for task comment threads
+ * Only the author may edit or delete a comment; every edit keeps the
+ * previous body as a revision
+ */
+export class CommentService {
+  /**
+   * Retrieves the thread of a task, oldest first
+   * @param taskId - Task ID
+   * @returns Promise<Comment[]> - Comments of the task
+   * @throws Error if task not found
+   */
+  async getComments(taskId: string): Promise<Comment[]> {
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const comments = await prisma.comment.findMany({
+        where: { taskId },
+        include: COMMENT_INCLUDE,
+        orderBy: { createdAt: "asc" },
+      });
+
+      return comments.map(convertPrismaCommentToComment);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve comments: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Posts a comment on a task
+   * @param taskId - Task ID
+   * @param data - Comment creation data (already sanitized)
+   * @param authorId - ID of the user posting the comment
+   * @returns Promise<Comment> - The created comment
+   * @throws Error if task not found or validation fails
+   */
+  async createComment(
+    taskId: string,
+    data: CreateCommentRequest,
+    authorId?: string
+  ): Promise<Comment> {
+    if (!data.body || data.body.trim().length === 0) {
+      throw new Error("Body is required and cannot be empty");
+    }
+
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const comment = await prisma.comment.create({
+        data: {
+          taskId,
+          body: data.body.trim(),
+          ...(authorId && { authorId }),
+        },
+        include: COMMENT_INCLUDE,
+      });
+
+      return convertPrismaCommentToComment(comment);
+    } catch (error) {
+      throw new Error(
+        `Failed to create comment: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Edits a comment, keeping its previous body as a revision
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param data - New body (already sanitized)
+   * @param userId - ID of the user editing the comment
+   * @returns Promise<Comment> - The edited comment
+   * @throws Error if not found, validation fails or the user is not the author
+   */
+  async updateComment(
+    taskId: string,
+    commentId: string,
+    data: UpdateCommentRequest,
+    userId?: string
+  ): Promise<Comment> {
+    if (!data.body || data.body.trim().length === 0) {
+      throw new Error("Body is required and cannot be empty");
+    }
+
+    const existing = await this.findOwnComment(taskId, commentId, userId);
+    const body = data.body.trim();
+    if (body === existing.body) {
+      return existing;
+    }
+
+    try {
+      const [, comment] = await prisma.$transaction([
+        prisma.commentRevision.create({
+          data: { commentId, body: existing.body },
+        }),
+        prisma.comment.update({
+          where: { id: commentId },
+          data: { body, editedAt: new Date() },
+          include: COMMENT_INCLUDE,
+        }),
+      ]);
+
+      return convertPrismaCommentToComment(comment);
+    } catch (error) {
+      throw new Error(
+        `Failed to update comment: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Deletes a comment along with its revisions
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @param userId - ID of the user deleting the comment
+   * @throws Error if not found or the user is not the author
+   */
+  async deleteComment(
+    taskId: string,
+    commentId: string,
+    userId?: string
+  ): Promise<void> {
+    await this.findOwnComment(taskId, commentId, userId);
+
+    try {
+      await prisma.comment.delete({ where: { id: commentId } });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete comment: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves the previous bodies of a comment, oldest first
+   * @param taskId - Task ID
+   * @param commentId - Comment ID
+   * @returns Promise<CommentRevision[]> - The revisions
+   * @throws Error if task or comment not found
+   */
+  async getRevisions(
+    taskId: string,
+    commentId: string
+  ): Promise<CommentRevision[]> {
+    await this.findComment(taskId, commentId);
+
+    try {
+      const revisions = await prisma.commentRevision.findMany({
+        where: { commentId },
+        orderBy: { createdAt: "asc" },
+      });
+
+      return revisions.map((revision) => ({
+        id: revision.id,
+        commentId: revision.commentId,
+        body: revision.body,
+        createdAt: revision.createdAt,
+      }));
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve comment revisions: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds a comment of a task that the user wrote
+   * @throws Error if not found or the user is not the author
+   */
+  private async findOwnComment(
+    taskId: string,
+    commentId: string,
+    userId?: string
+  ): Promise<Comment> {
+    const comment = await this.findComment(taskId, commentId);
+    if (!userId || comment.authorId !== userId) {
+      throw new Error("Only the author can change this comment");
+    }
+
+    return comment;
+  }
+
+  /**
+   * Finds a comment belonging to a task
+   * @throws Error if the task or the comment does not exist
+   */
+  private async findComment(
+    taskId: string,
+    commentId: string
+  ): Promise<Comment> {
+    await this.ensureTaskExists(taskId);
+
+    const comment = await prisma.comment.findFirst({
+      where: { id: commentId, taskId },
+      include: COMMENT_INCLUDE,
+    });
+    if (!comment) {
+      throw new Error(`Comment with ID ${commentId} not found`);
+    }
+
+    return convertPrismaCommentToComment(comment);
+  }
+
+  /**
+   * Ensures a task exists and is not in the trash
+   * @throws Error if the task does not exist
+   */
+  private async ensureTaskExists(taskId: string): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task || task.deletedAt) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+  }
+}
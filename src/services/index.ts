@@ -2,8 +2,21 @@
  * Central export file for all service classes
  */
 
-export { TaskService } from "./task.service.js";
+export { TaskService, TaskBlockedError } from "./task.service.js";
 export { AuthService } from "./auth.service.js";
+export { UserService } from "./user.service.js";
+export { BoardService } from "./board.service.js";
+export { ColumnService } from "./column.service.js";
+export { LabelService } from "./label.service.js";
+export { ChecklistService } from "./checklist.service.js";
+export { CommentService } from "./comment.service.js";
+export { AttachmentService } from "./attachment.service.js";
+export { RecurrenceService } from "./recurrence.service.js";
+export { TimeEntryService } from "./time-entry.service.js";
+export {
+  WorkflowService,
+  WorkflowTransitionError,
+} from "./workflow.service.js";
 export type {
   AuthCredentials,
   AuthResponse,
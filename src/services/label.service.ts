@@ -0,0 +1,208 @@
+import { prisma } from "../db/index.js";
+import type {
+  Label,
+  CreateLabelRequest,
+  UpdateLabelRequest,
+} from "../models/index.js";
+
+/**
+ * Accepted label colors (#rrggbb)
+ */
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/;
+
+/**
+ * Helper function to convert Prisma Label to our Label interface
+ */
+function convertPrismaLabelToLabel(prismaLabel: any): Label {
+  return {
+    id: prismaLabel.id,
+    boardId: prismaLabel.boardId,
+    name: prismaLabel.name,
+    color: prismaLabel.color,
+    createdAt: prismaLabel.createdAt,
+    updatedAt: prismaLabel.updatedAt,
+  };
+}
+
+/**
+ * LabelService - Business logic layer for board label operations
+ * Labels belong to a board and can be attached to any task of that board
+ */
+export class LabelService {
+  /**
+   * Retrieves the labels of a board ordered by name
+   * @param boardId - Board ID
+   * @returns Promise<Label[]> - Labels of the board
+   * @throws Error if board not found
+   */
+  async getLabels(boardId: string): Promise<Label[]> {
+    await this.ensureBoardExists(boardId);
+
+    try {
+      const labels = await prisma.label.findMany({
+        where: { boardId },
+        orderBy: { name: "asc" },
+      });
+
+      return labels.map(convertPrismaLabelToLabel);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve labels: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Finds a label by its ID
+   * @param id - Label ID
+   * @returns Promise<Label | null> - The label if found, null otherwise
+   */
+  async findLabelById(id: string): Promise<Label | null> {
+    try {
+      const label = await prisma.label.findUnique({ where: { id } });
+
+      return label ? convertPrismaLabelToLabel(label) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to find label: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Creates a label on a board
+   * @param boardId - Board ID
+   * @param data - Label creation data
+   * @returns Promise<Label> - The created label
+   * @throws Error if board not found, validation fails or the name is taken
+   */
+  async createLabel(boardId: string, data: CreateLabelRequest): Promise<Label> {
+    if (!data.name || data.name.trim().length === 0) {
+      throw new Error("Name is required and cannot be empty");
+    }
+    this.validateColor(data.color);
+
+    await this.ensureBoardExists(boardId);
+    await this.ensureNameAvailable(boardId, data.name.trim());
+
+    try {
+      const label = await prisma.label.create({
+        data: {
+          boardId,
+          name: data.name.trim(),
+          ...(data.color && { color: data.color }),
+        },
+      });
+
+      return convertPrismaLabelToLabel(label);
+    } catch (error) {
+      throw new Error(
+        `Failed to create label: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Renames or recolors a label
+   * @param id - Label ID
+   * @param data - Fields to update
+   * @returns Promise<Label> - The updated label
+   * @throws Error if label not found, validation fails or the name is taken
+   */
+  async updateLabel(id: string, data: UpdateLabelRequest): Promise<Label> {
+    if (data.name !== undefined && data.name.trim().length === 0) {
+      throw new Error("Name is required and cannot be empty");
+    }
+    this.validateColor(data.color);
+
+    const existingLabel = await this.findLabelById(id);
+    if (!existingLabel) {
+      throw new Error(`Label with ID ${id} not found`);
+    }
+
+    if (data.name !== undefined && data.name.trim() !== existingLabel.name) {
+      await this.ensureNameAvailable(existingLabel.boardId, data.name.trim());
+    }
+
+    try {
+      const label = await prisma.label.update({
+        where: { id },
+        data: {
+          ...(data.name !== undefined && { name: data.name.trim() }),
+          ...(data.color && { color: data.color }),
+        },
+      });
+
+      return convertPrismaLabelToLabel(label);
+    } catch (error) {
+      throw new Error(
+        `Failed to update label: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Deletes a label and detaches it from its tasks
+   * @param id - Label ID
+   * @throws Error if label not found
+   */
+  async deleteLabel(id: string): Promise<void> {
+    const existingLabel = await this.findLabelById(id);
+    if (!existingLabel) {
+      throw new Error(`Label with ID ${id} not found`);
+    }
+
+    try {
+      await prisma.label.delete({ where: { id } });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete label: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Validates an optional color value
+   * @throws Error if the color is invalid
+   */
+  private validateColor(color: string | undefined): void {
+    if (color !== undefined && !COLOR_PATTERN.test(color)) {
+      throw new Error(`Invalid color: ${color}. Must be #rrggbb`);
+    }
+  }
+
+  /**
+   * Ensures no other label of the board uses a name
+   * @throws Error if the name is taken
+   */
+  private async ensureNameAvailable(
+    boardId: string,
+    name: string
+  ): Promise<void> {
+    const existing = await prisma.label.findFirst({ where: { boardId, name } });
+    if (existing) {
+      throw new Error(`Label "${name}" already exists on this board`);
+    }
+  }
+
+  /**
+   * Ensures a board exists before touching its labels
+   * @throws Error if the board does not exist
+   */
+  private async ensureBoardExists(boardId: string): Promise<void> {
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new Error(`Board with ID ${boardId} not found`);
+    }
+  }
+}
@@ -0,0 +1,200 @@
+import { prisma } from "../db/index.js";
+import type { RecurrenceRule, SetRecurrenceRequest } from "../models/index.js";
+import { TaskStatus } from "../models/index.js";
+import { TaskService } from "./task.service.js";
+import { ColumnService } from "./column.service.js";
+import {
+  parseRecurrenceRule,
+  formatRecurrenceRule,
+  nextOccurrence,
+} from "../utils/recurrence.js";
+
+/**
+ * Helper function to convert Prisma RecurrenceRule to our RecurrenceRule interface
+ * Converts null to undefined for optional fields
+ */
+function convertPrismaRecurrenceRuleToRecurrenceRule(
+  prismaRule: any
+): RecurrenceRule {
+  return {
+    id: prismaRule.id,
+    taskId: prismaRule.taskId,
+    rule: prismaRule.rule,
+    startsAt: prismaRule.startsAt,
+    nextRunAt: prismaRule.nextRunAt,
+    lastRunAt: prismaRule.lastRunAt ?? undefined,
+    createdAt: prismaRule.createdAt,
+    updatedAt: prismaRule.updatedAt,
+  };
+}
+
+/**
+ * RecurrenceService - Schedules of recurring tasks
+ * A task with a rule acts as a template: on each occurrence a fresh PENDING
+ * copy is created on its board
+ */
+export class RecurrenceService {
+  private readonly taskService = new TaskService();
+  private readonly columnService = new ColumnService();
+
+  /**
+   * Retrieves the recurrence rule of a task
+   * @param taskId - Task ID
+   * @returns Promise<RecurrenceRule> - The task's rule
+   * @throws Error if task not found or it does not recur
+   */
+  async getRecurrence(taskId: string): Promise<RecurrenceRule> {
+    await this.ensureTaskExists(taskId);
+
+    const rule = await prisma.recurrenceRule.findUnique({
+      where: { taskId },
+    });
+    if (!rule) {
+      throw new Error(`Recurrence rule for task ${taskId} not found`);
+    }
+
+    return convertPrismaRecurrenceRuleToRecurrenceRule(rule);
+  }
+
+  /**
+   * Makes a task recur, replacing its previous rule if any
+   * The first copy is created on the first occurrence after now
+   * @param taskId - Task ID
+   * @param data - Rule and optional start
+   * @param now - Current time (for tests)
+   * @returns Promise<RecurrenceRule> - The saved rule
+   * @throws Error if task not found or the rule is invalid
+   */
+  async setRecurrence(
+    taskId: string,
+    data: SetRecurrenceRequest,
+    now: Date = new Date()
+  ): Promise<RecurrenceRule> {
+    await this.ensureTaskExists(taskId);
+
+    const pattern = parseRecurrenceRule(data.rule);
+    const startsAt = data.startsAt ? new Date(data.startsAt) : now;
+    if (Number.isNaN(startsAt.getTime())) {
+      throw new Error("Invalid startsAt: must be an ISO 8601 date");
+    }
+
+    const values = {
+      rule: formatRecurrenceRule(pattern),
+      startsAt,
+      nextRunAt: nextOccurrence(pattern, startsAt, now),
+    };
+
+    try {
+      const rule = await prisma.recurrenceRule.upsert({
+        where: { taskId },
+        create: { taskId, ...values },
+        update: values,
+      });
+
+      return convertPrismaRecurrenceRuleToRecurrenceRule(rule);
+    } catch (error) {
+      throw new Error(
+        `Failed to save recurrence rule: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Stops a task from recurring; copies already created are kept
+   * @param taskId - Task ID
+   * @throws Error if task not found or it does not recur
+   */
+  async deleteRecurrence(taskId: string): Promise<void> {
+    const rule = await this.getRecurrence(taskId);
+
+    try {
+      await prisma.recurrenceRule.delete({ where: { id: rule.id } });
+    } catch (error) {
+      throw new Error(
+        `Failed to delete recurrence rule: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Creates a copy of every template whose next occurrence is due
+   * Occurrences missed while the server was down produce a single copy;
+   * templates in the trash are skipped until restored
+   * @param now - Current time (for tests)
+   * @returns Promise<number> - Number of tasks created
+   */
+  async runDueRecurrences(now: Date = new Date()): Promise<number> {
+    const rules = await prisma.recurrenceRule.findMany({
+      where: { nextRunAt: { lte: now }, task: { deletedAt: null } },
+      include: { task: { include: { labels: { select: { id: true } } } } },
+      orderBy: { nextRunAt: "asc" },
+    });
+
+    let created = 0;
+    for (const rule of rules) {
+      try {
+        if (await this.createOccurrence(rule, now)) {
+          created++;
+        }
+      } catch (error) {
+        // One broken template must not hold back the others
+        console.error(`Recurring task ${rule.taskId} failed:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Claims the due occurrence of a rule and creates its copy
+   * The rule is advanced in the transaction that creates the copy, so an
+   * occurrence is created exactly once: a failed copy leaves it due for the
+   * next check, and a run that loses the claim to another one skips it
+   */
+  private async createOccurrence(rule: any, now: Date): Promise<boolean> {
+    const nextRunAt = nextOccurrence(
+      parseRecurrenceRule(rule.rule),
+      rule.startsAt,
+      now
+    );
+
+    const template = rule.task;
+    const column = await this.columnService.findFirstColumn(
+      template.boardId,
+      TaskStatus.PENDING
+    );
+
+    const copy = await this.taskService.createClaimedTask(
+      {
+        title: template.title,
+        ...(template.description && { description: template.description }),
+        priority: template.priority,
+        ...(template.assigneeId && { assigneeId: template.assigneeId }),
+        boardId: template.boardId,
+        ...(column && { columnId: column.id }),
+        labelIds: template.labels.map((label: { id: string }) => label.id),
+      },
+      template.createdById ?? undefined,
+      async (tx) => {
+        const claim = await tx.recurrenceRule.updateMany({
+          where: { id: rule.id, nextRunAt: rule.nextRunAt },
+          data: { nextRunAt, lastRunAt: now },
+        });
+        return claim.count > 0;
+      }
+    );
+
+    return copy !== null;
+  }
+
+  private async ensureTaskExists(taskId: string): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task || task.deletedAt) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+  }
+}
@@ -1,39 +1,398 @@
-import { prisma } from "../db/index.js";
-import type { Task, CreateTaskRequest } from "../models/index.js";
-import { TaskStatus } from "../models/index.js";
+import { Prisma } from "@prisma/client";
+import { prisma, isPostgresDatabase } from "../db/index.js";
+import type {
+  Task,
+  Column,
+  CreateTaskRequest,
+  TaskFilters,
+  OverdueTaskFilters,
+  TaskView,
+  TaskSort,
+  TaskPage,
+  TaskPageOptions,
+  TaskSearchOptions,
+  TaskSearchResult,
+  TaskBlocker,
+  TaskEvent,
+  TaskEventValues,
+  TaskChangeType,
+  UpdateTaskPositionRequest,
+  BulkTaskOperation,
+  BulkTaskResult,
+} from "../models/index.js";
+import {
+  TaskStatus,
+  TaskEventType,
+  type TaskPriority,
+} from "../models/index.js";
+import { BoardService } from "./board.service.js";
+import { ColumnService } from "./column.service.js";
+import { WorkflowService } from "./workflow.service.js";
+import { deleteStoredFiles } from "../storage/index.js";
+import { taskChangeBus } from "../events/task-change-bus.js";
+import { MAX_RANK_LENGTH, rankBetween, spreadRanks } from "../utils/rank.js";
+import { durationSeconds } from "../utils/duration.js";
+import {
+  parseSearchTerms,
+  toPrefixTsQuery,
+  countMatches,
+  highlightMatches,
+} from "../utils/search.js";
+
+/**
+ * Relations loaded alongside every task
+ */
+const TASK_INCLUDE = {
+  assignee: { select: { id: true, username: true } },
+  labels: {
+    select: { id: true, name: true, color: true },
+    orderBy: { name: "asc" },
+  },
+  // Only the flags are needed for the progress counts
+  checklistItems: { select: { done: true } },
+  // First image, shown as the card thumbnail
+  attachments: {
+    where: { mimeType: { startsWith: "image/" } },
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+    take: 1,
+  },
+  _count: { select: { comments: true, attachments: true } },
+  blockedBy: {
+    where: { deletedAt: null },
+    select: { id: true, title: true, status: true },
+    orderBy: { title: "asc" },
+  },
+} as const;
+
+/**
+ * Statuses a task cannot move into while any of its blockers is open
+ */
+const BLOCKED_STATUSES: TaskStatus[] = [
+  TaskStatus.IN_PROGRESS,
+  TaskStatus.COMPLETED,
+];
+
+/**
+ * Conditions selecting the tasks of each listing view
+ */
+const VIEW_WHERE: Record<TaskView, Prisma.TaskWhereInput> = {
+  active: { deletedAt: null, archivedAt: null },
+  archived: { deletedAt: null, archivedAt: { not: null } },
+  trash: { deletedAt: { not: null } },
+};
+
+/**
+ * Order of each listing sort; rank falls back to newest first
+ */
+const SORT_ORDER: Record<TaskSort, Prisma.TaskOrderByWithRelationInput[]> = {
+  rank: [{ rank: "asc" }, { createdAt: "desc" }],
+  createdAt: [{ createdAt: "asc" }],
+  "-createdAt": [{ createdAt: "desc" }],
+  updatedAt: [{ updatedAt: "asc" }],
+  "-updatedAt": [{ updatedAt: "desc" }],
+  title: [{ title: "asc" }],
+  "-title": [{ title: "desc" }],
+  // Enum order (LOW → URGENT); ties keep the manual order
+  priority: [{ priority: "asc" }, { rank: "asc" }],
+  "-priority": [{ priority: "desc" }, { rank: "asc" }],
+};
 
 /**
  * Helper function to convert Prisma Task to our Task interface
  * Converts null to undefined for optional fields
  */
-function convertPrismaTaskToTask(prismaTask: any): Task {
+function convertPrismaTaskToTask(prismaTask: any, loggedSeconds = 0): Task {
   return {
     id: prismaTask.id,
     title: prismaTask.title,
     description: prismaTask.description ?? undefined,
     status: prismaTask.status,
+    priority: prismaTask.priority,
+    boardId: prismaTask.boardId,
+    columnId: prismaTask.columnId,
+    rank: prismaTask.rank,
+    dueAt: prismaTask.dueAt ?? undefined,
+    estimate: prismaTask.estimate ?? undefined,
+    version: prismaTask.version,
+    archivedAt: prismaTask.archivedAt ?? undefined,
+    deletedAt: prismaTask.deletedAt ?? undefined,
     createdAt: prismaTask.createdAt,
     updatedAt: prismaTask.updatedAt,
+    createdById: prismaTask.createdById ?? undefined,
+    assigneeId: prismaTask.assigneeId ?? undefined,
+    ...(prismaTask.assignee && {
+      assignee: {
+        id: prismaTask.assignee.id,
+        username: prismaTask.assignee.username,
+      },
+    }),
+    labels: (prismaTask.labels ?? []).map((label: any) => ({
+      id: label.id,
+      name: label.name,
+      color: label.color,
+    })),
+    checklist: {
+      done: (prismaTask.checklistItems ?? []).filter((item: any) => item.done)
+        .length,
+      total: (prismaTask.checklistItems ?? []).length,
+    },
+    commentCount: prismaTask._count?.comments ?? 0,
+    attachmentCount: prismaTask._count?.attachments ?? 0,
+    ...(prismaTask.attachments?.[0] && {
+      coverAttachmentId: prismaTask.attachments[0].id,
+    }),
+    blockedBy: (prismaTask.blockedBy ?? []).map((blocker: any) => ({
+      id: blocker.id,
+      title: blocker.title,
+      status: blocker.status,
+    })),
+    loggedSeconds,
+  };
+}
+
+/**
+ * Converts tasks read with TASK_INCLUDE along with the time logged on each
+ */
+async function convertPrismaTasks(
+  prismaTasks: any[],
+  db: Prisma.TransactionClient = prisma
+): Promise<Task[]> {
+  const logged = await loggedSecondsByTask(
+    prismaTasks.map((task) => task.id),
+    db
+  );
+  return prismaTasks.map((task) =>
+    convertPrismaTaskToTask(task, logged.get(task.id) ?? 0)
+  );
+}
+
+/**
+ * Single-task form of convertPrismaTasks
+ */
+async function convertPrismaTask(
+  prismaTask: any,
+  db: Prisma.TransactionClient = prisma
+): Promise<Task> {
+  const [task] = await convertPrismaTasks([prismaTask], db);
+  return task!;
+}
+
+/**
+ * Seconds logged on each task by its finished time entries
+ * PostgreSQL sums them in the query; other providers read the entries of the
+ * given tasks only
+ */
+async function loggedSecondsByTask(
+  taskIds: string[],
+  db: Prisma.TransactionClient
+): Promise<Map<string, number>> {
+  if (taskIds.length === 0) {
+    return new Map();
+  }
+
+  if (isPostgresDatabase()) {
+    const rows = await db.$queryRaw<Array<{ taskId: string; seconds: number }>>`
+      SELECT "taskId",
+        SUM(GREATEST(0, ROUND(EXTRACT(EPOCH FROM "endedAt" - "startedAt"))))::float8 AS "seconds"
+      FROM "TimeEntry"
+      WHERE "endedAt" IS NOT NULL AND "taskId" IN (${Prisma.join(taskIds)})
+      GROUP BY "taskId"
+    `;
+    return new Map(rows.map((row) => [row.taskId, row.seconds]));
+  }
+
+  const entries = await db.timeEntry.findMany({
+    where: { taskId: { in: taskIds }, endedAt: { not: null } },
+    select: { taskId: true, startedAt: true, endedAt: true },
+  });
+  const totals = new Map<string, number>();
+  entries.forEach(({ taskId, startedAt, endedAt }) =>
+    totals.set(
+      taskId,
+      (totals.get(taskId) ?? 0) + durationSeconds(startedAt, endedAt!)
+    )
+  );
+  return totals;
+}
+
+/**
+ * Helper function to convert Prisma TaskEvent to our TaskEvent interface
+ */
+function convertPrismaTaskEventToTaskEvent(prismaEvent: any): TaskEvent {
+  return {
+    id: prismaEvent.id,
+    taskId: prismaEvent.taskId,
+    type: prismaEvent.type,
+    actorId: prismaEvent.actorId ?? undefined,
+    ...(prismaEvent.actor && {
+      actor: {
+        id: prismaEvent.actor.id,
+        username: prismaEvent.actor.username,
+      },
+    }),
+    before: prismaEvent.before ?? undefined,
+    after: prismaEvent.after ?? undefined,
+    createdAt: prismaEvent.createdAt,
+  };
+}
+
+/**
+ * Nested write recording a history event in the same query as the task
+ * change it describes
+ */
+function recordEvent(
+  type: TaskEventType,
+  actorId: string | undefined,
+  values: { before?: TaskEventValues; after?: TaskEventValues } = {}
+): Prisma.TaskEventCreateNestedManyWithoutTaskInput {
+  return {
+    create: {
+      type,
+      ...(actorId && { actorId }),
+      ...(values.before && { before: values.before }),
+      ...(values.after && { after: values.after }),
+    },
   };
 }
 
+/**
+ * Times a write that ranks tasks is tried before a rank conflict is reported
+ */
+const RANK_ATTEMPTS = 3;
+
+/**
+ * Transaction of a write that ranks tasks, with the columns it rebalanced
+ */
+interface RankingTx {
+  client: Prisma.TransactionClient;
+  rebalanced: Set<string>;
+}
+
+/**
+ * Whether a write failed because a concurrent one took the same rank first
+ */
+function isRankConflict(error: unknown): boolean {
+  return (
+    error instanceof Prisma.PrismaClientKnownRequestError &&
+    error.code === "P2002" &&
+    String(error.meta?.target).includes("rank")
+  );
+}
+
+/**
+ * Raised when a task with open blockers is started or completed without
+ * forcing the move
+ * Carries the blockers returned to clients in the 409 response
+ */
+export class TaskBlockedError extends Error {
+  constructor(readonly blockers: TaskBlocker[]) {
+    super(
+      `Task is blocked by: ${blockers.map((blocker) => blocker.title).join(", ")}`
+    );
+    this.name = "TaskBlockedError";
+  }
+}
+
+/**
+ * Raised when a write names a task version (If-Match) that is no longer the
+ * current one
+ * Carries the server copy returned to clients in the 409 response
+ */
+export class TaskVersionConflictError extends Error {
+  constructor(readonly current: Task) {
+    super(
+      `Task ${current.id} was modified by someone else (current version ${current.version})`
+    );
+    this.name = "TaskVersionConflictError";
+  }
+}
+
+/**
+ * Raised when an operation of a bulk request cannot be applied; no task is
+ * changed then
+ * Carries the per-operation results returned to clients in the 422 response
+ */
+export class BulkTaskError extends Error {
+  constructor(readonly results: BulkTaskResult[]) {
+    const failed = results.filter((result) => !result.ok).length;
+    super(
+      `${failed} of ${results.length} bulk operations cannot be applied; no task was changed`
+    );
+    this.name = "BulkTaskError";
+  }
+}
+
 /**
  * TaskService - Business logic layer for task operations
  * Handles validation, business rules, and coordinates with database layer
  */
 export class TaskService {
+  private readonly boardService = new BoardService();
+  private readonly columnService = new ColumnService();
+  private readonly workflowService = new WorkflowService();
+
   /**
    * Creates a new task with validation
    * @param data - Task creation data
+   * @param createdById - ID of the user creating the task
    * @returns Promise<Task> - The created task
    * @throws Error if validation fails
    */
-  async createTask(data: CreateTaskRequest): Promise<Task> {
+  async createTask(
+    data: CreateTaskRequest,
+    createdById?: string
+  ): Promise<Task> {
+    const task = await this.insertTask(data, createdById);
+    if (!task) {
+      throw new Error("Failed to create task: nothing was created");
+    }
+
+    return task;
+  }
+
+  /**
+   * Creates a task only if a claim made in the same transaction succeeds
+   * Used by jobs so the work they claim is neither lost nor done twice: a
+   * task that cannot be created rolls the claim back with it
+   * @param data - Task creation data
+   * @param createdById - ID of the user the task is created for
+   * @param claim - Runs first in the creating transaction; resolves false
+   * when the work was already claimed
+   * @returns Promise<Task | null> - The created task, or null if the claim failed
+   * @throws Error if validation fails
+   */
+  async createClaimedTask(
+    data: CreateTaskRequest,
+    createdById: string | undefined,
+    claim: (tx: Prisma.TransactionClient) => Promise<boolean>
+  ): Promise<Task | null> {
+    return this.insertTask(data, createdById, claim);
+  }
+
+  /**
+   * Validates and inserts a task at the top of its column, after the
+   * optional claim
+   */
+  private async insertTask(
+    data: CreateTaskRequest,
+    createdById?: string,
+    claim?: (tx: Prisma.TransactionClient) => Promise<boolean>
+  ): Promise<Task | null> {
     // Validate required fields
     if (!data.title || data.title.trim().length === 0) {
       throw new Error("Title is required and cannot be empty");
     }
 
+    if (data.assigneeId) {
+      await this.ensureUserExists(data.assigneeId);
+    }
+
+    const column = await this.resolveColumn(data);
+    if (data.labelIds?.length) {
+      await this.ensureLabelsOnBoard(column.boardId, data.labelIds);
+    }
+
     // Trim whitespace from title and description
     const taskData = {
       title: data.title.trim(),
@@ -41,15 +400,46 @@ export class TaskService {
     };
 
     try {
-      const task = await prisma.task.create({
-        data: {
-          title: taskData.title,
-          description: taskData.description ?? null,
-          status: TaskStatus.PENDING, // Default status
-        },
+      const task = await this.rankedWrite(async (ranking) => {
+        if (claim && !(await claim(ranking.client))) {
+          return null;
+        }
+
+        return ranking.client.task.create({
+          data: {
+            title: taskData.title,
+            description: taskData.description ?? null,
+            status: column.status, // Derived from the column
+            ...(data.priority && { priority: data.priority }),
+            ...(data.dueAt && { dueAt: new Date(data.dueAt) }),
+            ...(data.estimate !== undefined && { estimate: data.estimate }),
+            boardId: column.boardId,
+            columnId: column.id,
+            // New tasks go to the top of the column
+            rank: await this.topRank(ranking, column.id),
+            ...(createdById && { createdById }),
+            ...(data.assigneeId && { assigneeId: data.assigneeId }),
+            ...(data.labelIds?.length && {
+              labels: {
+                connect: [...new Set(data.labelIds)].map((id) => ({ id })),
+              },
+            }),
+            events: recordEvent(TaskEventType.CREATED, createdById, {
+              after: {
+                title: taskData.title,
+                status: column.status,
+                columnId: column.id,
+              },
+            }),
+          },
+          include: TASK_INCLUDE,
+        });
       });
 
-      return convertPrismaTaskToTask(task);
+      return (
+        task &&
+        this.publishChange("task.created", await convertPrismaTask(task))
+      );
     } catch (error) {
       throw new Error(
         `Failed to create task: ${
@@ -61,17 +451,90 @@ export class TaskService {
 
   /**
    * Retrieves all tasks from the database
-   * @returns Promise<Task[]> - Array of all tasks
+   * @param filters - Optional filters (e.g. board, assignee, view)
+   * @returns Promise<Task[]> - Array of all tasks in the requested view
+   */
+  async getAllTasks(filters: TaskFilters = {}): Promise<Task[]> {
+    try {
+      const tasks = await prisma.task.findMany({
+        where: this.buildWhere(filters),
+        include: TASK_INCLUDE,
+        // Manual order inside each column
+        orderBy: SORT_ORDER.rank,
+      });
+
+      return convertPrismaTasks(tasks);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve tasks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves the open tasks whose due date has passed, most overdue first
+   * Archived, trashed and completed tasks are never overdue
+   * @param filters - Optional board to restrict the listing to
+   * @param now - Reference time, defaults to the current time
+   * @returns Promise<Task[]> - The overdue tasks
    */
-  async getAllTasks(): Promise<Task[]> {
+  async getOverdueTasks(
+    filters: OverdueTaskFilters = {},
+    now: Date = new Date()
+  ): Promise<Task[]> {
     try {
       const tasks = await prisma.task.findMany({
-        orderBy: {
-          createdAt: "desc", // Most recent first
+        where: {
+          ...VIEW_WHERE.active,
+          ...(filters.boardId && { boardId: filters.boardId }),
+          dueAt: { lt: now },
+          status: { not: TaskStatus.COMPLETED },
         },
+        include: TASK_INCLUDE,
+        orderBy: [{ dueAt: "asc" }, { id: "asc" }],
+      });
+
+      return convertPrismaTasks(tasks);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve overdue tasks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves one page of tasks using cursor pagination
+   * The cursor is the ID of the last task of the previous page
+   * @param filters - Optional filters (board, column, status, assignee, dates)
+   * @param options - Page size, sort order and cursor
+   * @returns Promise<TaskPage> - The tasks and the cursor of the next page
+   */
+  async getTaskPage(
+    filters: TaskFilters,
+    options: TaskPageOptions
+  ): Promise<TaskPage> {
+    try {
+      // One extra row tells whether another page follows
+      const tasks = await prisma.task.findMany({
+        where: this.buildWhere(filters),
+        include: TASK_INCLUDE,
+        // The ID makes the order total, which cursors rely on
+        orderBy: [...SORT_ORDER[options.sort], { id: "asc" }],
+        take: options.limit + 1,
+        ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
       });
 
-      return tasks.map(convertPrismaTaskToTask);
+      const page = tasks.slice(0, options.limit);
+
+      return {
+        tasks: await convertPrismaTasks(page),
+        nextCursor:
+          tasks.length > options.limit ? page[page.length - 1]!.id : null,
+      };
     } catch (error) {
       throw new Error(
         `Failed to retrieve tasks: ${
@@ -81,14 +544,67 @@ export class TaskService {
     }
   }
 
+  /**
+   * Searches task titles and descriptions, best matches first
+   * Uses the tsvector index on PostgreSQL and a LIKE scan on other providers
+   * @param query - Free text; every word must match (as a prefix on PostgreSQL)
+   * @param options - Optional board scope and maximum number of results
+   * @returns Promise<TaskSearchResult[]> - Matches with highlighted snippets
+   */
+  async searchTasks(
+    query: string,
+    options: TaskSearchOptions
+  ): Promise<TaskSearchResult[]> {
+    const terms = parseSearchTerms(query);
+    if (terms.length === 0) {
+      return [];
+    }
+
+    try {
+      const matches = isPostgresDatabase()
+        ? await this.fullTextSearch(terms, options)
+        : await this.likeSearch(terms, options);
+
+      return matches.map(({ task, score }) => ({
+        task,
+        score,
+        highlights: {
+          title: highlightMatches(task.title, terms),
+          ...(task.description && {
+            description: highlightMatches(task.description, terms),
+          }),
+        },
+      }));
+    } catch (error) {
+      throw new Error(
+        `Failed to search tasks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
   /**
    * Updates the status of a specific task
+   * The task moves to the first column of its board in that status category
    * @param id - Task ID
    * @param status - New status value
+   * @param actorId - ID of the user making the change
+   * @param force - Move even if the task has open blockers
+   * @param expectedVersion - Version the client last saw (If-Match), if any
    * @returns Promise<Task> - The updated task
    * @throws Error if task not found or validation fails
+   * @throws WorkflowTransitionError if the board workflow forbids the move
+   * @throws TaskBlockedError if open blockers forbid the move
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
    */
-  async updateTaskStatus(id: string, status: TaskStatus): Promise<Task> {
+  async updateTaskStatus(
+    id: string,
+    status: TaskStatus,
+    actorId?: string,
+    force = false,
+    expectedVersion?: number
+  ): Promise<Task> {
     // Validate status is a valid enum value
     if (!Object.values(TaskStatus).includes(status)) {
       throw new Error(
@@ -100,18 +616,49 @@ export class TaskService {
 
     // Check if task exists
     const existingTask = await this.findTaskById(id);
-    if (!existingTask) {
+    if (!existingTask || existingTask.deletedAt) {
       throw new Error(`Task with ID ${id} not found`);
     }
+    this.assertVersion(existingTask, expectedVersion);
+
+    await this.workflowService.assertTransition(existingTask, status);
+
+    if (!force) {
+      this.assertUnblocked(existingTask, status);
+    }
+
+    const column = await this.columnService.findFirstColumn(
+      existingTask.boardId,
+      status
+    );
+    if (!column) {
+      throw new Error(`Invalid status: board has no column for ${status}`);
+    }
 
     try {
-      const updatedTask = await prisma.task.update({
-        where: { id },
-        data: { status },
-      });
+      const updatedTask = await this.rankedWrite(async (ranking) =>
+        ranking.client.task.update({
+          where: this.versionedWhere(id, expectedVersion),
+          data: {
+            version: { increment: 1 },
+            status,
+            columnId: column.id,
+            rank:
+              column.id === existingTask.columnId
+                ? existingTask.rank
+                : await this.topRank(ranking, column.id),
+            ...this.columnChangeEvent(existingTask, column, actorId),
+          },
+          include: TASK_INCLUDE,
+        })
+      );
 
-      return convertPrismaTaskToTask(updatedTask);
+      return this.publishChange(
+        "task.moved",
+        await convertPrismaTask(updatedTask)
+      );
     } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
       throw new Error(
         `Failed to update task status: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -121,38 +668,125 @@ export class TaskService {
   }
 
   /**
-   * Updates task title and description
+   * Applies a merge patch to the editable fields of a task
+   * Omitted fields are kept; null clears description, due date, estimate,
+   * assignee and labels
    * @param id - Task ID
-   * @param data - Update data (title, description)
+   * @param data - Fields to change
+   * @param actorId - ID of the user making the change
+   * @param expectedVersion - Version the client last saw (If-Match), if any
    * @returns Promise<Task> - The updated task
    * @throws Error if task not found or validation fails
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
    */
   async updateTask(
     id: string,
-    data: { title: string; description?: string }
+    data: {
+      title?: string;
+      description?: string | null;
+      priority?: TaskPriority;
+      dueAt?: Date | null;
+      estimate?: number | null;
+      assigneeId?: string | null;
+      labelIds?: string[] | null;
+    },
+    actorId?: string,
+    expectedVersion?: number
   ): Promise<Task> {
-    // Validate required fields
-    if (!data.title || data.title.trim().length === 0) {
+    // The title can be left out but not emptied
+    if (data.title !== undefined && data.title.trim().length === 0) {
       throw new Error("Title is required and cannot be empty");
     }
 
     // Check if task exists
     const existingTask = await this.findTaskById(id);
-    if (!existingTask) {
+    if (!existingTask || existingTask.deletedAt) {
       throw new Error(`Task with ID ${id} not found`);
     }
+    this.assertVersion(existingTask, expectedVersion);
+
+    // An empty patch changes nothing, not even the version
+    if (Object.keys(data).length === 0) {
+      return existingTask;
+    }
+
+    if (data.assigneeId) {
+      await this.ensureUserExists(data.assigneeId);
+    }
+    if (data.labelIds) {
+      await this.ensureLabelsOnBoard(existingTask.boardId, data.labelIds);
+    }
+
+    const title = data.title?.trim();
+    const description =
+      data.description === undefined
+        ? undefined
+        : (data.description?.trim() ?? null);
+
+    // Edits may not drop what the task's current status requires
+    await this.workflowService.assertRequirementsKept(
+      {
+        ...existingTask,
+        ...(description !== undefined && { description }),
+        ...(data.assigneeId !== undefined && { assigneeId: data.assigneeId }),
+      },
+      [
+        ...(data.assigneeId !== undefined ? ["assignee" as const] : []),
+        ...(description !== undefined ? ["description" as const] : []),
+      ]
+    );
+
+    // Only title and description edits are part of the history
+    const before: TaskEventValues = {};
+    const after: TaskEventValues = {};
+    if (title !== undefined && title !== existingTask.title) {
+      before.title = existingTask.title;
+      after.title = title;
+    }
+    if (
+      description !== undefined &&
+      description !== (existingTask.description ?? null)
+    ) {
+      before.description = existingTask.description ?? null;
+      after.description = description;
+    }
 
     try {
       const updatedTask = await prisma.task.update({
-        where: { id },
+        where: this.versionedWhere(id, expectedVersion),
         data: {
-          title: data.title.trim(),
-          description: data.description?.trim() ?? null,
+          version: { increment: 1 },
+          ...(title !== undefined && { title }),
+          ...(description !== undefined && { description }),
+          ...(data.priority && { priority: data.priority }),
+          ...(data.dueAt !== undefined && { dueAt: data.dueAt }),
+          ...(data.estimate !== undefined && { estimate: data.estimate }),
+          ...(data.assigneeId !== undefined && {
+            assigneeId: data.assigneeId,
+          }),
+          ...(data.labelIds !== undefined && {
+            labels: {
+              set: [...new Set(data.labelIds ?? [])].map((labelId) => ({
+                id: labelId,
+              })),
+            },
+          }),
+          ...(Object.keys(after).length > 0 && {
+            events: recordEvent(TaskEventType.EDITED, actorId, {
+              before,
+              after,
+            }),
+          }),
         },
+        include: TASK_INCLUDE,
       });
 
-      return convertPrismaTaskToTask(updatedTask);
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(updatedTask)
+      );
     } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
       throw new Error(
         `Failed to update task: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -162,23 +796,1263 @@ export class TaskService {
   }
 
   /**
-   * Finds a task by its ID
+   * Moves a task to another column of its board
    * @param id - Task ID
-   * @returns Promise<Task | null> - The task if found, null otherwise
+   * @param columnId - Target column ID
+   * @param actorId - ID of the user making the change
+   * @param force - Move even if the task has open blockers
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task not found or column is not on the task's board
+   * @throws WorkflowTransitionError if the board workflow forbids the move
+   * @throws TaskBlockedError if open blockers forbid the move
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
    */
-  async findTaskById(id: string): Promise<Task | null> {
+  async moveTaskToColumn(
+    id: string,
+    columnId: string,
+    actorId?: string,
+    force = false,
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    const column = await this.columnService.findColumnById(columnId);
+    if (!column || column.boardId !== existingTask.boardId) {
+      throw new Error(
+        `Invalid column: column ${columnId} does not exist on the task's board`
+      );
+    }
+
+    await this.workflowService.assertTransition(existingTask, column.status);
+
+    if (!force) {
+      this.assertUnblocked(existingTask, column.status);
+    }
+
     try {
-      const task = await prisma.task.findUnique({
-        where: { id },
+      const updatedTask = await this.rankedWrite(async (ranking) =>
+        ranking.client.task.update({
+          where: this.versionedWhere(id, expectedVersion),
+          data: {
+            version: { increment: 1 },
+            columnId: column.id,
+            status: column.status,
+            rank:
+              column.id === existingTask.columnId
+                ? existingTask.rank
+                : await this.topRank(ranking, column.id),
+            ...this.columnChangeEvent(existingTask, column, actorId),
+          },
+          include: TASK_INCLUDE,
+        })
+      );
+
+      return this.publishChange(
+        "task.moved",
+        await convertPrismaTask(updatedTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to move task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Reorders a task inside its column, between two neighbors
+   * Only the moved task is written; its new rank sorts between the neighbors
+   * @param id - Task ID
+   * @param position - Tasks that end up directly above and below it
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task not found or a neighbor is not in the same column
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async updateTaskPosition(
+    id: string,
+    position: UpdateTaskPositionRequest,
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    const before = await this.findNeighbor(existingTask, position.beforeId);
+    const after = await this.findNeighbor(existingTask, position.afterId);
+    if (before && after && before.rank >= after.rank) {
+      throw new Error(
+        `Invalid rank: task ${before.id} must sort before task ${after.id}`
+      );
+    }
+
+    try {
+      // Hidden tasks between the neighbors may end up on either side
+      const updatedTask = await this.rankedWrite(async (ranking) =>
+        ranking.client.task.update({
+          where: this.versionedWhere(id, expectedVersion),
+          data: {
+            rank: await this.rankBelow(
+              ranking,
+              existingTask.columnId,
+              before?.id ?? null,
+              id
+            ),
+            version: { increment: 1 },
+          },
+          include: TASK_INCLUDE,
+        })
+      );
+
+      return this.publishChange(
+        "task.moved",
+        await convertPrismaTask(updatedTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to update task position: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Assigns a task to a user or clears its assignee
+   * @param id - Task ID
+   * @param assigneeId - User ID to assign, or null to unassign
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task or user not found
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async updateTaskAssignee(
+    id: string,
+    assigneeId: string | null,
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    if (assigneeId) {
+      await this.ensureUserExists(assigneeId);
+    }
+    await this.workflowService.assertRequirementsKept(
+      { ...existingTask, assigneeId },
+      ["assignee"]
+    );
+
+    try {
+      const updatedTask = await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        data: { assigneeId, version: { increment: 1 } },
+        include: TASK_INCLUDE,
       });
 
-      return task ? convertPrismaTaskToTask(task) : null;
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(updatedTask)
+      );
     } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
       throw new Error(
-        `Failed to find task: ${
+        `Failed to update task assignee: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
     }
   }
+
+  /**
+   * Replaces the labels of a task
+   * @param id - Task ID
+   * @param labelIds - Labels of the task's board; empty removes every label
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task not found or a label belongs to another board
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async setTaskLabels(
+    id: string,
+    labelIds: string[],
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    await this.ensureLabelsOnBoard(existingTask.boardId, labelIds);
+
+    try {
+      const updatedTask = await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        data: {
+          version: { increment: 1 },
+          labels: {
+            set: [...new Set(labelIds)].map((labelId) => ({ id: labelId })),
+          },
+        },
+        include: TASK_INCLUDE,
+      });
+
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(updatedTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to update task labels: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Marks a task as blocked by another task of the same board
+   * @param id - ID of the blocked task
+   * @param blockerId - ID of the task that has to be completed first
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task not found, the blocker is invalid or the
+   * dependency would create a cycle
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async addBlocker(
+    id: string,
+    blockerId: string,
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    if (blockerId === id) {
+      throw new Error("Invalid dependency: a task cannot block itself");
+    }
+
+    const blocker = await this.findTaskById(blockerId);
+    if (
+      !blocker ||
+      blocker.deletedAt ||
+      blocker.boardId !== existingTask.boardId
+    ) {
+      throw new Error(
+        `Invalid blocker: task ${blockerId} does not exist on the task's board`
+      );
+    }
+
+    // The new edge closes a cycle if the blocker already waits on the task
+    if (await this.isBlockedBy(blockerId, id)) {
+      throw new Error(
+        `Invalid dependency: task ${blockerId} is already blocked by task ${id}`
+      );
+    }
+
+    try {
+      const updatedTask = await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        data: {
+          blockedBy: { connect: { id: blockerId } },
+          version: { increment: 1 },
+        },
+        include: TASK_INCLUDE,
+      });
+
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(updatedTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to add task blocker: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Removes a blocker from a task; removing one that is not set is a no-op
+   * @param id - ID of the blocked task
+   * @param blockerId - ID of the blocking task
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task not found
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async removeBlocker(
+    id: string,
+    blockerId: string,
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    try {
+      const updatedTask = await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        data: {
+          blockedBy: { disconnect: { id: blockerId } },
+          version: { increment: 1 },
+        },
+        include: TASK_INCLUDE,
+      });
+
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(updatedTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to remove task blocker: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Moves a task to the trash; it can be restored until it is purged
+   * @param id - Task ID
+   * @param actorId - ID of the user deleting the task
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @throws Error if task not found or already in the trash
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async deleteTask(
+    id: string,
+    actorId?: string,
+    expectedVersion?: number
+  ): Promise<void> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    try {
+      await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        data: {
+          version: { increment: 1 },
+          deletedAt: new Date(),
+          events: recordEvent(TaskEventType.DELETED, actorId),
+        },
+      });
+
+      taskChangeBus.publish({
+        type: "task.deleted",
+        boardId: existingTask.boardId,
+        taskId: id,
+      });
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to delete task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Brings a task back from the trash
+   * @param id - Task ID
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The restored task
+   * @throws Error if task not found or not in the trash
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async restoreTask(id: string, expectedVersion?: number): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    if (!existingTask.deletedAt) {
+      throw new Error(`Invalid restore: task ${id} is not in the trash`);
+    }
+
+    try {
+      const restoredTask = await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        data: { deletedAt: null, version: { increment: 1 } },
+        include: TASK_INCLUDE,
+      });
+
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(restoredTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to restore task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Archives a task (hides it from the board) or brings it back
+   * @param id - Task ID
+   * @param archived - true to archive, false to unarchive
+   * @param expectedVersion - Version the client last saw (If-Match), if any
+   * @returns Promise<Task> - The updated task
+   * @throws Error if task not found
+   * @throws TaskVersionConflictError if the task changed since expectedVersion
+   */
+  async setTaskArchived(
+    id: string,
+    archived: boolean,
+    expectedVersion?: number
+  ): Promise<Task> {
+    // Check if task exists
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask || existingTask.deletedAt) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+    this.assertVersion(existingTask, expectedVersion);
+
+    try {
+      const updatedTask = await prisma.task.update({
+        where: this.versionedWhere(id, expectedVersion),
+        // Keep the original date when archiving twice
+        data: {
+          version: { increment: 1 },
+          archivedAt: archived ? (existingTask.archivedAt ?? new Date()) : null,
+        },
+        include: TASK_INCLUDE,
+      });
+
+      return this.publishChange(
+        "task.updated",
+        await convertPrismaTask(updatedTask)
+      );
+    } catch (error) {
+      await this.rethrowVersionConflict(error, id, expectedVersion);
+      throw new Error(
+        `Failed to update task archive state: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Applies a list of changes to tasks in a single transaction
+   * Operations run in order, each checked against the state the previous ones
+   * left, so several changes to one task add up. Nothing is saved unless all
+   * of them can be applied. Blockers completed anywhere in the request do not
+   * hold a task back
+   * @param operations - Changes, applied in order
+   * @param actorId - ID of the user making the changes
+   * @returns Promise<BulkTaskResult[]> - One result per operation with the saved task
+   * @throws BulkTaskError if an operation cannot be applied
+   */
+  async runBulkOperations(
+    operations: BulkTaskOperation[],
+    actorId?: string
+  ): Promise<BulkTaskResult[]> {
+    const completing = new Set(
+      operations
+        .filter(
+          (op) => op.type === "status" && op.status === TaskStatus.COMPLETED
+        )
+        .map((op) => op.taskId)
+    );
+
+    let saved: Task[];
+    try {
+      saved = await this.rankedWrite(async (ranking) => {
+        const results: BulkTaskResult[] = [];
+        const tasks: Task[] = [];
+        for (const operation of operations) {
+          try {
+            tasks.push(
+              await this.applyBulkOperation(
+                ranking,
+                operation,
+                actorId,
+                completing
+              )
+            );
+            results.push({ taskId: operation.taskId, ok: true });
+          } catch (error) {
+            results.push({
+              taskId: operation.taskId,
+              ok: false,
+              error: error instanceof Error ? error.message : "Unknown error",
+            });
+          }
+        }
+
+        // Rolls back the operations already applied
+        if (results.some((result) => !result.ok)) {
+          throw new BulkTaskError(results);
+        }
+        return tasks;
+      });
+    } catch (error) {
+      if (error instanceof BulkTaskError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to run bulk operations: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    return saved.map((task, index) => {
+      const type = operations[index]!.type;
+      if (type === "delete") {
+        taskChangeBus.publish({
+          type: "task.deleted",
+          boardId: task.boardId,
+          taskId: task.id,
+        });
+      } else {
+        this.publishChange(
+          type === "status" ? "task.moved" : "task.updated",
+          task
+        );
+      }
+
+      return { taskId: task.id, ok: true, task };
+    });
+  }
+
+  /**
+   * Permanently deletes the tasks trashed before the retention period,
+   * along with the stored files of their attachments
+   * @param retentionDays - Days a task stays restorable in the trash
+   * @returns Promise<number> - Number of purged tasks
+   */
+  async purgeTrash(retentionDays: number): Promise<number> {
+    const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+    const expired: Prisma.TaskWhereInput = { deletedAt: { lt: cutoff } };
+
+    try {
+      // Attachment rows go away with their tasks; collect the files first
+      const attachments = await prisma.attachment.findMany({
+        where: { task: expired },
+        select: { storageKey: true },
+      });
+
+      const { count } = await prisma.task.deleteMany({ where: expired });
+      await deleteStoredFiles(attachments.map(({ storageKey }) => storageKey));
+
+      return count;
+    } catch (error) {
+      throw new Error(
+        `Failed to purge trash: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Announces every task of the given columns after a write that changed
+   * them all; the write already committed, so a failure here is only logged
+   * @param columnIds - Columns whose tasks changed
+   * @param type - Change to announce for each task
+   */
+  async publishColumnTasks(
+    columnIds: Iterable<string>,
+    type: TaskChangeType
+  ): Promise<void> {
+    const ids = [...columnIds];
+    if (ids.length === 0) {
+      return;
+    }
+
+    try {
+      const tasks = await prisma.task.findMany({
+        where: { columnId: { in: ids }, deletedAt: null },
+        include: TASK_INCLUDE,
+      });
+      (await convertPrismaTasks(tasks)).forEach((task) =>
+        this.publishChange(type, task)
+      );
+    } catch (error) {
+      console.error("Failed to announce column tasks:", error);
+    }
+  }
+
+  /**
+   * Finds a task by its ID
+   * @param id - Task ID
+   * @returns Promise<Task | null> - The task if found, null otherwise
+   */
+  async findTaskById(id: string): Promise<Task | null> {
+    try {
+      const task = await prisma.task.findUnique({
+        where: { id },
+        include: TASK_INCLUDE,
+      });
+
+      return task ? convertPrismaTask(task) : null;
+    } catch (error) {
+      throw new Error(
+        `Failed to find task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves the history of a task, oldest event first
+   * Trashed tasks keep their history until they are purged
+   * @param id - Task ID
+   * @returns Promise<TaskEvent[]> - Events recorded for the task
+   * @throws Error if task not found
+   */
+  async getTaskHistory(id: string): Promise<TaskEvent[]> {
+    const existingTask = await this.findTaskById(id);
+    if (!existingTask) {
+      throw new Error(`Task with ID ${id} not found`);
+    }
+
+    try {
+      const events = await prisma.taskEvent.findMany({
+        where: { taskId: id },
+        include: { actor: { select: { id: true, username: true } } },
+        orderBy: [{ createdAt: "asc" }, { id: "asc" }],
+      });
+
+      return events.map(convertPrismaTaskEventToTaskEvent);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve task history: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Rejects a write based on an outdated copy of the task
+   */
+  private assertVersion(task: Task, expectedVersion?: number): void {
+    if (expectedVersion !== undefined && task.version !== expectedVersion) {
+      throw new TaskVersionConflictError(task);
+    }
+  }
+
+  /**
+   * Unique filter of an update, also matching the version when one is
+   * expected so a write landing since assertVersion makes it fail
+   */
+  private versionedWhere(
+    id: string,
+    expectedVersion?: number
+  ): Prisma.TaskWhereUniqueInput {
+    return {
+      id,
+      ...(expectedVersion !== undefined && { version: expectedVersion }),
+    };
+  }
+
+  /**
+   * Turns a versioned update that matched no row into a conflict carrying
+   * the copy that won the race
+   */
+  private async rethrowVersionConflict(
+    error: unknown,
+    id: string,
+    expectedVersion?: number
+  ): Promise<void> {
+    if (
+      expectedVersion === undefined ||
+      !(error instanceof Prisma.PrismaClientKnownRequestError) ||
+      error.code !== "P2025"
+    ) {
+      return;
+    }
+
+    const current = await this.findTaskById(id);
+    if (current && !current.deletedAt) {
+      throw new TaskVersionConflictError(current);
+    }
+  }
+
+  /**
+   * Rejects starting or completing a task while any of its blockers is not
+   * completed; moves that keep the status are allowed
+   */
+  private assertUnblocked(task: Task, status: TaskStatus): void {
+    if (status === task.status || !BLOCKED_STATUSES.includes(status)) {
+      return;
+    }
+
+    const openBlockers = task.blockedBy.filter(
+      (blocker) => blocker.status !== TaskStatus.COMPLETED
+    );
+    if (openBlockers.length > 0) {
+      throw new TaskBlockedError(openBlockers);
+    }
+  }
+
+  /**
+   * Whether a task waits on another one, directly or through a chain of
+   * blockers; the dependency graph is walked one level per query
+   */
+  private async isBlockedBy(
+    taskId: string,
+    blockerId: string
+  ): Promise<boolean> {
+    const visited = new Set([taskId]);
+    let frontier = [taskId];
+
+    while (frontier.length > 0) {
+      const tasks = await prisma.task.findMany({
+        where: { id: { in: frontier } },
+        select: { blockedBy: { select: { id: true } } },
+      });
+
+      frontier = [];
+      for (const { id } of tasks.flatMap((task) => task.blockedBy)) {
+        if (id === blockerId) {
+          return true;
+        }
+        if (!visited.has(id)) {
+          visited.add(id);
+          frontier.push(id);
+        }
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * History event for a task leaving its column or status, if it does
+   */
+  private columnChangeEvent(
+    task: Task,
+    column: Column,
+    actorId: string | undefined
+  ): { events?: Prisma.TaskEventCreateNestedManyWithoutTaskInput } {
+    if (column.id === task.columnId && column.status === task.status) {
+      return {};
+    }
+
+    return {
+      events: recordEvent(TaskEventType.STATUS_CHANGED, actorId, {
+        before: { status: task.status, columnId: task.columnId },
+        after: { status: column.status, columnId: column.id },
+      }),
+    };
+  }
+
+  /**
+   * Checks one operation of a bulk request against the current state of its
+   * task and saves it
+   * @param ranking - Transaction of the whole request
+   * @param completing - Tasks the request moves to COMPLETED
+   * @returns Promise<Task> - The saved task
+   * @throws Error, WorkflowTransitionError or TaskBlockedError when the
+   * operation cannot be applied
+   */
+  private async applyBulkOperation(
+    ranking: RankingTx,
+    operation: BulkTaskOperation,
+    actorId: string | undefined,
+    completing: Set<string>
+  ): Promise<Task> {
+    const tx = ranking.client;
+    const found = await tx.task.findUnique({
+      where: { id: operation.taskId },
+      include: TASK_INCLUDE,
+    });
+    if (!found || found.deletedAt) {
+      throw new Error(`Task with ID ${operation.taskId} not found`);
+    }
+
+    const updatedTask = await tx.task.update({
+      where: { id: found.id },
+      data: await this.planBulkOperation(
+        ranking,
+        convertPrismaTaskToTask(found),
+        operation,
+        actorId,
+        completing
+      ),
+      include: TASK_INCLUDE,
+    });
+
+    return convertPrismaTask(updatedTask, tx);
+  }
+
+  /**
+   * Builds the task update for one operation of a bulk request
+   * @throws Error, WorkflowTransitionError or TaskBlockedError when the
+   * operation cannot be applied
+   */
+  private async planBulkOperation(
+    ranking: RankingTx,
+    task: Task,
+    operation: BulkTaskOperation,
+    actorId: string | undefined,
+    completing: Set<string>
+  ): Promise<Prisma.TaskUncheckedUpdateInput> {
+    const tx = ranking.client;
+    const version = { increment: 1 };
+
+    switch (operation.type) {
+      case "status": {
+        await this.workflowService.assertTransition(task, operation.status, tx);
+        this.assertUnblocked(
+          {
+            ...task,
+            blockedBy: task.blockedBy.filter(
+              (blocker) => !completing.has(blocker.id)
+            ),
+          },
+          operation.status
+        );
+
+        const column = await this.columnService.findFirstColumn(
+          task.boardId,
+          operation.status,
+          tx
+        );
+        if (!column) {
+          throw new Error(
+            `Invalid status: board has no column for ${operation.status}`
+          );
+        }
+
+        return {
+          version,
+          status: operation.status,
+          columnId: column.id,
+          rank:
+            column.id === task.columnId
+              ? task.rank
+              : await this.topRank(ranking, column.id),
+          ...this.columnChangeEvent(task, column, actorId),
+        };
+      }
+      case "label":
+        await this.ensureLabelsOnBoard(task.boardId, [operation.labelId], tx);
+        return {
+          version,
+          labels: operation.remove
+            ? { disconnect: { id: operation.labelId } }
+            : { connect: { id: operation.labelId } },
+        };
+      case "assignee":
+        if (operation.assigneeId) {
+          await this.ensureUserExists(operation.assigneeId, tx);
+        }
+        await this.workflowService.assertRequirementsKept(
+          { ...task, assigneeId: operation.assigneeId },
+          ["assignee"],
+          tx
+        );
+        return { version, assigneeId: operation.assigneeId };
+      case "archive":
+        // Keep the original date when archiving twice
+        return {
+          version,
+          archivedAt: operation.archived
+            ? (task.archivedAt ?? new Date())
+            : null,
+        };
+      case "delete":
+        return {
+          version,
+          deletedAt: new Date(),
+          events: recordEvent(TaskEventType.DELETED, actorId),
+        };
+    }
+  }
+
+  /**
+   * Translates listing filters into a Prisma where clause
+   */
+  private buildWhere(filters: TaskFilters): Prisma.TaskWhereInput {
+    const range = (from?: Date, to?: Date) =>
+      from || to
+        ? { ...(from && { gte: from }), ...(to && { lte: to }) }
+        : undefined;
+    const createdAt = range(filters.createdFrom, filters.createdTo);
+    const updatedAt = range(filters.updatedFrom, filters.updatedTo);
+    const dueAt = range(undefined, filters.dueBefore);
+
+    return {
+      ...VIEW_WHERE[filters.view ?? "active"],
+      ...(filters.boardId && { boardId: filters.boardId }),
+      ...(filters.columnId && { columnId: filters.columnId }),
+      ...(filters.status && { status: filters.status }),
+      ...(filters.assigneeId !== undefined && {
+        assigneeId: filters.assigneeId,
+      }),
+      ...(filters.labelIds &&
+        filters.labelIds.length > 0 && {
+          labels: { some: { id: { in: filters.labelIds } } },
+        }),
+      ...(createdAt && { createdAt }),
+      ...(updatedAt && { updatedAt }),
+      ...(dueAt && { dueAt }),
+    };
+  }
+
+  /**
+   * Ranks matches with ts_rank over the indexed search vector
+   */
+  private async fullTextSearch(
+    terms: string[],
+    options: TaskSearchOptions
+  ): Promise<Array<{ task: Task; score: number }>> {
+    const rows = await prisma.$queryRaw<Array<{ id: string; score: number }>>`
+      SELECT "id", ts_rank("searchVector", query) AS "score"
+      FROM "Task", to_tsquery('simple', ${toPrefixTsQuery(terms)}) AS query
+      WHERE "searchVector" @@ query
+        AND "deletedAt" IS NULL
+        ${
+          options.boardId
+            ? Prisma.sql`AND "boardId" = ${options.boardId}`
+            : Prisma.empty
+        }
+      ORDER BY "score" DESC, "updatedAt" DESC
+      LIMIT ${options.limit}
+    `;
+
+    const tasks = await prisma.task.findMany({
+      where: { id: { in: rows.map((row) => row.id) } },
+      include: TASK_INCLUDE,
+    });
+    const tasksById = new Map(
+      (await convertPrismaTasks(tasks)).map((task) => [task.id, task])
+    );
+
+    return rows.flatMap((row) => {
+      const task = tasksById.get(row.id);
+      return task ? [{ task, score: row.score }] : [];
+    });
+  }
+
+  /**
+   * Fallback for providers without full-text search
+   * Every term must appear in the title or description; title hits weigh double
+   */
+  private async likeSearch(
+    terms: string[],
+    options: TaskSearchOptions
+  ): Promise<Array<{ task: Task; score: number }>> {
+    const tasks = await prisma.task.findMany({
+      where: {
+        deletedAt: null,
+        ...(options.boardId && { boardId: options.boardId }),
+        AND: terms.map((term) => ({
+          OR: [
+            { title: { contains: term } },
+            { description: { contains: term } },
+          ],
+        })),
+      },
+      include: TASK_INCLUDE,
+    });
+
+    const ranked = tasks
+      .map((task) => ({
+        task,
+        score:
+          2 * countMatches(task.title, terms) +
+          countMatches(task.description ?? "", terms),
+      }))
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          b.task.updatedAt.getTime() - a.task.updatedAt.getTime()
+      )
+      .slice(0, options.limit);
+
+    const converted = await convertPrismaTasks(ranked.map(({ task }) => task));
+    return ranked.map(({ score }, index) => ({
+      task: converted[index]!,
+      score,
+    }));
+  }
+
+  /**
+   * Ensures every label exists on the given board
+   * @throws Error if a label is unknown or belongs to another board
+   */
+  private async ensureLabelsOnBoard(
+    boardId: string,
+    labelIds: string[],
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const uniqueIds = [...new Set(labelIds)];
+    if (uniqueIds.length === 0) {
+      return;
+    }
+
+    const count = await db.label.count({
+      where: { id: { in: uniqueIds }, boardId },
+    });
+    if (count !== uniqueIds.length) {
+      throw new Error(
+        "Invalid labels: every label must belong to the task's board"
+      );
+    }
+  }
+
+  /**
+   * Announces a saved change to the boards open on it
+   * @returns The task, so it can be returned directly
+   */
+  private publishChange(type: TaskChangeType, task: Task): Task {
+    taskChangeBus.publish({
+      type,
+      boardId: task.boardId,
+      taskId: task.id,
+      task,
+    });
+    return task;
+  }
+
+  /**
+   * Runs a write that ranks tasks inside a transaction
+   * Ranks are unique per column, so a rank a concurrent write took first fails
+   * the transaction; it then starts over with fresh neighbors. Columns
+   * rebalanced on the way are announced once the write commits
+   */
+  private async rankedWrite<T>(
+    write: (ranking: RankingTx) => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      const rebalanced = new Set<string>();
+      let result: T;
+      try {
+        result = await prisma.$transaction((client) =>
+          write({ client, rebalanced })
+        );
+      } catch (error) {
+        if (attempt >= RANK_ATTEMPTS || !isRankConflict(error)) {
+          throw error;
+        }
+        continue;
+      }
+
+      // Every rank in a rebalanced column changed
+      await this.publishColumnTasks(rebalanced, "task.moved");
+      return result;
+    }
+  }
+
+  /**
+   * Computes a rank above every task of a column
+   */
+  private topRank(ranking: RankingTx, columnId: string): Promise<string> {
+    return this.rankBelow(ranking, columnId, null);
+  }
+
+  /**
+   * Computes a rank right below a task of a column, or at its top
+   * The next rank is read from the column, archived and trashed tasks
+   * included, so the rank is free unless a concurrent write takes it first.
+   * Rebalances the column when the rank would grow past MAX_RANK_LENGTH
+   * @param beforeId - Task the rank goes below, or null for the top
+   * @param movingId - Task being placed, if it already is in the column
+   */
+  private async rankBelow(
+    ranking: RankingTx,
+    columnId: string,
+    beforeId: string | null,
+    movingId?: string
+  ): Promise<string> {
+    const { client } = ranking;
+    const neighbors = async (): Promise<[string | null, string | null]> => {
+      let before: string | null = null;
+      if (beforeId !== null) {
+        const task = await client.task.findUnique({
+          where: { id: beforeId },
+          select: { rank: true },
+        });
+        if (!task) {
+          throw new Error(`Task with ID ${beforeId} not found`);
+        }
+        before = task.rank;
+      }
+      const next = await client.task.findFirst({
+        where: {
+          columnId,
+          ...(before !== null && { rank: { gt: before } }),
+          ...(movingId && { id: { not: movingId } }),
+        },
+        orderBy: { rank: "asc" },
+        select: { rank: true },
+      });
+
+      return [before, next?.rank ?? null];
+    };
+
+    const rank = rankBetween(...(await neighbors()));
+    if (rank.length <= MAX_RANK_LENGTH) {
+      return rank;
+    }
+
+    await this.rebalanceColumn(ranking, columnId);
+    return rankBetween(...(await neighbors()));
+  }
+
+  /**
+   * Spreads the ranks of a column evenly again, keeping its order
+   * Raw updates leave updatedAt alone: the tasks did not change for users
+   */
+  private async rebalanceColumn(
+    ranking: RankingTx,
+    columnId: string
+  ): Promise<void> {
+    const { client } = ranking;
+    const tasks = await client.task.findMany({
+      where: { columnId },
+      orderBy: SORT_ORDER.rank,
+      select: { id: true },
+    });
+    if (tasks.length === 0) {
+      return;
+    }
+    const ranks = spreadRanks(tasks.length);
+
+    // The unique index is checked row by row, so move the old ranks out of
+    // the way ("~" sorts after every rank digit) before writing the new ones
+    await client.$executeRaw`
+      UPDATE "Task" SET "rank" = '~' || "id" WHERE "columnId" = ${columnId}
+    `;
+    await client.$executeRaw`
+      UPDATE "Task" AS t SET "rank" = v."rank"
+      FROM (VALUES ${Prisma.join(
+        tasks.map((task, index) => Prisma.sql`(${task.id}, ${ranks[index]})`)
+      )}) AS v("id", "rank")
+      WHERE t."id" = v."id"
+    `;
+
+    ranking.rebalanced.add(columnId);
+  }
+
+  /**
+   * Loads a neighbor used to position a task
+   * @throws Error if the neighbor is not another task of the same column
+   */
+  private async findNeighbor(
+    task: Task,
+    neighborId: string | null | undefined
+  ): Promise<Task | null> {
+    if (!neighborId) {
+      return null;
+    }
+
+    const neighbor = await this.findTaskById(neighborId);
+    if (
+      !neighbor ||
+      neighbor.deletedAt ||
+      neighbor.id === task.id ||
+      neighbor.columnId !== task.columnId
+    ) {
+      throw new Error(
+        `Invalid position: task ${neighborId} is not in the same column`
+      );
+    }
+
+    return neighbor;
+  }
+
+  /**
+   * Resolves the column a new task is placed in
+   * Defaults to the first column of the (default) board
+   * @throws Error if the column or board is invalid
+   */
+  private async resolveColumn(data: CreateTaskRequest): Promise<Column> {
+    if (data.columnId) {
+      const column = await this.columnService.findColumnById(data.columnId);
+      if (!column || (data.boardId && column.boardId !== data.boardId)) {
+        throw new Error(
+          `Invalid column: column ${data.columnId} does not exist on the board`
+        );
+      }
+      return column;
+    }
+
+    const boardId = await this.resolveBoardId(data.boardId);
+    const column = await this.columnService.findFirstColumn(boardId);
+    if (!column) {
+      throw new Error(`Invalid board: board ${boardId} has no columns`);
+    }
+
+    return column;
+  }
+
+  /**
+   * Resolves the board a new task belongs to
+   * Falls back to the default board when none is given
+   * @throws Error if the given board does not exist
+   */
+  private async resolveBoardId(boardId?: string): Promise<string> {
+    if (!boardId) {
+      return (await this.boardService.getDefaultBoard()).id;
+    }
+
+    const board = await this.boardService.findBoardById(boardId);
+    if (!board) {
+      throw new Error(`Invalid board: board ${boardId} does not exist`);
+    }
+
+    return board.id;
+  }
+
+  /**
+   * Ensures a user exists before referencing it from a task
+   * @throws Error if the user does not exist
+   */
+  private async ensureUserExists(
+    userId: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    const user = await db.user.findUnique({ where: { id: userId } });
+    if (!user) {
+      throw new Error(`Invalid assignee: user ${userId} does not exist`);
+    }
+  }
 }
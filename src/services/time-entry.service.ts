@@ -0,0 +1,285 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db/index.js";
+import type {
+  TimeEntry,
+  StartTimerRequest,
+  CreateTimeEntryRequest,
+  TimesheetFilters,
+} from "../models/index.js";
+
+/**
+ * Relations loaded alongside every time entry
+ */
+const TIME_ENTRY_INCLUDE = {
+  user: { select: { id: true, username: true } },
+  task: {
+    select: { id: true, title: true, board: { select: { name: true } } },
+  },
+} as const;
+
+/**
+ * Times a start is tried when a concurrent start of the same user wins
+ */
+const START_ATTEMPTS = 2;
+
+/**
+ * Helper function to convert Prisma TimeEntry to our TimeEntry interface
+ * Converts null to undefined for optional fields
+ */
+function convertPrismaTimeEntryToTimeEntry(prismaEntry: any): TimeEntry {
+  return {
+    id: prismaEntry.id,
+    taskId: prismaEntry.taskId,
+    ...(prismaEntry.task && {
+      task: {
+        id: prismaEntry.task.id,
+        title: prismaEntry.task.title,
+        boardName: prismaEntry.task.board?.name ?? "",
+      },
+    }),
+    userId: prismaEntry.userId,
+    ...(prismaEntry.user && {
+      user: {
+        id: prismaEntry.user.id,
+        username: prismaEntry.user.username,
+      },
+    }),
+    startedAt: prismaEntry.startedAt,
+    endedAt: prismaEntry.endedAt ?? undefined,
+    note: prismaEntry.note ?? undefined,
+    createdAt: prismaEntry.createdAt,
+    updatedAt: prismaEntry.updatedAt,
+  };
+}
+
+/**
+ * TimeEntryService - Work logged on tasks, through timers or by hand
+ * Each user has at most one running timer: starting another one stops it
+ */
+export class TimeEntryService {
+  /**
+   * Retrieves the time logged on a task, newest first
+   * @param taskId - Task ID
+   * @returns Promise<TimeEntry[]> - Entries of every user, running ones included
+   * @throws Error if task not found
+   */
+  async getTimeEntries(taskId: string): Promise<TimeEntry[]> {
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const entries = await prisma.timeEntry.findMany({
+        where: { taskId },
+        include: TIME_ENTRY_INCLUDE,
+        orderBy: { startedAt: "desc" },
+      });
+
+      return entries.map(convertPrismaTimeEntryToTimeEntry);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve time entries: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves the running timer of a user
+   * @param userId - User ID
+   * @returns Promise<TimeEntry> - The running entry
+   * @throws Error if the user has no running timer
+   */
+  async getRunningTimer(userId: string): Promise<TimeEntry> {
+    const entry = await prisma.timeEntry.findFirst({
+      where: { userId, endedAt: null },
+      include: TIME_ENTRY_INCLUDE,
+    });
+    if (!entry) {
+      throw new Error("Running timer not found");
+    }
+
+    return convertPrismaTimeEntryToTimeEntry(entry);
+  }
+
+  /**
+   * Starts a timer on a task, stopping the user's running timer if any
+   * A partial unique index keeps one running entry per user; a start that
+   * loses the race to a concurrent one runs again and stops that one instead
+   * @param taskId - Task ID
+   * @param userId - ID of the user tracking the time
+   * @param data - Optional note
+   * @param now - Current time (for tests)
+   * @returns Promise<TimeEntry> - The running entry
+   * @throws Error if task not found
+   */
+  async startTimer(
+    taskId: string,
+    userId: string,
+    data: StartTimerRequest = {},
+    now: Date = new Date()
+  ): Promise<TimeEntry> {
+    await this.ensureTaskExists(taskId);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const [, entry] = await prisma.$transaction([
+          prisma.timeEntry.updateMany({
+            where: { userId, endedAt: null },
+            data: { endedAt: now },
+          }),
+          prisma.timeEntry.create({
+            data: {
+              taskId,
+              userId,
+              startedAt: now,
+              ...(data.note && { note: data.note }),
+            },
+            include: TIME_ENTRY_INCLUDE,
+          }),
+        ]);
+
+        return convertPrismaTimeEntryToTimeEntry(entry);
+      } catch (error) {
+        if (
+          attempt < START_ATTEMPTS &&
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002"
+        ) {
+          continue;
+        }
+        throw new Error(
+          `Failed to start timer: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * Stops the timer a user has running on a task
+   * @param taskId - Task ID
+   * @param userId - ID of the user tracking the time
+   * @param now - Current time (for tests)
+   * @returns Promise<TimeEntry> - The finished entry
+   * @throws Error if the user has no timer running on the task
+   */
+  async stopTimer(
+    taskId: string,
+    userId: string,
+    now: Date = new Date()
+  ): Promise<TimeEntry> {
+    const running = await prisma.timeEntry.findFirst({
+      where: { taskId, userId, endedAt: null },
+    });
+    if (!running) {
+      throw new Error(`Running timer for task ${taskId} not found`);
+    }
+
+    try {
+      const entry = await prisma.timeEntry.update({
+        where: { id: running.id },
+        data: { endedAt: now },
+        include: TIME_ENTRY_INCLUDE,
+      });
+
+      return convertPrismaTimeEntryToTimeEntry(entry);
+    } catch (error) {
+      throw new Error(
+        `Failed to stop timer: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Logs work done without a timer
+   * @param taskId - Task ID
+   * @param userId - ID of the user who did the work
+   * @param data - Start, end and optional note (already sanitized)
+   * @param now - Current time (for tests)
+   * @returns Promise<TimeEntry> - The created entry
+   * @throws Error if task not found or the period is invalid
+   */
+  async createTimeEntry(
+    taskId: string,
+    userId: string,
+    data: CreateTimeEntryRequest,
+    now: Date = new Date()
+  ): Promise<TimeEntry> {
+    const startedAt = new Date(data.startedAt);
+    const endedAt = new Date(data.endedAt);
+    if (Number.isNaN(startedAt.getTime()) || Number.isNaN(endedAt.getTime())) {
+      throw new Error("Invalid time entry: dates must be ISO 8601");
+    }
+    if (endedAt <= startedAt) {
+      throw new Error("Invalid time entry: endedAt must be after startedAt");
+    }
+    if (endedAt > now) {
+      throw new Error("Invalid time entry: endedAt cannot be in the future");
+    }
+
+    await this.ensureTaskExists(taskId);
+
+    try {
+      const entry = await prisma.timeEntry.create({
+        data: {
+          taskId,
+          userId,
+          startedAt,
+          endedAt,
+          ...(data.note && { note: data.note }),
+        },
+        include: TIME_ENTRY_INCLUDE,
+      });
+
+      return convertPrismaTimeEntryToTimeEntry(entry);
+    } catch (error) {
+      throw new Error(
+        `Failed to create time entry: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * Retrieves the finished entries of a user in a period, oldest first
+   * Entries on trashed tasks are kept: the work was still done
+   * @param filters - User and period
+   * @returns Promise<TimeEntry[]> - Entries with their task and board
+   */
+  async getTimesheet(filters: TimesheetFilters): Promise<TimeEntry[]> {
+    if (filters.to <= filters.from) {
+      throw new Error("Invalid period: to must be after from");
+    }
+
+    try {
+      const entries = await prisma.timeEntry.findMany({
+        where: {
+          userId: filters.userId,
+          endedAt: { not: null },
+          startedAt: { gte: filters.from, lt: filters.to },
+        },
+        include: TIME_ENTRY_INCLUDE,
+        orderBy: { startedAt: "asc" },
+      });
+
+      return entries.map(convertPrismaTimeEntryToTimeEntry);
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve timesheet: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  private async ensureTaskExists(taskId: string): Promise<void> {
+    const task = await prisma.task.findUnique({ where: { id: taskId } });
+    if (!task || task.deletedAt) {
+      throw new Error(`Task with ID ${taskId} not found`);
+    }
+  }
+}
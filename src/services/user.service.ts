@@ -0,0 +1,27 @@
+import { prisma } from "../db/index.js";
+import type { UserSummary } from "../models/index.js";
+
+/**
+ * UserService - Read access to user accounts
+ * Exposes only public user information (never password hashes)
+ */
+export class UserService {
+  /**
+   * Retrieves all users ordered by username
+   * @returns Promise<UserSummary[]> - Array of users
+   */
+  async getAllUsers(): Promise<UserSummary[]> {
+    try {
+      return await prisma.user.findMany({
+        select: { id: true, username: true },
+        orderBy: { username: "asc" },
+      });
+    } catch (error) {
+      throw new Error(
+        `Failed to retrieve users: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db/index.js";
+import type {
+  Task,
+  WorkflowConfig,
+  WorkflowRequirement,
+} from "../models/index.js";
+import { TaskStatus } from "../models/index.js";
+
+/**
+ * Workflow used by boards that have not configured their own:
+ * tasks move one step at a time, forwards or backwards
+ */
+export const DEFAULT_WORKFLOW: WorkflowConfig = {
+  transitions: {
+    [TaskStatus.PENDING]: [TaskStatus.IN_PROGRESS],
+    [TaskStatus.IN_PROGRESS]: [TaskStatus.PENDING, TaskStatus.COMPLETED],
+    [TaskStatus.COMPLETED]: [TaskStatus.IN_PROGRESS],
+  },
+  requirements: {},
+};
+
+const WORKFLOW_REQUIREMENTS: WorkflowRequirement[] = [
+  "assignee",
+  "description",
+];
+
+/**
+ * Fields the workflow looks at; edits pass null for cleared values
+ */
+type WorkflowSubject = Pick<Task, "boardId" | "status"> & {
+  assigneeId?: string | null | undefined;
+  description?: string | null | undefined;
+};
+
+/**
+ * Raised when the board workflow does not allow a task move
+ * Carries the details returned to clients in the 422 response
+ */
+export class WorkflowTransitionError extends Error {
+  constructor(
+    readonly from: TaskStatus,
+    readonly to: TaskStatus,
+    readonly allowed: TaskStatus[],
+    readonly missing: WorkflowRequirement[]
+  ) {
+    super(
+      missing.length === 0
+        ? `Transition from ${from} to ${to} is not allowed`
+        : from === to
+          ? `Tasks in ${to} require: ${missing.join(", ")}`
+          : `Transition from ${from} to ${to} requires: ${missing.join(", ")}`
+    );
+    this.name = "WorkflowTransitionError";
+  }
+}
+
+/**
+ * WorkflowService - Loads, validates and enforces board workflows
+ */
+export class WorkflowService {
+  /**
+   * Returns the workflow of a board (the default one if not configured)
+   * @param boardId - Board ID
+   * @param db - Transaction to read in, if any
+   * @returns Promise<WorkflowConfig> - The effective workflow
+   */
+  async getWorkflow(
+    boardId: string,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<WorkflowConfig> {
+    const board = await db.board.findUnique({ where: { id: boardId } });
+
+    return (board?.workflow as WorkflowConfig | null) ?? DEFAULT_WORKFLOW;
+  }
+
+  /**
+   * Replaces the workflow of a board
+   * @param boardId - Board ID
+   * @param workflow - New workflow, or null to restore the default
+   * @returns Promise<WorkflowConfig> - The effective workflow
+   * @throws Error if board not found or workflow is invalid
+   */
+  async updateWorkflow(
+    boardId: string,
+    workflow: WorkflowConfig | null
+  ): Promise<WorkflowConfig> {
+    const normalized =
+      workflow === null ? null : this.validateWorkflow(workflow);
+
+    const board = await prisma.board.findUnique({ where: { id: boardId } });
+    if (!board) {
+      throw new Error(`Board with ID ${boardId} not found`);
+    }
+
+    await prisma.board.update({
+      where: { id: boardId },
+      data: {
+        workflow: normalized
+          ? (normalized as unknown as Prisma.InputJsonValue)
+          : Prisma.DbNull,
+      },
+    });
+
+    return normalized ?? DEFAULT_WORKFLOW;
+  }
+
+  /**
+   * Ensures a task may move to the given status on its board
+   * @param task - Task being moved
+   * @param to - Target status
+   * @param db - Transaction to read in, if any
+   * @throws WorkflowTransitionError if the move is not allowed
+   */
+  async assertTransition(
+    task: Task,
+    to: TaskStatus,
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    if (task.status === to) {
+      return;
+    }
+
+    const workflow = await this.getWorkflow(task.boardId, db);
+    const allowed = workflow.transitions[task.status] ?? [];
+
+    if (!allowed.includes(to)) {
+      throw new WorkflowTransitionError(task.status, to, allowed, []);
+    }
+
+    const missing = (workflow.requirements[to] ?? []).filter(
+      (requirement) => !this.isSatisfied(task, requirement)
+    );
+    if (missing.length > 0) {
+      throw new WorkflowTransitionError(task.status, to, allowed, missing);
+    }
+  }
+
+  /**
+   * Ensures an edit keeps the fields the task's current status requires
+   * Only the given fields are checked, so tasks that predate a requirement
+   * can still be edited in other ways
+   * @param task - Task with the edit applied
+   * @param fields - Fields the edit changes
+   * @param db - Transaction to read in, if any
+   * @throws WorkflowTransitionError if a changed field is now missing
+   */
+  async assertRequirementsKept(
+    task: WorkflowSubject,
+    fields: WorkflowRequirement[],
+    db: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    if (fields.length === 0) {
+      return;
+    }
+
+    const workflow = await this.getWorkflow(task.boardId, db);
+    const missing = (workflow.requirements[task.status] ?? []).filter(
+      (requirement) =>
+        fields.includes(requirement) && !this.isSatisfied(task, requirement)
+    );
+    if (missing.length > 0) {
+      throw new WorkflowTransitionError(
+        task.status,
+        task.status,
+        workflow.transitions[task.status] ?? [],
+        missing
+      );
+    }
+  }
+
+  /**
+   * Checks whether a task provides a required field
+   */
+  private isSatisfied(
+    task: WorkflowSubject,
+    requirement: WorkflowRequirement
+  ): boolean {
+    switch (requirement) {
+      case "assignee":
+        return !!task.assigneeId;
+      case "description":
+        return !!task.description?.trim();
+    }
+  }
+
+  /**
+   * Validates a workflow received from a client
+   * Statuses without an entry cannot be left
+   * @throws Error if the workflow is malformed
+   */
+  private validateWorkflow(workflow: WorkflowConfig): WorkflowConfig {
+    const statuses = Object.values(TaskStatus);
+    const isStatusList = (value: unknown): value is TaskStatus[] =>
+      Array.isArray(value) &&
+      value.every((status) => statuses.includes(status));
+
+    if (!workflow?.transitions || typeof workflow.transitions !== "object") {
+      throw new Error("Invalid workflow: transitions are required");
+    }
+
+    const transitions = {} as Record<TaskStatus, TaskStatus[]>;
+    for (const status of statuses) {
+      const targets = workflow.transitions[status] ?? [];
+      if (!isStatusList(targets)) {
+        throw new Error(
+          `Invalid workflow: transitions from ${status} must be a list of ${statuses.join(", ")}`
+        );
+      }
+      transitions[status] = [...new Set(targets)];
+    }
+
+    const requirements: WorkflowConfig["requirements"] = {};
+    for (const [status, fields] of Object.entries(
+      workflow.requirements ?? {}
+    )) {
+      if (
+        !statuses.includes(status as TaskStatus) ||
+        !Array.isArray(fields) ||
+        !fields.every((field) => WORKFLOW_REQUIREMENTS.includes(field))
+      ) {
+        throw new Error(
+          `Invalid workflow: requirements must map statuses to ${WORKFLOW_REQUIREMENTS.join(", ")}`
+        );
+      }
+      requirements[status as TaskStatus] = [...new Set(fields)];
+    }
+
+    return { transitions, requirements };
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * FileStorage - Where attachment contents are kept
+ * Drivers only deal with opaque keys; names, types and sizes live in the
+ * database, so a driver can be swapped without touching the services
+ */
+export interface FileStorage {
+  /**
+   * Stores a file, replacing any previous content under the same key
+   */
+  save(key: string, data: Buffer): Promise<void>;
+
+  /**
+   * Reads a stored file
+   * @throws Error if nothing is stored under the key
+   */
+  read(key: string): Promise<Buffer>;
+
+  /**
+   * Removes a stored file; missing files are ignored
+   */
+  delete(key: string): Promise<void>;
+}
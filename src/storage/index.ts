@@ -0,0 +1,68 @@
+import type { FileStorage } from "./file-storage.js";
+import { LocalDiskStorage } from "./local-disk.storage.js";
+
+export type { FileStorage } from "./file-storage.js";
+export { LocalDiskStorage } from "./local-disk.storage.js";
+
+/**
+ * Directory used by the local driver when ATTACHMENT_DIR is not set
+ */
+const DEFAULT_ATTACHMENT_DIR = "uploads";
+
+/**
+ * Storage drivers selectable with ATTACHMENT_STORAGE (default "local")
+ * Add an entry here to support another backend
+ */
+const STORAGE_DRIVERS: Record<string, () => FileStorage> = {
+  local: () =>
+    new LocalDiskStorage(process.env.ATTACHMENT_DIR || DEFAULT_ATTACHMENT_DIR),
+};
+
+let fileStorage: FileStorage | null = null;
+
+/**
+ * Returns the configured file storage, creating it on first use
+ * @throws Error if ATTACHMENT_STORAGE names an unknown driver
+ */
+export function getFileStorage(): FileStorage {
+  if (!fileStorage) {
+    const driver = process.env.ATTACHMENT_STORAGE || "local";
+    const createStorage = STORAGE_DRIVERS[driver];
+    if (!createStorage) {
+      throw new Error(
+        `Invalid ATTACHMENT_STORAGE: ${driver}. Must be one of: ${Object.keys(
+          STORAGE_DRIVERS
+        ).join(", ")}`
+      );
+    }
+    fileStorage = createStorage();
+  }
+
+  return fileStorage;
+}
+
+/**
+ * Replaces the file storage, e.g. with a custom driver at startup
+ */
+export function setFileStorage(storage: FileStorage): void {
+  fileStorage = storage;
+}
+
+/**
+ * Removes the files of attachments whose rows were deleted in bulk
+ * A file that cannot be removed is only logged: its row is already gone
+ */
+export async function deleteStoredFiles(storageKeys: string[]): Promise<void> {
+  if (storageKeys.length === 0) {
+    return;
+  }
+
+  const storage = getFileStorage();
+  await Promise.all(
+    storageKeys.map((storageKey) =>
+      storage.delete(storageKey).catch((error) => {
+        console.error(`Failed to delete stored file ${storageKey}:`, error);
+      })
+    )
+  );
+}
@@ -4,6 +4,7 @@ import type { Request } from "express";
  * JWT payload structure
  */
 export interface JwtPayload {
+  userId: string;
   username: string;
   iat?: number;
   exp?: number;
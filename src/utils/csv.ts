@@ -0,0 +1,27 @@
+/**
+ * CSV helpers for file exports (RFC 4180, CRLF line endings)
+ */
+
+/**
+ * Characters that make spreadsheets read a cell as a formula
+ */
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Quotes a cell when needed; cells that would start a formula get a leading
+ * apostrophe so opening the export cannot run anything
+ */
+export function escapeCsvCell(value: string): string {
+  const safe = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * Builds a CSV document from a header row and data rows
+ */
+export function toCsv(header: string[], rows: string[][]): string {
+  return [header, ...rows]
+    .map((row) => row.map(escapeCsvCell).join(","))
+    .join("\r\n")
+    .concat("\r\n");
+}
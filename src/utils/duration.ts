@@ -0,0 +1,16 @@
+/**
+ * Whole seconds between two dates (never negative)
+ */
+export function durationSeconds(startedAt: Date, endedAt: Date): number {
+  return Math.max(
+    0,
+    Math.round((endedAt.getTime() - startedAt.getTime()) / 1000)
+  );
+}
+
+/**
+ * Seconds as decimal hours with two decimals, e.g. 5400 → "1.50"
+ */
+export function formatHours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
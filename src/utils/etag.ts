@@ -0,0 +1,23 @@
+/**
+ * Strong entity tag of a task version, e.g. 3 → "3" (quotes included)
+ */
+export function formatETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Version named by an If-Match header
+ * If-Match compares strongly, so a weak tag (W/"3") is rejected like any
+ * other malformed value; "*" matches any copy
+ * @returns The version, undefined when the write is not conditional, or
+ * null when the header is not a single task ETag
+ */
+export function parseIfMatch(
+  header: string | undefined
+): number | null | undefined {
+  const value = header?.trim();
+  if (!value || value === "*") return undefined;
+
+  const match = /^"(\d{1,9})"$/.exec(value);
+  return match ? Number(match[1]) : null;
+}
@@ -0,0 +1,64 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+/**
+ * Password hashing utilities based on Node's crypto.scrypt
+ * Hashes are stored as "scrypt$<salt>$<hash>" with hex-encoded salt and key
+ */
+const SCRYPT_PREFIX = "scrypt";
+const SALT_BYTES = 16;
+const KEY_LENGTH = 64;
+
+/**
+ * Promise wrapper around crypto.scrypt
+ */
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+        return;
+      }
+      resolve(derivedKey);
+    });
+  });
+}
+
+/**
+ * Hashes a plain text password with a random salt
+ * @param password - Plain text password
+ * @returns Promise<string> - Encoded hash safe to persist
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const derivedKey = await deriveKey(password, salt);
+
+  return [SCRYPT_PREFIX, salt.toString("hex"), derivedKey.toString("hex")].join(
+    "$"
+  );
+}
+
+/**
+ * Verifies a plain text password against a stored hash
+ * Uses a constant-time comparison to avoid timing attacks
+ * @param password - Plain text password
+ * @param storedHash - Hash previously produced by hashPassword
+ * @returns Promise<boolean> - true if the password matches
+ */
+export async function verifyPassword(
+  password: string,
+  storedHash: string
+): Promise<boolean> {
+  const [prefix, saltHex, keyHex] = storedHash.split("$");
+
+  if (prefix !== SCRYPT_PREFIX || !saltHex || !keyHex) {
+    return false;
+  }
+
+  const expectedKey = Buffer.from(keyHex, "hex");
+  const derivedKey = await deriveKey(password, Buffer.from(saltHex, "hex"));
+
+  return (
+    derivedKey.length === expectedKey.length &&
+    timingSafeEqual(derivedKey, expectedKey)
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Lexicographic ranking utilities used to order tasks inside a column
+ * Ranks are base-36 strings compared with plain string ordering, so a task can
+ * always be placed between two neighbors without renumbering the column.
+ * Generated ranks never end in the lowest digit, which keeps room before them.
+ */
+const DIGITS = "0123456789abcdefghijklmnopqrstuvwxyz";
+const BASE = DIGITS.length;
+
+/**
+ * Longest rank worth keeping. Repeated inserts at the same spot or at the
+ * ends of a column grow ranks; past this length the column is rebalanced
+ * with spreadRanks instead
+ */
+export const MAX_RANK_LENGTH = 16;
+
+/**
+ * Valid rank: base-36 digits, not ending in the lowest digit
+ */
+const RANK_PATTERN = /^[0-9a-z]*[1-9a-z]$/;
+
+/**
+ * Finds a key strictly between a and b ("" is the lowest key, null the highest)
+ */
+function midpoint(a: string, b: string | null): string {
+  // Keep the common prefix and compute the midpoint of the remainders
+  if (b !== null) {
+    let n = 0;
+    while ((a[n] ?? DIGITS[0]) === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+
+  const digitA = a ? DIGITS.indexOf(a[0]!) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]!) : BASE;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)]!;
+  }
+
+  // Consecutive digits: b's first digit alone already sorts between them
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+
+  return DIGITS[digitA]! + midpoint(a.slice(1), null);
+}
+
+/**
+ * Steps the last digit of a rank by one, or returns null if that would make
+ * the rank invalid. Used at the ends of a list, where stepping grows ranks far
+ * slower than halving towards the lowest or highest key.
+ */
+function step(rank: string, delta: 1 | -1): string | null {
+  const digit = DIGITS.indexOf(rank[rank.length - 1]!) + delta;
+  if (digit < 1 || digit >= BASE) {
+    return null;
+  }
+
+  return rank.slice(0, -1) + DIGITS[digit];
+}
+
+/**
+ * Checks whether a value is a well-formed rank
+ */
+export function isValidRank(rank: string): boolean {
+  return RANK_PATTERN.test(rank);
+}
+
+/**
+ * Computes a rank that sorts between two neighbors
+ * @param before - Rank of the item above, or null for the top of the list
+ * @param after - Rank of the item below, or null for the bottom of the list
+ * @returns string - A new rank with before < rank < after
+ * @throws Error if a rank is malformed or the neighbors are out of order
+ */
+export function rankBetween(
+  before: string | null,
+  after: string | null
+): string {
+  if (
+    (before !== null && !isValidRank(before)) ||
+    (after !== null && !isValidRank(after))
+  ) {
+    throw new Error("Invalid rank: ranks must be base-36 strings");
+  }
+
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Invalid rank: ${before} must sort before ${after}`);
+  }
+
+  if (before === null && after !== null) {
+    return step(after, -1) ?? midpoint("", after);
+  }
+
+  if (before !== null && after === null) {
+    return step(before, 1) ?? midpoint(before, null);
+  }
+
+  return midpoint(before ?? "", after);
+}
+
+/**
+ * Computes evenly spaced ranks for a whole list, shortest first
+ * Every rank has the same length and ends in the middle digit, so there is
+ * room to step up or down from each one before ranks grow again
+ * @param count - Number of items in the list
+ * @returns string[] - count ranks in ascending order
+ */
+export function spreadRanks(count: number): string[] {
+  // Leave at least BASE keys between neighbors
+  let width = 1;
+  while (BASE ** width < (count + 1) * BASE) {
+    width++;
+  }
+  const gap = BASE ** width / (count + 1);
+
+  return Array.from(
+    { length: count },
+    (_, index) =>
+      Math.round((index + 1) * gap)
+        .toString(BASE)
+        .padStart(width, DIGITS[0]) + DIGITS[BASE / 2]
+  );
+}
@@ -0,0 +1,240 @@
+/**
+ * Recurrence rule utilities used to schedule recurring tasks
+ * Rules are a subset of iCalendar RRULE: FREQ (DAILY, WEEKLY or MONTHLY),
+ * INTERVAL, BYDAY (weekly) and BYMONTHDAY (monthly, negative counts from the
+ * end of the month). "daily", "weekly" and "monthly" are accepted as
+ * shorthands. Occurrences keep the time of day of the rule's start, in UTC.
+ */
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+/**
+ * Parsed recurrence rule
+ * Empty byDay / byMonthDay repeat on the weekday / day of month of the start
+ */
+export interface RecurrencePattern {
+  frequency: RecurrenceFrequency;
+  interval: number;
+  // 0 (Sunday) to 6 (Saturday)
+  byDay: number[];
+  byMonthDay: number[];
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY"];
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Months searched for a monthly occurrence before giving up
+ * (e.g. BYMONTHDAY=31 every 12 months from a 30-day month never occurs)
+ */
+const MAX_MONTHS = 12 * 100;
+
+/**
+ * Parses a rule string
+ * @throws Error if the rule is not supported
+ */
+export function parseRecurrenceRule(rule: string): RecurrencePattern {
+  const text = rule
+    .trim()
+    .toUpperCase()
+    .replace(/^RRULE:/, "");
+  const parts = new Map<string, string>();
+
+  if (FREQUENCIES.includes(text as RecurrenceFrequency)) {
+    parts.set("FREQ", text);
+  } else {
+    for (const part of text.split(";").filter(Boolean)) {
+      const [key, value] = part.split("=");
+      if (!key || !value || parts.has(key)) {
+        throw new Error(`Invalid recurrence rule: malformed part "${part}"`);
+      }
+      parts.set(key, value);
+    }
+  }
+
+  const frequency = parts.get("FREQ") as RecurrenceFrequency | undefined;
+  if (!frequency || !FREQUENCIES.includes(frequency)) {
+    throw new Error(
+      `Invalid recurrence rule: FREQ must be one of ${FREQUENCIES.join(", ")}`
+    );
+  }
+
+  const unsupported = [...parts.keys()].filter(
+    (key) => !["FREQ", "INTERVAL", "BYDAY", "BYMONTHDAY"].includes(key)
+  );
+  if (unsupported.length > 0) {
+    throw new Error(
+      `Invalid recurrence rule: unsupported ${unsupported.join(", ")}`
+    );
+  }
+
+  const interval = Number(parts.get("INTERVAL") ?? 1);
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) {
+    throw new Error("Invalid recurrence rule: INTERVAL must be 1-365");
+  }
+
+  const byDay = parseList(parts.get("BYDAY"), (value) => {
+    const day = WEEKDAYS.indexOf(value);
+    return day >= 0 ? day : null;
+  });
+  if (byDay === null) {
+    throw new Error(
+      `Invalid recurrence rule: BYDAY takes ${WEEKDAYS.join(", ")}`
+    );
+  }
+
+  const byMonthDay = parseList(parts.get("BYMONTHDAY"), (value) => {
+    const day = Number(value);
+    return Number.isInteger(day) && day !== 0 && Math.abs(day) <= 31
+      ? day
+      : null;
+  });
+  if (byMonthDay === null) {
+    throw new Error(
+      "Invalid recurrence rule: BYMONTHDAY takes 1 to 31 or -31 to -1"
+    );
+  }
+
+  if (byDay.length > 0 && frequency !== "WEEKLY") {
+    throw new Error("Invalid recurrence rule: BYDAY requires FREQ=WEEKLY");
+  }
+  if (byMonthDay.length > 0 && frequency !== "MONTHLY") {
+    throw new Error(
+      "Invalid recurrence rule: BYMONTHDAY requires FREQ=MONTHLY"
+    );
+  }
+
+  return { frequency, interval, byDay, byMonthDay };
+}
+
+/**
+ * Canonical rule string, e.g. FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH
+ */
+export function formatRecurrenceRule(pattern: RecurrencePattern): string {
+  return [
+    `FREQ=${pattern.frequency}`,
+    `INTERVAL=${pattern.interval}`,
+    ...(pattern.byDay.length > 0
+      ? [`BYDAY=${pattern.byDay.map((day) => WEEKDAYS[day]).join(",")}`]
+      : []),
+    ...(pattern.byMonthDay.length > 0
+      ? [`BYMONTHDAY=${pattern.byMonthDay.join(",")}`]
+      : []),
+  ].join(";");
+}
+
+/**
+ * First occurrence of a rule starting at startsAt that is later than after
+ * @throws Error if the rule has no further occurrence
+ */
+export function nextOccurrence(
+  pattern: RecurrencePattern,
+  startsAt: Date,
+  after: Date
+): Date {
+  const startDay = dayNumber(startsAt);
+  const timeOfDay = startsAt.getTime() - startDay * DAY_MS;
+  const at = (day: number) => new Date(day * DAY_MS + timeOfDay);
+  const firstDay = Math.max(startDay, dayNumber(after));
+
+  if (pattern.frequency === "DAILY") {
+    const offset = (firstDay - startDay) % pattern.interval;
+    const day = offset === 0 ? firstDay : firstDay + pattern.interval - offset;
+    return at(day) > after ? at(day) : at(day + pattern.interval);
+  }
+
+  if (pattern.frequency === "WEEKLY") {
+    const byDay =
+      pattern.byDay.length > 0 ? pattern.byDay : [startsAt.getUTCDay()];
+    // A full cycle of weeks plus one covers every candidate day
+    for (
+      let day = firstDay;
+      day <= firstDay + 7 * (pattern.interval + 1);
+      day++
+    ) {
+      if (
+        byDay.includes(weekday(day)) &&
+        (weekNumber(day) - weekNumber(startDay)) % pattern.interval === 0 &&
+        at(day) > after
+      ) {
+        return at(day);
+      }
+    }
+  }
+
+  if (pattern.frequency === "MONTHLY") {
+    const byMonthDay =
+      pattern.byMonthDay.length > 0
+        ? pattern.byMonthDay
+        : [startsAt.getUTCDate()];
+    const startMonth = monthNumber(startsAt);
+
+    for (
+      let month = Math.max(startMonth, monthNumber(after));
+      month <= startMonth + MAX_MONTHS;
+      month++
+    ) {
+      if ((month - startMonth) % pattern.interval !== 0) continue;
+
+      const year = Math.floor(month / 12);
+      const length = new Date(Date.UTC(year, (month % 12) + 1, 0)).getUTCDate();
+      const days = byMonthDay
+        .map((day) => (day > 0 ? day : length + day + 1))
+        // Months too short for a day are skipped, as in RRULE
+        .filter((day) => day >= 1 && day <= length)
+        .sort((a, b) => a - b);
+
+      for (const day of days) {
+        const date = at(dayNumber(new Date(Date.UTC(year, month % 12, day))));
+        if (date >= startsAt && date > after) {
+          return date;
+        }
+      }
+    }
+  }
+
+  throw new Error("Invalid recurrence rule: it has no further occurrences");
+}
+
+/**
+ * Parses a comma-separated rule value; null if any item is invalid
+ */
+function parseList(
+  value: string | undefined,
+  parse: (item: string) => number | null
+): number[] | null {
+  if (value === undefined) return [];
+
+  const items = value.split(",").map(parse);
+  if (items.some((item) => item === null)) return null;
+
+  return [...new Set(items as number[])].sort((a, b) => a - b);
+}
+
+/**
+ * Days since 1970-01-01 (UTC)
+ */
+function dayNumber(date: Date): number {
+  return Math.floor(date.getTime() / DAY_MS);
+}
+
+/**
+ * Weekday of a day number; 1970-01-01 was a Thursday
+ */
+function weekday(day: number): number {
+  return (day + 4) % 7;
+}
+
+/**
+ * Monday-based week of a day number
+ */
+function weekNumber(day: number): number {
+  return Math.floor((day + 3) / 7);
+}
+
+/**
+ * Months since year 0 (UTC)
+ */
+function monthNumber(date: Date): number {
+  return date.getUTCFullYear() * 12 + date.getUTCMonth();
+}
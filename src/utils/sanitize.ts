@@ -56,4 +56,91 @@ export class Sanitizer {
 
     return sanitized;
   }
+
+  /**
+   * Sanitizes the text fields of a task patch by trimming and escaping HTML
+   * Omitted fields stay omitted and a null description is kept to clear it
+   * @param data - Patched title and description, either optional
+   * @returns Sanitized patch fields
+   */
+  static sanitizeTaskPatch(data: {
+    title?: string;
+    description?: string | null;
+  }): { title?: string; description?: string | null } {
+    const sanitized: { title?: string; description?: string | null } = {};
+
+    if (data.title !== undefined) {
+      sanitized.title = this.escapeHtml(this.trim(data.title));
+    }
+
+    if (data.description !== undefined) {
+      sanitized.description =
+        data.description === null
+          ? null
+          : this.escapeHtml(this.trim(data.description));
+    }
+
+    return sanitized;
+  }
+
+  /**
+   * Sanitizes comment input data by trimming and escaping HTML
+   * @param data - Comment data with its body
+   * @returns Sanitized comment data
+   */
+  static sanitizeCommentInput(data: { body: string }): { body: string } {
+    return { body: this.escapeHtml(this.trim(data.body)) };
+  }
+
+  /**
+   * Sanitizes time entry input data by trimming and escaping HTML
+   * @param data - Time entry data with an optional note
+   * @returns Sanitized time entry data (no note when it is blank)
+   */
+  static sanitizeTimeEntryInput(data: { note?: string | undefined }): {
+    note?: string;
+  } {
+    const note =
+      data.note !== undefined && data.note !== null
+        ? this.escapeHtml(this.trim(data.note))
+        : "";
+
+    return note ? { note } : {};
+  }
+
+  /**
+   * Cleans an uploaded file name: drops any directory part and control
+   * characters and caps the length. Not HTML-escaped since it is sent back
+   * in Content-Disposition; clients escape it when rendering
+   * @param name - Original file name from the client
+   * @returns Safe file name ("file" when nothing usable is left)
+   */
+  static sanitizeFileName(name: string): string {
+    const baseName = name.split(/[\\/]/).pop() ?? "";
+    const cleaned = this.trim(baseName.replace(/[\u0000-\u001f\u007f]/g, ""));
+
+    return cleaned.slice(0, 255) || "file";
+  }
+
+  /**
+   * Sanitizes board input data by trimming and escaping HTML
+   * @param data - Board data with optional name and description
+   * @returns Sanitized board data
+   */
+  static sanitizeBoardInput(data: { name?: string; description?: string }): {
+    name?: string;
+    description?: string;
+  } {
+    const sanitized: { name?: string; description?: string } = {};
+
+    if (data.name !== undefined && data.name !== null) {
+      sanitized.name = this.escapeHtml(this.trim(data.name));
+    }
+
+    if (data.description !== undefined && data.description !== null) {
+      sanitized.description = this.escapeHtml(this.trim(data.description));
+    }
+
+    return sanitized;
+  }
 }
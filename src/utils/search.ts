@@ -0,0 +1,87 @@
+/**
+ * Helpers shared by the PostgreSQL full-text search and its LIKE fallback
+ */
+import { Sanitizer } from "./sanitize.js";
+
+/**
+ * Longest snippet returned for a field, in characters
+ */
+const SNIPPET_LENGTH = 160;
+
+/**
+ * Characters of context kept before the first match
+ */
+const SNIPPET_CONTEXT = 40;
+
+/**
+ * Splits a query into lowercase terms made of letters and digits only
+ */
+export function parseSearchTerms(query: string): string[] {
+  const terms = query.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+
+  return [...new Set(terms)];
+}
+
+/**
+ * Builds a PostgreSQL tsquery that matches every term as a prefix
+ * Terms only contain letters and digits, so no tsquery syntax can leak in
+ */
+export function toPrefixTsQuery(terms: string[]): string {
+  return terms.map((term) => `${term}:*`).join(" & ");
+}
+
+/**
+ * Counts the occurrences of the terms in a text (case-insensitive)
+ */
+export function countMatches(text: string, terms: string[]): number {
+  const lower = text.toLowerCase();
+
+  return terms.reduce((count, term) => count + lower.split(term).length - 1, 0);
+}
+
+/**
+ * Cuts a snippet around the first match and wraps every match in <mark>
+ * Task text is stored HTML-escaped; it is decoded first so matches never
+ * split an entity, and every piece is escaped again around the <mark> tags
+ */
+export function highlightMatches(stored: string, terms: string[]): string {
+  const text = decodeHtml(stored);
+  const pattern = terms.length
+    ? new RegExp(`(${terms.map(escapeRegExp).join("|")})`, "giu")
+    : null;
+
+  const first = pattern ? text.search(pattern) : 0;
+  const start = Math.max(
+    0,
+    Math.min(first - SNIPPET_CONTEXT, text.length - SNIPPET_LENGTH)
+  );
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const snippet = text
+    .slice(start, end)
+    .split(pattern ?? /$^/)
+    // split keeps the captured matches at odd indexes
+    .map((part, i) =>
+      i % 2 === 1
+        ? `<mark>${Sanitizer.escapeHtml(part)}</mark>`
+        : Sanitizer.escapeHtml(part)
+    )
+    .join("");
+
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Reverts Sanitizer.escapeHtml
+ */
+function decodeHtml(value: string): string {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#x27;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
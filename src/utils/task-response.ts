@@ -0,0 +1,38 @@
+import type { Task, TaskResponse } from "../models/index.js";
+
+/**
+ * Formats a task entity as an API response
+ * Optional fields are omitted when empty; shared by the REST routes and the
+ * event stream so both send the same shape
+ */
+export function formatTaskResponse(task: Task): TaskResponse {
+  return {
+    id: task.id,
+    title: task.title,
+    ...(task.description && { description: task.description }),
+    status: task.status,
+    priority: task.priority,
+    boardId: task.boardId,
+    columnId: task.columnId,
+    rank: task.rank,
+    ...(task.dueAt && { dueAt: task.dueAt.toISOString() }),
+    ...(task.estimate !== undefined && { estimate: task.estimate }),
+    version: task.version,
+    createdAt: task.createdAt.toISOString(),
+    updatedAt: task.updatedAt.toISOString(),
+    ...(task.archivedAt && { archivedAt: task.archivedAt.toISOString() }),
+    ...(task.deletedAt && { deletedAt: task.deletedAt.toISOString() }),
+    ...(task.createdById && { createdById: task.createdById }),
+    ...(task.assigneeId && { assigneeId: task.assigneeId }),
+    ...(task.assignee && { assignee: task.assignee }),
+    labels: task.labels,
+    checklist: task.checklist,
+    commentCount: task.commentCount,
+    attachmentCount: task.attachmentCount,
+    ...(task.coverAttachmentId && {
+      coverAttachmentId: task.coverAttachmentId,
+    }),
+    blockedBy: task.blockedBy,
+    loggedSeconds: task.loggedSeconds,
+  };
+}
@@ -35,6 +35,8 @@ export default defineConfig({
       "/api": {
         target: "http://localhost:3000",
         changeOrigin: true,
+        // Also forward the collaboration WebSocket
+        ws: true,
       },
     },
     // Serve from port 5173 (Vite default)